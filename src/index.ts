@@ -1,12 +1,60 @@
 /**
  * Main entry point for Listing Analysis Automation
+ *
+ * Usage:
+ *   npm run dev                    # start a new run
+ *   npm run resume -- <runId>      # resume a crashed run from its last completed step
+ *   npm run resume                 # list runs with saved checkpoints
+ *   npm run reparse -- [date] [--save]  # re-parse cached pages offline
+ *   npm run reparse -- [date] --compare-rules <file>  # A/B a rules file on cached pages
  */
 
-import { runWorkflow } from './workflow.js';
+import { runWorkflow, resumeWorkflow } from './workflow.js';
+import { compareExtractionRules, reparseCachedScrapes } from './reparse.js';
+import { DEFAULT_EXTRACTION_RULES, loadExtractionRules } from './lib/extraction-rules.js';
+import { listRuns } from './lib/checkpoint-store.js';
+import { loadConfig, loadReparseConfig } from './utils/config.js';
 
 async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const [runId] = args;
+
   try {
-    await runWorkflow();
+    if (command === 'resume') {
+      if (!runId) {
+        const runs = listRuns(loadConfig().checkpointDir);
+        console.log(runs.length > 0 ? 'Runs with saved checkpoints (most recent first):' : 'No saved runs found');
+        runs.forEach(run => console.log(`  ${run.runId}  (last checkpoint ${run.updatedAt})`));
+        return;
+      }
+      await resumeWorkflow(runId);
+    } else if (command === 'reparse') {
+      const { cacheDir, snapshotDir, rulesPath } = loadReparseConfig();
+      const rules = rulesPath ? loadExtractionRules(rulesPath) : DEFAULT_EXTRACTION_RULES;
+
+      const compareIndex = args.indexOf('--compare-rules');
+      const candidatePath = compareIndex >= 0 ? args[compareIndex + 1] : undefined;
+      if (compareIndex >= 0 && !candidatePath) {
+        throw new Error('--compare-rules needs the path of a rules file');
+      }
+      const scrapeDate = args.find(arg => !arg.startsWith('--') && arg !== candidatePath);
+
+      if (candidatePath) {
+        await compareExtractionRules({ cacheDir, scrapeDate, baseline: rules, candidate: loadExtractionRules(candidatePath) });
+      } else {
+        await reparseCachedScrapes({
+          cacheDir,
+          snapshotDir,
+          scrapeDate,
+          save: args.includes('--save'),
+          rules,
+        });
+      }
+    } else if (command) {
+      throw new Error(`Unknown command "${command}". Usage: index [resume <runId> | reparse [YYYY-MM-DD] [--save | --compare-rules <file>]]`);
+    } else {
+      await runWorkflow();
+    }
   } catch (error) {
     console.error('Fatal error:', error);
     process.exit(1);
@@ -0,0 +1,228 @@
+/**
+ * Amazon Content - A+ module text, comparison chart and customer Q&A
+ *
+ * Captures the listing copy beyond bullets and description that Amazon's AI
+ * indexes: the headline and body of each "From the manufacturer" / "From the
+ * brand" A+ module, the rows of the A+ comparison chart and the questions and
+ * answers visible on the page.
+ *
+ * A+ modules are read from the HTML (class="aplus-module"), falling back to the
+ * markdown "From the manufacturer" section with one module per sub-heading.
+ *
+ * Usage:
+ *   import { extractContent } from './lib/amazon-content';
+ *
+ *   const content = extractContent(markdown, parseHtml(html));
+ *   content.aplusModules.map(m => m.headline);      // ["Double-sleeve protection", ...]
+ *   content.comparisonChart?.rows[0];               // { attribute: 'Sleeves', values: ['100', '60'] }
+ */
+
+import { HtmlElement, matches, querySelector, querySelectorAll, textContent } from './html-dom.js';
+import { stripMarkdownLinks } from './html-text.js';
+
+export interface AplusModule {
+  headline: string | null;
+  // Module copy, truncated to MAX_MODULE_LENGTH characters
+  body: string;
+}
+
+export interface ComparisonChart {
+  // Column headers (asin is set when the column links to a product page)
+  products: Array<{ name: string; asin: string | null }>;
+  // One value per product column
+  rows: Array<{ attribute: string; values: string[] }>;
+}
+
+export interface QuestionAnswer {
+  question: string;
+  answer: string | null;
+}
+
+export interface ListingContent {
+  aplusModules: AplusModule[];
+  comparisonChart: ComparisonChart | null;
+  questions: QuestionAnswer[];
+}
+
+const MAX_MODULES = 15;
+const MAX_MODULE_LENGTH = 500;
+const MAX_QUESTIONS = 10;
+
+// A+ modules inside the A+ sections
+const APLUS_MODULES = ['#aplus', '#aplus_feature_div', '#aplusBrandStory_feature_div', '#aplus3p_feature_div']
+  .map(section => `${section} .aplus-module`)
+  .join(', ');
+
+// Headline of a module: a heading, or a bold line when the module has none
+const MODULE_HEADINGS = ['h1, h2, h3, h4, h5, h6', 'span.a-text-bold, p.a-text-bold, span[class*="aplus-h"], p[class*="aplus-h"]'];
+
+// Checkmark / cross icons in comparison chart cells
+const CHECKMARK_ICONS = '[class*="a-icon-checkmark"], [class*="aplus-checkmark"]';
+const CROSS_ICONS = '[class*="a-icon-close"], [class*="aplus-cross"]';
+
+const APLUS_HEADING = /^(#{1,4})\s*From the (?:manufacturer|brand)\b/i;
+
+function truncate(text: string): string {
+  return text.length > MAX_MODULE_LENGTH ? `${text.slice(0, MAX_MODULE_LENGTH - 1).trimEnd()}…` : text;
+}
+
+function singleLine(element: HtmlElement, exclude?: (element: HtmlElement) => boolean): string {
+  return textContent(element, exclude).replace(/\n/g, ' ');
+}
+
+function hasIcon(cell: HtmlElement, selector: string): boolean {
+  return matches(cell, selector) || querySelector(cell, selector) !== null;
+}
+
+function cellValue(cell: HtmlElement): string {
+  const text = singleLine(cell);
+  if (text) return text;
+  // Checkmark / cross icons without alt text
+  if (hasIcon(cell, CHECKMARK_ICONS)) return 'Yes';
+  if (hasIcon(cell, CROSS_ICONS)) return 'No';
+  return '';
+}
+
+function parseHtmlChart(table: HtmlElement): ComparisonChart | null {
+  const rows = querySelectorAll(table, 'tr').map(row => row.children.filter((cell): cell is HtmlElement =>
+    cell.type === 'element' && (cell.tag === 'th' || cell.tag === 'td')));
+  if (rows.length < 2) return null;
+
+  // Header row: an empty attribute cell, then one cell per product
+  const [header, ...body] = rows;
+  const products = header.slice(1).map(cell => ({
+    name: textContent(cell).split('\n')[0] ?? '',
+    asin: querySelector(cell, 'a[href*="/dp/"]')?.attributes.href.match(/\/dp\/([A-Z0-9]{10})/)?.[1] ?? null,
+  }));
+
+  return {
+    products,
+    rows: body
+      .map(cells => ({ attribute: cells[0] ? singleLine(cells[0]) : '', values: cells.slice(1).map(cellValue) }))
+      .filter(row => row.attribute && row.values.some(Boolean)),
+  };
+}
+
+function extractHtmlAplus(document: HtmlElement): Pick<ListingContent, 'aplusModules' | 'comparisonChart'> {
+  const aplusModules: AplusModule[] = [];
+  let comparisonChart: ComparisonChart | null = null;
+
+  for (const module of querySelectorAll(document, APLUS_MODULES)) {
+    const table = querySelector(module, 'table[class*="comparison"]');
+    if (table) {
+      comparisonChart = comparisonChart ?? parseHtmlChart(table);
+      continue;
+    }
+
+    const heading = MODULE_HEADINGS.map(selector => querySelector(module, selector)).find(Boolean);
+    const headline = heading ? singleLine(heading) || null : null;
+    const body = singleLine(module, element => element === heading);
+
+    // Image-only modules have no copy to index
+    if (body) aplusModules.push({ headline, body: truncate(body) });
+  }
+
+  return { aplusModules: aplusModules.slice(0, MAX_MODULES), comparisonChart };
+}
+
+function parseMarkdownChart(lines: string[]): ComparisonChart | null {
+  const rows = lines
+    .map(line => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()))
+    .filter(cells => !cells.every(cell => /^:?-*:?$/.test(cell)));
+  if (rows.length < 2) return null;
+
+  const [header, ...body] = rows;
+  return {
+    products: header.slice(1).map(name => ({ name, asin: null })),
+    rows: body
+      .map(cells => ({ attribute: cells[0], values: cells.slice(1) }))
+      .filter(row => row.attribute && row.values.some(Boolean)),
+  };
+}
+
+function extractMarkdownAplus(markdown: string): Pick<ListingContent, 'aplusModules' | 'comparisonChart'> {
+  const aplusModules: AplusModule[] = [];
+  const tableLines: string[] = [];
+  let sectionLevel = 0;
+  let current: { headline: string | null; lines: string[] } | null = null;
+
+  const flush = () => {
+    const body = current?.lines.join(' ').trim();
+    if (current && body) aplusModules.push({ headline: current.headline, body: truncate(body) });
+    current = null;
+  };
+
+  // Images (banner modules) have no copy, only alt text
+  const text = stripMarkdownLinks(markdown.replace(/!\[[^\]]*\]\([^)]*\)/g, ''));
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^(#{1,6})\s*(.+)$/);
+    const aplusHeading = line.match(APLUS_HEADING);
+
+    if (aplusHeading) {
+      flush();
+      sectionLevel = aplusHeading[1].length;
+      current = { headline: null, lines: [] };
+    } else if (sectionLevel === 0) {
+      continue;
+    } else if (heading && heading[1].length <= sectionLevel) {
+      flush();
+      sectionLevel = 0;
+    } else if (heading) {
+      flush();
+      current = { headline: heading[2].trim(), lines: [] };
+    } else if (line.trim().startsWith('|')) {
+      tableLines.push(line);
+    } else if (line.trim()) {
+      current?.lines.push(line.trim());
+    }
+  }
+  flush();
+
+  return { aplusModules: aplusModules.slice(0, MAX_MODULES), comparisonChart: parseMarkdownChart(tableLines) };
+}
+
+/**
+ * Pair "Question:" lines with the "Answer:" that follows them
+ */
+export function parseQuestions(text: string): QuestionAnswer[] {
+  const lines = text.split('\n').map(line => line.replace(/\*\*|__/g, '').trim()).filter(Boolean);
+  const questions: QuestionAnswer[] = [];
+
+  for (let i = 0; i < lines.length && questions.length < MAX_QUESTIONS; i++) {
+    const question = lines[i].match(/^Question:?\s*(.*)$/i);
+    if (!question) continue;
+
+    const questionText = question[1] || lines[i + 1] || '';
+    let answer: string | null = null;
+    for (let j = i + 1; j < Math.min(lines.length, i + 4); j++) {
+      if (/^Question:?/i.test(lines[j])) break;
+      const answerMatch = lines[j].match(/^Answer:?\s*(.*)$/i);
+      if (answerMatch) {
+        answer = answerMatch[1] || lines[j + 1] || null;
+        break;
+      }
+    }
+
+    if (questionText && !questions.some(q => q.question === questionText)) {
+      questions.push({ question: questionText, answer });
+    }
+  }
+
+  return questions;
+}
+
+/**
+ * Extract A+ module text, the comparison chart and visible Q&A
+ */
+export function extractContent(markdown: string, document: HtmlElement): ListingContent {
+  const htmlAplus = extractHtmlAplus(document);
+  const markdownAplus = extractMarkdownAplus(markdown);
+  const htmlQuestions = parseQuestions(textContent(document));
+
+  return {
+    aplusModules: htmlAplus.aplusModules.length > 0 ? htmlAplus.aplusModules : markdownAplus.aplusModules,
+    comparisonChart: htmlAplus.comparisonChart ?? markdownAplus.comparisonChart,
+    questions: htmlQuestions.length > 0 ? htmlQuestions : parseQuestions(stripMarkdownLinks(markdown)),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Amazon Details - Best Sellers Rank, category path and product details table
+ *
+ * Reads the "Product details" / "Technical Details" / "Additional Information"
+ * sections (tables, detail bullets or the product overview) into a label → value
+ * map, and derives the fields the analysis relies on from it: Best Sellers Rank per
+ * category, brand, manufacturer, date first available, dimensions and weight. The
+ * breadcrumb gives the category path.
+ *
+ * Labels are matched in English and German; other labels still land in
+ * technicalDetails as shown on the page.
+ *
+ * Usage:
+ *   import { extractDetails } from './lib/amazon-details';
+ *
+ *   const details = extractDetails(markdown, parseHtml(html));
+ *   details.bestSellersRanks;  // [{ rank: 1234, category: 'Toys & Games' }, { rank: 5, category: 'Trading Card Sleeves' }]
+ */
+
+import { HtmlElement, nextElementSibling, querySelector, querySelectorAll, textContent } from './html-dom.js';
+import { stripMarkdownLinks } from './html-text.js';
+import { parseCount } from './marketplaces.js';
+
+export interface BestSellersRank {
+  rank: number;
+  category: string;
+}
+
+export interface ListingDetails {
+  // Top-level category first, then sub-categories
+  bestSellersRanks: BestSellersRank[];
+  // Breadcrumb, broadest category first
+  categoryPath: string[];
+  brand: string | null;
+  manufacturer: string | null;
+  // YYYY-MM-DD when the date could be parsed, otherwise as shown on the page
+  dateFirstAvailable: string | null;
+  dimensions: string | null;
+  weight: string | null;
+  // Product details / technical details table, label → value as shown
+  technicalDetails: Record<string, string>;
+}
+
+// Lower-case labels per field (English, German)
+const DETAIL_LABELS = {
+  brand: ['brand', 'brand name', 'marke'],
+  manufacturer: ['manufacturer', 'hersteller'],
+  dateFirstAvailable: ['date first available', 'im angebot von amazon.de seit'],
+  dimensions: ['product dimensions', 'item dimensions', 'item dimensions l x w x h', 'package dimensions', 'produktabmessungen', 'verpackungsabmessungen'],
+  weight: ['item weight', 'weight', 'artikelgewicht'],
+};
+
+// Rows with their own fields (or noise) that are kept out of technicalDetails
+const EXCLUDED_LABELS = ['best sellers rank', 'amazon bestseller-rang', 'customer reviews', 'kundenrezensionen'];
+
+const BEST_SELLERS_RANK_LABEL = /Best Sellers Rank|Amazon Bestseller-Rang/i;
+
+// Detail tables in priority order: the full details tables, then the product overview
+const DETAIL_TABLES = [
+  'table[id^="productDetails_"], table[id^="technicalSpecifications_section_"]',
+  '#productOverview_feature_div table',
+];
+
+const DETAIL_SECTION_HEADINGS = /^#{1,4}\s*(?:Product (?:details|information)|Technical Details|Additional Information|Produktinformation|Technische Details)/i;
+
+function normalizeLabel(label: string): string {
+  return label.replace(/[\s:]+$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function cellText(element: HtmlElement): string {
+  return textContent(element).replace(/\n/g, ' ');
+}
+
+/**
+ * Label/value rows from the detail tables and detail bullets in the page
+ */
+function collectHtmlDetails(document: HtmlElement): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+
+  for (const table of DETAIL_TABLES.flatMap(selector => querySelectorAll(document, selector))) {
+    for (const row of querySelectorAll(table, 'tr')) {
+      const [label, value] = row.children.filter((cell): cell is HtmlElement =>
+        cell.type === 'element' && (cell.tag === 'th' || cell.tag === 'td'));
+      if (label && value?.tag === 'td') rows.push([cellText(label), cellText(value)]);
+    }
+  }
+
+  // <span class="a-text-bold">Brand ‏ : ‎</span> <span>Ultimate Guard</span>
+  for (const label of querySelectorAll(document, '#detailBullets_feature_div span.a-text-bold')) {
+    const value = nextElementSibling(label);
+    if (value?.tag === 'span') rows.push([cellText(label), cellText(value)]);
+  }
+
+  return rows;
+}
+
+/**
+ * Label/value rows from the detail sections of the markdown (tables or "Label : Value" lines)
+ */
+function collectMarkdownDetails(markdown: string): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  let inSection = false;
+
+  for (const line of stripMarkdownLinks(markdown).replace(/[\u200e\u200f]/g, '').split('\n')) {
+    if (/^#{1,4}\s/.test(line)) {
+      inSection = DETAIL_SECTION_HEADINGS.test(line);
+      continue;
+    }
+    if (!inSection) continue;
+
+    const tableRow = line.match(/^\|\s*([^|]+?)\s*\|\s*([^|]+?)\s*\|\s*$/);
+    if (tableRow && !/^[-:\s]+$/.test(tableRow[1])) {
+      rows.push([tableRow[1], tableRow[2]]);
+      continue;
+    }
+
+    const labeled = line.match(/^(?:[-*]\s*)?([^:|\n]{2,60}?)\s*:\s*(.+)$/);
+    if (labeled) rows.push([labeled[1], labeled[2].trim()]);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse "#1,234 in Toys & Games (See Top 100 ...) #5 in Trading Card Sleeves"
+ */
+export function parseBestSellersRanks(text: string): BestSellersRank[] {
+  const start = text.search(BEST_SELLERS_RANK_LABEL);
+  if (start < 0) return [];
+
+  const ranks: BestSellersRank[] = [];
+  const section = text.slice(start, start + 1000);
+  for (const [, rank, category] of section.matchAll(/(?:#|Nr\.\s?)\s?(\d[\d,.]*)\s+in\s+([^#(\n|]+)/g)) {
+    const name = category.replace(/[\s)\]:,.-]+$/, '').trim();
+    if (name && !ranks.some(r => r.category === name)) {
+      ranks.push({ rank: parseCount(rank), category: name });
+    }
+  }
+
+  return ranks;
+}
+
+function extractCategoryPath(markdown: string, document: HtmlElement): string[] {
+  const path = querySelectorAll(document, '#wayfinding-breadcrumbs_feature_div a').map(cellText).filter(Boolean);
+  if (path.length > 0) return path;
+
+  // "[Toys & Games](...) › [Trading Cards](...) › [Card Sleeves](...)"
+  for (const line of stripMarkdownLinks(markdown).split('\n')) {
+    const parts = line.replace(/^[-*]\s*/, '').split('›').map(part => part.trim());
+    if (parts.length >= 2 && parts.every(part => part.length > 0 && part.length <= 60)) {
+      return parts;
+    }
+  }
+
+  return [];
+}
+
+function extractBylineBrand(document: HtmlElement): string | null {
+  const byline = querySelector(document, '#bylineInfo');
+  if (!byline) return null;
+
+  const text = cellText(byline);
+  const brand = text.match(/^Visit the (.+?) Store$/i)?.[1]
+    ?? text.match(/^Besuchen Sie den (.+?)-Store$/i)?.[1]
+    ?? text.match(/^(?:Brand|Marke):\s*(.+)$/i)?.[1];
+  return brand ?? (text || null);
+}
+
+function toIsoDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Extract Best Sellers Rank, category path and the product details table
+ */
+export function extractDetails(markdown: string, document: HtmlElement): ListingDetails {
+  const htmlRows = collectHtmlDetails(document);
+  const rows = htmlRows.length > 0 ? htmlRows : collectMarkdownDetails(markdown);
+
+  // First occurrence of a label wins (detail tables and bullets can repeat rows)
+  const technicalDetails: Record<string, string> = {};
+  for (const [rawLabel, value] of rows) {
+    const label = normalizeLabel(rawLabel);
+    if (!label || !value || EXCLUDED_LABELS.includes(label.toLowerCase())) continue;
+    if (!(label in technicalDetails)) technicalDetails[label] = value;
+  }
+
+  const find = (labels: string[]): string | null => {
+    const label = Object.keys(technicalDetails).find(l => labels.includes(l.toLowerCase()));
+    return label ? technicalDetails[label] : null;
+  };
+
+  // "3.7 x 2.7 x 1.4 inches; 3.53 ounces"
+  let dimensions = find(DETAIL_LABELS.dimensions);
+  let weight = find(DETAIL_LABELS.weight);
+  if (dimensions?.includes(';')) {
+    const [size, ...rest] = dimensions.split(';');
+    dimensions = size.trim();
+    weight = weight ?? (rest.join(';').trim() || null);
+  }
+
+  const dateFirstAvailable = find(DETAIL_LABELS.dateFirstAvailable);
+  const pageText = textContent(document);
+  const rankText = BEST_SELLERS_RANK_LABEL.test(pageText) ? pageText : stripMarkdownLinks(markdown);
+
+  return {
+    bestSellersRanks: parseBestSellersRanks(rankText),
+    categoryPath: extractCategoryPath(markdown, document),
+    brand: find(DETAIL_LABELS.brand) ?? extractBylineBrand(document),
+    manufacturer: find(DETAIL_LABELS.manufacturer),
+    dateFirstAvailable: dateFirstAvailable && toIsoDate(dateFirstAvailable),
+    dimensions,
+    weight,
+    technicalDetails,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Amazon Media - Product videos and 360-view presence
+ *
+ * The image extractor only sees /images/I/ URLs; videos live in the gallery data
+ * embedded in the page scripts ("videos": [...]) and in the "Videos for this
+ * product" carousel, and 360 spins are flagged in the image block. Counts fall
+ * back to the gallery label in the markdown ("6 VIDEOS").
+ *
+ * Usage:
+ *   import { extractMedia } from './lib/amazon-media';
+ *
+ *   const media = extractMedia(markdown, html);
+ *   console.log(`${media.videoCount} videos, 360 view: ${media.has360View}`);
+ */
+
+import { decodeEntities, htmlToText } from './html-text.js';
+
+export interface ListingVideo {
+  title: string | null;
+  thumbnailUrl: string | null;
+  // null when the page shows no duration
+  durationSeconds: number | null;
+  // 'gallery' = in the image block, 'carousel' = "Videos for this product" (may include creator videos)
+  source: 'gallery' | 'carousel';
+}
+
+export interface ListingMedia {
+  // At least videos.length; higher when the page only labels how many videos there are
+  videoCount: number;
+  videos: ListingVideo[];
+  has360View: boolean;
+}
+
+// Gallery entry as embedded in the page scripts (field names vary between page versions)
+interface GalleryVideoData {
+  title?: string;
+  thumb?: string;
+  thumbUrl?: string;
+  slateUrl?: string;
+  durationSeconds?: number;
+  durationTimestamp?: string;
+  duration?: string;
+}
+
+const SPIN_360_PATTERN = /id="spin360[^"]*"|"(?:has|is)Spin360"\s*:\s*true|360[°º]\s*View/i;
+
+/**
+ * Parse a "1:23" / "1:02:03" duration into seconds
+ */
+export function parseDuration(text: string | undefined): number | null {
+  const match = text?.match(/^\s*(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\s*$/);
+  if (!match) return null;
+  return (parseInt(match[1] || '0', 10) * 60 + parseInt(match[2], 10)) * 60 + parseInt(match[3], 10);
+}
+
+/**
+ * The JSON array after `"key":` in a script, matched bracket by bracket
+ */
+function extractJsonArray(html: string, key: string): unknown[] | null {
+  const keyMatch = html.match(new RegExp(`"${key}"\\s*:\\s*\\[`));
+  if (keyMatch?.index === undefined) return null;
+
+  const start = keyMatch.index + keyMatch[0].length - 1;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        try {
+          const parsed = JSON.parse(html.slice(start, i + 1));
+          return Array.isArray(parsed) ? parsed : null;
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function extractGalleryVideos(html: string): ListingVideo[] {
+  const entries = (extractJsonArray(html, 'videos') ?? []) as GalleryVideoData[];
+
+  return entries
+    .filter(entry => entry && typeof entry === 'object')
+    .map(entry => ({
+      title: entry.title ? decodeEntities(entry.title) : null,
+      thumbnailUrl: entry.thumbUrl ?? entry.thumb ?? entry.slateUrl ?? null,
+      durationSeconds: entry.durationSeconds ?? parseDuration(entry.durationTimestamp ?? entry.duration),
+      source: 'gallery' as const,
+    }));
+}
+
+function extractCarouselVideos(html: string): ListingVideo[] {
+  // One card per element carrying a video URL
+  const cards = html.split(/(?=<[a-z]+[^>]*\sdata-(?:vse-)?video-url=")/i).slice(1);
+
+  return cards.map(card => {
+    const tag = card.slice(0, card.indexOf('>') + 1);
+    const title = tag.match(/data-(?:vse-)?title="([^"]*)"/)?.[1] ?? tag.match(/aria-label="([^"]*)"/)?.[1];
+    const thumbnail = tag.match(/data-(?:vse-)?thumbnail-url="([^"]*)"/)?.[1] ?? card.match(/<img[^>]*src="([^"]*)"/)?.[1];
+    const duration = htmlToText(card).match(/\b((?:\d{1,2}:)?\d{1,2}:\d{2})\b/)?.[1];
+
+    return {
+      title: title ? decodeEntities(title) : null,
+      thumbnailUrl: thumbnail ?? null,
+      durationSeconds: parseDuration(duration),
+      source: 'carousel' as const,
+    };
+  });
+}
+
+/**
+ * Extract product videos and 360-view presence
+ */
+export function extractMedia(markdown: string, html: string): ListingMedia {
+  const videos: ListingVideo[] = [];
+
+  // The carousel often repeats gallery videos
+  for (const video of [...extractGalleryVideos(html), ...extractCarouselVideos(html)]) {
+    const duplicate = video.thumbnailUrl !== null && videos.some(v => v.thumbnailUrl === video.thumbnailUrl);
+    if (!duplicate) videos.push(video);
+  }
+
+  // Gallery label, e.g. "6 VIDEOS" under the thumbnails
+  const labeled = `${htmlToText(html)}\n${markdown}`.match(/\b(\d{1,3})\s+VIDEOS?\b/);
+
+  return {
+    videoCount: Math.max(videos.length, labeled ? parseInt(labeled[1], 10) : 0),
+    videos,
+    has360View: SPIN_360_PATTERN.test(html) || SPIN_360_PATTERN.test(markdown),
+  };
+}
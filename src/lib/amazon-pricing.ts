@@ -0,0 +1,132 @@
+/**
+ * Amazon Pricing - Buybox, list price, coupon and deal extraction
+ *
+ * Reads the offer shown in the buybox rather than the first amount on the page: the
+ * price a shopper pays, the strike-through list price, the savings percentage,
+ * coupon badges, Lightning / Limited-time deal flags and the Subscribe & Save
+ * price. Amounts are read in the marketplace currency; label text ("List Price",
+ * "Apply 15% coupon") is matched in English, HTML markers (buybox containers,
+ * data-a-strike) on every marketplace by selector on the parsed page. The selector
+ * chains and text patterns come from the extraction rules (selectors.buyboxPrice,
+ * pricing.couponPercent, ...), so a rules file can fix them without a release.
+ *
+ * Usage:
+ *   import { extractPricing } from './lib/amazon-pricing';
+ *
+ *   const document = parseHtml(html);
+ *   const pricing = extractPricing(markdown, document, getMarketplace('US'));
+ *   const patched = extractPricing(markdown, document, marketplace, compileFieldRules(rules, marketplace));
+ *   if (pricing.coupon) console.log(`Coupon: ${pricing.coupon.value}${pricing.coupon.kind === 'percent' ? '%' : ''}`);
+ */
+
+import { Marketplace, getPricePatterns, parseAmount } from './marketplaces.js';
+import { HtmlElement, querySelectorAll, textContent } from './html-dom.js';
+import { CompiledFieldRules, DEFAULT_EXTRACTION_RULES, compileFieldRules } from './extraction-rules.js';
+
+export interface ListingCoupon {
+  kind: 'percent' | 'amount';
+  // Percent off, or amount off in the marketplace currency
+  value: number;
+}
+
+export interface ListingPricing {
+  // Price to pay in the buybox (null when the page has no recognizable buybox)
+  buyboxPrice: number | null;
+  // Strike-through "List Price" / "Was" price
+  listPrice: number | null;
+  // Discount off the list price in percent, as shown or computed from the two prices
+  savingsPercent: number | null;
+  coupon: ListingCoupon | null;
+  lightningDeal: boolean;
+  limitedTimeDeal: boolean;
+  subscribeAndSavePrice: number | null;
+}
+
+type PricingRules = Pick<CompiledFieldRules, 'selectors' | 'pricing'>;
+
+function matchAmount(text: string, patterns: RegExp[], marketplace: Marketplace): number | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return parseAmount(match[1], marketplace);
+  }
+  return null;
+}
+
+function matchPercent(text: string, patterns: RegExp[]): number | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+/**
+ * The first value an element's text yields, trying the selectors in order
+ */
+function elementValue(document: HtmlElement, selectors: string[], read: (text: string) => number | null): number | null {
+  for (const selector of selectors) {
+    for (const element of querySelectorAll(document, selector)) {
+      const value = read(textContent(element));
+      if (value !== null) return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * The amount the first matching element starts with, trying the selectors in order
+ */
+function elementAmount(document: HtmlElement, selectors: string[], marketplace: Marketplace): number | null {
+  const patterns = getPricePatterns(marketplace).map(price => new RegExp(`^\\s*${price}`, 'i'));
+  return elementValue(document, selectors, text => matchAmount(text, patterns, marketplace));
+}
+
+function extractSavingsPercent(markdown: string, document: HtmlElement, rules: PricingRules, hasListPrice: boolean): number | null {
+  return elementValue(document, rules.selectors.savingsPercent, text => matchPercent(text, [/^-?\s*(\d{1,2})\s*%/]))
+    ?? matchPercent(markdown, rules.pricing.savingsPercent)
+    ?? (hasListPrice ? matchPercent(markdown, rules.pricing.listPriceSavingsPercent) : null);
+}
+
+function extractCoupon(markdown: string, pageText: string, rules: PricingRules, marketplace: Marketplace): ListingCoupon | null {
+  for (const text of [markdown, pageText]) {
+    const percent = matchPercent(text, rules.pricing.couponPercent);
+    if (percent !== null) return { kind: 'percent', value: percent };
+
+    const amount = matchAmount(text, rules.pricing.couponAmount, marketplace);
+    if (amount !== null) return { kind: 'amount', value: amount };
+  }
+  return null;
+}
+
+/**
+ * Extract the buybox offer from a listing page
+ */
+export function extractPricing(
+  markdown: string,
+  document: HtmlElement,
+  marketplace: Marketplace,
+  rules: PricingRules = compileFieldRules(DEFAULT_EXTRACTION_RULES, marketplace)
+): ListingPricing {
+  const pageText = textContent(document);
+  const buyboxPrice = elementAmount(document, rules.selectors.buyboxPrice, marketplace);
+  const listPrice = elementAmount(document, rules.selectors.listPrice, marketplace)
+    ?? matchAmount(markdown, rules.pricing.listPrice, marketplace);
+
+  let savingsPercent = extractSavingsPercent(markdown, document, rules, listPrice !== null);
+  if (savingsPercent === null && buyboxPrice !== null && listPrice !== null && listPrice > buyboxPrice) {
+    savingsPercent = Math.round(((listPrice - buyboxPrice) / listPrice) * 100);
+  }
+
+  const page = `${markdown}\n${pageText}`;
+
+  return {
+    buyboxPrice,
+    listPrice,
+    savingsPercent,
+    coupon: extractCoupon(markdown, pageText, rules, marketplace),
+    lightningDeal: rules.pricing.lightningDeal.some(pattern => pattern.test(page)),
+    limitedTimeDeal: rules.pricing.limitedTimeDeal.some(pattern => pattern.test(page)),
+    subscribeAndSavePrice: elementAmount(document, rules.selectors.subscribeAndSavePrice, marketplace)
+      ?? matchAmount(markdown, rules.pricing.subscribeAndSavePrice, marketplace),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Amazon Reviews - Star histogram, review snippets and "Customers say" summary
+ *
+ * Reads what the listing page shows about its reviews beyond the average rating:
+ * the share of ratings per star, the reviews rendered on the page (split into
+ * top positive and top critical by their stars) and Amazon's AI-generated
+ * "Customers say" summary.
+ *
+ * Review snippets come from the HTML review blocks (data-hook="review"); the
+ * histogram is read from the histogram link labels or the HTML text and the
+ * summary from the HTML text, both falling back to the markdown.
+ *
+ * Usage:
+ *   import { extractReviews } from './lib/amazon-reviews';
+ *
+ *   const reviews = extractReviews(markdown, parseHtml(html), getMarketplace('US'));
+ *   reviews.starHistogram?.[1];                   // 6 (% of 1-star ratings)
+ *   reviews.topCritical.map(r => r.title);        // ["Sleeves split after a week"]
+ */
+
+import { Marketplace } from './marketplaces.js';
+import { HtmlElement, querySelector, querySelectorAll, textContent } from './html-dom.js';
+import { stripMarkdownLinks } from './html-text.js';
+
+export type StarHistogram = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface ReviewSnippet {
+  title: string;
+  // Review text, truncated to MAX_SNIPPET_LENGTH characters
+  text: string;
+  rating: number | null;
+}
+
+export interface ListingReviews {
+  // Share of ratings per star in percent (null when the page shows no histogram)
+  starHistogram: StarHistogram | null;
+  // Reviews on the page rated 4-5 stars, page order
+  topPositive: ReviewSnippet[];
+  // Reviews on the page rated 1-2 stars, page order
+  topCritical: ReviewSnippet[];
+  // AI-generated "Customers say" summary
+  customersSay: string | null;
+}
+
+const MAX_SNIPPETS = 3;
+const MAX_SNIPPET_LENGTH = 300;
+
+// Line after the "Customers say" heading shorter than this is a label, not the summary
+const MIN_SUMMARY_LENGTH = 40;
+
+function ratingPattern(marketplace: Marketplace): RegExp {
+  const { text } = marketplace;
+  const ratingNumber = '(\\d+[.,]\\d+)';
+  return new RegExp(text.ratingFirst ? `${ratingNumber}\\s*${text.outOfFiveStars}` : `${text.outOfFiveStars}\\s*${ratingNumber}`, 'i');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Parse the star histogram ("5 star 72%", or aria-label "72 percent of reviews have 5 stars")
+ *
+ * @returns null unless all five stars are found
+ */
+export function parseStarHistogram(text: string, marketplace: Marketplace): StarHistogram | null {
+  const shares = new Map<number, number>();
+
+  for (const [, percent, stars] of text.matchAll(/(\d{1,3}) percent of reviews have ([1-5]) stars?/gi)) {
+    if (!shares.has(Number(stars))) shares.set(Number(stars), Number(percent));
+  }
+  const starLabel = new RegExp(`\\b([1-5])\\s*(?:star|${marketplace.text.stars})\\s*[|\\n]*\\s*(\\d{1,3})\\s*%`, 'gi');
+  for (const [, stars, percent] of text.matchAll(starLabel)) {
+    if (!shares.has(Number(stars))) shares.set(Number(stars), Number(percent));
+  }
+
+  if (shares.size < 5) return null;
+  return { 5: shares.get(5)!, 4: shares.get(4)!, 3: shares.get(3)!, 2: shares.get(2)!, 1: shares.get(1)! };
+}
+
+/**
+ * Text of the first element with the given data-hook in a review block
+ */
+function hookText(block: HtmlElement, hook: string): string {
+  const element = querySelector(block, `[data-hook="${hook}"]`);
+  return element ? textContent(element).replace(/\n/g, ' ') : '';
+}
+
+function collectReviewSnippets(document: HtmlElement, marketplace: Marketplace): ReviewSnippet[] {
+  const rating = ratingPattern(marketplace);
+
+  return querySelectorAll(document, '[data-hook="review"]').map(block => {
+    const ratingMatch = hookText(block, 'review-star-rating').match(rating)
+      ?? textContent(block).match(rating);
+    const title = hookText(block, 'review-title').replace(rating, '').trim();
+    return {
+      title,
+      text: truncate(hookText(block, 'review-body').replace(/\s*Read more$/i, '')),
+      rating: ratingMatch ? parseFloat(ratingMatch[1].replace(',', '.')) : null,
+    };
+  }).filter(snippet => snippet.text.length > 0);
+}
+
+function extractCustomersSay(text: string): string | null {
+  const lines = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim());
+  const heading = lines.findIndex(line => /^Customers say$/i.test(line));
+  if (heading < 0) return null;
+
+  const summary = lines.slice(heading + 1, heading + 4).find(line => line.length >= MIN_SUMMARY_LENGTH);
+  return summary ?? null;
+}
+
+/**
+ * Extract the star histogram, review snippets and "Customers say" summary
+ */
+export function extractReviews(markdown: string, document: HtmlElement, marketplace: Marketplace): ListingReviews {
+  const pageText = textContent(document);
+  const markdownText = stripMarkdownLinks(markdown);
+  const snippets = collectReviewSnippets(document, marketplace);
+  // "72 percent of reviews have 5 stars" on the histogram links
+  const ariaLabels = querySelectorAll(document, '[aria-label]').map(element => element.attributes['aria-label']).join('\n');
+
+  return {
+    starHistogram: parseStarHistogram(ariaLabels, marketplace)
+      ?? parseStarHistogram(pageText, marketplace)
+      ?? parseStarHistogram(markdownText, marketplace),
+    topPositive: snippets.filter(s => s.rating !== null && s.rating >= 4).slice(0, MAX_SNIPPETS),
+    topCritical: snippets.filter(s => s.rating !== null && s.rating <= 2).slice(0, MAX_SNIPPETS),
+    customersSay: extractCustomersSay(pageText) ?? extractCustomersSay(markdownText),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Amazon Variations - Variation (twister) matrix of a listing
+ *
+ * Most listings are one child of a parent ASIN that groups size / color / style
+ * variations. The variation dimensions and each child's values come from the twister
+ * data embedded in the page scripts ("dimensionsDisplay",
+ * "dimensionValuesDisplayData"); per-child price and availability come from the
+ * swatches, when the page renders them.
+ *
+ * Usage:
+ *   import { extractVariations } from './lib/amazon-variations';
+ *
+ *   const variations = extractVariations(parseHtml(html), getMarketplace('US'));
+ *   variations?.children.map(c => `${c.asin}: ${Object.values(c.values).join(' / ')}`);
+ */
+
+import { Marketplace, getPricePatterns, parseAmount } from './marketplaces.js';
+import { HtmlElement, querySelectorAll, textContent } from './html-dom.js';
+
+export interface VariationChild {
+  asin: string;
+  // Dimension name → value, e.g. { Color: 'Black', Size: 'Standard' }
+  values: Record<string, string>;
+  // Swatch price in the marketplace currency (null when the swatch shows none)
+  price: number | null;
+  // null when the page does not render a swatch for the child
+  available: boolean | null;
+}
+
+export interface ListingVariations {
+  parentAsin: string | null;
+  // Dimension names in page order, e.g. ['Color', 'Size']
+  dimensions: string[];
+  children: VariationChild[];
+}
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
+
+// Other <li data-asin> on the page are carousels, so only swatches inside the twister count
+const TWISTER_SWATCHES = '#twister li, #twister_feature_div li';
+
+interface Swatch {
+  price: number | null;
+  available: boolean;
+}
+
+function parseScriptJson<T>(scripts: string, key: string, open: '[' | '{', close: ']' | '}'): T | null {
+  const match = scripts.match(new RegExp(`"${key}"\\s*:\\s*(\\${open}[^\\${close}]*\\${close})`));
+  if (!match) return null;
+
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Price and availability per child ASIN from the twister swatches
+ */
+function collectSwatches(document: HtmlElement, marketplace: Marketplace): Map<string, Swatch> {
+  const swatches = new Map<string, Swatch>();
+  const pricePatterns = getPricePatterns(marketplace).map(pattern => new RegExp(pattern, 'i'));
+
+  for (const swatch of querySelectorAll(document, TWISTER_SWATCHES)) {
+    const { attributes } = swatch;
+    const asin = [attributes['data-defaultasin'], attributes['data-asin']].find(value => value && ASIN_PATTERN.test(value))
+      ?? attributes['data-dp-url']?.match(/^\/dp\/([A-Z0-9]{10})/)?.[1];
+    if (!asin || swatches.has(asin)) continue;
+
+    const text = textContent(swatch);
+    const priceMatch = pricePatterns.map(pattern => text.match(pattern)).find(Boolean);
+    swatches.set(asin, {
+      price: priceMatch ? parseAmount(priceMatch[1], marketplace) : null,
+      available: !/swatchUnavailable/.test(attributes.class ?? '') && !/Currently unavailable/i.test(text),
+    });
+  }
+
+  return swatches;
+}
+
+/**
+ * Extract the variation matrix from a listing page
+ *
+ * @returns null for listings without variations
+ */
+export function extractVariations(document: HtmlElement, marketplace: Marketplace): ListingVariations | null {
+  const scripts = querySelectorAll(document, 'script')
+    .flatMap(script => script.children.map(child => (child.type === 'text' ? child.text : '')))
+    .join('\n');
+  const dimensions = parseScriptJson<string[]>(scripts, 'dimensionsDisplay', '[', ']') ?? [];
+  const displayData = parseScriptJson<Record<string, string[]>>(scripts, 'dimensionValuesDisplayData', '{', '}') ?? {};
+  const parentAsin = scripts.match(/"parentAsin"\s*:\s*"([A-Z0-9]{10})"/)?.[1] ?? null;
+
+  if (dimensions.length === 0 && Object.keys(displayData).length === 0) return null;
+
+  const swatches = collectSwatches(document, marketplace);
+  const childAsins = Object.keys(displayData).length > 0 ? Object.keys(displayData) : Array.from(swatches.keys());
+  const asins = childAsins.filter(asin => ASIN_PATTERN.test(asin) && asin !== parentAsin);
+
+  const children = asins.map(asin => {
+    const values = Object.fromEntries(
+      (displayData[asin] ?? []).map((value, i) => [dimensions[i] ?? `Dimension ${i + 1}`, value])
+    );
+    const swatch = swatches.get(asin);
+    return {
+      asin,
+      values,
+      price: swatch?.price ?? null,
+      available: swatch?.available ?? null,
+    };
+  });
+
+  return { parentAsin, dimensions, children };
+}
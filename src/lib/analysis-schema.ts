@@ -0,0 +1,154 @@
+/**
+ * Analysis Schema - JSON schema and validation for structured GPT analysis output
+ *
+ * The schema is sent to OpenAI as a strict `json_schema` response format; the
+ * validator re-checks the returned JSON so a malformed response can be repaired
+ * instead of silently dropping content.
+ *
+ * Usage:
+ *   import { ANALYSIS_OUTPUT_SCHEMA, parseAnalysisOutput } from './lib/analysis-schema';
+ *
+ *   const result = parseAnalysisOutput(rawText);
+ *   if (!result.valid) console.log(result.errors);
+ */
+
+export interface AnalysisOutput {
+  summary: string;
+  amazonAIPerception: string;
+  targetAudience: string;
+  competitiveInsights: string[];
+  recommendations: string[];
+  imageQualityAnalysis: string;
+  groupAnalyses: Array<{
+    group: string;
+    analysis: string;
+  }>;
+}
+
+export type AnalysisOutputResult =
+  | { valid: true; output: AnalysisOutput }
+  | { valid: false; errors: string[] };
+
+/**
+ * JSON schema for OpenAI structured outputs (strict mode: every property required,
+ * no additional properties)
+ */
+export const ANALYSIS_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    amazonAIPerception: { type: 'string' },
+    targetAudience: { type: 'string' },
+    competitiveInsights: { type: 'array', items: { type: 'string' } },
+    recommendations: { type: 'array', items: { type: 'string' } },
+    imageQualityAnalysis: { type: 'string' },
+    groupAnalyses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          group: { type: 'string' },
+          analysis: { type: 'string' },
+        },
+        required: ['group', 'analysis'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: [
+    'summary',
+    'amazonAIPerception',
+    'targetAudience',
+    'competitiveInsights',
+    'recommendations',
+    'imageQualityAnalysis',
+    'groupAnalyses',
+  ],
+  additionalProperties: false,
+} as const;
+
+const STRING_FIELDS = ['summary', 'amazonAIPerception', 'targetAudience', 'imageQualityAnalysis'] as const;
+const LIST_FIELDS = ['competitiveInsights', 'recommendations'] as const;
+
+/**
+ * Strip a ```json fence if the model wrapped its output in one
+ */
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Validate a parsed value against the analysis output schema
+ *
+ * @param expectedGroups - Competitor group names that must each have a group analysis
+ */
+export function validateAnalysisOutput(
+  value: unknown,
+  expectedGroups: string[] = []
+): AnalysisOutputResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of STRING_FIELDS) {
+    if (typeof data[field] !== 'string' || !(data[field] as string).trim()) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  for (const field of LIST_FIELDS) {
+    const list = data[field];
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`"${field}" must be a non-empty array of strings`);
+    } else if (list.some(item => typeof item !== 'string' || !item.trim())) {
+      errors.push(`"${field}" must only contain non-empty strings`);
+    }
+  }
+
+  const groupAnalyses = data.groupAnalyses;
+  if (!Array.isArray(groupAnalyses)) {
+    errors.push('"groupAnalyses" must be an array');
+  } else {
+    groupAnalyses.forEach((entry, index) => {
+      if (typeof entry?.group !== 'string' || typeof entry?.analysis !== 'string') {
+        errors.push(`"groupAnalyses[${index}]" must have string "group" and "analysis"`);
+      }
+    });
+
+    const analyzedGroups = new Set(groupAnalyses.map(entry => entry?.group));
+    const missingGroups = expectedGroups.filter(group => !analyzedGroups.has(group));
+    if (missingGroups.length > 0) {
+      errors.push(`"groupAnalyses" is missing groups: ${missingGroups.join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, output: data as unknown as AnalysisOutput };
+}
+
+/**
+ * Parse and validate raw model output
+ */
+export function parseAnalysisOutput(
+  rawText: string,
+  expectedGroups: string[] = []
+): AnalysisOutputResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(rawText));
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  return validateAnalysisOutput(parsed, expectedGroups);
+}
@@ -0,0 +1,182 @@
+/**
+ * Checkpoint Store - File-backed LangGraph checkpointer for resumable runs
+ *
+ * Extends LangGraph's in-memory saver and mirrors every thread (one workflow run)
+ * to a JSON file, so a run that crashes can be resumed from the last completed
+ * node by another process:
+ *
+ *   <checkpointDir>/2024-02-01-3f9c2a1b.json
+ *
+ * Checkpoint values are serialized by LangGraph (Maps and Sets included); the raw
+ * bytes are stored base64-encoded. Files are written to a temp file and renamed so
+ * a crash mid-write never corrupts the last good checkpoint.
+ *
+ * Usage:
+ *   import { FileCheckpointSaver, createRunId, listRuns } from './lib/checkpoint-store';
+ *
+ *   const checkpointer = new FileCheckpointSaver('./data/checkpoints');
+ *   const app = workflow.compile({ checkpointer });
+ *   await app.invoke(initialState, { configurable: { thread_id: createRunId() } });
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { MemorySaver, Checkpoint, CheckpointMetadata, CheckpointTuple } from '@langchain/langgraph';
+import { toRunDate } from './snapshot-store.js';
+
+// Not re-exported by @langchain/langgraph
+type CheckpointListOptions = Parameters<MemorySaver['list']>[1];
+type PendingWrite = Parameters<MemorySaver['putWrites']>[1][number];
+
+export interface RunInfo {
+  runId: string;
+  updatedAt: string;
+}
+
+// Serialized form of one thread: MemorySaver storage and writes with base64 bytes
+interface ThreadFile {
+  runId: string;
+  updatedAt: string;
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Create a run ID (run date + random suffix), used as the LangGraph thread ID
+ */
+export function createRunId(date: Date = new Date()): string {
+  return `${toRunDate(date)}-${randomUUID().slice(0, 8)}`;
+}
+
+function runFile(checkpointDir: string, runId: string): string {
+  if (!RUN_ID_PATTERN.test(runId)) {
+    throw new Error(`Invalid run ID "${runId}"`);
+  }
+  return path.join(checkpointDir, `${runId}.json`);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+/**
+ * List runs with saved checkpoints, most recently updated first
+ */
+export function listRuns(checkpointDir: string): RunInfo[] {
+  if (!fs.existsSync(checkpointDir)) return [];
+
+  return fs.readdirSync(checkpointDir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => ({
+      runId: name.replace(/\.json$/, ''),
+      updatedAt: fs.statSync(path.join(checkpointDir, name)).mtime.toISOString(),
+    }))
+    .filter(run => RUN_ID_PATTERN.test(run.runId))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export class FileCheckpointSaver extends MemorySaver {
+  private readonly loadedThreads = new Set<string>();
+
+  constructor(private readonly checkpointDir: string) {
+    super();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    this.loadThread(config.configurable?.thread_id);
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) {
+      this.loadThread(threadId);
+    } else {
+      listRuns(this.checkpointDir).forEach(run => this.loadThread(run.runId));
+    }
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+    const result = await super.put(config, checkpoint, metadata);
+    this.saveThread(threadId);
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+    await super.putWrites(config, writes, taskId);
+    this.saveThread(threadId);
+  }
+
+  private threadWriteKeys(threadId: string): string[] {
+    // MemorySaver keys writes by JSON.stringify([threadId, namespace, checkpointId])
+    return Object.keys(this.writes).filter(key => JSON.parse(key)[0] === threadId);
+  }
+
+  private loadThread(threadId?: string): void {
+    if (!threadId || this.loadedThreads.has(threadId)) return;
+    this.loadedThreads.add(threadId);
+
+    const file = runFile(this.checkpointDir, threadId);
+    if (!fs.existsSync(file)) return;
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf8')) as ThreadFile;
+
+    this.storage[threadId] = {};
+    for (const [namespace, checkpoints] of Object.entries(data.storage)) {
+      this.storage[threadId][namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        this.storage[threadId][namespace][checkpointId] = [fromBase64(checkpoint), fromBase64(metadata), parentId];
+      }
+    }
+
+    for (const [key, writes] of Object.entries(data.writes)) {
+      this.writes[key] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+        this.writes[key][innerKey] = [taskId, channel, fromBase64(value)];
+      }
+    }
+  }
+
+  private saveThread(threadId?: string): void {
+    if (!threadId) return;
+
+    const data: ThreadFile = {
+      runId: threadId,
+      updatedAt: new Date().toISOString(),
+      storage: {},
+      writes: {},
+    };
+
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      data.storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        data.storage[namespace][checkpointId] = [toBase64(checkpoint), toBase64(metadata), parentId];
+      }
+    }
+
+    for (const key of this.threadWriteKeys(threadId)) {
+      data.writes[key] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(this.writes[key])) {
+        data.writes[key][innerKey] = [taskId, channel, toBase64(value)];
+      }
+    }
+
+    const file = runFile(this.checkpointDir, threadId);
+    fs.mkdirSync(this.checkpointDir, { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(data), 'utf8');
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
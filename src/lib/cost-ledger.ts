@@ -0,0 +1,252 @@
+/**
+ * Cost Ledger - Usage and cost accounting for paid APIs
+ *
+ * Accumulates Firecrawl credits, AWS Rekognition calls (per operation) and LLM
+ * prompt/completion tokens during a run, and turns them into a cost breakdown
+ * using the configured unit prices. The ledger also carries the run's budget caps
+ * so nodes can check them before each paid call.
+ *
+ * Nodes clone the ledger from state, record usage on the clone and return it, the
+ * same way they treat the other state collections.
+ *
+ * Usage:
+ *   import { createCostLedger, cloneCostLedger, recordFirecrawlCredits, checkBudget } from './lib/cost-ledger';
+ *
+ *   const costs = cloneCostLedger(state.costs);
+ *   const exceeded = checkBudget(costs, 'firecrawlCredits', 1);
+ *   if (!exceeded) recordFirecrawlCredits(costs, result.creditsUsed);
+ *   const breakdown = getCostBreakdown(costs);
+ */
+
+export type RekognitionOperation = 'DetectLabels' | 'DetectText' | 'DetectFaces' | 'DetectModerationLabels';
+
+export interface UnitPrices {
+  // USD per Firecrawl credit
+  firecrawlCredit: number;
+  // USD per Rekognition image API call
+  rekognitionCall: number;
+  // USD per 1M LLM prompt / completion tokens
+  llmPromptPer1M: number;
+  llmCompletionPer1M: number;
+}
+
+// Per-run spend caps (unset = unlimited)
+export interface BudgetLimits {
+  maxAsins?: number;
+  maxFirecrawlCredits?: number;
+  maxRekognitionCalls?: number;
+  maxLLMTokens?: number;
+}
+
+export type BudgetResource = 'firecrawlCredits' | 'rekognitionCalls' | 'llmTokens';
+
+export interface CostLedger {
+  prices: UnitPrices;
+  limits: BudgetLimits;
+  firecrawlCredits: number;
+  rekognitionCalls: Partial<Record<RekognitionOperation, number>>;
+  llm: {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CostBreakdown {
+  firecrawl: {
+    credits: number;
+    costUsd: number;
+  };
+  rekognition: {
+    calls: number;
+    callsByOperation: Partial<Record<RekognitionOperation, number>>;
+    costUsd: number;
+  };
+  llm: {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+  };
+  totalUsd: number;
+  prices: UnitPrices;
+}
+
+/**
+ * Thrown when a paid call would exceed a budget cap
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly resource: BudgetResource, message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const ZERO_PRICES: UnitPrices = {
+  firecrawlCredit: 0,
+  rekognitionCall: 0,
+  llmPromptPer1M: 0,
+  llmCompletionPer1M: 0,
+};
+
+// Published list prices (USD per 1M tokens) by model name prefix (longest prefix wins)
+const LLM_PRICES: Array<[string, { prompt: number; completion: number }]> = [
+  ['gpt-4o-mini', { prompt: 0.15, completion: 0.6 }],
+  ['gpt-4o', { prompt: 2.5, completion: 10 }],
+  ['gpt-4.1-mini', { prompt: 0.4, completion: 1.6 }],
+  ['gpt-4.1', { prompt: 2, completion: 8 }],
+  ['gpt-4-turbo', { prompt: 10, completion: 30 }],
+  ['claude-3-5-haiku', { prompt: 0.8, completion: 4 }],
+  ['claude-3-5-sonnet', { prompt: 3, completion: 15 }],
+  ['claude-3-7-sonnet', { prompt: 3, completion: 15 }],
+];
+
+/**
+ * Default LLM token prices for a model (0 for unknown, e.g. local, models)
+ */
+export function getDefaultLLMPrices(model: string): Pick<UnitPrices, 'llmPromptPer1M' | 'llmCompletionPer1M'> {
+  const match = LLM_PRICES
+    .filter(([prefix]) => model.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+
+  return {
+    llmPromptPer1M: match ? match[1].prompt : 0,
+    llmCompletionPer1M: match ? match[1].completion : 0,
+  };
+}
+
+/**
+ * Create an empty ledger
+ */
+export function createCostLedger(prices: UnitPrices = ZERO_PRICES, limits: BudgetLimits = {}): CostLedger {
+  return {
+    prices: { ...prices },
+    limits: { ...limits },
+    firecrawlCredits: 0,
+    rekognitionCalls: {},
+    llm: { requests: 0, promptTokens: 0, completionTokens: 0 },
+  };
+}
+
+/**
+ * Copy a ledger from state (or start a new one when state has none)
+ */
+export function cloneCostLedger(ledger?: CostLedger): CostLedger {
+  if (!ledger) return createCostLedger();
+
+  return {
+    prices: { ...ledger.prices },
+    limits: { ...ledger.limits },
+    firecrawlCredits: ledger.firecrawlCredits,
+    rekognitionCalls: { ...ledger.rekognitionCalls },
+    llm: { ...ledger.llm },
+  };
+}
+
+export function recordFirecrawlCredits(ledger: CostLedger, credits: number): void {
+  ledger.firecrawlCredits += credits;
+}
+
+export function recordRekognitionCall(ledger: CostLedger, operation: RekognitionOperation): void {
+  ledger.rekognitionCalls[operation] = (ledger.rekognitionCalls[operation] || 0) + 1;
+}
+
+export function recordLLMUsage(ledger: CostLedger, usage?: LLMUsage): void {
+  ledger.llm.requests++;
+  if (usage) {
+    ledger.llm.promptTokens += usage.promptTokens;
+    ledger.llm.completionTokens += usage.completionTokens;
+  }
+}
+
+const BUDGET_LIMITS: Record<BudgetResource, { limit: keyof BudgetLimits; label: string }> = {
+  firecrawlCredits: { limit: 'maxFirecrawlCredits', label: 'Firecrawl credit' },
+  rekognitionCalls: { limit: 'maxRekognitionCalls', label: 'Rekognition call' },
+  llmTokens: { limit: 'maxLLMTokens', label: 'LLM token' },
+};
+
+function getUsage(ledger: CostLedger, resource: BudgetResource): number {
+  switch (resource) {
+    case 'firecrawlCredits':
+      return ledger.firecrawlCredits;
+    case 'rekognitionCalls':
+      return Object.values(ledger.rekognitionCalls).reduce((sum, calls) => sum + (calls || 0), 0);
+    case 'llmTokens':
+      return ledger.llm.promptTokens + ledger.llm.completionTokens;
+  }
+}
+
+/**
+ * Check whether a paid call of the given (estimated) size still fits the budget
+ *
+ * @returns A description of the exceeded cap, or undefined when within budget
+ */
+export function checkBudget(ledger: CostLedger, resource: BudgetResource, upcoming: number): string | undefined {
+  const { limit, label } = BUDGET_LIMITS[resource];
+  const max = ledger.limits?.[limit];
+  if (max === undefined) return undefined;
+
+  const used = getUsage(ledger, resource);
+  if (used + upcoming <= max) return undefined;
+
+  return `${label} cap reached (${used} used + ${upcoming} needed > ${max} allowed)`;
+}
+
+/**
+ * Throw a BudgetExceededError when a paid call would exceed the budget
+ */
+export function assertWithinBudget(ledger: CostLedger, resource: BudgetResource, upcoming: number): void {
+  const exceeded = checkBudget(ledger, resource, upcoming);
+  if (exceeded) {
+    throw new BudgetExceededError(resource, exceeded);
+  }
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Compute the cost of everything recorded in the ledger
+ */
+export function getCostBreakdown(ledger: CostLedger): CostBreakdown {
+  const { prices } = ledger;
+
+  const rekognitionCalls = getUsage(ledger, 'rekognitionCalls');
+
+  const firecrawlCost = ledger.firecrawlCredits * prices.firecrawlCredit;
+  const rekognitionCost = rekognitionCalls * prices.rekognitionCall;
+  const llmCost =
+    (ledger.llm.promptTokens / 1_000_000) * prices.llmPromptPer1M +
+    (ledger.llm.completionTokens / 1_000_000) * prices.llmCompletionPer1M;
+
+  return {
+    firecrawl: {
+      credits: ledger.firecrawlCredits,
+      costUsd: roundUsd(firecrawlCost),
+    },
+    rekognition: {
+      calls: rekognitionCalls,
+      callsByOperation: { ...ledger.rekognitionCalls },
+      costUsd: roundUsd(rekognitionCost),
+    },
+    llm: {
+      ...ledger.llm,
+      costUsd: roundUsd(llmCost),
+    },
+    totalUsd: roundUsd(firecrawlCost + rekognitionCost + llmCost),
+    prices: { ...prices },
+  };
+}
+
+/**
+ * Format a USD amount for reports (sub-cent amounts keep four decimals)
+ */
+export function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
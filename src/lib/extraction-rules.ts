@@ -0,0 +1,485 @@
+/**
+ * Extraction Rules - Versioned, validated selectors and patterns for parseAmazonListing
+ *
+ * Pure data transformation apart from loadExtractionRules, which reads a rules
+ * file. The selector chains, regex patterns and their priorities the parser uses
+ * are data: the built-in DEFAULT_FIELD_RULES, overridden by a JSON rules file so
+ * extraction can be hot-fixed after an Amazon layout change without a release.
+ *
+ *   {
+ *     "version": "2024-06-02-de-rating",
+ *     "rules": { "selectors": { "title": ["#productTitle", "h1.product-title"] } },
+ *     "marketplaces": {
+ *       "DE": { "rating": [{ "pattern": "{{ratingNumber}}\\s*von\\s*5", "source": "stars_text" }] }
+ *     }
+ *   }
+ *
+ * A field set in the file replaces the built-in list for that field (per marketplace
+ * over global over built-in); rules in a list are tried in order, so order is priority.
+ * Patterns capture the value in group 1 (pricing deal flags only need to match) and
+ * may use {{placeholders}} that expand to the marketplace's currency, number format
+ * and page language (see PLACEHOLDERS).
+ *
+ * Usage:
+ *   import { loadExtractionRules, compileFieldRules } from './lib/extraction-rules';
+ *
+ *   const rules = loadExtractionRules('./config/extraction-rules.json');
+ *   const parsed = await parseAmazonListing(markdown, html, asin, 'DE', rules);
+ */
+
+import fs from 'fs';
+import { ListingProvenance } from './parse-quality.js';
+import { DEFAULT_SELECTOR_RULES, SelectorField, SelectorRules } from './listing-selectors.js';
+import { parseSelector } from './html-dom.js';
+import {
+  Marketplace,
+  MarketplaceCode,
+  getAmountPattern,
+  getMarketplace,
+  getPricePatterns,
+  listMarketplaces,
+} from './marketplaces.js';
+
+export interface PatternRule<Source extends string> {
+  // Regular expression capturing the value in group 1; may contain {{placeholders}}
+  pattern: string;
+  // Provenance recorded when this rule produces the value
+  source: Source;
+}
+
+// Markdown / page text patterns for the buybox offer details, read by extractPricing
+// after the pricing selector chains
+export interface PricingPatterns {
+  // Strike-through amount after a list price label
+  listPrice: string[];
+  // Savings percent, e.g. "You Save: $5.00 (20%)"
+  savingsPercent: string[];
+  // Savings percent that only counts when the page shows a list price, e.g. a bare "-20%"
+  listPriceSavingsPercent: string[];
+  couponPercent: string[];
+  couponAmount: string[];
+  subscribeAndSavePrice: string[];
+  // Presence marks the deal; nothing is captured
+  lightningDeal: string[];
+  limitedTimeDeal: string[];
+}
+
+export type PricingField = keyof PricingPatterns;
+
+export interface FieldRules {
+  selectors: SelectorRules;
+  // Markdown headings containing these are page chrome, not the title
+  titleHeadingExcludes: string[];
+  price: PatternRule<PatternSource<'price'>>[];
+  rating: PatternRule<PatternSource<'rating'>>[];
+  reviewCount: PatternRule<PatternSource<'reviewCount'>>[];
+  // Markdown list items matching these (case-insensitive) are not bullets
+  bulletExcludes: string[];
+  description: PatternRule<PatternSource<'description'>>[];
+  pricing: PricingPatterns;
+}
+
+export type FieldRulesOverride = Partial<Omit<FieldRules, 'selectors' | 'pricing'>> & {
+  selectors?: Partial<SelectorRules>;
+  pricing?: Partial<PricingPatterns>;
+};
+
+export interface ExtractionRules {
+  // Free-form, recorded on every listing parsed with these rules
+  version: string;
+  rules?: FieldRulesOverride;
+  marketplaces?: Partial<Record<MarketplaceCode, FieldRulesOverride>>;
+}
+
+// Provenance a pattern rule may record (HTML strategies are not pattern-driven)
+const PATTERN_SOURCES = {
+  price: ['price_label', 'stray_match'],
+  rating: ['stars_text', 'loose_match'],
+  reviewCount: ['ratings_count', 'reviews_count'],
+  description: ['description_section'],
+} as const satisfies { [F in keyof ListingProvenance]?: ReadonlyArray<ListingProvenance[F]> };
+
+type PatternField = keyof typeof PATTERN_SOURCES;
+type PatternSource<F extends PatternField> = (typeof PATTERN_SOURCES)[F][number];
+
+// Pricing patterns that flag a deal rather than capture a value
+const PRICING_FLAGS: PricingField[] = ['lightningDeal', 'limitedTimeDeal'];
+
+const RATING_NUMBER = '(\\d+[.,]\\d+)';
+
+// Labels in front of a strike-through price (English on every marketplace)
+export const LIST_PRICE_LABEL = '\\b(?:List Price|Was|Typical price|RRP)';
+
+const PLACEHOLDERS: Record<string, (marketplace: Marketplace) => string> = {
+  // "Price" in the page language
+  priceLabel: marketplace => marketplace.text.priceLabel,
+  // Amount with the currency symbol before / after it, amount captured
+  symbolFirst: marketplace => getPricePatterns(marketplace)[0],
+  symbolLast: marketplace => getPricePatterns(marketplace)[1],
+  // "List Price" / "Was" in front of a strike-through amount
+  listPriceLabel: () => LIST_PRICE_LABEL,
+  // "4.7" / "4,7", captured
+  ratingNumber: () => RATING_NUMBER,
+  // "4.7 out of 5 stars" / "5つ星のうち4.5", rating captured
+  ratingOutOfFive: ({ text }) => text.ratingFirst
+    ? `${RATING_NUMBER}\\s*${text.outOfFiveStars}`
+    : `${text.outOfFiveStars}\\s*${RATING_NUMBER}`,
+  outOfFiveStars: marketplace => marketplace.text.outOfFiveStars,
+  stars: marketplace => marketplace.text.stars,
+  // Whole number with the marketplace's thousands separator, captured
+  count: marketplace => getAmountPattern({ ...marketplace, priceDecimals: 0 }),
+  ratingsCount: marketplace => marketplace.text.ratingsCount,
+  reviewsCount: marketplace => marketplace.text.reviewsCount,
+};
+
+export const DEFAULT_FIELD_RULES: FieldRules = {
+  selectors: DEFAULT_SELECTOR_RULES,
+  titleHeadingExcludes: ['Product summary', 'Keyboard shortcut', 'Skip to main content', 'Navigation', 'Menu'],
+  // After the buybox; amounts after a list price label or before a shipping fee are skipped
+  price: [
+    { pattern: '{{priceLabel}}\\s*[:：]\\s*{{symbolFirst}}', source: 'price_label' },
+    { pattern: '{{priceLabel}}\\s*[:：]\\s*{{symbolLast}}', source: 'price_label' },
+    { pattern: '{{symbolFirst}}', source: 'stray_match' },
+    { pattern: '{{symbolLast}}', source: 'stray_match' },
+  ],
+  rating: [
+    { pattern: '{{ratingOutOfFive}}', source: 'stars_text' },
+    { pattern: '{{ratingNumber}}\\s*★', source: 'loose_match' },
+    { pattern: '{{ratingNumber}}\\s*{{stars}}', source: 'loose_match' },
+  ],
+  reviewCount: [
+    { pattern: '{{count}}\\s*{{ratingsCount}}', source: 'ratings_count' },
+    { pattern: '{{count}}\\s*{{reviewsCount}}', source: 'reviews_count' },
+  ],
+  bulletExcludes: [
+    '^Customer Questions',
+    '^Product Details',
+    '^Technical Details',
+    '^Additional Information',
+    '^See more product details',
+    '^\\d+\\.\\d+\\s*out of',
+    '^Reviewed in',
+    '^Read more$',
+    '^Show more$',
+  ],
+  description: [
+    { pattern: '(?:Product Description|Description|About this item)[:\\s]*\\n+((?:.+\\n?)+)', source: 'description_section' },
+  ],
+  pricing: {
+    listPrice: [
+      '{{listPriceLabel}}\\s*:?\\s*(?:~~)?\\s*{{symbolFirst}}',
+      '{{listPriceLabel}}\\s*:?\\s*(?:~~)?\\s*{{symbolLast}}',
+    ],
+    savingsPercent: ['You Save:?[^\\n(]{0,40}\\((\\d{1,2})\\s?%\\)'],
+    listPriceSavingsPercent: ['(?:^|\\s)-(\\d{1,2})\\s?%(?=\\s)'],
+    couponPercent: ['(?:Apply|Save)\\s+(\\d{1,2})\\s?%\\s+(?:with\\s+)?coupon'],
+    couponAmount: [
+      '(?:Apply|Save)\\s+{{symbolFirst}}\\s+(?:with\\s+)?coupon',
+      '(?:Apply|Save)\\s+{{symbolLast}}\\s+(?:with\\s+)?coupon',
+    ],
+    subscribeAndSavePrice: [
+      'Subscribe\\s*(?:&|&amp;|and)\\s*Save[^\\n]{0,120}?{{symbolFirst}}',
+      'Subscribe\\s*(?:&|&amp;|and)\\s*Save[^\\n]{0,120}?{{symbolLast}}',
+    ],
+    lightningDeal: ['Lightning Deal'],
+    limitedTimeDeal: ['Limited[\\s-]time deal'],
+  },
+};
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = { version: 'builtin' };
+
+/**
+ * Thrown when a rules file is unreadable or fails validation
+ */
+export class ExtractionRulesError extends Error {
+  constructor(public readonly problems: string[], origin?: string) {
+    super(`Invalid extraction rules${origin ? ` in ${origin}` : ''}: ${problems.join('; ')}`);
+    this.name = 'ExtractionRulesError';
+  }
+}
+
+/**
+ * Replace {{placeholders}} with the marketplace's patterns
+ *
+ * @throws Error on an unknown placeholder
+ */
+export function expandPattern(pattern: string, marketplace: Marketplace): string {
+  return pattern.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const expand = PLACEHOLDERS[name];
+    if (!expand) throw new Error(`unknown placeholder {{${name}}}`);
+    return expand(marketplace);
+  });
+}
+
+// ==================================================================
+// Validation
+// ==================================================================
+
+const FIELD_KEYS: Array<keyof FieldRules> = [
+  'selectors', 'titleHeadingExcludes', 'price', 'rating', 'reviewCount', 'bulletExcludes', 'description', 'pricing',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateStringList(value: unknown, path: string, problems: string[], check?: (item: string) => void): void {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be an array of strings`);
+    return;
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || !item) {
+      problems.push(`${path}[${index}] must be a non-empty string`);
+      return;
+    }
+    try {
+      check?.(item);
+    } catch (error) {
+      problems.push(`${path}[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Why a pattern fails to compile (or capture) on a marketplace, or null when it is usable
+ */
+function patternProblem(pattern: string, marketplaces: Marketplace[], capturesValue = true): string | null {
+  // A pattern that compiles for one storefront can break on another's expansion
+  for (const marketplace of marketplaces) {
+    try {
+      const regex = new RegExp(expandPattern(pattern, marketplace));
+      if (capturesValue && (new RegExp(`${regex.source}|`).exec('')?.length ?? 0) < 2) {
+        throw new Error('must capture the value in group 1');
+      }
+    } catch (error) {
+      return `(${marketplace.code}): ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+function validatePatternRules(
+  field: PatternField,
+  value: unknown,
+  path: string,
+  marketplaces: Marketplace[],
+  problems: string[]
+): void {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be an array of { pattern, source } rules`);
+    return;
+  }
+
+  const sources: readonly string[] = PATTERN_SOURCES[field];
+  value.forEach((rule, index) => {
+    const rulePath = `${path}[${index}]`;
+    if (!isRecord(rule) || typeof rule.pattern !== 'string' || !rule.pattern) {
+      problems.push(`${rulePath}.pattern must be a non-empty string`);
+      return;
+    }
+    if (typeof rule.source !== 'string' || !sources.includes(rule.source)) {
+      problems.push(`${rulePath}.source must be one of ${sources.join(', ')}`);
+    }
+
+    const problem = patternProblem(rule.pattern, marketplaces);
+    if (problem) problems.push(`${rulePath}.pattern ${problem}`);
+  });
+}
+
+function validatePricingPatterns(value: unknown, path: string, marketplaces: Marketplace[], problems: string[]): void {
+  if (!isRecord(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+
+  for (const [field, patterns] of Object.entries(value)) {
+    const fieldPath = `${path}.${field}`;
+    if (!(field in DEFAULT_FIELD_RULES.pricing)) {
+      problems.push(`${fieldPath} is not a pricing field (expected ${Object.keys(DEFAULT_FIELD_RULES.pricing).join(', ')})`);
+      continue;
+    }
+    validateStringList(patterns, fieldPath, problems);
+    if (!Array.isArray(patterns)) continue;
+
+    const capturesValue = !PRICING_FLAGS.includes(field as PricingField);
+    patterns.forEach((pattern, index) => {
+      if (typeof pattern !== 'string' || !pattern) return;
+      const problem = patternProblem(pattern, marketplaces, capturesValue);
+      if (problem) problems.push(`${fieldPath}[${index}] ${problem}`);
+    });
+  }
+}
+
+function validateOverride(value: unknown, path: string, marketplaces: Marketplace[], problems: string[]): void {
+  if (!isRecord(value)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldPath = `${path}.${key}`;
+    switch (key as keyof FieldRules) {
+      case 'selectors':
+        if (!isRecord(fieldValue)) {
+          problems.push(`${fieldPath} must be an object`);
+          break;
+        }
+        for (const [field, chain] of Object.entries(fieldValue)) {
+          if (!(field in DEFAULT_SELECTOR_RULES)) {
+            problems.push(`${fieldPath}.${field} is not a selector field (expected ${Object.keys(DEFAULT_SELECTOR_RULES).join(', ')})`);
+            continue;
+          }
+          validateStringList(chain, `${fieldPath}.${field as SelectorField}`, problems, selector => parseSelector(selector));
+        }
+        break;
+      case 'titleHeadingExcludes':
+        validateStringList(fieldValue, fieldPath, problems);
+        break;
+      case 'bulletExcludes':
+        validateStringList(fieldValue, fieldPath, problems, pattern => new RegExp(pattern, 'i'));
+        break;
+      case 'price':
+      case 'rating':
+      case 'reviewCount':
+      case 'description':
+        validatePatternRules(key as PatternField, fieldValue, fieldPath, marketplaces, problems);
+        break;
+      case 'pricing':
+        validatePricingPatterns(fieldValue, fieldPath, marketplaces, problems);
+        break;
+      default:
+        problems.push(`${fieldPath} is not a rules field (expected ${FIELD_KEYS.join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Check a parsed rules file
+ *
+ * @throws ExtractionRulesError listing every problem found
+ */
+export function validateExtractionRules(value: unknown, origin?: string): ExtractionRules {
+  const problems: string[] = [];
+  const allMarketplaces = listMarketplaces().map(code => getMarketplace(code));
+
+  if (!isRecord(value)) {
+    throw new ExtractionRulesError(['rules must be a JSON object'], origin);
+  }
+
+  if (typeof value.version !== 'string' || !value.version.trim()) {
+    problems.push('version must be a non-empty string');
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!['version', 'rules', 'marketplaces'].includes(key)) {
+      problems.push(`${key} is not a top-level key (expected version, rules, marketplaces)`);
+    }
+  }
+
+  if (value.rules !== undefined) {
+    validateOverride(value.rules, 'rules', allMarketplaces, problems);
+  }
+
+  if (value.marketplaces !== undefined) {
+    if (!isRecord(value.marketplaces)) {
+      problems.push('marketplaces must be an object keyed by marketplace code');
+    } else {
+      for (const [code, override] of Object.entries(value.marketplaces)) {
+        if (!listMarketplaces().includes(code as MarketplaceCode)) {
+          problems.push(`marketplaces.${code} is not a marketplace (expected ${listMarketplaces().join(', ')})`);
+          continue;
+        }
+        validateOverride(override, `marketplaces.${code}`, [getMarketplace(code as MarketplaceCode)], problems);
+      }
+    }
+  }
+
+  if (problems.length > 0) throw new ExtractionRulesError(problems, origin);
+  return value as unknown as ExtractionRules;
+}
+
+/**
+ * Read and validate a rules file
+ *
+ * @throws ExtractionRulesError when the file is missing, not JSON or invalid
+ */
+export function loadExtractionRules(filePath: string): ExtractionRules {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ExtractionRulesError([error instanceof Error ? error.message : String(error)], filePath);
+  }
+  return validateExtractionRules(raw, filePath);
+}
+
+// ==================================================================
+// Resolution
+// ==================================================================
+
+export interface CompiledFieldRules {
+  version: string;
+  selectors: SelectorRules;
+  titleHeadingExcludes: string[];
+  price: Array<[RegExp, PatternSource<'price'>]>;
+  rating: Array<[RegExp, PatternSource<'rating'>]>;
+  reviewCount: Array<[RegExp, PatternSource<'reviewCount'>]>;
+  bulletExcludes: RegExp[];
+  description: Array<[RegExp, PatternSource<'description'>]>;
+  pricing: Record<PricingField, RegExp[]>;
+}
+
+/**
+ * The field rules that apply on a marketplace: per marketplace over global over built-in
+ */
+export function resolveFieldRules(rules: ExtractionRules, code: MarketplaceCode): FieldRules {
+  const global = rules.rules ?? {};
+  const local = rules.marketplaces?.[code] ?? {};
+
+  return {
+    ...DEFAULT_FIELD_RULES,
+    ...global,
+    ...local,
+    selectors: { ...DEFAULT_FIELD_RULES.selectors, ...global.selectors, ...local.selectors },
+    pricing: { ...DEFAULT_FIELD_RULES.pricing, ...global.pricing, ...local.pricing },
+  };
+}
+
+const compiledRules = new WeakMap<ExtractionRules, Map<MarketplaceCode, CompiledFieldRules>>();
+
+/**
+ * Resolve and compile the rules for a marketplace (cached per rules object)
+ */
+export function compileFieldRules(rules: ExtractionRules, marketplace: Marketplace): CompiledFieldRules {
+  const byMarketplace = compiledRules.get(rules) ?? new Map<MarketplaceCode, CompiledFieldRules>();
+  compiledRules.set(rules, byMarketplace);
+
+  const cached = byMarketplace.get(marketplace.code);
+  if (cached) return cached;
+
+  const field = resolveFieldRules(rules, marketplace.code);
+  const compile = <S extends string>(list: PatternRule<S>[], flags: string): Array<[RegExp, S]> =>
+    list.map(rule => [new RegExp(expandPattern(rule.pattern, marketplace), flags), rule.source]);
+
+  const compiled: CompiledFieldRules = {
+    version: rules.version,
+    selectors: field.selectors,
+    titleHeadingExcludes: field.titleHeadingExcludes,
+    // Global: the parser scans every price match to skip list prices and shipping fees
+    price: compile(field.price, 'gi'),
+    rating: compile(field.rating, 'i'),
+    reviewCount: compile(field.reviewCount, 'i'),
+    bulletExcludes: field.bulletExcludes.map(pattern => new RegExp(pattern, 'i')),
+    description: compile(field.description, 'i'),
+    // Multiline: a bare savings badge starts a markdown line
+    pricing: Object.fromEntries(
+      (Object.entries(field.pricing) as Array<[PricingField, string[]]>).map(([name, patterns]) => [
+        name,
+        patterns.map(pattern => new RegExp(expandPattern(pattern, marketplace), 'im')),
+      ])
+    ) as Record<PricingField, RegExp[]>,
+  };
+  byMarketplace.set(marketplace.code, compiled);
+  return compiled;
+}
@@ -2,17 +2,46 @@
  * Firecrawl Amazon Scraper - Shared Utility
  *
  * Reusable module for scraping and parsing Amazon product listings.
- * NO external dependencies - pure data transformation.
+ * NO external dependencies - pure data transformation. Backends other than the
+ * Firecrawl API are in scraper.ts.
  *
  * Usage:
  *   import { scrapeAmazonListing, parseAmazonListing } from './lib/firecrawl-amazon';
  *
- *   const scraped = await scrapeAmazonListing('B0CJBQ7F5C', apiKey);
- *   const parsed = await parseAmazonListing(scraped.markdown, scraped.html, 'B0CJBQ7F5C');
+ *   const scraped = await scrapeAmazonListing('B0CJBQ7F5C', apiKey, 'UK');
+ *   const parsed = await parseAmazonListing(scraped.markdown, scraped.html, 'B0CJBQ7F5C', 'UK');
  */
 
+import { BackoffOptions, withRetry } from './retry.js';
+import { getCachedScrape, saveCachedScrape } from './scrape-cache.js';
+import { ListingProvenance, scoreProvenance } from './parse-quality.js';
+import { ListingPricing, extractPricing } from './amazon-pricing.js';
+import { ListingDetails, extractDetails } from './amazon-details.js';
+import { ListingVariations, extractVariations } from './amazon-variations.js';
+import { ListingReviews, extractReviews } from './amazon-reviews.js';
+import { ListingContent, extractContent } from './amazon-content.js';
+import { ListingMedia, extractMedia } from './amazon-media.js';
+import { extractDomFields } from './listing-selectors.js';
+import { parseHtml } from './html-dom.js';
+import { DEFAULT_EXTRACTION_RULES, ExtractionRules, LIST_PRICE_LABEL, compileFieldRules } from './extraction-rules.js';
+import type { Scraper } from './scraper.js';
+import { ScraperBackendName } from '../types/index.js';
+import {
+  DEFAULT_MARKETPLACE,
+  MarketplaceCode,
+  getListingUrl,
+  getMarketplace,
+  parseAmount,
+  parseCount,
+  toListingKey,
+} from './marketplaces.js';
+
+export const DEFAULT_MAX_RETRIES = 3;
+
 export interface ScrapedAmazonListing {
   asin: string;
+  // Absent on pages cached before marketplaces were recorded (amazon.com)
+  marketplace?: MarketplaceCode;
   markdown: string;
   html: string;
   screenshotUrl?: string;
@@ -23,117 +52,347 @@ export interface ScrapedAmazonListing {
 export interface ParsedAmazonProduct {
   asin: string;
   title: string;
+  // Absent on listings parsed before marketplaces were recorded (amazon.com, USD)
+  marketplace?: MarketplaceCode;
+  // In the marketplace currency (ISO 4217, e.g. "GBP")
   price: number;
+  currency?: string;
+  // Buybox offer details (absent on listings parsed before they were extracted)
+  pricing?: ListingPricing;
+  // Best Sellers Rank, category path and product details (absent on listings parsed before they were extracted)
+  details?: ListingDetails;
+  // Variation matrix of the parent ASIN (absent on listings without variations)
+  variations?: ListingVariations;
   rating: number;
   reviewCount: number;
+  // Star histogram, review snippets and "Customers say" (absent on listings parsed before they were extracted)
+  reviews?: ListingReviews;
   bullets: string[];
   description: string;
+  // A+ module text, comparison chart and Q&A (absent on listings parsed before they were extracted)
+  content?: ListingContent;
   images: Array<{
     url: string;
     type: 'main' | 'secondary' | 'aplus';
     position: number;
   }>;
+  // Product videos and 360 view (absent on listings parsed before they were extracted)
+  media?: ListingMedia;
   parsedAt: string;
+  // Extraction strategy behind each field (absent on listings parsed before it was recorded)
+  provenance?: ListingProvenance;
+  // Share of fields found (0-1)
+  completeness?: number;
+  // Weighted confidence in the extracted values (0-1), see parse-quality.ts
+  confidence?: number;
+  // Version of the extraction rules used (absent on listings parsed before rules were versioned)
+  rulesVersion?: string;
 }
 
 export interface ParseResult {
   success: boolean;
   data?: ParsedAmazonProduct;
   error?: string;
+  // Why the page is not a usable listing (set by parseAmazonListing)
+  failureReason?: ListingFailureReason;
+  errorCategory?: ScrapeErrorCategory;
+  // Firecrawl credits spent on the scrape (set by scrapeAndParseAmazon)
+  creditsUsed?: number;
+  // Scrape attempts including retries and fallbacks (set by scrapeAndParseAmazon)
+  attempts?: number;
+  // Backend that fetched the page, or failed last (set by scrapeAndParseAmazon, absent for cached pages)
+  scraper?: ScraperBackendName;
+  // Parsed from the raw scrape cache instead of a Firecrawl call
+  fromCache?: boolean;
+}
+
+export interface ScrapeOptions extends Partial<BackoffOptions> {
+  // Amazon storefront to scrape (default amazon.com)
+  marketplace?: MarketplaceCode;
+  // Raw scrape cache (see scrape-cache.ts)
+  cache?: {
+    dir: string;
+    // Max age of a cached page to reuse instead of scraping (0 = always scrape)
+    ttlMs: number;
+  };
+  // Selectors and patterns for parsing (default: built-in rules)
+  rules?: ExtractionRules;
+  // Backends tried in order, each with its own retries (default: the Firecrawl API)
+  scrapers?: Scraper[];
+}
+
+export type FirecrawlErrorCategory =
+  | 'rate_limited'    // 429 from the scraping backend
+  | 'transient'       // 5xx, timeouts, network errors
+  | 'blocked'         // Amazon served a captcha / robot check
+  | 'not_found'       // Amazon returned 404 (dog page)
+  | 'parse_failure'   // Malformed backend payload or unparseable listing
+  | 'request_failed'; // Other 4xx (bad API key, no credits, invalid request)
+
+// Pages Amazon serves instead of a usable listing
+export type ListingFailureReason = 'captcha' | 'not_found' | 'unavailable' | 'region_locked';
+
+export type ScrapeErrorCategory =
+  | FirecrawlErrorCategory
+  | 'unavailable'     // Listing has no offer ("Currently unavailable")
+  | 'region_locked';  // Listing cannot be bought/shipped in the scraped region
+
+const RETRYABLE_CATEGORIES: FirecrawlErrorCategory[] = ['rate_limited', 'transient'];
+
+// Client-side cap on one scrape (Firecrawl's own page timeout is 30s plus the 3s wait action)
+const REQUEST_TIMEOUT_MS = 60000;
+
+const FIRECRAWL_API_URL = 'https://api.firecrawl.dev';
+
+// Checked in order: a robot check can embed text that also matches the later patterns
+const PAGE_PROBLEM_PATTERNS: Array<[ListingFailureReason, RegExp[]]> = [
+  ['captcha', [
+    /<title>\s*Robot Check\s*<\/title>/i,
+    /Sorry, we just need to make sure you['’]re not a robot/i,
+    /Enter the characters you see below/i,
+    /Type the characters you see in this image/i,
+    /\/errors\/validateCaptcha/i,
+    /To discuss automated access to Amazon data/i,
+  ]],
+  ['not_found', [
+    /Sorry! We couldn['’]t find that page/i,
+    /The Web address you entered is not a functioning page on our site/i,
+    /<title>[^<]*Page Not Found\s*<\/title>/i,
+    /dogsofamazon/i,
+  ]],
+  ['region_locked', [
+    /This item cannot be shipped to your selected delivery location/i,
+    /(?:is|are) not available (?:for purchase )?in your (?:country|region|location)/i,
+  ]],
+  ['unavailable', [
+    /We don['’]t know when or if this item will be back in stock/i,
+  ]],
+];
+
+const PAGE_PROBLEM_MESSAGES: Record<ListingFailureReason, string> = {
+  captcha: 'Amazon served a robot check (captcha) instead of the listing',
+  not_found: 'Amazon served a "page not found" page; the ASIN may be invalid or removed',
+  unavailable: 'Listing is currently unavailable (no offer to buy)',
+  region_locked: 'Listing cannot be bought or shipped in the scraped region',
+};
+
+const FAILURE_REASON_CATEGORIES: Record<ListingFailureReason, ScrapeErrorCategory> = {
+  captcha: 'blocked',
+  not_found: 'not_found',
+  unavailable: 'unavailable',
+  region_locked: 'region_locked',
+};
+
+/**
+ * Thrown by scrapeAmazonListing and the other scraper backends, classified so callers
+ * can decide whether to retry or fall back
+ */
+export class FirecrawlError extends Error {
+  constructor(
+    public readonly category: FirecrawlErrorCategory,
+    message: string,
+    public readonly status?: number,
+    // Wait requested by the server's Retry-After header
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'FirecrawlError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+}
+
+/**
+ * Map a Firecrawl API HTTP status to an error category
+ */
+export function classifyHttpStatus(status: number): FirecrawlErrorCategory {
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status >= 500) return 'transient';
+  return 'request_failed';
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
 }
 
 /**
  * Scrape Amazon listing using Firecrawl API
+ *
+ * With selfHostedUrl, scrapes through a self-hosted Firecrawl instance instead: the API
+ * key is optional, no credits are spent, and the page is waited for without browser
+ * actions (so there is no screenshot).
+ *
+ * @throws FirecrawlError when the request fails or the page is not a usable listing
  */
 export async function scrapeAmazonListing(
   asin: string,
-  firecrawlApiKey: string
-): Promise<ScrapedAmazonListing | null> {
-  const amazonUrl = `https://www.amazon.com/dp/${asin}`;
-
+  firecrawlApiKey: string,
+  marketplace: MarketplaceCode = DEFAULT_MARKETPLACE,
+  selfHostedUrl?: string
+): Promise<ScrapedAmazonListing> {
+  const amazonUrl = getListingUrl(asin, marketplace);
+  const baseUrl = (selfHostedUrl || FIRECRAWL_API_URL).replace(/\/+$/, '');
+
+  let response: Response;
   try {
-    const response = await fetch("https://api.firecrawl.dev/v2/scrape", {
+    response = await fetch(`${baseUrl}/v2/scrape`, {
       method: "POST",
       headers: {
-        "Authorization": `Bearer ${firecrawlApiKey}`,
+        ...(firecrawlApiKey && { "Authorization": `Bearer ${firecrawlApiKey}` }),
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
         url: amazonUrl,
         formats: ["markdown", "html"],
-        actions: [
-          { type: "wait", milliseconds: 3000 },
-          { type: "screenshot", fullPage: true }
-        ],
+        ...(selfHostedUrl
+          ? { waitFor: 3000 }
+          : {
+            actions: [
+              { type: "wait", milliseconds: 3000 },
+              { type: "screenshot", fullPage: true }
+            ],
+          }),
         onlyMainContent: false,
         timeout: 30000,
       }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    throw new FirecrawlError(
+      'transient',
+      timedOut ? `Firecrawl request timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : `Firecrawl request failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Firecrawl API error (${response.status}):`, errorText);
-      return null;
-    }
-
-    const data: any = await response.json();
-    const responseData = data.data;
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new FirecrawlError(
+      classifyHttpStatus(response.status),
+      `Firecrawl API error (${response.status}): ${errorText.substring(0, 200)}`,
+      response.status,
+      parseRetryAfter(response.headers?.get('retry-after'))
+    );
+  }
 
-    if (!responseData?.markdown || !responseData?.html) {
-      console.error("Missing markdown or HTML in Firecrawl response");
-      return null;
-    }
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new FirecrawlError('parse_failure', 'Malformed JSON in Firecrawl response', response.status);
+  }
+  const responseData = data?.data;
 
-    return {
-      asin,
-      markdown: responseData.markdown,
-      html: responseData.html,
-      screenshotUrl: responseData.actions?.screenshots?.[0],
-      creditsUsed: data.creditsUsed || 1,
-      scrapedAt: new Date().toISOString(),
-    };
+  // Status of the Amazon page itself (Firecrawl answers 200 either way)
+  const pageStatus: number | undefined = responseData?.metadata?.statusCode;
+  if (pageStatus === 404) {
+    throw new FirecrawlError('not_found', `Amazon returned 404 for ${asin}`, pageStatus);
+  }
 
-  } catch (error) {
-    console.error("Firecrawl scrape error:", error);
-    return null;
+  if (!responseData?.markdown || !responseData?.html) {
+    throw new FirecrawlError('parse_failure', 'Missing markdown or HTML in Firecrawl response');
   }
+
+  return {
+    asin,
+    marketplace,
+    markdown: responseData.markdown,
+    html: responseData.html,
+    screenshotUrl: responseData.actions?.screenshots?.[0],
+    creditsUsed: selfHostedUrl ? 0 : data.creditsUsed || 1,
+    scrapedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Detect pages that are not a usable listing (robot check, dog page, unavailable, region-locked)
+ */
+export function detectListingFailure(markdown: string, html: string): ListingFailureReason | undefined {
+  const match = PAGE_PROBLEM_PATTERNS.find(([, patterns]) =>
+    patterns.some(pattern => pattern.test(markdown) || pattern.test(html))
+  );
+  return match?.[0];
 }
 
 /**
  * Parse Amazon listing HTML/Markdown into structured product data
+ *
+ * Robot checks, dog pages and unavailable or region-locked listings fail with a
+ * failureReason instead of returning an empty product. Prices, ratings and review
+ * counts are read in the marketplace's currency, number format and language.
+ * Selectors and patterns come from the extraction rules (see extraction-rules.ts).
  */
 export async function parseAmazonListing(
   markdown: string,
   html: string,
-  asin: string
+  asin: string,
+  marketplaceCode: MarketplaceCode = DEFAULT_MARKETPLACE,
+  rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
 ): Promise<ParseResult> {
+  const marketplace = getMarketplace(marketplaceCode);
+
+  const failureReason = detectListingFailure(markdown, html);
+  if (failureReason) {
+    return {
+      success: false,
+      error: PAGE_PROBLEM_MESSAGES[failureReason],
+      failureReason,
+    };
+  }
+
   try {
+    const fieldRules = compileFieldRules(rules, marketplace);
+    // Parsed once and shared by every extractor
+    const document = parseHtml(html);
+
+    // Title, bullets, description and main / A+ images from the parsed page
+    const domFields = extractDomFields(document, fieldRules.selectors);
+
     // ====================================================================
     // Extract Title
     // ====================================================================
     let title = "";
+    const provenance: ListingProvenance = {
+      title: 'missing',
+      price: 'missing',
+      rating: 'missing',
+      reviewCount: 'missing',
+      bullets: 'missing',
+      description: 'missing',
+      images: 'missing',
+    };
 
     // PRIORITY 1: HTML productTitle (most reliable)
-    const htmlTitleMatch = html.match(/<span[^>]*id="productTitle"[^>]*>([^<]+)<\/span>/i);
-    if (htmlTitleMatch) {
-      title = htmlTitleMatch[1].trim();
+    if (domFields.title) {
+      title = domFields.title;
+      provenance.title = 'product_title';
     }
 
     // PRIORITY 2: Markdown heading (skip accessibility)
+    // Amazon renders only the product title as a top-level heading; its length
+    // says nothing (a Japanese title packs as much into 40 characters as an
+    // English one into 100), so only page chrome and headings without letters are skipped
     if (!title) {
       const markdownHeadings = markdown.match(/^#\s+(.+)$/gm);
       if (markdownHeadings) {
-        const accessibilityKeywords = [
-          "Product summary", "Keyboard shortcut", "Skip to main content",
-          "Navigation", "Menu",
-        ];
-
         for (const heading of markdownHeadings) {
           const headingText = heading.replace(/^#\s+/, "").trim();
-          const isAccessibility = accessibilityKeywords.some(k => headingText.includes(k));
+          const isAccessibility = fieldRules.titleHeadingExcludes.some(k => headingText.includes(k));
 
-          if (!isAccessibility && headingText.length > 50) {
+          if (!isAccessibility && /\p{L}/u.test(headingText)) {
             title = headingText;
+            provenance.title = 'markdown_heading';
             break;
           }
         }
@@ -144,23 +403,37 @@ export async function parseAmazonListing(
     if (!title) {
       const lines = markdown.split("\n").filter(line => line.trim().length > 50);
       title = lines[0]?.trim() || "Unknown Title";
+      if (lines[0]) provenance.title = 'first_long_line';
     }
 
     // ====================================================================
     // Extract Price
     // ====================================================================
     let price = 0;
-    const pricePatterns = [
-      /\$(\d+\.\d{2})/,
-      /Price:\s*\$(\d+\.\d{2})/i,
-      /(\d+\.\d{2})\s*USD/i,
-    ];
-
-    for (const pattern of pricePatterns) {
-      const priceMatch = markdown.match(pattern);
+
+    // PRIORITY 1: HTML buybox price
+    const pricing = extractPricing(markdown, document, marketplace, fieldRules);
+    if (pricing.buyboxPrice) {
+      price = pricing.buyboxPrice;
+      provenance.price = 'buybox';
+    }
+
+    // PRIORITY 2: Labeled price, PRIORITY 3: first amount on the page that is not
+    // a strike-through list price or a shipping fee
+    const listPriceBefore = new RegExp(`(?:${LIST_PRICE_LABEL}\\s*:?\\s*|~~|\\+\\s*)$`, 'i');
+    const shippingAfter = /^\s*(?:~~|shipping|delivery)/i;
+
+    for (const [pattern, source] of fieldRules.price) {
+      if (price) break;
+      const priceMatch = Array.from(markdown.matchAll(pattern)).find(match => {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        return !listPriceBefore.test(markdown.slice(Math.max(0, start - 20), start))
+          && !shippingAfter.test(markdown.slice(end, end + 20));
+      });
       if (priceMatch) {
-        price = parseFloat(priceMatch[1]);
-        break;
+        price = parseAmount(priceMatch[1], marketplace);
+        provenance.price = source;
       }
     }
 
@@ -168,16 +441,12 @@ export async function parseAmazonListing(
     // Extract Rating
     // ====================================================================
     let rating = 0;
-    const ratingPatterns = [
-      /(\d+\.\d+)\s*out\s*of\s*5\s*stars/i,
-      /(\d+\.\d+)\s*★/,
-      /(\d+\.\d+)\s*stars/i,
-    ];
 
-    for (const pattern of ratingPatterns) {
+    for (const [pattern, source] of fieldRules.rating) {
       const ratingMatch = markdown.match(pattern);
       if (ratingMatch) {
-        rating = parseFloat(ratingMatch[1]);
+        rating = parseFloat(ratingMatch[1].replace(',', '.'));
+        provenance.rating = source;
         break;
       }
     }
@@ -186,16 +455,12 @@ export async function parseAmazonListing(
     // Extract Review Count
     // ====================================================================
     let reviewCount = 0;
-    const reviewPatterns = [
-      /(\d{1,3}(?:,\d{3})*)\s*ratings/i,
-      /(\d{1,3}(?:,\d{3})*)\s*reviews/i,
-      /(\d+)\s*customer\s*reviews/i,
-    ];
 
-    for (const pattern of reviewPatterns) {
+    for (const [pattern, source] of fieldRules.reviewCount) {
       const reviewMatch = markdown.match(pattern);
       if (reviewMatch) {
-        reviewCount = parseInt(reviewMatch[1].replace(/,/g, ""));
+        reviewCount = parseCount(reviewMatch[1]);
+        provenance.reviewCount = source;
         break;
       }
     }
@@ -206,62 +471,49 @@ export async function parseAmazonListing(
     const bullets: string[] = [];
 
     // PRIORITY 1: HTML feature-bullets
-    const featureBulletsMatch = html.match(
-      /<div[^>]*id="feature-bullets"[^>]*>([\s\S]*?)<\/div>/i
-    );
-
-    if (featureBulletsMatch) {
-      const bulletsSection = featureBulletsMatch[1];
-      const htmlBullets = bulletsSection.match(/<span[^>]*class="a-list-item"[^>]*>([\s\S]*?)<\/span>/gi);
-
-      if (htmlBullets) {
-        htmlBullets.forEach(bullet => {
-          const cleaned = bullet
-            .replace(/<[^>]+>/g, "")
-            .replace(/\s+/g, " ")
-            .trim();
-
-          if (cleaned.length > 20 && cleaned.length < 500) {
-            bullets.push(cleaned);
-          }
-        });
-      }
+    if (domFields.bullets.length > 0) {
+      bullets.push(...domFields.bullets);
+      provenance.bullets = 'feature_bullets';
     }
 
     // PRIORITY 2: Markdown bullets with filtering
     if (bullets.length === 0) {
       const markdownBullets = markdown.match(/^[\*\-]\s+(.+)$/gm);
       if (markdownBullets) {
-        const excludePatterns = [
-          /^Customer Questions/i,
-          /^Product Details/i,
-          /^Technical Details/i,
-          /^Additional Information/i,
-          /^See more product details/i,
-          /^\d+\.\d+\s*out of/i,
-          /^Reviewed in/i,
-          /^Read more$/i,
-          /^Show more$/i,
-        ];
-
         markdownBullets.forEach(bullet => {
           const cleaned = bullet.replace(/^[\*\-]\s+/, "").trim();
-          const shouldExclude = excludePatterns.some(pattern => pattern.test(cleaned));
+          const shouldExclude = fieldRules.bulletExcludes.some(pattern => pattern.test(cleaned));
 
           if (!shouldExclude && cleaned.length > 20 && cleaned.length < 500) {
             bullets.push(cleaned);
           }
         });
       }
+
+      if (bullets.length > 0) {
+        provenance.bullets = 'markdown_list';
+      }
     }
 
     // ====================================================================
     // Extract Description
     // ====================================================================
     let description = "";
-    const descriptionMatch = markdown.match(/(?:Product Description|Description|About this item)[:\s]*\n+((?:.+\n?)+)/i);
-    if (descriptionMatch) {
-      description = descriptionMatch[1].trim().substring(0, 2000);
+
+    // PRIORITY 1: HTML productDescription
+    if (domFields.description) {
+      description = domFields.description.substring(0, 2000);
+      provenance.description = 'product_description';
+    }
+
+    // PRIORITY 2: Markdown description section
+    for (const [pattern, source] of fieldRules.description) {
+      if (description) break;
+      const descriptionMatch = markdown.match(pattern);
+      if (descriptionMatch) {
+        description = descriptionMatch[1].trim().substring(0, 2000);
+        provenance.description = source;
+      }
     }
 
     // ====================================================================
@@ -296,29 +548,17 @@ export async function parseAmazonListing(
       }
     }
 
-    // Try to identify main image from specific sections
-    let mainImageId: string | null = null;
-    const mainImageMatch = html.match(/id=["']landingImage["'][^>]*src=["']https?:\/\/[^"']*\/I\/([A-Za-z0-9\+_-]+)\./i);
-    if (mainImageMatch) {
-      mainImageId = mainImageMatch[1];
-    }
+    // Try to identify main image from the image block
+    let mainImageId = domFields.mainImageId;
+    const hasLandingImage = mainImageId !== null;
 
     // If no main image identified, use first image
     if (!mainImageId && imageBaseIds.size > 0) {
       mainImageId = Array.from(imageBaseIds.keys())[0];
     }
 
-    // Try to identify A+ content images (usually in aplus sections)
-    const aplusImageIds = new Set<string>();
-    const aplusMatch = html.match(/<div[^>]*(?:id|class)=["'][^"']*(?:aplus|a-plus|premium)[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi);
-    if (aplusMatch) {
-      for (const section of aplusMatch) {
-        const aplusImages = section.matchAll(/\/I\/([A-Za-z0-9\+_-]+)\./g);
-        for (const match of aplusImages) {
-          aplusImageIds.add(match[1]);
-        }
-      }
-    }
+    // Identify A+ content images (usually in aplus sections)
+    const aplusImageIds = new Set(domFields.aplusImageIds);
 
     // Filter out non-image URLs (CSS, JS files mistakenly captured)
     const filteredImages = Array.from(imageBaseIds.entries()).filter(([baseId, url]) => {
@@ -363,6 +603,35 @@ export async function parseAmazonListing(
       });
     });
 
+    if (images.length > 0) {
+      provenance.images = hasLandingImage ? 'landing_image' : 'url_scan';
+    }
+
+    // ====================================================================
+    // Extract Best Sellers Rank, Category Path and Product Details
+    // ====================================================================
+    const details = extractDetails(markdown, document);
+
+    // ====================================================================
+    // Extract Variation Matrix (child ASINs)
+    // ====================================================================
+    const variations = extractVariations(document, marketplace);
+
+    // ====================================================================
+    // Extract Star Histogram, Review Snippets and "Customers Say"
+    // ====================================================================
+    const reviews = extractReviews(markdown, document, marketplace);
+
+    // ====================================================================
+    // Extract A+ Module Text, Comparison Chart and Q&A
+    // ====================================================================
+    const content = extractContent(markdown, document);
+
+    // ====================================================================
+    // Extract Videos and 360 View
+    // ====================================================================
+    const media = extractMedia(markdown, html);
+
     // ====================================================================
     // Return Parsed Data
     // ====================================================================
@@ -370,14 +639,25 @@ export async function parseAmazonListing(
       success: true,
       data: {
         asin,
+        marketplace: marketplace.code,
         title,
         price,
+        currency: marketplace.currency,
+        pricing,
+        details,
+        ...(variations && { variations }),
         rating,
         reviewCount,
+        reviews,
         bullets: bullets.slice(0, 10),
         description,
+        content,
         images,
+        media,
         parsedAt: new Date().toISOString(),
+        provenance,
+        ...scoreProvenance(provenance),
+        rulesVersion: fieldRules.version,
       },
     };
 
@@ -389,21 +669,102 @@ export async function parseAmazonListing(
   }
 }
 
+function getParseErrorCategory(result: ParseResult): ScrapeErrorCategory {
+  return result.failureReason ? FAILURE_REASON_CATEGORIES[result.failureReason] : 'parse_failure';
+}
+
 /**
  * Scrape and parse in one call (convenience method)
+ *
+ * Rate-limited and transient failures are retried with jittered exponential backoff,
+ * honoring the backend's Retry-After header. When a backend still fails, the next of
+ * options.scrapers takes over (a missing listing is missing on every backend).
+ * Failures carry their errorCategory.
+ *
+ * With a cache configured, raw pages are saved after every scrape and a cached page
+ * younger than the TTL is parsed instead of calling Firecrawl (0 credits).
  */
 export async function scrapeAndParseAmazon(
   asin: string,
-  firecrawlApiKey: string
+  firecrawlApiKey: string,
+  options: ScrapeOptions = {}
 ): Promise<ParseResult> {
-  const scraped = await scrapeAmazonListing(asin, firecrawlApiKey);
+  const { cache, marketplace = DEFAULT_MARKETPLACE, rules, scrapers, ...retryOptions } = options;
 
-  if (!scraped) {
+  const cached = cache && getCachedScrape(cache.dir, toListingKey(asin, marketplace), cache.ttlMs);
+  if (cached) {
+    const result = await parseAmazonListing(cached.markdown, cached.html, asin, marketplace, rules);
     return {
-      success: false,
-      error: "Failed to scrape Amazon listing",
+      ...result,
+      ...(!result.success && { errorCategory: getParseErrorCategory(result) }),
+      creditsUsed: 0,
+      attempts: 0,
+      fromCache: true,
     };
   }
 
-  return parseAmazonListing(scraped.markdown, scraped.html, asin);
+  const maxRetries = retryOptions.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const backends: Scraper[] = scrapers?.length
+    ? scrapers
+    : [{ name: 'firecrawl', scrape: (asin, marketplace) => scrapeAmazonListing(asin, firecrawlApiKey, marketplace) }];
+  let attempts = 0;
+  let scraped: ScrapedAmazonListing | undefined;
+  let scraper: Scraper | undefined;
+
+  for (const [index, backend] of backends.entries()) {
+    try {
+      scraped = await withRetry(
+        async () => {
+          attempts++;
+          return backend.scrape(asin, marketplace);
+        },
+        {
+          ...retryOptions,
+          maxRetries,
+          shouldRetry: (error) => error instanceof FirecrawlError && error.retryable,
+          getRetryAfterMs: (error) => (error as FirecrawlError).retryAfterMs,
+          onRetry: (error, retry, delayMs) => {
+            const { category, message } = error as FirecrawlError;
+            console.log(`    ↻ ${asin} ${category} (${message}), retry ${retry}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s`);
+          },
+        }
+      );
+      scraper = backend;
+      break;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const next = backends[index + 1];
+      if (next && !(error instanceof FirecrawlError && error.category === 'not_found')) {
+        console.log(`    ⤷ ${asin} ${backend.name} failed (${message}), falling back to ${next.name}`);
+        continue;
+      }
+
+      return {
+        success: false,
+        error: `Failed to scrape Amazon listing: ${message}`,
+        errorCategory: error instanceof FirecrawlError ? error.category : 'transient',
+        attempts,
+        scraper: backend.name,
+      };
+    }
+  }
+
+  if (!scraped || !scraper) {
+    throw new Error(`No scraper backend returned ${asin}`);
+  }
+
+  const result = await parseAmazonListing(scraped.markdown, scraped.html, asin, marketplace, rules);
+
+  // A robot check says nothing about the listing; never serve it from the cache
+  if (cache && result.failureReason !== 'captcha') {
+    saveCachedScrape(cache.dir, scraped);
+  }
+
+  return {
+    ...result,
+    ...(!result.success && { errorCategory: getParseErrorCategory(result) }),
+    creditsUsed: scraped.creditsUsed,
+    attempts,
+    scraper: scraper.name,
+  };
 }
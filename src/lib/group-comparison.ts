@@ -0,0 +1,157 @@
+/**
+ * Group Comparison - Head-to-head metrics for "my ASIN vs. competitor ASINs"
+ *
+ * Computes deterministic metrics per competitor group (price positioning, image
+ * count gap, bullet coverage) that feed both the GPT prompt and the report.
+ *
+ * Usage:
+ *   import { compareGroup } from './lib/group-comparison';
+ *
+ *   const metrics = compareGroup(group, scrapedListings);
+ */
+
+import { ParsedAmazonProduct } from './firecrawl-amazon.js';
+import { AsinGroup } from '../types/index.js';
+import { ListingKey, getListingCurrency } from './marketplaces.js';
+
+export interface GroupMetrics {
+  group: string;
+  ownAsins: ListingKey[];
+  competitorAsins: ListingKey[];
+  pricePositioning: {
+    // Currency of all prices below; null when the group spans currencies (prices are then not compared) or is empty
+    currency: string | null;
+    ownPrice: number | null;
+    competitorMin: number | null;
+    competitorMax: number | null;
+    competitorAverage: number | null;
+    // 1 = cheapest listing in the group
+    ownPriceRank: number | null;
+    position: 'below' | 'within' | 'above' | 'unknown';
+  };
+  imageCount: {
+    own: number | null;
+    competitorAverage: number | null;
+    gap: number | null;
+  };
+  bulletCoverage: {
+    ownBulletCount: number | null;
+    competitorAverageBulletCount: number | null;
+    // Share of recurring competitor bullet terms also present in own bullets
+    coveragePercent: number | null;
+    missingTerms: string[];
+  };
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'because', 'before', 'being', 'between', 'cards', 'check',
+  'every', 'first', 'from', 'have', 'into', 'just', 'keep', 'made', 'make', 'more',
+  'most', 'only', 'other', 'over', 'perfect', 'product', 'quality', 'some', 'such',
+  'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'very', 'what', 'when', 'where', 'which', 'while', 'will', 'with',
+  'without', 'your', 'yours',
+]);
+
+const MAX_MISSING_TERMS = 10;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+}
+
+function extractTerms(bullets: string[]): Set<string> {
+  const terms = new Set<string>();
+  for (const bullet of bullets) {
+    const words = bullet.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || [];
+    words.filter(word => !STOP_WORDS.has(word)).forEach(word => terms.add(word));
+  }
+  return terms;
+}
+
+/**
+ * Compute head-to-head metrics for one competitor group
+ *
+ * Listings that failed to scrape are skipped; metrics fall back to null when a side
+ * of the comparison has no data.
+ */
+export function compareGroup(
+  group: AsinGroup,
+  listings: Map<ListingKey, ParsedAmazonProduct>
+): GroupMetrics {
+  const own = group.ownAsins
+    .map(key => listings.get(key))
+    .filter((l): l is ParsedAmazonProduct => l !== undefined);
+  const competitors = group.competitorAsins
+    .map(key => listings.get(key))
+    .filter((l): l is ParsedAmazonProduct => l !== undefined);
+
+  // Price positioning (0 means the parser found no price), only within one currency
+  const currencies = Array.from(new Set([...own, ...competitors].map(getListingCurrency)));
+  const comparable = currencies.length <= 1;
+  const ownPrice = comparable ? average(own.map(l => l.price).filter(p => p > 0)) : null;
+  const competitorPrices = comparable ? competitors.map(l => l.price).filter(p => p > 0) : [];
+  const competitorMin = competitorPrices.length > 0 ? Math.min(...competitorPrices) : null;
+  const competitorMax = competitorPrices.length > 0 ? Math.max(...competitorPrices) : null;
+
+  let position: GroupMetrics['pricePositioning']['position'] = 'unknown';
+  let ownPriceRank: number | null = null;
+  if (ownPrice !== null && competitorMin !== null && competitorMax !== null) {
+    if (ownPrice < competitorMin) position = 'below';
+    else if (ownPrice > competitorMax) position = 'above';
+    else position = 'within';
+    ownPriceRank = competitorPrices.filter(p => p < ownPrice).length + 1;
+  }
+
+  // Image count gap (positive = own listing has more images)
+  const ownImages = average(own.map(l => l.images.length));
+  const competitorImages = average(competitors.map(l => l.images.length));
+  const imageGap = ownImages !== null && competitorImages !== null
+    ? Math.round((ownImages - competitorImages) * 100) / 100
+    : null;
+
+  // Bullet coverage: terms used by at least two competitors (or the only one)
+  const ownTerms = extractTerms(own.flatMap(l => l.bullets));
+  const termCounts = new Map<string, number>();
+  for (const competitor of competitors) {
+    for (const term of extractTerms(competitor.bullets)) {
+      termCounts.set(term, (termCounts.get(term) || 0) + 1);
+    }
+  }
+  const minOccurrences = Math.min(2, competitors.length);
+  const recurringTerms = Array.from(termCounts.entries())
+    .filter(([, count]) => count >= minOccurrences)
+    .sort((a, b) => b[1] - a[1]);
+  const missingTerms = recurringTerms
+    .filter(([term]) => !ownTerms.has(term))
+    .map(([term]) => term);
+
+  const coveragePercent = own.length > 0 && recurringTerms.length > 0
+    ? Math.round(((recurringTerms.length - missingTerms.length) / recurringTerms.length) * 100)
+    : null;
+
+  return {
+    group: group.name,
+    ownAsins: group.ownAsins,
+    competitorAsins: group.competitorAsins,
+    pricePositioning: {
+      currency: comparable ? currencies[0] ?? null : null,
+      ownPrice,
+      competitorMin,
+      competitorMax,
+      competitorAverage: average(competitorPrices),
+      ownPriceRank,
+      position,
+    },
+    imageCount: {
+      own: ownImages,
+      competitorAverage: competitorImages,
+      gap: imageGap,
+    },
+    bulletCoverage: {
+      ownBulletCount: average(own.map(l => l.bullets.length)),
+      competitorAverageBulletCount: average(competitors.map(l => l.bullets.length)),
+      coveragePercent,
+      missingTerms: own.length > 0 ? missingTerms.slice(0, MAX_MISSING_TERMS) : [],
+    },
+  };
+}
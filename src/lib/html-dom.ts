@@ -0,0 +1,418 @@
+/**
+ * HTML DOM - Lenient HTML parser and CSS selector engine
+ *
+ * Regexes like /<div id="x">([\s\S]*?)<\/div>/ stop at the first nested </div>;
+ * this parses the page into an element tree the way a browser would for the
+ * markup Amazon serves (void elements, unclosed <li> / <p> / table cells, raw
+ * <script> and <style> text, stray closing tags), so a section is always read up
+ * to its own closing tag. Building and walking the tree never recurses, so
+ * thousands of unclosed nested tags cannot overflow the call stack.
+ *
+ * Supported selectors: tag, *, #id, .class, [attr], [attr="v"], [attr*="v"],
+ * [attr^="v"], [attr$="v"], [attr~="v"], descendant and child (>) combinators
+ * and comma-separated lists.
+ *
+ * Usage:
+ *   import { parseHtml, querySelectorAll, textContent } from './lib/html-dom';
+ *
+ *   const document = parseHtml(html);
+ *   querySelectorAll(document, '#feature-bullets li span.a-list-item').map(el => textContent(el));
+ *   toMarkdown(document);    // "# Ultimate Guard Katana Sleeves ...\n* Premium quality ..."
+ */
+
+import { decodeEntities } from './html-text.js';
+
+export interface HtmlElement {
+  type: 'element';
+  // Lowercase tag name ('#document' for the root)
+  tag: string;
+  // Lowercase attribute names, decoded values
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+  parent: HtmlElement;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea']);
+
+// Elements whose end tag may be omitted: opening one closes these open siblings
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'br', 'dd', 'div', 'dl', 'dt', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'ol', 'p', 'section', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const SKIPPED_TEXT_ELEMENTS = new Set(['script', 'style', 'noscript', 'template']);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'=/<>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const key = name.toLowerCase();
+    if (!(key in attributes)) {
+      attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Parse an HTML page or fragment into an element tree
+ *
+ * Never throws: unbalanced markup is repaired the way browsers do it (a closing
+ * tag closes every element opened after its match; one without a match is ignored).
+ */
+export function parseHtml(html: string): HtmlElement {
+  const document: HtmlElement = { type: 'element', tag: '#document', attributes: {}, children: [], parent: null };
+  const stack: HtmlElement[] = [document];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text: decodeEntities(text), parent: current() });
+  };
+
+  const lowerHtml = html.toLowerCase();
+  TOKEN_PATTERN.lastIndex = 0;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    appendText(html.slice(position, match.index));
+    position = TOKEN_PATTERN.lastIndex;
+
+    const [token, closing, rawTag, attributeSource] = match;
+    if (!rawTag) continue; // comment, doctype or processing instruction
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      let open = stack.length - 1;
+      while (open > 0 && stack[open].tag !== tag) open--;
+      if (open > 0) stack.length = open;
+      continue;
+    }
+
+    const impliedEnd = IMPLIED_END[tag];
+    while (impliedEnd?.includes(current().tag)) stack.pop();
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attributes: parseAttributes(attributeSource),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (VOID_ELEMENTS.has(tag) || token.endsWith('/>')) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      // Script and style bodies are text, even when they contain markup
+      const end = lowerHtml.indexOf(`</${tag}`, position);
+      const body = html.slice(position, end >= 0 ? end : html.length);
+      if (body) element.children.push({ type: 'text', text: tag === 'textarea' ? decodeEntities(body) : body, parent: element });
+      position = end >= 0 ? html.indexOf('>', end) + 1 || html.length : html.length;
+      TOKEN_PATTERN.lastIndex = position;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  appendText(html.slice(position));
+  return document;
+}
+
+// ==================================================================
+// Selectors
+// ==================================================================
+
+interface AttributeCondition {
+  name: string;
+  operator: '' | '=' | '*=' | '^=' | '$=' | '~=';
+  value: string;
+}
+
+interface CompoundSelector {
+  tag: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeCondition[];
+  // How this compound relates to the previous one (null for the first)
+  combinator: ' ' | '>' | null;
+}
+
+const SELECTOR_TOKEN = /\s*(>)\s*|\s+|(\*|[a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([*^$~]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/y;
+
+const selectorCache = new Map<string, CompoundSelector[][]>();
+
+/**
+ * Parse a selector list into compound selectors, left to right
+ *
+ * @throws Error when the selector uses syntax the engine does not support
+ */
+export function parseSelector(selector: string): CompoundSelector[][] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const list = selector.split(',').map(part => {
+    const source = part.trim();
+    if (!source) throw new Error(`Invalid selector "${selector}": empty selector`);
+
+    const compounds: CompoundSelector[] = [];
+    let compound: CompoundSelector | null = null;
+    let combinator: ' ' | '>' | null = null;
+
+    SELECTOR_TOKEN.lastIndex = 0;
+    while (SELECTOR_TOKEN.lastIndex < source.length) {
+      const start = SELECTOR_TOKEN.lastIndex;
+      const token = SELECTOR_TOKEN.exec(source);
+      if (!token) throw new Error(`Invalid selector "${selector}": unexpected "${source.slice(start)}"`);
+
+      const [whole, child, tag, id, className, attribute, operator, doubleQuoted, singleQuoted, unquoted] = token;
+      if (child || !whole.trim()) {
+        if (!compound) throw new Error(`Invalid selector "${selector}": combinator without a left-hand side`);
+        combinator = child ? '>' : ' ';
+        compound = null;
+        continue;
+      }
+
+      if (!compound) {
+        compound = { tag: null, ids: [], classes: [], attributes: [], combinator: compounds.length > 0 ? combinator : null };
+        compounds.push(compound);
+      } else if (tag) {
+        throw new Error(`Invalid selector "${selector}": tag "${tag}" must come first`);
+      }
+
+      if (tag) compound.tag = tag === '*' ? null : tag.toLowerCase();
+      else if (id) compound.ids.push(id);
+      else if (className) compound.classes.push(className);
+      else if (attribute) {
+        compound.attributes.push({
+          name: attribute.toLowerCase(),
+          operator: (operator ?? '') as AttributeCondition['operator'],
+          value: doubleQuoted ?? singleQuoted ?? unquoted ?? '',
+        });
+      }
+    }
+
+    if (!compound) throw new Error(`Invalid selector "${selector}": ends with a combinator`);
+    return compounds;
+  });
+
+  selectorCache.set(selector, list);
+  return list;
+}
+
+function matchesAttribute(element: HtmlElement, condition: AttributeCondition): boolean {
+  const value = element.attributes[condition.name];
+  if (value === undefined) return false;
+
+  switch (condition.operator) {
+    case '': return true;
+    case '=': return value === condition.value;
+    case '*=': return condition.value !== '' && value.includes(condition.value);
+    case '^=': return condition.value !== '' && value.startsWith(condition.value);
+    case '$=': return condition.value !== '' && value.endsWith(condition.value);
+    case '~=': return value.split(/\s+/).includes(condition.value);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (element.tag === '#document') return false;
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.ids.some(id => element.attributes.id !== id)) return false;
+
+  const classes = element.attributes.class?.split(/\s+/) ?? [];
+  if (compound.classes.some(name => !classes.includes(name))) return false;
+
+  return compound.attributes.every(condition => matchesAttribute(element, condition));
+}
+
+/**
+ * Match right to left: the element against the last compound, then its ancestors
+ */
+function matchesFrom(element: HtmlElement, compounds: CompoundSelector[], index: number, scope: HtmlElement | null): boolean {
+  const compound = compounds[index];
+  if (!matchesCompound(element, compound)) return false;
+  if (index === 0) return true;
+
+  let ancestor = element.parent;
+  while (ancestor && ancestor !== scope) {
+    if (matchesFrom(ancestor, compounds, index - 1, scope)) return true;
+    if (compound.combinator === '>') return false;
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+/**
+ * Push children so that popping visits them in document order
+ */
+function pushChildren<T>(pending: Array<HtmlNode | T>, element: HtmlElement): void {
+  for (let i = element.children.length - 1; i >= 0; i--) pending.push(element.children[i]);
+}
+
+function* descendants(root: HtmlElement): Generator<HtmlElement> {
+  const pending: HtmlNode[] = [];
+  pushChildren(pending, root);
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (node.type !== 'element') continue;
+    yield node;
+    pushChildren(pending, node);
+  }
+}
+
+/**
+ * Whether an element matches a selector
+ */
+export function matches(element: HtmlElement, selector: string): boolean {
+  return parseSelector(selector).some(compounds => matchesFrom(element, compounds, compounds.length - 1, null));
+}
+
+/**
+ * All descendants of root matching the selector, in document order
+ *
+ * The selector is scoped to root: ancestors above it are never matched.
+ */
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const list = parseSelector(selector);
+  return Array.from(descendants(root))
+    .filter(element => list.some(compounds => matchesFrom(element, compounds, compounds.length - 1, root)));
+}
+
+/**
+ * The first descendant of root matching the selector
+ */
+export function querySelector(root: HtmlElement, selector: string): HtmlElement | null {
+  const list = parseSelector(selector);
+  for (const element of descendants(root)) {
+    if (list.some(compounds => matchesFrom(element, compounds, compounds.length - 1, root))) return element;
+  }
+  return null;
+}
+
+/**
+ * The element after this one among its parent's children, skipping text
+ */
+export function nextElementSibling(element: HtmlElement): HtmlElement | null {
+  const siblings = element.parent?.children ?? [];
+  for (let i = siblings.indexOf(element) + 1; i < siblings.length; i++) {
+    const sibling = siblings[i];
+    if (sibling.type === 'element') return sibling;
+  }
+  return null;
+}
+
+/**
+ * Visible text of a node, one line per block element (like htmlToText)
+ *
+ * @param exclude - Elements whose text is left out, e.g. a section's heading
+ */
+export function textContent(node: HtmlNode, exclude: (element: HtmlElement) => boolean = () => false): string {
+  const parts: string[] = [];
+  // Nodes still to visit, and text to write once an element's children are done
+  const pending: Array<HtmlNode | string> = [node];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (typeof current === 'string') {
+      parts.push(current);
+      continue;
+    }
+    if (current.type === 'text') {
+      parts.push(current.text);
+      continue;
+    }
+    if (SKIPPED_TEXT_ELEMENTS.has(current.tag) || exclude(current)) continue;
+
+    if (BLOCK_ELEMENTS.has(current.tag)) {
+      parts.push('\n');
+      pending.push('\n');
+    }
+    pushChildren(pending, current);
+  }
+
+  return parts.join('')
+    // Invisible direction marks Amazon puts around "Key : Value"
+    .replace(/[\u200e\u200f]/g, '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Markdown of a node (headings, list items, table rows and images), for pages
+ * scraped without Firecrawl so the parser's markdown fallbacks still apply
+ */
+export function toMarkdown(node: HtmlNode): string {
+  const parts: string[] = [];
+  const pending: Array<HtmlNode | string> = [node];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (typeof current === 'string') {
+      parts.push(current);
+      continue;
+    }
+    if (current.type === 'text') {
+      parts.push(current.text);
+      continue;
+    }
+    if (SKIPPED_TEXT_ELEMENTS.has(current.tag) || current.tag === 'head') continue;
+
+    if (current.tag === 'img') {
+      const source = current.attributes['data-old-hires'] || current.attributes.src || '';
+      const alt = (current.attributes.alt ?? '').replace(/[[\]]/g, '').replace(/\s+/g, ' ').trim();
+      if (/^https?:\/\//.test(source)) parts.push(`![${alt}](${source})`);
+      continue;
+    }
+
+    if (current.tag === 'tr') {
+      const cells = current.children.filter((child): child is HtmlElement =>
+        child.type === 'element' && (child.tag === 'td' || child.tag === 'th'));
+      parts.push(`\n| ${cells.map(cell => textContent(cell).replace(/\n/g, ' ')).join(' | ')} |\n`);
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(current.tag);
+    const prefix = heading ? `${'#'.repeat(Number(heading[1]))} ` : current.tag === 'li' ? '* ' : '';
+    if (BLOCK_ELEMENTS.has(current.tag)) {
+      parts.push(`\n${prefix}`);
+      pending.push('\n');
+    }
+    pushChildren(pending, current);
+  }
+
+  return parts.join('')
+    .replace(/[\u200e\u200f]/g, '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    // Markers of headings and list items whose text is in a nested block
+    .filter(line => line && !/^(?:#+|\*)$/.test(line))
+    .join('\n');
+}
@@ -0,0 +1,81 @@
+/**
+ * HTML Text - Plain text from scraped HTML and markdown fragments
+ *
+ * Block-level elements become line breaks so values from adjacent table cells
+ * or list items never run together; inline elements (links, bold) are dropped
+ * without a break.
+ *
+ * Usage:
+ *   import { htmlToText, stripMarkdownLinks } from './lib/html-text';
+ *
+ *   htmlToText('<li>#5 in <a href="/x">Card Sleeves</a></li>');  // "#5 in Card Sleeves"
+ *   stripMarkdownLinks('[Toys & Games](https://...)');          // "Toys & Games"
+ *   escapeHtml('Sleeves <b>& more</b>');                        // "Sleeves &lt;b&gt;&amp; more&lt;/b&gt;"
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  rsaquo: '›',
+  lrm: '',
+  rlm: '',
+};
+
+const BLOCK_TAGS = 'address|article|aside|br|dd|div|dl|dt|h[1-6]|header|hr|li|ol|p|section|table|tbody|td|tfoot|th|thead|tr|ul';
+
+/**
+ * Decode named and numeric HTML entities
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Escape text for use in HTML element content or attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert an HTML fragment to text, one line per block element
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    // Invisible direction marks Amazon puts around "Key : Value"
+    .replace(/[\u200e\u200f]/g, '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Replace markdown links and images with their text
+ */
+export function stripMarkdownLinks(markdown: string): string {
+  return markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+}
@@ -0,0 +1,188 @@
+/**
+ * Listing Diff - Structured comparison of two parsed Amazon listings
+ *
+ * Compares a listing against its previous snapshot: title, price, rating, review
+ * count and Best Sellers Rank deltas, added / removed bullets and images, and
+ * whether the description changed. Used to report competitor edits between runs.
+ *
+ * Usage:
+ *   import { diffListings } from './lib/listing-diff';
+ *
+ *   const diff = diffListings(previous.listing, current, previous.runDate);
+ *   if (diff.hasChanges) { ... }
+ */
+
+import { ParsedAmazonProduct } from './firecrawl-amazon.js';
+import { getListingCurrency } from './marketplaces.js';
+
+export interface ListingDiff {
+  asin: string;
+  previousRunDate: string;
+  hasChanges: boolean;
+  title?: {
+    before: string;
+    after: string;
+  };
+  price?: NumericDelta;
+  // Currency of the price delta (absent on listings parsed before currencies were recorded)
+  currency?: string;
+  rating?: NumericDelta;
+  reviewCount?: NumericDelta;
+  // Best Sellers Rank per category present in both runs (lower rank is better)
+  bestSellersRanks: RankChange[];
+  bulletsAdded: string[];
+  bulletsRemoved: string[];
+  descriptionChanged: boolean;
+  imagesAdded: string[];
+  imagesRemoved: string[];
+}
+
+export interface NumericDelta {
+  before: number;
+  after: number;
+  delta: number;
+  percentChange: number | null;
+}
+
+export interface RankChange {
+  category: string;
+  before: number;
+  after: number;
+  // Positive when the listing climbed (rank number went down)
+  improvement: number;
+}
+
+/**
+ * Extract the Amazon image base ID from an image URL
+ *
+ * e.g. "https://m.media-amazon.com/images/I/71CZ9vJUGxL._AC_SL1500_.jpg" → "71CZ9vJUGxL"
+ */
+export function getImageBaseId(url: string): string {
+  const match = url.match(/\/images\/I\/([A-Za-z0-9\+_-]+)/);
+  return match ? match[1] : url;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function numericDelta(before: number, after: number): NumericDelta | undefined {
+  // Parser returns 0 when a field is missing, which is not a real change
+  if (before === after || before === 0 || after === 0) return undefined;
+
+  const delta = Math.round((after - before) * 100) / 100;
+  return {
+    before,
+    after,
+    delta,
+    percentChange: Math.round((delta / before) * 10000) / 100,
+  };
+}
+
+function rankChanges(previous: ParsedAmazonProduct, current: ParsedAmazonProduct): RankChange[] {
+  // Listings parsed before details were extracted have no ranks to compare
+  const previousRanks = new Map((previous.details?.bestSellersRanks ?? []).map(r => [r.category, r.rank]));
+
+  return (current.details?.bestSellersRanks ?? [])
+    .filter(r => previousRanks.has(r.category) && previousRanks.get(r.category) !== r.rank)
+    .map(r => {
+      const before = previousRanks.get(r.category)!;
+      return { category: r.category, before, after: r.rank, improvement: before - r.rank };
+    });
+}
+
+/**
+ * Compare a listing against its previous snapshot
+ */
+export function diffListings(
+  previous: ParsedAmazonProduct,
+  current: ParsedAmazonProduct,
+  previousRunDate: string
+): ListingDiff {
+  const previousBullets = new Map(previous.bullets.map(b => [normalizeText(b), b]));
+  const currentBullets = new Map(current.bullets.map(b => [normalizeText(b), b]));
+
+  const previousImages = new Set(previous.images.map(img => getImageBaseId(img.url)));
+  const currentImages = new Set(current.images.map(img => getImageBaseId(img.url)));
+
+  const diff: ListingDiff = {
+    asin: current.asin,
+    previousRunDate,
+    hasChanges: false,
+    // Prices in different currencies (listing moved marketplace) are not comparable
+    price: getListingCurrency(previous) === getListingCurrency(current)
+      ? numericDelta(previous.price, current.price)
+      : undefined,
+    ...(current.currency && { currency: current.currency }),
+    rating: numericDelta(previous.rating, current.rating),
+    reviewCount: numericDelta(previous.reviewCount, current.reviewCount),
+    bestSellersRanks: rankChanges(previous, current),
+    bulletsAdded: Array.from(currentBullets.entries())
+      .filter(([key]) => !previousBullets.has(key))
+      .map(([, bullet]) => bullet),
+    bulletsRemoved: Array.from(previousBullets.entries())
+      .filter(([key]) => !currentBullets.has(key))
+      .map(([, bullet]) => bullet),
+    descriptionChanged: normalizeText(previous.description) !== normalizeText(current.description),
+    imagesAdded: Array.from(currentImages).filter(id => !previousImages.has(id)),
+    imagesRemoved: Array.from(previousImages).filter(id => !currentImages.has(id)),
+  };
+
+  if (normalizeText(previous.title) !== normalizeText(current.title)) {
+    diff.title = { before: previous.title, after: current.title };
+  }
+
+  diff.hasChanges = !!(
+    diff.title ||
+    diff.price ||
+    diff.rating ||
+    diff.reviewCount ||
+    diff.bestSellersRanks.length ||
+    diff.bulletsAdded.length ||
+    diff.bulletsRemoved.length ||
+    diff.descriptionChanged ||
+    diff.imagesAdded.length ||
+    diff.imagesRemoved.length
+  );
+
+  return diff;
+}
+
+/**
+ * Summarize a diff as short human-readable lines (used by email and logs)
+ */
+export function describeListingDiff(diff: ListingDiff): string[] {
+  const lines: string[] = [];
+
+  if (diff.title) {
+    lines.push(`Title rewritten: "${diff.title.before}" → "${diff.title.after}"`);
+  }
+  if (diff.price) {
+    const sign = diff.price.delta > 0 ? '+' : '';
+    lines.push(`Price ${diff.price.before.toFixed(2)} → ${diff.price.after.toFixed(2)}${diff.currency ? ` ${diff.currency}` : ''} (${sign}${diff.price.delta.toFixed(2)}, ${sign}${diff.price.percentChange}%)`);
+  }
+  if (diff.rating) {
+    lines.push(`Rating ${diff.rating.before} → ${diff.rating.after}`);
+  }
+  if (diff.reviewCount) {
+    const sign = diff.reviewCount.delta > 0 ? '+' : '';
+    lines.push(`Reviews ${diff.reviewCount.before} → ${diff.reviewCount.after} (${sign}${diff.reviewCount.delta})`);
+  }
+  diff.bestSellersRanks.forEach(rank => {
+    const direction = rank.improvement > 0 ? 'up' : 'down';
+    lines.push(`Best Sellers Rank in ${rank.category} #${rank.before} → #${rank.after} (${direction} ${Math.abs(rank.improvement)})`);
+  });
+  diff.bulletsAdded.forEach(bullet => lines.push(`Bullet added: ${bullet}`));
+  diff.bulletsRemoved.forEach(bullet => lines.push(`Bullet removed: ${bullet}`));
+  if (diff.descriptionChanged) {
+    lines.push('Description changed');
+  }
+  if (diff.imagesAdded.length > 0) {
+    lines.push(`New images: ${diff.imagesAdded.join(', ')}`);
+  }
+  if (diff.imagesRemoved.length > 0) {
+    lines.push(`Removed images: ${diff.imagesRemoved.join(', ')}`);
+  }
+
+  return lines;
+}
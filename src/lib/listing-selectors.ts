@@ -0,0 +1,152 @@
+/**
+ * Listing Selectors - Per-field selector chains over the parsed listing page
+ *
+ * Each field has a chain of CSS selectors tried in order; the first one that
+ * yields a value wins, so a page layout change only needs a new selector at the
+ * front of a chain. Fields the chains miss are left to the markdown fallbacks in
+ * parseAmazonListing.
+ *
+ * Usage:
+ *   import { extractDomFields } from './lib/listing-selectors';
+ *
+ *   const fields = extractDomFields(parseHtml(html));
+ *   fields.bullets;          // ["Premium quality card sleeves ...", ...]
+ *   fields.mainImageId;      // "71CZ9vJUGxL"
+ */
+
+import { HtmlElement, querySelectorAll, textContent } from './html-dom.js';
+
+export type SelectorField =
+  | 'title'
+  | 'bullets'
+  | 'description'
+  | 'mainImage'
+  | 'aplusImages'
+  | 'buyboxPrice'
+  | 'listPrice'
+  | 'savingsPercent'
+  | 'subscribeAndSavePrice';
+
+export type SelectorRules = Record<SelectorField, string[]>;
+
+export const DEFAULT_SELECTOR_RULES: SelectorRules = {
+  title: [
+    '#productTitle',
+    '#title > span',
+    '#btAsinTitle',
+  ],
+  bullets: [
+    '#feature-bullets li span.a-list-item',
+    '#featurebullets_feature_div li span.a-list-item',
+    '#productFactsDesktopExpander li span.a-list-item',
+    '#feature-bullets li',
+  ],
+  description: [
+    '#productDescription',
+    '#bookDescription_feature_div .a-expander-content',
+  ],
+  mainImage: [
+    '#landingImage',
+    '#imgBlkFront',
+    '#imgTagWrapperId img',
+    '#main-image-container img',
+  ],
+  // Sections whose images are A+ content (every matching section counts)
+  aplusImages: [
+    'div[id*="aplus"], div[class*="aplus"]',
+    'div[id*="a-plus"], div[class*="a-plus"]',
+    'div[id*="premium"], div[class*="premium"]',
+  ],
+  // Pricing elements whose text starts with the amount / percent, read by extractPricing
+  buyboxPrice: [
+    '.priceToPay .a-offscreen',
+    '#corePrice_feature_div .a-offscreen, #corePriceDisplay_desktop_feature_div .a-offscreen, #apex_desktop .a-offscreen',
+    '#priceblock_ourprice, #priceblock_dealprice, #priceblock_saleprice',
+  ],
+  listPrice: [
+    '[data-a-strike="true"] .a-offscreen',
+    '.priceBlockStrikePriceString',
+  ],
+  savingsPercent: [
+    '[class*="savingsPercentage"]',
+  ],
+  subscribeAndSavePrice: [
+    '#sns-base-price',
+  ],
+};
+
+export interface DomFields {
+  title: string | null;
+  bullets: string[];
+  description: string | null;
+  // Image ID (the part after /images/I/) of the main product image
+  mainImageId: string | null;
+  aplusImageIds: string[];
+}
+
+const IMAGE_ID_PATTERN = /\/images\/I\/([A-Za-z0-9\+_-]+)\./g;
+
+// Bullets outside this length are "See more" links or whole sections
+const MIN_BULLET_LENGTH = 20;
+const MAX_BULLET_LENGTH = 500;
+
+function singleLine(element: HtmlElement): string {
+  return textContent(element).replace(/\n/g, ' ');
+}
+
+function imageIds(element: HtmlElement): string[] {
+  return Object.values(element.attributes).flatMap(value => Array.from(value.matchAll(IMAGE_ID_PATTERN), match => match[1]));
+}
+
+/**
+ * The first non-empty value a selector chain yields
+ */
+function firstInChain<T>(document: HtmlElement, chain: string[], read: (elements: HtmlElement[]) => T | null): T | null {
+  for (const selector of chain) {
+    const elements = querySelectorAll(document, selector);
+    if (elements.length === 0) continue;
+
+    const value = read(elements);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+/**
+ * Extract the title, bullets, description and main / A+ images with the selector chains
+ */
+export function extractDomFields(document: HtmlElement, rules: SelectorRules = DEFAULT_SELECTOR_RULES): DomFields {
+
+  const title = firstInChain(document, rules.title, elements => singleLine(elements[0]) || null);
+
+  const bullets = firstInChain(document, rules.bullets, elements => {
+    const texts = elements
+      .map(singleLine)
+      .filter(text => text.length > MIN_BULLET_LENGTH && text.length < MAX_BULLET_LENGTH);
+    return texts.length > 0 ? texts : null;
+  }) ?? [];
+
+  const description = firstInChain(document, rules.description, elements => textContent(elements[0]) || null);
+
+  const mainImageId = firstInChain(document, rules.mainImage, elements => {
+    // data-old-hires is the full-size image; src may be a placeholder
+    const [element] = elements;
+    const source = element.attributes['data-old-hires'] || element.attributes.src || '';
+    return source.match(/\/images\/I\/([A-Za-z0-9\+_-]+)\./)?.[1] ?? imageIds(element)[0] ?? null;
+  });
+
+  // Nested A+ sections are read once, as part of their outermost section
+  const sections = new Set(rules.aplusImages.flatMap(selector => querySelectorAll(document, selector)));
+  const aplusImageIds = new Set<string>();
+  for (const section of sections) {
+    let ancestor = section.parent;
+    while (ancestor && !sections.has(ancestor)) ancestor = ancestor.parent;
+    if (ancestor) continue;
+
+    for (const element of [section, ...querySelectorAll(section, '*')]) {
+      imageIds(element).forEach(id => aplusImageIds.add(id));
+    }
+  }
+
+  return { title, bullets, description, mainImageId, aplusImageIds: Array.from(aplusImageIds) };
+}
@@ -0,0 +1,191 @@
+/**
+ * LLM Provider - Pluggable chat model backends for the analysis node
+ *
+ * Wraps the LangChain chat models behind one interface so the analysis node does
+ * not care which vendor (or local stand-in) produces the report:
+ *
+ *   openai            - OpenAI API (native JSON schema structured outputs)
+ *   azure-openai      - Azure OpenAI deployment (native JSON schema structured outputs)
+ *   anthropic         - Anthropic API (schema enforced through the prompt + validation)
+ *   openai-compatible - Local OpenAI-compatible endpoint such as Ollama or llama.cpp
+ *                       (JSON mode + schema in the prompt)
+ *
+ * Usage:
+ *   import { createLLMProvider } from './lib/llm-provider';
+ *
+ *   const llm = createLLMProvider(config.llm);
+ *   const response = await llm.invokeStructured(messages, { name: 'report', schema });
+ */
+
+import { ChatOpenAI, AzureChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { LLMConfig, LLMProviderName } from '../types/index.js';
+import { LLMUsage } from './cost-ledger.js';
+
+export interface StructuredOutputSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMResponse {
+  content: string;
+  // Token usage as reported by the provider (absent when it reports none)
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  invokeStructured(messages: BaseMessage[], schema: StructuredOutputSchema): Promise<LLMResponse>;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openai': 'gpt-4o',
+  'azure-openai': 'gpt-4o',
+  'anthropic': 'claude-3-5-sonnet-latest',
+  'openai-compatible': 'llama3.1',
+};
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+function contentToString(content: unknown): string {
+  if (typeof content === 'string') return content;
+
+  // Anthropic returns content blocks; keep only the text
+  if (Array.isArray(content)) {
+    const text = content
+      .filter(block => block?.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('');
+    if (text) return text;
+  }
+
+  return JSON.stringify(content);
+}
+
+function usageFromMessage(message: AIMessage): LLMUsage | undefined {
+  if (message.usage_metadata) {
+    return {
+      promptTokens: message.usage_metadata.input_tokens,
+      completionTokens: message.usage_metadata.output_tokens,
+    };
+  }
+
+  // Older OpenAI-compatible servers only fill the legacy tokenUsage metadata
+  const tokenUsage = message.response_metadata?.tokenUsage;
+  if (tokenUsage) {
+    return {
+      promptTokens: tokenUsage.promptTokens || 0,
+      completionTokens: tokenUsage.completionTokens || 0,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Append the JSON schema to the last user message for providers without native
+ * schema-constrained output
+ */
+function withSchemaInstructions(messages: BaseMessage[], schema: StructuredOutputSchema): BaseMessage[] {
+  return [
+    ...messages,
+    new HumanMessage(`Return ONLY a JSON object (no markdown, no commentary) that validates against this JSON schema named "${schema.name}":
+${JSON.stringify(schema.schema, null, 2)}`),
+  ];
+}
+
+/**
+ * Create the LLM provider selected in config
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'openai':
+    case 'azure-openai': {
+      const llm = config.provider === 'openai'
+        ? new ChatOpenAI({
+          modelName: model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          openAIApiKey: config.apiKey,
+        })
+        : new AzureChatOpenAI({
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          azureOpenAIApiKey: config.apiKey,
+          azureOpenAIApiInstanceName: config.azureInstanceName,
+          azureOpenAIApiDeploymentName: config.azureDeploymentName || model,
+          azureOpenAIApiVersion: config.azureApiVersion,
+        });
+
+      return {
+        name: config.provider,
+        model,
+        async invokeStructured(messages, schema) {
+          const response = await llm.invoke(messages, {
+            response_format: {
+              type: 'json_schema',
+              json_schema: {
+                name: schema.name,
+                strict: true,
+                schema: schema.schema,
+              },
+            },
+          });
+          return { content: contentToString(response.content), usage: usageFromMessage(response) };
+        },
+      };
+    }
+
+    case 'openai-compatible': {
+      const llm = new ChatOpenAI({
+        modelName: model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        // Local servers ignore the key, but the client requires one
+        openAIApiKey: config.apiKey || 'not-needed',
+        configuration: {
+          baseURL: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+        },
+      });
+
+      return {
+        name: config.provider,
+        model,
+        async invokeStructured(messages, schema) {
+          const response = await llm.invoke(withSchemaInstructions(messages, schema), {
+            response_format: { type: 'json_object' },
+          });
+          return { content: contentToString(response.content), usage: usageFromMessage(response) };
+        },
+      };
+    }
+
+    case 'anthropic': {
+      const llm = new ChatAnthropic({
+        model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens || DEFAULT_ANTHROPIC_MAX_TOKENS,
+        anthropicApiKey: config.apiKey,
+      });
+
+      return {
+        name: config.provider,
+        model,
+        async invokeStructured(messages, schema) {
+          const response = await llm.invoke(withSchemaInstructions(messages, schema));
+          return { content: contentToString(response.content), usage: usageFromMessage(response) };
+        },
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${(config as LLMConfig).provider}`);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Marketplaces - Amazon storefronts, their currencies and page language
+ *
+ * Each marketplace knows its domain, currency and number format, and the
+ * language-specific text the parser looks for around prices, star ratings and
+ * review counts ("4,5 von 5 Sternen", "1.234 Sternebewertungen").
+ *
+ * Usage:
+ *   import { parseMarketplace, getMarketplace, getListingUrl, parseAmount, formatPrice } from './lib/marketplaces';
+ *
+ *   const code = parseMarketplace('amazon.co.uk');           // 'UK'
+ *   const url = getListingUrl('B0CJBQ7F5C', code);           // https://www.amazon.co.uk/dp/B0CJBQ7F5C
+ *   const amount = parseAmount('1.299,00', getMarketplace('DE')); // 1299
+ *   formatPrice(12.99, 'GBP');                               // "£12.99"
+ *   toListingKey('B0CJBQ7F5C', 'UK');                        // "UK:B0CJBQ7F5C"
+ */
+
+export type MarketplaceCode = 'US' | 'CA' | 'UK' | 'DE' | 'FR' | 'IT' | 'ES' | 'JP';
+
+export interface Marketplace {
+  code: MarketplaceCode;
+  domain: string;
+  // ISO 4217 currency code
+  currency: string;
+  // Symbols and codes a price may be written with, longest first
+  currencySymbols: string[];
+  decimalSeparator: '.' | ',';
+  // Digits after the decimal separator in prices (0 for JPY)
+  priceDecimals: number;
+  text: MarketplaceText;
+}
+
+// Page text around the fields, as regex sources (matched case-insensitively)
+interface MarketplaceText {
+  priceLabel: string;
+  // "<rating> out of 5 stars"; ratingFirst = false when the rating follows the text ("5つ星のうち4.5")
+  outOfFiveStars: string;
+  ratingFirst: boolean;
+  stars: string;
+  // Text after the count in "1,234 ratings" and "1,234 reviews"
+  ratingsCount: string;
+  reviewsCount: string;
+}
+
+export const DEFAULT_MARKETPLACE: MarketplaceCode = 'US';
+
+// One ASIN on one storefront: the same ASIN can be tracked on several marketplaces
+export type ListingKey = `${MarketplaceCode}:${string}`;
+
+const ENGLISH: MarketplaceText = {
+  priceLabel: 'Price',
+  outOfFiveStars: 'out\\s*of\\s*5\\s*stars',
+  ratingFirst: true,
+  stars: 'stars',
+  ratingsCount: '(?:global\\s*)?ratings',
+  reviewsCount: '(?:customer\\s*)?reviews',
+};
+
+const MARKETPLACES: Record<MarketplaceCode, Marketplace> = {
+  US: {
+    code: 'US', domain: 'amazon.com', currency: 'USD', currencySymbols: ['USD', '$'],
+    decimalSeparator: '.', priceDecimals: 2, text: ENGLISH,
+  },
+  CA: {
+    code: 'CA', domain: 'amazon.ca', currency: 'CAD', currencySymbols: ['CDN$', 'CAD', 'C$', '$'],
+    decimalSeparator: '.', priceDecimals: 2, text: ENGLISH,
+  },
+  UK: {
+    code: 'UK', domain: 'amazon.co.uk', currency: 'GBP', currencySymbols: ['GBP', '£'],
+    decimalSeparator: '.', priceDecimals: 2, text: ENGLISH,
+  },
+  DE: {
+    code: 'DE', domain: 'amazon.de', currency: 'EUR', currencySymbols: ['EUR', '€'],
+    decimalSeparator: ',', priceDecimals: 2,
+    text: {
+      priceLabel: 'Preis',
+      outOfFiveStars: 'von\\s*5\\s*Sternen',
+      ratingFirst: true,
+      stars: 'Sterne',
+      ratingsCount: '(?:Sterne)?bewertungen',
+      reviewsCount: '(?:Kunden)?rezensionen',
+    },
+  },
+  FR: {
+    code: 'FR', domain: 'amazon.fr', currency: 'EUR', currencySymbols: ['EUR', '€'],
+    decimalSeparator: ',', priceDecimals: 2,
+    text: {
+      priceLabel: 'Prix',
+      outOfFiveStars: 'sur\\s*5\\s*[ée]toiles',
+      ratingFirst: true,
+      stars: '[ée]toiles',
+      ratingsCount: '[ée]valuations',
+      reviewsCount: 'commentaires(?:\\s*client)?',
+    },
+  },
+  IT: {
+    code: 'IT', domain: 'amazon.it', currency: 'EUR', currencySymbols: ['EUR', '€'],
+    decimalSeparator: ',', priceDecimals: 2,
+    text: {
+      priceLabel: 'Prezzo',
+      outOfFiveStars: 'su\\s*5\\s*stelle',
+      ratingFirst: true,
+      stars: 'stelle',
+      ratingsCount: 'voti',
+      reviewsCount: 'recensioni',
+    },
+  },
+  ES: {
+    code: 'ES', domain: 'amazon.es', currency: 'EUR', currencySymbols: ['EUR', '€'],
+    decimalSeparator: ',', priceDecimals: 2,
+    text: {
+      priceLabel: 'Precio',
+      outOfFiveStars: 'de\\s*5\\s*estrellas',
+      ratingFirst: true,
+      stars: 'estrellas',
+      ratingsCount: 'valoraciones',
+      reviewsCount: '(?:opiniones|rese[ñn]as)',
+    },
+  },
+  JP: {
+    code: 'JP', domain: 'amazon.co.jp', currency: 'JPY', currencySymbols: ['JPY', '￥', '¥', '円'],
+    decimalSeparator: '.', priceDecimals: 0,
+    text: {
+      priceLabel: '(?:価格|Price)',
+      outOfFiveStars: '5つ星のうち',
+      ratingFirst: false,
+      stars: '(?:つ星|stars)',
+      ratingsCount: '個の評価',
+      reviewsCount: '件のカスタマーレビュー',
+    },
+  },
+};
+
+// Accepted spellings besides the code itself
+const MARKETPLACE_ALIASES: Record<string, MarketplaceCode> = {
+  GB: 'UK',
+  COM: 'US',
+  JA: 'JP',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CAD: 'CA$',
+  GBP: '£',
+  EUR: '€',
+  JPY: '¥',
+};
+
+export function getMarketplace(code: MarketplaceCode = DEFAULT_MARKETPLACE): Marketplace {
+  return MARKETPLACES[code];
+}
+
+export function listMarketplaces(): MarketplaceCode[] {
+  return Object.keys(MARKETPLACES) as MarketplaceCode[];
+}
+
+/**
+ * Resolve a marketplace code, alias or domain ("uk", "GB", "amazon.co.uk")
+ *
+ * @returns undefined when the value is not a supported marketplace
+ */
+export function parseMarketplace(value: string): MarketplaceCode | undefined {
+  const normalized = value.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/.*$/, '');
+
+  const byDomain = Object.values(MARKETPLACES).find(m => m.domain === normalized || m.domain === `amazon.${normalized}`);
+  if (byDomain) return byDomain.code;
+
+  const code = normalized.toUpperCase();
+  if (code in MARKETPLACES) return code as MarketplaceCode;
+  return MARKETPLACE_ALIASES[code];
+}
+
+export function getListingUrl(asin: string, code: MarketplaceCode = DEFAULT_MARKETPLACE): string {
+  return `https://www.${getMarketplace(code).domain}/dp/${asin}`;
+}
+
+export function toListingKey(asin: string, code: MarketplaceCode = DEFAULT_MARKETPLACE): ListingKey {
+  return `${code}:${asin}`;
+}
+
+/**
+ * Split a listing key into its ASIN and marketplace
+ *
+ * @throws Error when the key has no supported marketplace prefix
+ */
+export function parseListingKey(key: string): { asin: string; marketplace: MarketplaceCode } {
+  const separator = key.indexOf(':');
+  const code = key.slice(0, separator);
+  if (separator < 0 || !(code in MARKETPLACES)) {
+    throw new Error(`Invalid listing key "${key}", expected <marketplace>:<ASIN>`);
+  }
+  return { asin: key.slice(separator + 1), marketplace: code as MarketplaceCode };
+}
+
+/**
+ * Key of a parsed listing (listings parsed before marketplaces were recorded are amazon.com)
+ */
+export function getListingKey(listing: { asin: string; marketplace?: MarketplaceCode }): ListingKey {
+  return toListingKey(listing.asin, listing.marketplace);
+}
+
+/**
+ * Currency of a parsed listing (listings parsed before currencies were recorded are USD)
+ */
+export function getListingCurrency(listing: { currency?: string }): string {
+  return listing.currency ?? getMarketplace(DEFAULT_MARKETPLACE).currency;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex source for a price amount in the marketplace's number format (one capture group)
+ *
+ * Thousands are grouped with "," in "."-decimal marketplaces and with ".", spaces or
+ * &nbsp; in ","-decimal ones ("1,299.00" vs. "1.299,00" / "1 299,00").
+ */
+export function getAmountPattern(marketplace: Marketplace): string {
+  const thousands = marketplace.decimalSeparator === '.' ? ',' : '(?:[.\\s]|&nbsp;)';
+  const decimals = marketplace.priceDecimals > 0
+    ? `${escapeRegex(marketplace.decimalSeparator)}\\d{${marketplace.priceDecimals}}`
+    : '';
+
+  return `((?:\\d{1,3}(?:${thousands}\\d{3})+|\\d+)${decimals})`;
+}
+
+/**
+ * Regex sources for a price written with the marketplace's currency, symbol first
+ * ("£12.99") then symbol last ("12,99 €"); the amount is the only capture group
+ */
+export function getPricePatterns(marketplace: Marketplace): [symbolFirst: string, symbolLast: string] {
+  const symbols = `(?:${marketplace.currencySymbols.map(escapeRegex).join('|')})`;
+  const space = '(?:\\s|&nbsp;)*';
+  const amount = getAmountPattern(marketplace);
+
+  return [`${symbols}${space}${amount}`, `${amount}${space}${symbols}`];
+}
+
+/**
+ * Parse an amount in the marketplace's number format ("1.299,00" → 1299 on amazon.de)
+ */
+export function parseAmount(text: string, marketplace: Marketplace): number {
+  const digits = text.replace(/&nbsp;|\s/g, '');
+  const thousands = marketplace.decimalSeparator === '.' ? /,/g : /\./g;
+  return parseFloat(digits.replace(thousands, '').replace(',', '.'));
+}
+
+/**
+ * Parse a count with any thousands separator ("1.234", "1 234", "1,234" → 1234)
+ */
+export function parseCount(text: string): number {
+  return parseInt(text.replace(/\D/g, ''), 10);
+}
+
+/**
+ * Format a price for reports, e.g. "£12.99", "€1299.00", "¥1980"
+ */
+export function formatPrice(amount: number, currency: string = 'USD'): string {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  const value = currency === 'JPY' ? Math.round(amount).toString() : amount.toFixed(2);
+  return symbol ? `${symbol}${value}` : `${value} ${currency}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Media Mix - Images, videos and 360 views per listing, side by side
+ *
+ * Summarizes which listings use gallery videos, 360 spins and A+ images, for the
+ * report and the GPT prompt.
+ *
+ * Usage:
+ *   import { compareMediaMix } from './lib/media-mix';
+ *
+ *   const mix = compareMediaMix(Array.from(scrapedListings.values()));
+ *   mix.listings.filter(l => l.videoCount === 0);  // listings without any video
+ */
+
+import { ParsedAmazonProduct } from './firecrawl-amazon.js';
+import { DEFAULT_MARKETPLACE, MarketplaceCode } from './marketplaces.js';
+
+export interface MediaMixRow {
+  asin: string;
+  marketplace: MarketplaceCode;
+  imageCount: number;
+  aplusImageCount: number;
+  // null on listings parsed before videos were extracted
+  videoCount: number | null;
+  // Runtime of the videos with a known duration (null when none has one)
+  videoSeconds: number | null;
+  has360View: boolean | null;
+}
+
+export interface MediaMix {
+  listings: MediaMixRow[];
+  averageImageCount: number | null;
+  averageVideoCount: number | null;
+  // Share of listings (with media data) that have at least one video / a 360 view, in percent
+  videoPercent: number | null;
+  spin360Percent: number | null;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+}
+
+function percent(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 100) : null;
+}
+
+/**
+ * Compare the media of a set of listings
+ */
+export function compareMediaMix(listings: ParsedAmazonProduct[]): MediaMix {
+  const rows = listings.map(listing => {
+    const durations = (listing.media?.videos ?? [])
+      .map(video => video.durationSeconds)
+      .filter((seconds): seconds is number => seconds !== null);
+
+    return {
+      asin: listing.asin,
+      marketplace: listing.marketplace ?? DEFAULT_MARKETPLACE,
+      imageCount: listing.images.length,
+      aplusImageCount: listing.images.filter(img => img.type === 'aplus').length,
+      videoCount: listing.media?.videoCount ?? null,
+      videoSeconds: durations.length > 0 ? durations.reduce((sum, s) => sum + s, 0) : null,
+      has360View: listing.media?.has360View ?? null,
+    };
+  });
+
+  const withMedia = rows.filter(row => row.videoCount !== null);
+
+  return {
+    listings: rows,
+    averageImageCount: average(rows.map(row => row.imageCount)),
+    averageVideoCount: average(withMedia.map(row => row.videoCount!)),
+    videoPercent: percent(withMedia.filter(row => row.videoCount! > 0).length, withMedia.length),
+    spin360Percent: percent(withMedia.filter(row => row.has360View).length, withMedia.length),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Parse Quality - Per-field provenance and confidence scoring for parsed listings
+ *
+ * parseAmazonListing records which extraction strategy produced each field (e.g.
+ * price from the buybox vs. the first "$" amount on the page); this module turns
+ * that provenance into a completeness score (share of fields found) and a
+ * confidence score (weighted trust in how they were found).
+ *
+ * Usage:
+ *   import { scoreProvenance, isLowConfidence, describeParseQuality } from './lib/parse-quality';
+ *
+ *   const { completeness, confidence } = scoreProvenance(provenance);
+ *   if (isLowConfidence(listing, 0.6)) console.log(describeParseQuality(listing));
+ */
+
+import type { ParsedAmazonProduct } from './firecrawl-amazon.js';
+
+// Extraction strategy per field, most to least reliable
+export interface ListingProvenance {
+  title: 'product_title' | 'markdown_heading' | 'first_long_line' | 'missing';
+  price: 'buybox' | 'price_label' | 'stray_match' | 'missing';
+  rating: 'stars_text' | 'loose_match' | 'missing';
+  reviewCount: 'ratings_count' | 'reviews_count' | 'missing';
+  bullets: 'feature_bullets' | 'markdown_list' | 'missing';
+  description: 'product_description' | 'description_section' | 'missing';
+  images: 'landing_image' | 'url_scan' | 'missing';
+}
+
+export type ListingField = keyof ListingProvenance;
+
+export interface ParseQualityScore {
+  // Share of fields that were found (0-1)
+  completeness: number;
+  // Weighted confidence in the extracted values (0-1)
+  confidence: number;
+}
+
+const SOURCE_CONFIDENCE: { [F in ListingField]: Record<ListingProvenance[F], number> } = {
+  title: { product_title: 1, markdown_heading: 0.8, first_long_line: 0.3, missing: 0 },
+  price: { buybox: 1, price_label: 0.7, stray_match: 0.4, missing: 0 },
+  rating: { stars_text: 1, loose_match: 0.5, missing: 0 },
+  reviewCount: { ratings_count: 1, reviews_count: 0.8, missing: 0 },
+  bullets: { feature_bullets: 1, markdown_list: 0.6, missing: 0 },
+  description: { product_description: 1, description_section: 0.8, missing: 0 },
+  images: { landing_image: 1, url_scan: 0.6, missing: 0 },
+};
+
+// How much each field matters to the analysis (sums to 1)
+const FIELD_WEIGHTS: Record<ListingField, number> = {
+  title: 0.25,
+  price: 0.2,
+  rating: 0.1,
+  reviewCount: 0.1,
+  bullets: 0.2,
+  description: 0.05,
+  images: 0.1,
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  markdown_heading: 'from a page heading',
+  first_long_line: 'guessed from the first long line',
+  price_label: 'from a "Price:" label',
+  stray_match: 'from the first $ amount on the page',
+  loose_match: 'from a loose "stars" match',
+  reviews_count: 'from a review count',
+  markdown_list: 'from page list items',
+  url_scan: 'without an identified main image',
+  missing: 'not found',
+};
+
+// Sources below this confidence are called out in descriptions
+const WEAK_SOURCE_CONFIDENCE = 0.7;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getSourceConfidence<F extends ListingField>(field: F, source: ListingProvenance[F]): number {
+  return (SOURCE_CONFIDENCE[field] as Record<string, number>)[source] ?? 0;
+}
+
+/**
+ * Score a listing's provenance
+ */
+export function scoreProvenance(provenance: ListingProvenance): ParseQualityScore {
+  const fields = Object.keys(FIELD_WEIGHTS) as ListingField[];
+
+  const found = fields.filter(field => provenance[field] !== 'missing').length;
+  const confidence = fields.reduce(
+    (sum, field) => sum + FIELD_WEIGHTS[field] * getSourceConfidence(field, provenance[field]),
+    0
+  );
+
+  return {
+    completeness: round(found / fields.length),
+    confidence: round(confidence),
+  };
+}
+
+/**
+ * Fields that were missing or extracted by an unreliable fallback
+ */
+export function getWeakFields(provenance: ListingProvenance): ListingField[] {
+  return (Object.keys(FIELD_WEIGHTS) as ListingField[])
+    .filter(field => getSourceConfidence(field, provenance[field]) < WEAK_SOURCE_CONFIDENCE);
+}
+
+/**
+ * Whether a listing scored below the minimum confidence (unscored listings are not)
+ */
+export function isLowConfidence(listing: ParsedAmazonProduct, minConfidence: number): boolean {
+  return listing.confidence !== undefined && listing.confidence < minConfidence;
+}
+
+/**
+ * Summarize why a listing's extraction is uncertain, e.g.
+ * "confidence 0.42: title guessed from the first long line, price not found"
+ */
+export function describeParseQuality(listing: ParsedAmazonProduct): string {
+  if (!listing.provenance) return 'parse quality unknown';
+
+  const { provenance } = listing;
+  const weak = getWeakFields(provenance).map(field => `${field} ${SOURCE_LABELS[provenance[field]] ?? provenance[field]}`);
+
+  return `confidence ${listing.confidence?.toFixed(2)}${weak.length > 0 ? `: ${weak.join(', ')}` : ''}`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Retry - Exponential backoff with jitter
+ *
+ * Retries an async call while the error is retryable. The delay doubles on every
+ * attempt (capped at maxDelayMs) and is jittered between 50% and 100% of that value
+ * so parallel workers do not retry in lockstep. When the server says how long to
+ * wait (e.g. an HTTP Retry-After header), that wait is used instead; a wait longer
+ * than maxDelayMs gives up rather than stalling the run.
+ *
+ * Usage:
+ *   import { withRetry } from './lib/retry';
+ *
+ *   const result = await withRetry(() => callApi(), {
+ *     maxRetries: 3,
+ *     shouldRetry: (error) => error instanceof ApiError && error.retryable,
+ *     getRetryAfterMs: (error) => (error as ApiError).retryAfterMs,
+ *   });
+ */
+
+export interface BackoffOptions {
+  // Retries after the first attempt (0 = no retries)
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Injectable for tests; defaults to Math.random
+  random?: () => number;
+}
+
+export interface RetryOptions extends BackoffOptions {
+  shouldRetry: (error: unknown) => boolean;
+  // Server-requested wait for this error, if any
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void;
+}
+
+export const DEFAULT_BASE_DELAY_MS = 1000;
+export const DEFAULT_MAX_DELAY_MS = 60000;
+
+/**
+ * Jittered exponential delay before the given retry (1-based)
+ */
+export function getBackoffDelay(retry: number, options: Omit<BackoffOptions, 'maxRetries'> = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * Call fn, retrying retryable errors with backoff
+ *
+ * Rethrows the last error once retries are exhausted or the error is not retryable.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+
+    } catch (error) {
+      if (attempt > options.maxRetries || !options.shouldRetry(error)) throw error;
+
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) throw error;
+
+      const delayMs = retryAfterMs ?? getBackoffDelay(attempt, options);
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Scrape Cache - Local content-addressed cache of raw Firecrawl pages
+ *
+ * Keeps the raw markdown/HTML of every scrape so parser fixes can be re-run over
+ * past pages without paying Firecrawl again. Page content is stored once per
+ * SHA-256 hash; a JSON-lines index per scrape date maps listings to content:
+ *
+ *   <cacheDir>/objects/3f/3f9c2a1b....json    { markdown, html, screenshotUrl }
+ *   <cacheDir>/index/2024-02-01.jsonl         { asin, marketplace, scrapeDate, hash, scrapedAt, creditsUsed }
+ *
+ * Listings are looked up by listing key (marketplace:ASIN), so the same ASIN scraped
+ * on two marketplaces keeps both pages. Re-scraping a listing on the same date
+ * appends a new index line; the last line written for a listing wins. Cached pages younger than the TTL are served instead
+ * of scraping; older pages stay on disk for offline re-parsing.
+ *
+ * Usage:
+ *   import { saveCachedScrape, getCachedScrape, loadCachedScrapes } from './lib/scrape-cache';
+ *
+ *   saveCachedScrape('./data/scrape-cache', scraped);
+ *   const cached = getCachedScrape('./data/scrape-cache', 'UK:B0CJBQ7F5C', 24 * 60 * 60 * 1000);
+ *   const pages = loadCachedScrapes('./data/scrape-cache', '2024-02-01');
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { ScrapedAmazonListing } from './firecrawl-amazon.js';
+import { ListingKey, MarketplaceCode, toListingKey } from './marketplaces.js';
+import { toRunDate } from './snapshot-store.js';
+
+export interface ScrapeCacheEntry {
+  asin: string;
+  // Absent on entries written before marketplaces were recorded (amazon.com)
+  marketplace?: MarketplaceCode;
+  scrapeDate: string;
+  hash: string;
+  scrapedAt: string;
+  creditsUsed: number;
+}
+
+// Content-addressed part of a scrape (identical pages share one object)
+interface CachedPage {
+  markdown: string;
+  html: string;
+  screenshotUrl?: string;
+}
+
+const SCRAPE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+function indexFile(cacheDir: string, scrapeDate: string): string {
+  if (!SCRAPE_DATE_PATTERN.test(scrapeDate)) {
+    throw new Error(`Invalid scrape date "${scrapeDate}", expected YYYY-MM-DD`);
+  }
+  return path.join(cacheDir, 'index', `${scrapeDate}.jsonl`);
+}
+
+function objectFile(cacheDir: string, hash: string): string {
+  if (!HASH_PATTERN.test(hash)) {
+    throw new Error(`Invalid content hash "${hash}"`);
+  }
+  return path.join(cacheDir, 'objects', hash.slice(0, 2), `${hash}.json`);
+}
+
+/**
+ * SHA-256 of the page content (markdown, HTML and screenshot URL)
+ */
+export function hashPage(page: CachedPage): string {
+  return createHash('sha256')
+    .update(JSON.stringify([page.markdown, page.html, page.screenshotUrl ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Store a raw scrape under its listing and scrape date
+ *
+ * @returns The index entry written
+ */
+export function saveCachedScrape(cacheDir: string, scraped: ScrapedAmazonListing): ScrapeCacheEntry {
+  const page: CachedPage = {
+    markdown: scraped.markdown,
+    html: scraped.html,
+    screenshotUrl: scraped.screenshotUrl,
+  };
+  const hash = hashPage(page);
+
+  const object = objectFile(cacheDir, hash);
+  if (!fs.existsSync(object)) {
+    fs.mkdirSync(path.dirname(object), { recursive: true });
+    fs.writeFileSync(`${object}.tmp`, JSON.stringify(page), 'utf8');
+    fs.renameSync(`${object}.tmp`, object);
+  }
+
+  const entry: ScrapeCacheEntry = {
+    asin: scraped.asin,
+    ...(scraped.marketplace && { marketplace: scraped.marketplace }),
+    scrapeDate: toRunDate(new Date(scraped.scrapedAt)),
+    hash,
+    scrapedAt: scraped.scrapedAt,
+    creditsUsed: scraped.creditsUsed,
+  };
+
+  const file = indexFile(cacheDir, entry.scrapeDate);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(entry) + '\n', 'utf8');
+
+  return entry;
+}
+
+/**
+ * List all scrape dates in the cache, oldest first
+ */
+export function listScrapeDates(cacheDir: string): string[] {
+  const dir = path.join(cacheDir, 'index');
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => name.replace(/\.jsonl$/, ''))
+    .filter(scrapeDate => SCRAPE_DATE_PATTERN.test(scrapeDate))
+    .sort();
+}
+
+/**
+ * Load the index entries for a scrape date, keyed by listing key
+ *
+ * Entries written before marketplaces were recorded are amazon.com pages.
+ */
+export function loadCacheIndex(cacheDir: string, scrapeDate: string): Map<ListingKey, ScrapeCacheEntry> {
+  const entries = new Map<ListingKey, ScrapeCacheEntry>();
+  const file = indexFile(cacheDir, scrapeDate);
+  if (!fs.existsSync(file)) return entries;
+
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+
+    try {
+      const entry = JSON.parse(line) as ScrapeCacheEntry;
+      entries.set(toListingKey(entry.asin, entry.marketplace), entry);
+    } catch {
+      // Skip partially written lines (e.g. process killed mid-append)
+      console.warn(`⚠️  Skipping corrupt cache index line in ${file}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Rebuild the scrape for an index entry (undefined when its content is missing)
+ */
+export function readCachedScrape(cacheDir: string, entry: ScrapeCacheEntry): ScrapedAmazonListing | undefined {
+  const object = objectFile(cacheDir, entry.hash);
+  if (!fs.existsSync(object)) return undefined;
+
+  const page = JSON.parse(fs.readFileSync(object, 'utf8')) as CachedPage;
+  return {
+    asin: entry.asin,
+    ...(entry.marketplace && { marketplace: entry.marketplace }),
+    markdown: page.markdown,
+    html: page.html,
+    screenshotUrl: page.screenshotUrl,
+    creditsUsed: entry.creditsUsed,
+    scrapedAt: entry.scrapedAt,
+  };
+}
+
+/**
+ * Get the most recent cached scrape of a listing if it is younger than the TTL
+ */
+export function getCachedScrape(
+  cacheDir: string,
+  key: ListingKey,
+  ttlMs: number,
+  now: Date = new Date()
+): ScrapedAmazonListing | undefined {
+  if (ttlMs <= 0) return undefined;
+
+  const oldestDate = toRunDate(new Date(now.getTime() - ttlMs));
+  const scrapeDates = listScrapeDates(cacheDir)
+    .filter(scrapeDate => scrapeDate >= oldestDate)
+    .reverse();
+
+  for (const scrapeDate of scrapeDates) {
+    const entry = loadCacheIndex(cacheDir, scrapeDate).get(key);
+    if (!entry) continue;
+
+    // Only the newest entry counts; an expired page is never served
+    const age = now.getTime() - new Date(entry.scrapedAt).getTime();
+    return age <= ttlMs ? readCachedScrape(cacheDir, entry) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Load every cached scrape for a scrape date, keyed by listing key
+ */
+export function loadCachedScrapes(cacheDir: string, scrapeDate: string): Map<ListingKey, ScrapedAmazonListing> {
+  const scrapes = new Map<ListingKey, ScrapedAmazonListing>();
+
+  for (const [key, entry] of loadCacheIndex(cacheDir, scrapeDate)) {
+    const scraped = readCachedScrape(cacheDir, entry);
+    if (scraped) {
+      scrapes.set(key, scraped);
+    } else {
+      console.warn(`⚠️  Cached page ${entry.hash} for ${key} is missing`);
+    }
+  }
+
+  return scrapes;
+}
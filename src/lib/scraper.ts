@@ -0,0 +1,159 @@
+/**
+ * Scraper - Pluggable backends that fetch Amazon listing pages
+ *
+ * Puts the page fetch behind one interface so scraping is not tied to one vendor,
+ * and a run can fall back to another backend when one is down or out of credits:
+ *
+ *   firecrawl             - Firecrawl API (markdown, HTML and screenshot; credits per page)
+ *   firecrawl-self-hosted - Self-hosted Firecrawl instance (no credits, no screenshot)
+ *   http                  - Plain HTTP GET of the listing page, markdown converted locally
+ *   browser               - Headless Chrome behind a Browserless-compatible /content
+ *                           endpoint (renders scripts), markdown converted locally
+ *
+ * Every backend throws FirecrawlError with the same categories, so retries and
+ * fallbacks in scrapeAndParseAmazon work the same whichever backend failed.
+ *
+ * Usage:
+ *   import { createScrapers } from './lib/scraper';
+ *
+ *   const scrapers = createScrapers(config.scraper);   // backend, then fallbacks
+ *   const result = await scrapeAndParseAmazon(asin, config.firecrawlApiKey, { scrapers });
+ */
+
+import { ScraperBackendName, ScraperConfig } from '../types/index.js';
+import {
+  FirecrawlError,
+  ScrapedAmazonListing,
+  classifyHttpStatus,
+  parseRetryAfter,
+  scrapeAmazonListing,
+} from './firecrawl-amazon.js';
+import { parseHtml, toMarkdown } from './html-dom.js';
+import { MarketplaceCode, getListingUrl } from './marketplaces.js';
+
+export interface Scraper {
+  name: ScraperBackendName;
+  scrape(asin: string, marketplace: MarketplaceCode): Promise<ScrapedAmazonListing>;
+}
+
+// Amazon serves a robot check to requests that do not look like a desktop browser
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+const HTTP_TIMEOUT_MS = 30000;
+// Page load (30s) plus rendering in the browser
+const BROWSER_TIMEOUT_MS = 60000;
+
+/**
+ * Fetch with a client-side timeout, network failures classified as transient
+ */
+async function request(label: string, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    throw new FirecrawlError(
+      'transient',
+      timedOut ? `${label} request timed out after ${timeoutMs / 1000}s` : `${label} request failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function readPage(label: string, response: Response): Promise<string> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new FirecrawlError(
+      classifyHttpStatus(response.status),
+      `${label} error (${response.status}): ${errorText.substring(0, 200)}`,
+      response.status,
+      parseRetryAfter(response.headers?.get('retry-after'))
+    );
+  }
+  return response.text();
+}
+
+/**
+ * A listing from raw page HTML, with the markdown the Firecrawl API would have produced
+ */
+function toScrapedListing(asin: string, marketplace: MarketplaceCode, html: string): ScrapedAmazonListing {
+  if (!html.trim()) {
+    throw new FirecrawlError('parse_failure', `Empty page for ${asin}`);
+  }
+
+  return {
+    asin,
+    marketplace,
+    markdown: toMarkdown(parseHtml(html)),
+    html,
+    creditsUsed: 0,
+    scrapedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Create one scraper backend
+ */
+export function createScraper(name: ScraperBackendName, config: Omit<ScraperConfig, 'backend' | 'fallbacks'>): Scraper {
+  switch (name) {
+    case 'firecrawl':
+      return {
+        name,
+        scrape: (asin, marketplace) => scrapeAmazonListing(asin, config.firecrawlApiKey ?? '', marketplace),
+      };
+
+    case 'firecrawl-self-hosted': {
+      const { firecrawlBaseUrl } = config;
+      if (!firecrawlBaseUrl) throw new Error('Scraper backend firecrawl-self-hosted needs a firecrawlBaseUrl');
+      return {
+        name,
+        scrape: (asin, marketplace) => scrapeAmazonListing(asin, config.firecrawlApiKey ?? '', marketplace, firecrawlBaseUrl),
+      };
+    }
+
+    case 'http':
+      return {
+        name,
+        async scrape(asin, marketplace) {
+          const response = await request('Amazon', getListingUrl(asin, marketplace), { headers: BROWSER_HEADERS }, HTTP_TIMEOUT_MS);
+          if (response.status === 404) {
+            throw new FirecrawlError('not_found', `Amazon returned 404 for ${asin}`, response.status);
+          }
+          return toScrapedListing(asin, marketplace, await readPage('Amazon', response));
+        },
+      };
+
+    case 'browser': {
+      const { browserEndpoint, browserToken } = config;
+      if (!browserEndpoint) throw new Error('Scraper backend browser needs a browserEndpoint');
+      const url = `${browserEndpoint.replace(/\/+$/, '')}/content${browserToken ? `?token=${encodeURIComponent(browserToken)}` : ''}`;
+
+      return {
+        name,
+        async scrape(asin, marketplace) {
+          const response = await request('Browser', url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              url: getListingUrl(asin, marketplace),
+              gotoOptions: { waitUntil: 'networkidle2', timeout: 30000 },
+              // Image URLs are in the HTML; the files themselves are not needed
+              rejectResourceTypes: ['image', 'media', 'font'],
+            }),
+          }, BROWSER_TIMEOUT_MS);
+          return toScrapedListing(asin, marketplace, await readPage('Browser', response));
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Create the configured backend followed by its fallbacks (each backend once)
+ */
+export function createScrapers(config: ScraperConfig): Scraper[] {
+  const names = Array.from(new Set([config.backend, ...config.fallbacks]));
+  return names.map(name => createScraper(name, config));
+}
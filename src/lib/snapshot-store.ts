@@ -0,0 +1,183 @@
+/**
+ * Listing Snapshot Store - Local historical store of scraped listings
+ *
+ * Persists every ParsedAmazonProduct (and its RekognitionAnalysis) per run so
+ * monthly runs can be compared against each other. Stored as JSON-lines on disk,
+ * one file per run date:
+ *
+ *   <storeDir>/2024-01-01.jsonl
+ *   <storeDir>/2024-02-01.jsonl
+ *
+ * Each line is a ListingSnapshot, looked up by its listing key (marketplace:ASIN, so
+ * the same ASIN on amazon.co.uk and amazon.de has two histories). Re-running on the
+ * same date appends new lines; the last line written for a listing wins.
+ *
+ * Usage:
+ *   import { saveSnapshots, getPreviousSnapshot, getListingHistory } from './lib/snapshot-store';
+ *
+ *   saveSnapshots('./data/snapshots', '2024-02-01', scrapedListings, imageAnalysis);
+ *   const previous = getPreviousSnapshot('./data/snapshots', 'UK:B0CJBQ7F5C', '2024-02-01');
+ *   const history = getListingHistory('./data/snapshots', 'UK:B0CJBQ7F5C');
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ParsedAmazonProduct } from './firecrawl-amazon.js';
+import { RekognitionAnalysis } from '../types/index.js';
+import { ListingKey, getListingKey } from './marketplaces.js';
+
+export interface ListingSnapshot {
+  asin: string;
+  runDate: string;
+  listing: ParsedAmazonProduct;
+  imageAnalysis?: RekognitionAnalysis;
+  savedAt: string;
+}
+
+export interface ListingHistoryPoint {
+  runDate: string;
+  title: string;
+  price: number;
+  rating: number;
+  reviewCount: number;
+  // Best Sellers Rank in the top-level category (null when not shown or not yet extracted)
+  bestSellersRank: number | null;
+  bulletCount: number;
+  imageCount: number;
+}
+
+const RUN_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a date as a run date key (YYYY-MM-DD)
+ */
+export function toRunDate(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+function snapshotFile(storeDir: string, runDate: string): string {
+  if (!RUN_DATE_PATTERN.test(runDate)) {
+    throw new Error(`Invalid run date "${runDate}", expected YYYY-MM-DD`);
+  }
+  return path.join(storeDir, `${runDate}.jsonl`);
+}
+
+/**
+ * Persist all listings (and their image analysis) for a run
+ *
+ * @returns Number of snapshots written
+ */
+export function saveSnapshots(
+  storeDir: string,
+  runDate: string,
+  listings: Map<ListingKey, ParsedAmazonProduct>,
+  imageAnalysis: Map<ListingKey, RekognitionAnalysis> = new Map()
+): number {
+  const file = snapshotFile(storeDir, runDate);
+  fs.mkdirSync(storeDir, { recursive: true });
+
+  const savedAt = new Date().toISOString();
+  const lines = Array.from(listings.entries()).map(([key, listing]) => {
+    const snapshot: ListingSnapshot = {
+      asin: listing.asin,
+      runDate,
+      listing,
+      imageAnalysis: imageAnalysis.get(key),
+      savedAt,
+    };
+    return JSON.stringify(snapshot);
+  });
+
+  if (lines.length > 0) {
+    fs.appendFileSync(file, lines.join('\n') + '\n', 'utf8');
+  }
+
+  return lines.length;
+}
+
+/**
+ * List all run dates in the store, oldest first
+ */
+export function listRunDates(storeDir: string): string[] {
+  if (!fs.existsSync(storeDir)) return [];
+
+  return fs.readdirSync(storeDir)
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => name.replace(/\.jsonl$/, ''))
+    .filter(runDate => RUN_DATE_PATTERN.test(runDate))
+    .sort();
+}
+
+/**
+ * Load every snapshot recorded for a run date, keyed by listing key
+ *
+ * Snapshots saved before marketplaces were recorded are amazon.com listings.
+ */
+export function loadRunSnapshots(
+  storeDir: string,
+  runDate: string
+): Map<ListingKey, ListingSnapshot> {
+  const snapshots = new Map<ListingKey, ListingSnapshot>();
+  const file = snapshotFile(storeDir, runDate);
+  if (!fs.existsSync(file)) return snapshots;
+
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    try {
+      const snapshot = JSON.parse(line) as ListingSnapshot;
+      snapshots.set(getListingKey(snapshot.listing), snapshot);
+    } catch {
+      // Skip partially written lines (e.g. process killed mid-append)
+      console.warn(`⚠️  Skipping corrupt snapshot line in ${file}`);
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Get the most recent snapshot of a listing recorded strictly before a run date
+ */
+export function getPreviousSnapshot(
+  storeDir: string,
+  key: ListingKey,
+  beforeRunDate: string
+): ListingSnapshot | undefined {
+  const runDates = listRunDates(storeDir)
+    .filter(runDate => runDate < beforeRunDate)
+    .reverse();
+
+  for (const runDate of runDates) {
+    const snapshot = loadRunSnapshots(storeDir, runDate).get(key);
+    if (snapshot) return snapshot;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get all snapshots of a listing across runs, oldest first
+ */
+export function getSnapshotsForListing(storeDir: string, key: ListingKey): ListingSnapshot[] {
+  return listRunDates(storeDir)
+    .map(runDate => loadRunSnapshots(storeDir, runDate).get(key))
+    .filter((snapshot): snapshot is ListingSnapshot => snapshot !== undefined);
+}
+
+/**
+ * Get price, rating, review, Best Sellers Rank, bullet and image history for a listing, oldest first
+ */
+export function getListingHistory(storeDir: string, key: ListingKey): ListingHistoryPoint[] {
+  return getSnapshotsForListing(storeDir, key).map(snapshot => ({
+    runDate: snapshot.runDate,
+    title: snapshot.listing.title,
+    price: snapshot.listing.price,
+    rating: snapshot.listing.rating,
+    reviewCount: snapshot.listing.reviewCount,
+    bestSellersRank: snapshot.listing.details?.bestSellersRanks[0]?.rank ?? null,
+    bulletCount: snapshot.listing.bullets.length,
+    imageCount: snapshot.listing.images.length,
+  }));
+}
@@ -0,0 +1,104 @@
+/**
+ * Token Budget - Token counting and chunking for LLM prompts
+ *
+ * Counts tokens with the o200k_base encoding (GPT-4o). For other model families this
+ * is an approximation, which is why budgets keep a safety margin.
+ *
+ * Usage:
+ *   import { countTokens, getPromptBudget, chunkByTokenBudget } from './lib/token-budget';
+ *
+ *   const budget = getPromptBudget(config.llm);
+ *   const chunks = chunkByTokenBudget(listings, l => countTokens(JSON.stringify(l)), budget - overhead);
+ */
+
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { LLMConfig } from '../types/index.js';
+
+// Context windows by model name prefix (longest prefix wins)
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['claude', 200000],
+];
+
+// Conservative default for unknown (usually local) models
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Tokens reserved for the model's answer when maxTokens is not configured
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+// Head-room for tokenizer differences between model families
+const SAFETY_MARGIN = 0.9;
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Count tokens in a piece of text
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = getEncoding('o200k_base');
+  }
+  return encoder.encode(text).length;
+}
+
+/**
+ * Context window of a model (LLM config contextWindow overrides the lookup)
+ */
+export function getContextWindow(config: Pick<LLMConfig, 'model' | 'contextWindow'>): number {
+  if (config.contextWindow) return config.contextWindow;
+
+  const match = CONTEXT_WINDOWS
+    .filter(([prefix]) => config.model.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Maximum prompt tokens for a model after reserving room for the answer
+ */
+export function getPromptBudget(config: Pick<LLMConfig, 'model' | 'contextWindow' | 'maxTokens'>): number {
+  const outputReserve = config.maxTokens || DEFAULT_OUTPUT_RESERVE;
+  return Math.floor((getContextWindow(config) - outputReserve) * SAFETY_MARGIN);
+}
+
+/**
+ * Greedily pack items into chunks whose total size stays within the budget
+ *
+ * Items larger than the budget on their own get a chunk to themselves, so the
+ * caller can still attempt (or report) them.
+ */
+export function chunkByTokenBudget<T>(
+  items: T[],
+  sizeOf: (item: T) => number,
+  budget: number
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+
+    if (current.length > 0 && currentSize + size > budget) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+
+    current.push(item);
+    currentSize += size;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
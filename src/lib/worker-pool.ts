@@ -0,0 +1,96 @@
+/**
+ * Worker Pool - Bounded concurrency and token-bucket rate limiting
+ *
+ * Runs async work over a list with at most N tasks in flight, and spaces request
+ * starts with a token bucket so bursts never exceed the API's per-minute limit.
+ *
+ * Usage:
+ *   import { createRateLimiter, runWithConcurrency } from './lib/worker-pool';
+ *
+ *   const limiter = createRateLimiter({ requestsPerMinute: 20, burst: 3 });
+ *   const results = await runWithConcurrency(asins, 3, async (asin) => {
+ *     await limiter.acquire();
+ *     return scrape(asin);
+ *   });
+ */
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  // Requests that may start back-to-back before spacing kicks in (bucket size)
+  burst?: number;
+}
+
+export interface RateLimiter {
+  // Resolves once a request may start (consumes one token)
+  acquire(): Promise<void>;
+}
+
+/**
+ * Create a token-bucket rate limiter
+ *
+ * The bucket starts full. Waiting callers are served in call order.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  if (!(options.requestsPerMinute > 0)) {
+    throw new Error(`Invalid requestsPerMinute ${options.requestsPerMinute}: expected a positive number`);
+  }
+
+  const capacity = Math.max(1, options.burst ?? 1);
+  const refillPerMs = options.requestsPerMinute / 60000;
+
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Chain acquisitions so concurrent callers queue up fairly
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  const take = async () => {
+    refill();
+    if (tokens < 1) {
+      const waitMs = Math.ceil((1 - tokens) / refillPerMs);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  return {
+    acquire() {
+      const next = queue.then(take);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+/**
+ * Run a worker over every item with at most `concurrency` workers in flight
+ *
+ * Results are returned in item order. A worker that throws rejects the whole run,
+ * so workers should handle per-item failures themselves.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, runWorker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,49 @@
+/**
+ * Change Detection Node - Compares listings against the previous run
+ */
+
+import { getPreviousSnapshot, toRunDate } from '../lib/snapshot-store.js';
+import { diffListings, ListingDiff } from '../lib/listing-diff.js';
+import { WorkflowState } from '../types/index.js';
+import { ListingKey } from '../lib/marketplaces.js';
+
+export async function detectListingChanges(
+  state: WorkflowState,
+  snapshotDir: string
+): Promise<Partial<WorkflowState>> {
+  console.log('🔄 Comparing listings against previous run...');
+
+  const runDate = state.runDate || toRunDate();
+  const listingChanges = new Map<ListingKey, ListingDiff>();
+  const errors = [...state.errors];
+
+  for (const [key, listing] of state.scrapedListings.entries()) {
+    try {
+      const previous = getPreviousSnapshot(snapshotDir, key, runDate);
+      if (!previous) {
+        console.log(`  🆕 ${key}: no previous snapshot`);
+        continue;
+      }
+
+      const diff = diffListings(previous.listing, listing, previous.runDate);
+      listingChanges.set(key, diff);
+      console.log(`  ${diff.hasChanges ? '✏️ ' : '✔️ '} ${key}: ${diff.hasChanges ? 'changed' : 'unchanged'} since ${previous.runDate}`);
+
+    } catch (error) {
+      console.log(`  ❌ ${key}: ${error}`);
+      errors.push({
+        step: 'changeDetection',
+        asin: key,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const changedCount = Array.from(listingChanges.values()).filter(d => d.hasChanges).length;
+  console.log(`✅ ${changedCount}/${listingChanges.size} previously seen listings changed`);
+
+  return {
+    listingChanges,
+    errors,
+  };
+}
@@ -2,92 +2,585 @@
  * ChatGPT Analysis Node - Analyzes scraped data and image analysis results
  */
 
-import { ChatOpenAI } from '@langchain/openai';
-import { WorkflowState, AnalysisReport } from '../types/index.js';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { WorkflowState, AnalysisReport, AnalysisMode, GroupComparison, RekognitionAnalysis, LLMConfig, LowConfidenceHandling } from '../types/index.js';
+import { createLLMProvider, LLMProvider } from '../lib/llm-provider.js';
+import { ParsedAmazonProduct } from '../lib/firecrawl-amazon.js';
+import { ListingPricing } from '../lib/amazon-pricing.js';
+import { ListingDetails } from '../lib/amazon-details.js';
+import { ListingVariations } from '../lib/amazon-variations.js';
+import { compareGroup, GroupMetrics } from '../lib/group-comparison.js';
+import { ANALYSIS_OUTPUT_SCHEMA, AnalysisOutput, parseAnalysisOutput } from '../lib/analysis-schema.js';
+import { countTokens, getPromptBudget, chunkByTokenBudget } from '../lib/token-budget.js';
+import { BudgetExceededError, CostLedger, assertWithinBudget, cloneCostLedger, recordLLMUsage } from '../lib/cost-ledger.js';
+import { describeParseQuality, isLowConfidence } from '../lib/parse-quality.js';
+import { DEFAULT_MARKETPLACE, ListingKey, getListingCurrency, getListingKey, parseListingKey } from '../lib/marketplaces.js';
+
+// Initial request + repair attempts
+const MAX_ATTEMPTS = 3;
+
+// Analysis of a subset of listings (one listing in per-ASIN mode, or one chunk)
+interface PartialAnalysis {
+  keys: ListingKey[];
+  report: AnalysisReport;
+}
 
 export async function analyzeWithGPT(
   state: WorkflowState,
-  openaiApiKey: string
+  llmConfig: LLMConfig,
+  options: { mode?: AnalysisMode; minConfidence?: number; lowConfidence?: LowConfidenceHandling } = {}
 ): Promise<Partial<WorkflowState>> {
-  console.log('🤖 Analyzing data with ChatGPT...');
+  const mode = options.mode || 'portfolio';
+  console.log(`🤖 Analyzing data with ${llmConfig.provider} (${mode} mode)...`);
+
+  const costs = cloneCostLedger(state.costs);
+  const errors = [...state.errors];
+  const { listings: scrapedListings, caveats } = applyParseConfidence(
+    state.scrapedListings,
+    options.minConfidence ?? 0,
+    options.lowConfidence || 'caveat'
+  );
+
+  // Per-listing reports collected so far, kept in the state whatever fails later
+  let listingAnalyses: Map<ListingKey, AnalysisReport> | undefined;
 
   try {
-    const llm = new ChatOpenAI({
-      modelName: 'gpt-4o',
-      temperature: 0.7,
-      openAIApiKey: openaiApiKey,
-    });
+    const llm = withCostTracking(createLLMProvider(llmConfig), costs);
+    const promptBudget = getPromptBudget(llmConfig);
+
+    const groupMetrics = (state.groups || []).map(group => compareGroup(group, scrapedListings));
+
+    let partials: PartialAnalysis[];
+
+    if (mode === 'perAsin') {
+      // Per-ASIN reports first, then roll them up into the portfolio report
+      listingAnalyses = new Map();
+      const listings = Array.from(scrapedListings.entries());
+
+      for (let i = 0; i < listings.length; i++) {
+        const [key, listing] = listings[i];
+        console.log(`  [${i + 1}/${listings.length}] Analyzing ${key}...`);
+
+        try {
+          const listingPrompt = buildAnalysisPrompt(
+            [listing],
+            state.imageAnalysis.has(key) ? [state.imageAnalysis.get(key)!] : [],
+            [],
+            caveats
+          );
+          const { output, rawResponse } = await requestStructuredAnalysis(llm, listingPrompt, []);
+          listingAnalyses.set(key, toAnalysisReport(output, [], rawResponse));
+          console.log(`    ✅ ${output.recommendations.length} recommendations`);
+
+        } catch (error) {
+          // Out of budget: keep the reports we have (nothing to keep = skip the analysis)
+          if (error instanceof BudgetExceededError && listingAnalyses.size > 0) {
+            console.log(`    ⚠️  ${error.message}, stopping`);
+            errors.push({
+              step: 'chatgpt',
+              message: `${error.message}, skipped AI analysis of ${listings.slice(i).map(([skipped]) => skipped).join(', ')}`,
+              category: 'budget',
+            });
+            break;
+          }
+          if (error instanceof BudgetExceededError) throw error;
+
+          console.log(`    ❌ Error: ${error}`);
+          errors.push({
+            step: 'chatgpt',
+            asin: key,
+            message: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      if (listingAnalyses.size === 0) {
+        throw new Error('Per-ASIN analysis failed for every listing, nothing to roll up');
+      }
+
+      partials = Array.from(listingAnalyses.entries()).map(([key, report]) => ({ keys: [key], report }));
+
+    } else {
+      const listings = Array.from(scrapedListings.values());
+      const imageAnalysis = Array.from(scrapedListings.keys())
+        .filter(key => state.imageAnalysis.has(key))
+        .map(key => state.imageAnalysis.get(key)!);
+      const prompt = buildAnalysisPrompt(listings, imageAnalysis, groupMetrics, caveats);
+      const promptTokens = countTokens(prompt);
+
+      if (promptTokens <= promptBudget) {
+        console.log(`  Sending analysis request to ${llm.model} (${promptTokens} prompt tokens)...`);
+        const { output, rawResponse, attempts } = await requestStructuredAnalysis(
+          llm,
+          prompt,
+          groupMetrics.map(m => m.group)
+        );
+        return finishAnalysis(toAnalysisReport(output, groupMetrics, rawResponse), attempts, listingAnalyses, costs, errors);
+      }
+
+      // Map: analyze listings in chunks that fit the model's context window
+      console.log(`  Prompt is ${promptTokens} tokens, over the ${promptBudget} token budget for ${llm.model}; analyzing in chunks`);
+      partials = await analyzeInChunks(llm, listings, state.imageAnalysis, promptBudget, errors, caveats);
+    }
+
+    // Reduce: merge partial analyses into the final report
+    console.log(`  Rolling up ${partials.length} partial analyses...`);
+    try {
+      const { output, rawResponse, attempts } = await reduceAnalyses(
+        llm,
+        partials,
+        scrapedListings,
+        groupMetrics,
+        promptBudget,
+        caveats
+      );
+
+      return finishAnalysis(toAnalysisReport(output, groupMetrics, rawResponse), attempts, listingAnalyses, costs, errors);
+
+    } catch (error) {
+      // Roll-up failed or is out of budget: report the partial analyses as they are
+      if (error instanceof BudgetExceededError) {
+        console.log(`  ⚠️  ${error.message}, merging partial analyses without the roll-up`);
+        errors.push({
+          step: 'chatgpt',
+          message: `${error.message}, skipped the roll-up; the report merges ${partials.length} partial analyses`,
+          category: 'budget',
+        });
+        return finishAnalysis(
+          mergePartialAnalyses(partials, groupMetrics, 'LLM token budget reached'), 1, listingAnalyses, costs, errors
+        );
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`  ❌ Roll-up failed: ${message}, merging partial analyses`);
+      errors.push({
+        step: 'chatgpt',
+        message: `Roll-up failed: ${message}; the report merges ${partials.length} partial analyses`
+      });
+      return finishAnalysis(
+        mergePartialAnalyses(partials, groupMetrics, 'roll-up failed'), 1, listingAnalyses, costs, errors
+      );
+    }
 
-    // Prepare data for analysis
-    const listingsData = Array.from(state.scrapedListings.values()).map(listing => ({
-      asin: listing.asin,
-      title: listing.title,
-      price: listing.price,
-      rating: listing.rating,
-      reviewCount: listing.reviewCount,
-      bullets: listing.bullets,
-      description: listing.description,
-      imageCount: listing.images.length,
-    }));
-
-    const imageAnalysisData = Array.from(state.imageAnalysis.values()).map(analysis => ({
-      asin: analysis.asin,
-      imageInsights: analysis.images.map(img => ({
-        labels: img.labels.slice(0, 5).map(l => l.name),
-        textFound: img.text?.slice(0, 3).map(t => t.detectedText) || [],
-        hasFaces: (img.faces || 0) > 0,
-        moderationFlags: img.moderationLabels?.map(l => l.name) || [],
-      })),
-    }));
-
-    const prompt = `You are an Amazon listing optimization expert specializing in Rufus AI and COSMO optimization. Analyze the following product listings and AWS Rekognition image analysis data to determine:
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      console.log(`⚠️  ${error.message}, skipping AI analysis`);
+      return {
+        listingAnalyses,
+        costs,
+        errors: [...errors, { step: 'chatgpt', message: `${error.message}, skipped AI analysis`, category: 'budget' }]
+      };
+    }
 
-1. **What Amazon AI Actually Sees** - Based on Rekognition's object/label detection and text recognition
-2. **Target Audience Identification** - Who should buy this product based on ALL available signals
-3. **Rufus Optimization Opportunities** - How to improve discoverability through Amazon's multimodal AI
+    console.error('❌ ChatGPT analysis failed:', error);
+    return {
+      listingAnalyses,
+      // Tokens spent on failed attempts are still billed
+      costs,
+      errors: [
+        ...errors,
+        {
+          step: 'chatgpt',
+          message: error instanceof Error ? error.message : String(error)
+        }
+      ]
+    };
+  }
+}
 
-# Product Listings Data
-${JSON.stringify(listingsData, null, 2)}
+function finishAnalysis(
+  report: AnalysisReport,
+  attempts: number,
+  listingAnalyses: Map<ListingKey, AnalysisReport> | undefined,
+  costs: CostLedger,
+  errors: WorkflowState['errors']
+): Partial<WorkflowState> {
+  console.log(`✅ Analysis completed${attempts > 1 ? ` (after ${attempts} attempts)` : ''}`);
+  console.log(`  - ${report.competitiveInsights.length} competitive insights`);
+  console.log(`  - ${report.recommendations.length} recommendations`);
+  if (report.groupComparisons) {
+    console.log(`  - ${report.groupComparisons.length} group comparisons`);
+  }
+  if (listingAnalyses) {
+    console.log(`  - ${listingAnalyses.size} per-listing reports`);
+  }
+  console.log(`  - ${costs.llm.requests} requests, ${costs.llm.promptTokens} prompt / ${costs.llm.completionTokens} completion tokens`);
+
+  return {
+    gptAnalysis: report,
+    listingAnalyses,
+    costs,
+    errors,
+  };
+}
 
-# AWS Rekognition Image Analysis
-${JSON.stringify(imageAnalysisData, null, 2)}
+/**
+ * Combine partial analyses without a roll-up request (used when the token budget
+ * runs out before the reduce step, or the roll-up request fails)
+ */
+function mergePartialAnalyses(partials: PartialAnalysis[], groupMetrics: GroupMetrics[], reason: string): AnalysisReport {
+  const labelled = (text: (report: AnalysisReport) => string) =>
+    partials.map(partial => `${partial.keys.join(', ')}: ${text(partial.report)}`).join('\n');
+
+  return {
+    summary: labelled(report => report.summary),
+    amazonAIPerception: labelled(report => report.amazonAIPerception),
+    targetAudience: labelled(report => report.targetAudience),
+    competitiveInsights: partials.flatMap(partial => partial.report.competitiveInsights),
+    recommendations: partials.flatMap(partial => partial.report.recommendations),
+    imageQualityAnalysis: labelled(report => report.imageQualityAnalysis),
+    groupComparisons: groupMetrics.length > 0
+      ? groupMetrics.map(metrics => ({ ...metrics, analysis: `No group analysis available (${reason})` }))
+      : undefined,
+    generatedAt: new Date().toISOString(),
+  };
+}
 
----
+/**
+ * Record the token usage of every request made through the provider
+ */
+function withCostTracking(llm: LLMProvider, costs: CostLedger): LLMProvider {
+  return {
+    ...llm,
+    async invokeStructured(messages, schema) {
+      const promptTokens = messages.reduce((sum, message) => sum + countTokens(
+        typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+      ), 0);
+      assertWithinBudget(costs, 'llmTokens', promptTokens);
+
+      const response = await llm.invokeStructured(messages, schema);
+      recordLLMUsage(costs, response.usage);
+      return response;
+    },
+  };
+}
+
+/**
+ * Map step: analyze listings in token-budgeted chunks (no group analysis, that
+ * needs every listing and happens in the reduce step)
+ */
+async function analyzeInChunks(
+  llm: LLMProvider,
+  listings: ParsedAmazonProduct[],
+  imageAnalysis: Map<ListingKey, RekognitionAnalysis>,
+  promptBudget: number,
+  errors: WorkflowState['errors'],
+  caveats: Map<ListingKey, string>
+): Promise<PartialAnalysis[]> {
+  const overhead = countTokens(buildAnalysisPrompt([], [], [], caveats));
+  const chunks = chunkByTokenBudget(
+    listings,
+    listing => countTokens(JSON.stringify({
+      listing: buildListingsData([listing], caveats),
+      images: buildImageAnalysisData(imageAnalysis.has(getListingKey(listing)) ? [imageAnalysis.get(getListingKey(listing))!] : []),
+    }, null, 2)),
+    promptBudget - overhead
+  );
+
+  const partials: PartialAnalysis[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const keys = chunk.map(getListingKey);
+    console.log(`  [chunk ${i + 1}/${chunks.length}] Analyzing ${keys.length} listings...`);
+
+    try {
+      const prompt = buildAnalysisPrompt(
+        chunk,
+        keys.filter(key => imageAnalysis.has(key)).map(key => imageAnalysis.get(key)!),
+        [],
+        caveats
+      );
+      const { output, rawResponse } = await requestStructuredAnalysis(llm, prompt, []);
+      partials.push({ keys, report: toAnalysisReport(output, [], rawResponse) });
+
+    } catch (error) {
+      // Out of budget: keep the chunks we have (nothing to keep = skip the analysis)
+      if (error instanceof BudgetExceededError && partials.length > 0) {
+        console.log(`    ⚠️  ${error.message}, stopping`);
+        errors.push({
+          step: 'chatgpt',
+          message: `${error.message}, skipped AI analysis of ${chunks.slice(i).flat().map(getListingKey).join(', ')}`,
+          category: 'budget',
+        });
+        break;
+      }
+      if (error instanceof BudgetExceededError) throw error;
+
+      console.log(`    ❌ Error: ${error}`);
+      errors.push({
+        step: 'chatgpt',
+        message: `Chunk ${i + 1}/${chunks.length} (${keys.join(', ')}) failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  if (partials.length === 0) {
+    throw new Error('Chunked analysis failed for every chunk, nothing to roll up');
+  }
+
+  return partials;
+}
+
+/**
+ * Reduce step: roll partial analyses up into the final report, first merging them
+ * in batches when the roll-up prompt itself would not fit the budget
+ */
+async function reduceAnalyses(
+  llm: LLMProvider,
+  partials: PartialAnalysis[],
+  listings: Map<ListingKey, ParsedAmazonProduct>,
+  groupMetrics: GroupMetrics[],
+  promptBudget: number,
+  caveats: Map<ListingKey, string>
+): Promise<{ output: AnalysisOutput; rawResponse: string; attempts: number }> {
+  let current = partials;
+
+  while (current.length > 1) {
+    const prompt = buildRollupPrompt(current, listings, groupMetrics, caveats);
+    if (countTokens(prompt) <= promptBudget) break;
+
+    const overhead = countTokens(buildRollupPrompt([], listings, groupMetrics, caveats));
+    const batches = chunkByTokenBudget(
+      current,
+      partial => countTokens(JSON.stringify(buildPartialData(partial, listings, caveats), null, 2)),
+      promptBudget - overhead
+    );
+    if (batches.length >= current.length) break; // Cannot shrink further, attempt as-is
+
+    console.log(`  Merging ${current.length} partial analyses in ${batches.length} batches...`);
+    const merged: PartialAnalysis[] = [];
+    for (const batch of batches) {
+      if (batch.length === 1) {
+        merged.push(batch[0]);
+        continue;
+      }
+      const { output, rawResponse } = await requestStructuredAnalysis(
+        llm,
+        buildRollupPrompt(batch, listings, [], caveats),
+        []
+      );
+      merged.push({
+        keys: batch.flatMap(partial => partial.keys),
+        report: toAnalysisReport(output, [], rawResponse),
+      });
+    }
+    current = merged;
+  }
 
-# ANALYSIS FRAMEWORK
+  return requestStructuredAnalysis(
+    llm,
+    buildRollupPrompt(current, listings, groupMetrics, caveats),
+    groupMetrics.map(m => m.group)
+  );
+}
+
+function toAnalysisReport(
+  output: AnalysisOutput,
+  groupMetrics: GroupMetrics[],
+  rawResponse: string
+): AnalysisReport {
+  return {
+    summary: output.summary,
+    amazonAIPerception: output.amazonAIPerception,
+    targetAudience: output.targetAudience,
+    competitiveInsights: output.competitiveInsights,
+    recommendations: output.recommendations,
+    imageQualityAnalysis: output.imageQualityAnalysis,
+    groupComparisons: groupMetrics.length > 0
+      ? buildGroupComparisons(groupMetrics, output)
+      : undefined,
+    rawResponse,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Split off listings parsed with low confidence: dropped from the analysis, or kept
+ * with a parse warning (caveats, keyed by listing key) the prompt tells the model to heed
+ */
+function applyParseConfidence(
+  listings: Map<ListingKey, ParsedAmazonProduct>,
+  minConfidence: number,
+  handling: LowConfidenceHandling
+): { listings: Map<ListingKey, ParsedAmazonProduct>; caveats: Map<ListingKey, string> } {
+  const caveats = new Map<ListingKey, string>();
+  const lowConfidence = Array.from(listings.entries()).filter(([, listing]) => isLowConfidence(listing, minConfidence));
+  if (lowConfidence.length === 0) return { listings, caveats };
+
+  const keys = lowConfidence.map(([key]) => key);
+  if (handling === 'exclude') {
+    console.log(`  Excluding ${keys.length} low-confidence listings: ${keys.join(', ')}`);
+    return {
+      listings: new Map(Array.from(listings.entries()).filter(([key]) => !keys.includes(key))),
+      caveats,
+    };
+  }
+
+  console.log(`  Caveating ${keys.length} low-confidence listings: ${keys.join(', ')}`);
+  lowConfidence.forEach(([key, listing]) => caveats.set(key, `Unreliable extraction (${describeParseQuality(listing)})`));
+  return { listings, caveats };
+}
+
+function buildCaveatNote(caveats: Map<ListingKey, string>): string {
+  return caveats.size > 0
+    ? 'Listings with a "parseWarning" were scraped with low confidence: the named fields may be wrong or missing. Do not base recommendations on those fields, and say so where it limits your analysis.\n'
+    : '';
+}
+
+function buildCurrencyNote(listings: ParsedAmazonProduct[]): string {
+  const currencies = new Set(listings.map(getListingCurrency));
+  return currencies.size > 1
+    ? `Listings come from several Amazon marketplaces: each "price" is in that listing's "currency" (${Array.from(currencies).join(', ')}). Do not compare prices across currencies.\n`
+    : '';
+}
 
-## Summary
+// Offer details beyond the buybox price, without empty fields
+function buildOfferData(pricing?: ListingPricing) {
+  if (!pricing) return undefined;
+
+  const details = Object.entries(pricing)
+    .filter(([key, value]) => key !== 'buyboxPrice' && value !== null && value !== false);
+  return details.length > 0 ? Object.fromEntries(details) : undefined;
+}
+
+// Drops null fields and empty lists (undefined when nothing is left)
+function withoutEmptyFields(data: object) {
+  const fields = Object.entries(data)
+    .filter(([, value]) => value !== null && !(Array.isArray(value) && value.length === 0));
+  return fields.length > 0 ? Object.fromEntries(fields) : undefined;
+}
+
+// Cap on technical detail rows per listing to keep the prompt small
+const MAX_TECHNICAL_DETAILS = 20;
+
+// Rank, category and product details, without empty fields
+function buildDetailsData(details?: ListingDetails) {
+  if (!details) return undefined;
+
+  const technicalDetails = Object.entries(details.technicalDetails).slice(0, MAX_TECHNICAL_DETAILS);
+  return withoutEmptyFields({
+    ...details,
+    technicalDetails: technicalDetails.length > 0 ? Object.fromEntries(technicalDetails) : null,
+  });
+}
+
+// Where the listing sits in its variation family, without the full child list
+function buildVariationData(asin: string, variations?: ListingVariations) {
+  if (!variations) return undefined;
+
+  const prices = variations.children.map(child => child.price).filter((price): price is number => price !== null);
+  return {
+    parentAsin: variations.parentAsin,
+    dimensions: variations.dimensions,
+    values: variations.children.find(child => child.asin === asin)?.values,
+    childCount: variations.children.length,
+    unavailableCount: variations.children.filter(child => child.available === false).length,
+    ...(prices.length > 0 && { priceRange: [Math.min(...prices), Math.max(...prices)] }),
+  };
+}
+
+function buildListingsData(listings: ParsedAmazonProduct[], caveats: Map<ListingKey, string> = new Map()) {
+  return listings.map(listing => ({
+    ...(caveats.has(getListingKey(listing)) && { parseWarning: caveats.get(getListingKey(listing)) }),
+    asin: listing.asin,
+    marketplace: listing.marketplace ?? DEFAULT_MARKETPLACE,
+    title: listing.title,
+    price: listing.price,
+    currency: getListingCurrency(listing),
+    offer: buildOfferData(listing.pricing),
+    details: buildDetailsData(listing.details),
+    variations: buildVariationData(listing.asin, listing.variations),
+    rating: listing.rating,
+    reviewCount: listing.reviewCount,
+    reviews: listing.reviews && withoutEmptyFields(listing.reviews),
+    bullets: listing.bullets,
+    description: listing.description,
+    content: listing.content && withoutEmptyFields(listing.content),
+    imageCount: listing.images.length,
+    media: listing.media && {
+      videoCount: listing.media.videoCount,
+      videoDurations: listing.media.videos.map(video => video.durationSeconds).filter(seconds => seconds !== null),
+      has360View: listing.media.has360View,
+    },
+  }));
+}
+
+function buildImageAnalysisData(imageAnalysis: RekognitionAnalysis[]) {
+  return imageAnalysis.map(analysis => ({
+    asin: analysis.asin,
+    imageInsights: analysis.images.map(img => ({
+      labels: img.labels.slice(0, 5).map(l => l.name),
+      textFound: img.text?.slice(0, 3).map(t => t.detectedText) || [],
+      hasFaces: (img.faces || 0) > 0,
+      moderationFlags: img.moderationLabels?.map(l => l.name) || [],
+    })),
+  }));
+}
+
+function buildGroupSection(groupMetrics: GroupMetrics[]): string {
+  return groupMetrics.length > 0 ? `
+# Competitor Groups (My ASIN vs. Competitor ASINs)
+Each group pairs our own ASINs ("ownAsins") with the competitor ASINs they compete against.
+Pre-computed head-to-head metrics per group:
+${JSON.stringify(groupMetrics, null, 2)}
+` : '';
+}
+
+function groupFramework(groupMetrics: GroupMetrics[]): string {
+  return groupMetrics.length > 0 ? `
+## groupAnalyses
+Analyze each competitor group head-to-head (our listing vs. its competitors) instead of blending all listings together.
+Return one entry per group with "group" set to the exact group name (${groupMetrics.map(m => `"${m.group}"`).join(', ')}) and an "analysis" covering:
+- **Price Positioning**: Where our price sits vs. competitors (including coupons, deals and Subscribe & Save) and whether it is justified by the listing
+- **Image Count Gap**: What visual content competitors show that we don't (and vice versa), including videos and 360 views ("media")
+- **Bullet Coverage**: Benefits/terms competitors cover that our bullets miss (see missingTerms)
+- **Top 3 Actions**: The highest-impact changes for our listing in this group
+` : '';
+}
+
+function analysisFramework(groupMetrics: GroupMetrics[]): string {
+  return `# ANALYSIS FRAMEWORK
+Each heading below is a field of the JSON object you must return.
+
+## summary
 Provide a 2-3 paragraph executive summary that includes:
 - What Amazon's AI (Rekognition + Rufus) actually detects in these listings
 - The primary target audience based on visual + textual signals
-- Overall optimization opportunities for semantic/intent-driven search
+- Overall optimization opportunities for semantic/intent-driven search${groupMetrics.length > 0 ? '\n- How our listings stack up against competitors in each group (not one blended view)' : ''}
 
-## What Amazon AI Sees in Your Listing
-Based on AWS Rekognition analysis, describe:
+## amazonAIPerception
+What Amazon AI sees in the listings. Based on AWS Rekognition analysis, describe:
 - **Visual Labels Detected**: Top 5-10 objects/scenes Amazon AI identifies in product images
 - **Text in Images**: What text overlays or labels Rekognition detected (critical for Rufus)
 - **Visual Context**: Lifestyle/usage scenes vs. product-only shots
 - **Multimodal Signals**: How visual content aligns (or conflicts) with text content
 - **Missing Visual Signals**: What Amazon AI SHOULD see but doesn't (e.g., usage context, target demographic, key features)
 
-## Target Audience Analysis
-Based on ALL data (text + images + Rekognition analysis), identify:
+## targetAudience
+Target audience analysis. Based on ALL data (text + images + Rekognition analysis), identify:
 - **Primary Target Demographic**: Age, lifestyle, use case
 - **Buyer Intent Signals**: What problems they're solving, why they search for this
 - **Visual Persona Match**: Whether images show/suggest the right target audience
 - **Semantic Search Alignment**: Keywords + visual context that match how target audience shops
 - **Purchase Motivation**: Functional vs. emotional drivers based on visual + textual content
 
-## Competitive Insights
-List 5-7 key competitive insights:
-- Pricing strategies
+## competitiveInsights
+List 5-7 key competitive insights (one array item each):
+- Pricing strategies (list price discounts, coupons, deals and Subscribe & Save from each listing's "offer")
 - Title optimization for semantic search (not keyword stuffing)
 - Bullet point effectiveness and benefit-driven content
-- Review velocity and social proof
+- Review velocity, rating distribution ("reviews.starHistogram", % per star) and social proof
+- Variation strategy (sizes / colors offered, price spread and out-of-stock children from each listing's "variations"; listings sharing a "parentAsin" are one product family)
+- Sales momentum from Best Sellers Rank per category (each listing's "details.bestSellersRanks", lower is better) and category placement
 - Visual differentiation vs. competitors
 
-## Recommendations (Rufus & COSMO Optimized)
-Provide 7-10 specific, actionable recommendations:
+## recommendations
+Provide 7-10 specific, actionable recommendations, Rufus & COSMO optimized (one array item each):
+
+### Customer Feedback
+- Complaints from critical reviews ("reviews.topCritical") and "reviews.customersSay" to fix, or to address in bullets, images and Q&A
+- Praise from positive reviews ("reviews.topPositive") to feature more prominently
 
 ### Visual Optimization (Rufus Multimodal AI)
 - Text overlays to add to images (e.g., "Waterproof up to 50m", "BPA-Free")
@@ -97,21 +590,23 @@ Provide 7-10 specific, actionable recommendations:
 ### Content Optimization (Semantic Search)
 - Noun Phrase Optimization (NPO): Structured, benefit-driven descriptions
 - Intent-driven bullet points (why people buy, not just features)
-- Q&A opportunities to answer Rufus queries
+- A+ module copy ("content.aplusModules") and comparison chart ("content.comparisonChart") gaps vs. competitors: claims, noun phrases and attributes Amazon AI indexes from them
+- Q&A opportunities to answer Rufus queries (questions shoppers already ask in "content.questions", and how competitors answer theirs)
 
 ### Backend Attribute Enrichment
 - Structured attributes for facet search visibility
 - Unstructured enrichment for semantic matching
 - Recommended attribute fields to complete
 
-## Image Quality Analysis
+## imageQualityAnalysis
 Deep dive on visual content:
 - **Text Overlays**: Current usage and recommendations for Visual Label Tagging (VLT)
 - **Rekognition Confidence Scores**: Image clarity and object recognition quality
 - **Visual Consistency**: Across main, secondary, and A+ content images
 - **Moderation Flags**: Any concerning labels detected
+- **Video & 360 Coverage**: Which listings use gallery videos (count, durations in seconds) and 360 views ("media"), and where we lag behind
 - **Optimization Priority**: Which images to replace/enhance first
-
+${groupFramework(groupMetrics)}
 ---
 
 Keep your analysis practical, data-driven, and focused on:
@@ -119,68 +614,127 @@ Keep your analysis practical, data-driven, and focused on:
 2. **Who should buy this** (target audience from all signals)
 3. **How to optimize for Rufus** (multimodal semantic search)
 
-Remember: Rufus uses text + images + metadata. Your recommendations should leverage all three signals.`;
+Remember: Rufus uses text + images + metadata. Your recommendations should leverage all three signals.
 
-    console.log('  Sending analysis request to GPT-4...');
-    const response = await llm.invoke(prompt);
+Respond with a single JSON object containing exactly these fields: summary, amazonAIPerception, targetAudience, competitiveInsights, recommendations, imageQualityAnalysis, groupAnalyses.${groupMetrics.length === 0 ? ' There are no competitor groups, so groupAnalyses must be an empty array.' : ''}`;
+}
 
-    const analysisText = typeof response.content === 'string'
-      ? response.content
-      : JSON.stringify(response.content);
+/**
+ * Prompt for analyzing listings directly (whole portfolio, or a single listing in per-ASIN mode)
+ */
+function buildAnalysisPrompt(
+  listings: ParsedAmazonProduct[],
+  imageAnalysis: RekognitionAnalysis[],
+  groupMetrics: GroupMetrics[],
+  caveats: Map<ListingKey, string> = new Map()
+): string {
+  return `You are an Amazon listing optimization expert specializing in Rufus AI and COSMO optimization. Analyze the following product listings and AWS Rekognition image analysis data to determine:
 
-    // Parse the response into structured sections
-    const sections = {
-      summary: extractSection(analysisText, 'Summary'),
-      competitiveInsights: extractListItems(analysisText, 'Competitive Insights'),
-      recommendations: extractListItems(analysisText, 'Recommendations'),
-      imageQualityAnalysis: extractSection(analysisText, 'Image Quality Analysis'),
-    };
+1. **What Amazon AI Actually Sees** - Based on Rekognition's object/label detection and text recognition
+2. **Target Audience Identification** - Who should buy this product based on ALL available signals
+3. **Rufus Optimization Opportunities** - How to improve discoverability through Amazon's multimodal AI
 
-    const report: AnalysisReport = {
-      summary: sections.summary || analysisText.substring(0, 500),
-      competitiveInsights: sections.competitiveInsights,
-      recommendations: sections.recommendations,
-      imageQualityAnalysis: sections.imageQualityAnalysis || 'No image analysis available',
-      generatedAt: new Date().toISOString(),
-    };
+# Product Listings Data
+${buildCurrencyNote(listings)}${buildCaveatNote(caveats)}${JSON.stringify(buildListingsData(listings, caveats), null, 2)}
 
-    console.log('✅ Analysis completed');
-    console.log(`  - ${report.competitiveInsights.length} competitive insights`);
-    console.log(`  - ${report.recommendations.length} recommendations`);
+# AWS Rekognition Image Analysis
+${JSON.stringify(buildImageAnalysisData(imageAnalysis), null, 2)}
+${buildGroupSection(groupMetrics)}
+---
 
-    return {
-      gptAnalysis: report,
-    };
+${analysisFramework(groupMetrics)}`;
+}
 
-  } catch (error) {
-    console.error('❌ ChatGPT analysis failed:', error);
-    return {
-      errors: [
-        ...state.errors,
-        {
-          step: 'chatgpt',
-          message: error instanceof Error ? error.message : String(error)
-        }
-      ]
-    };
-  }
+function buildPartialData(
+  partial: PartialAnalysis,
+  listings: Map<ListingKey, ParsedAmazonProduct>,
+  caveats: Map<ListingKey, string> = new Map()
+) {
+  return {
+    listings: partial.keys.map(key => ({
+      ...(caveats.has(key) && { parseWarning: caveats.get(key) }),
+      ...parseListingKey(key),
+      title: listings.get(key)?.title,
+      price: listings.get(key)?.price,
+      currency: listings.has(key) ? getListingCurrency(listings.get(key)!) : undefined,
+      rating: listings.get(key)?.rating,
+      reviewCount: listings.get(key)?.reviewCount,
+    })),
+    summary: partial.report.summary,
+    competitiveInsights: partial.report.competitiveInsights,
+    recommendations: partial.report.recommendations,
+  };
 }
 
-function extractSection(text: string, sectionName: string): string {
-  const regex = new RegExp(`##\\s*${sectionName}\\s*\\n([\\s\\S]*?)(?=\\n##|$)`, 'i');
-  const match = text.match(regex);
-  return match ? match[1].trim() : '';
+/**
+ * Prompt for rolling partial analyses (per listing or per chunk) up into one report
+ */
+function buildRollupPrompt(
+  partials: PartialAnalysis[],
+  listings: Map<ListingKey, ParsedAmazonProduct>,
+  groupMetrics: GroupMetrics[],
+  caveats: Map<ListingKey, string> = new Map()
+): string {
+  return `You are an Amazon listing optimization expert specializing in Rufus AI and COSMO optimization. The listings below have already been analyzed, individually or in batches. Roll these partial analyses up into one portfolio-wide report:
+
+1. **Cross-Listing Patterns** - Issues and strengths that recur across listings
+2. **Portfolio Priorities** - Which listings and which changes deserve attention first (reference ASINs)
+3. **Rufus Optimization Opportunities** - Portfolio-level improvements for Amazon's multimodal AI
+
+# Partial Analyses
+${buildCurrencyNote(Array.from(listings.values()))}${buildCaveatNote(caveats)}${JSON.stringify(partials.map(partial => buildPartialData(partial, listings, caveats)), null, 2)}
+${buildGroupSection(groupMetrics)}
+---
+
+${analysisFramework(groupMetrics)}`;
 }
 
-function extractListItems(text: string, sectionName: string): string[] {
-  const section = extractSection(text, sectionName);
-  if (!section) return [];
+/**
+ * Invoke the model with the analysis JSON schema, validating the result and asking
+ * the model to repair its output when validation fails
+ */
+async function requestStructuredAnalysis(
+  llm: LLMProvider,
+  prompt: string,
+  expectedGroups: string[]
+): Promise<{ output: AnalysisOutput; rawResponse: string; attempts: number }> {
+  const messages: BaseMessage[] = [new HumanMessage(prompt)];
+  let lastErrors: string[] = [];
+  let rawResponse = '';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const response = await llm.invokeStructured(messages, {
+      name: 'listing_analysis_report',
+      schema: ANALYSIS_OUTPUT_SCHEMA,
+    });
+    rawResponse = response.content;
+
+    const result = parseAnalysisOutput(rawResponse, expectedGroups);
+    if (result.valid) {
+      return { output: result.output, rawResponse, attempts: attempt };
+    }
+
+    lastErrors = result.errors;
+    console.log(`  ⚠️  Attempt ${attempt}/${MAX_ATTEMPTS} failed validation: ${lastErrors.join('; ')}`);
+
+    messages.push(
+      new AIMessage(rawResponse),
+      new HumanMessage(`Your previous response did not match the required JSON schema:
+${lastErrors.map(e => `- ${e}`).join('\n')}
 
-  const items = section
-    .split('\n')
-    .filter(line => line.trim().match(/^[-*\d.]/))
-    .map(line => line.replace(/^[-*\d.]\s*/, '').trim())
-    .filter(line => line.length > 10);
+Return the corrected, complete JSON object only. Keep all valid content from your previous response.`)
+    );
+  }
+
+  throw new Error(
+    `Structured analysis failed validation after ${MAX_ATTEMPTS} attempts: ${lastErrors.join('; ')}. ` +
+    `Raw response: ${rawResponse.substring(0, 500)}`
+  );
+}
 
-  return items;
+function buildGroupComparisons(groupMetrics: GroupMetrics[], output: AnalysisOutput): GroupComparison[] {
+  return groupMetrics.map(metrics => ({
+    ...metrics,
+    analysis: output.groupAnalyses.find(g => g.group === metrics.group)?.analysis || 'No group analysis available',
+  }));
 }
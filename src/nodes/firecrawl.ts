@@ -2,57 +2,249 @@
  * Firecrawl Node - Scrapes Amazon listings
  */
 
-import { scrapeAndParseAmazon } from '../lib/firecrawl-amazon.js';
-import { WorkflowState } from '../types/index.js';
+import { scrapeAndParseAmazon, ParsedAmazonProduct, ScrapeOptions, DEFAULT_MAX_RETRIES } from '../lib/firecrawl-amazon.js';
+import { checkBudget, cloneCostLedger, recordFirecrawlCredits } from '../lib/cost-ledger.js';
+import { createRateLimiter, runWithConcurrency } from '../lib/worker-pool.js';
+import { describeParseQuality, isLowConfidence } from '../lib/parse-quality.js';
+import { ExtractionRules, loadExtractionRules } from '../lib/extraction-rules.js';
+import { createScrapers } from '../lib/scraper.js';
+import { ListingKey, getMarketplace, parseListingKey, toListingKey } from '../lib/marketplaces.js';
+import { AsinGroup, ScrapeConfig, ScraperConfig, WorkflowState } from '../types/index.js';
+
+// Without configuration: one request at a time, 2 seconds apart
+const DEFAULT_SCRAPE_CONFIG: ScrapeConfig = {
+  concurrency: 1,
+  requestsPerMinute: 30,
+  maxRetries: DEFAULT_MAX_RETRIES,
+  blockedRetries: 1,
+  minConfidence: 0.6,
+  cacheTtlHours: 24,
+  expandVariations: 0,
+};
+
+type ScrapeOutcome =
+  | { status: 'scraped'; data: ParsedAmazonProduct }
+  | { status: 'failed'; message: string; category?: string }
+  | { status: 'skipped' };
 
 export async function scrapeListings(
   state: WorkflowState,
-  firecrawlApiKey: string
+  firecrawlApiKey: string,
+  scrapeConfig: Partial<ScrapeConfig> = {},
+  // Backends to scrape with (default: the Firecrawl API)
+  scraperConfig?: ScraperConfig
 ): Promise<Partial<WorkflowState>> {
-  console.log(`🔥 Scraping ${state.asins.length} Amazon listings with Firecrawl...`);
+  const { concurrency, requestsPerMinute, maxRetries, blockedRetries, minConfidence, cacheDir, cacheTtlHours, expandVariations, rulesPath } = { ...DEFAULT_SCRAPE_CONFIG, ...scrapeConfig };
 
   const scrapedListings = new Map(state.scrapedListings);
   const errors = [...state.errors];
 
-  // Scrape each ASIN with rate limiting
-  for (let i = 0; i < state.asins.length; i++) {
-    const asin = state.asins[i];
-    console.log(`  [${i + 1}/${state.asins.length}] Scraping ${asin}...`);
-
+  // Read on every run, so an edited rules file applies without a restart
+  let rules: ExtractionRules | undefined;
+  if (rulesPath) {
     try {
-      const result = await scrapeAndParseAmazon(asin, firecrawlApiKey);
+      rules = loadExtractionRules(rulesPath);
+      console.log(`  📐 Extraction rules ${rules.version} from ${rulesPath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`  ⚠️  ${message}, using the built-in rules`);
+      errors.push({ step: 'firecrawl', message: `${message}, parsed with the built-in rules` });
+    }
+  }
 
-      if (result.success && result.data) {
-        scrapedListings.set(asin, result.data);
-        console.log(`    ✅ Success: ${result.data.title.substring(0, 60)}...`);
-      } else {
-        console.log(`    ❌ Failed: ${result.error}`);
-        errors.push({
-          step: 'firecrawl',
-          asin,
-          message: result.error || 'Unknown error'
-        });
+  const scrapers = scraperConfig && createScrapers({ firecrawlApiKey, ...scraperConfig });
+  const scrapeOptions: ScrapeOptions = {
+    maxRetries,
+    ...(cacheDir && { cache: { dir: cacheDir, ttlMs: cacheTtlHours * 60 * 60 * 1000 } }),
+    ...(rules && { rules }),
+    ...(scrapers && { scrapers }),
+  };
+  const costs = cloneCostLedger(state.costs);
+
+  let asins = state.asins;
+  const maxAsins = costs.limits.maxAsins;
+  if (maxAsins !== undefined && asins.length > maxAsins) {
+    console.log(`  ⚠️  ${asins.length} ASINs exceed the cap of ${maxAsins} per run`);
+    errors.push({
+      step: 'firecrawl',
+      message: `ASIN cap reached (${asins.length} ASINs > ${maxAsins} allowed), skipped scraping ${asins.slice(maxAsins).join(', ')}`,
+      category: 'budget',
+    });
+    asins = asins.slice(0, maxAsins);
+  }
+
+  const backendNames = scrapers ? scrapers.map(scraper => scraper.name).join(' → ') : 'firecrawl';
+  console.log(`🔥 Scraping ${asins.length} Amazon listings with ${backendNames} (${concurrency} in flight, ${requestsPerMinute} requests/min)...`);
+
+  const limiter = createRateLimiter({ requestsPerMinute, burst: concurrency });
+  let inFlight = 0;
+  let budgetExceeded: string | undefined;
+
+  // Every in-flight scrape costs at least one credit that is not recorded yet
+  const checkCredits = (upcoming = inFlight + 1) => {
+    budgetExceeded = budgetExceeded || checkBudget(costs, 'firecrawlCredits', upcoming);
+    return !budgetExceeded;
+  };
+
+  const scrapeBatch = (batch: ListingKey[]) => {
+    let completed = 0;
+
+    return runWithConcurrency(batch, concurrency, async (key, index): Promise<ScrapeOutcome> => {
+      if (!checkCredits()) return { status: 'skipped' };
+      await limiter.acquire();
+      if (!checkCredits()) return { status: 'skipped' };
+
+      inFlight++;
+      const { asin, marketplace } = parseListingKey(key);
+      const options: ScrapeOptions = { ...scrapeOptions, marketplace };
+      console.log(`  [${index + 1}/${batch.length}] Scraping ${asin} on ${getMarketplace(marketplace).domain}...`);
+
+      try {
+        let result = await scrapeAndParseAmazon(asin, firecrawlApiKey, options);
+        recordFirecrawlCredits(costs, result.creditsUsed || 0);
+
+        // A robot check often clears on a fresh request; other page failures are final
+        for (let retry = 1; result.failureReason === 'captcha' && retry <= blockedRetries; retry++) {
+          if (!checkCredits(inFlight)) break;
+          console.log(`    🤖 ${key} hit a robot check, re-scraping (${retry}/${blockedRetries})...`);
+          await limiter.acquire();
+          result = await scrapeAndParseAmazon(asin, firecrawlApiKey, options);
+          recordFirecrawlCredits(costs, result.creditsUsed || 0);
+        }
+
+        if (result.success && result.data) {
+          const via = result.fromCache ? ' [cached]' : scrapers && result.scraper !== scrapers[0].name ? ` [${result.scraper}]` : '';
+          console.log(`    ✅ ${key} (${++completed}/${batch.length})${via}: ${result.data.title.substring(0, 60)}...`);
+          return { status: 'scraped', data: result.data };
+        }
+
+        console.log(`    ❌ ${key} (${++completed}/${batch.length}) failed [${result.errorCategory || 'unknown'}]: ${result.error}`);
+        return { status: 'failed', message: result.error || 'Unknown error', category: result.errorCategory };
+
+      } catch (error) {
+        console.log(`    ❌ ${key} (${++completed}/${batch.length}) error: ${error}`);
+        return { status: 'failed', message: error instanceof Error ? error.message : String(error) };
+
+      } finally {
+        inFlight--;
       }
+    });
+  };
+
+  // Apply results in sheet order so listings and errors do not depend on timing
+  const skippedAsins: ListingKey[] = [];
+  const applyOutcomes = (batch: ListingKey[], outcomes: ScrapeOutcome[]) => {
+    outcomes.forEach((outcome, index) => {
+      const key = batch[index];
+      if (outcome.status === 'scraped') {
+        scrapedListings.set(key, outcome.data);
 
-      // Rate limiting: wait 2 seconds between requests
-      if (i < state.asins.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        // Kept, but flagged so the analysis can caveat or exclude it
+        if (isLowConfidence(outcome.data, minConfidence)) {
+          const quality = describeParseQuality(outcome.data);
+          console.log(`  ⚠️  ${key} parsed with low confidence (${quality})`);
+          errors.push({
+            step: 'firecrawl',
+            asin: key,
+            message: `Low parse confidence (${quality})`,
+            category: 'low_confidence',
+          });
+        }
+      } else if (outcome.status === 'failed') {
+        errors.push({ step: 'firecrawl', asin: key, message: outcome.message, category: outcome.category });
+      } else {
+        skippedAsins.push(key);
       }
+    });
+  };
 
-    } catch (error) {
-      console.log(`    ❌ Error: ${error}`);
-      errors.push({
-        step: 'firecrawl',
-        asin,
-        message: error instanceof Error ? error.message : String(error)
-      });
-    }
+  applyOutcomes(asins, await scrapeBatch(asins));
+
+  // Expand parents into their variations: children are scraped on the parent's marketplace
+  // and join the parent's competitor groups
+  let groups = state.groups;
+  const children = expandVariations > 0 && !budgetExceeded
+    ? collectVariationChildren(asins, scrapedListings, expandVariations)
+    : new Map<ListingKey, ListingKey>();
+  // Children count towards the ASIN cap
+  if (maxAsins !== undefined && asins.length + children.size > maxAsins) {
+    const dropped = Array.from(children.keys()).slice(Math.max(0, maxAsins - asins.length));
+    dropped.forEach(child => children.delete(child));
+    console.log(`  ⚠️  ASIN cap of ${maxAsins} reached, not expanding ${dropped.length} child ASINs`);
+    errors.push({
+      step: 'firecrawl',
+      message: `ASIN cap reached (${maxAsins} allowed), skipped variation children ${dropped.join(', ')}`,
+      category: 'budget',
+    });
+  }
+  if (children.size > 0) {
+    console.log(`🔀 Expanding variations: scraping ${children.size} child ASINs (up to ${expandVariations} per parent)...`);
+    groups = addChildrenToGroups(state.groups, children);
+
+    const childAsins = Array.from(children.keys());
+    applyOutcomes(childAsins, await scrapeBatch(childAsins));
   }
 
-  console.log(`✅ Scraped ${scrapedListings.size}/${state.asins.length} listings successfully`);
+  if (budgetExceeded && skippedAsins.length > 0) {
+    console.log(`  ⚠️  ${budgetExceeded}, stopped`);
+    errors.push({
+      step: 'firecrawl',
+      message: `${budgetExceeded}, skipped scraping ${skippedAsins.join(', ')}`,
+      category: 'budget',
+    });
+  }
+
+  console.log(`✅ Scraped ${scrapedListings.size}/${asins.length + children.size} listings successfully (${costs.firecrawlCredits} Firecrawl credits)`);
 
   return {
+    ...(children.size > 0 && {
+      asins: [...state.asins, ...children.keys()],
+      groups,
+    }),
     scrapedListings,
+    costs,
     errors,
   };
 }
+
+/**
+ * Child listings to scrape per parent listing (child → parent key), on the parent's marketplace
+ *
+ * Skips children that are already in the run and children the swatches show as
+ * unavailable, and takes at most `perParent` children per parent in page order.
+ */
+function collectVariationChildren(
+  parents: ListingKey[],
+  scrapedListings: Map<ListingKey, ParsedAmazonProduct>,
+  perParent: number
+): Map<ListingKey, ListingKey> {
+  const children = new Map<ListingKey, ListingKey>();
+
+  for (const parent of parents) {
+    const variations = scrapedListings.get(parent)?.variations;
+    if (!variations) continue;
+
+    const { marketplace } = parseListingKey(parent);
+    variations.children
+      .map(child => ({ ...child, key: toListingKey(child.asin, marketplace) }))
+      .filter(child => child.available !== false && !parents.includes(child.key) && !children.has(child.key))
+      .slice(0, perParent)
+      .forEach(child => children.set(child.key, parent));
+  }
+
+  return children;
+}
+
+function addChildrenToGroups(groups: AsinGroup[] | undefined, children: Map<ListingKey, ListingKey>): AsinGroup[] | undefined {
+  if (!groups) return groups;
+
+  const childrenOf = (keys: ListingKey[]) => keys.flatMap(key =>
+    Array.from(children.entries()).filter(([, parent]) => parent === key).map(([child]) => child)
+  );
+
+  return groups.map(group => ({
+    ...group,
+    ownAsins: [...group.ownAsins, ...childrenOf(group.ownAsins)],
+    competitorAsins: [...group.competitorAsins, ...childrenOf(group.competitorAsins)],
+  }));
+}
@@ -1,15 +1,77 @@
 /**
  * Google Sheets Node - Reads ASINs from Google Sheet
+ *
+ * Sheet layout (header row is skipped):
+ *   A: ASIN
+ *   B: Group (optional) - competitor group name, e.g. "Toploader Binders"
+ *   C: Role (optional)  - "own" or "competitor" (default: competitor)
+ *   D: Marketplace (optional) - e.g. "UK", "DE", "amazon.ca" (default: AMAZON_MARKETPLACE)
+ *
+ * Listings are keyed by marketplace and ASIN ("UK:B0CJBQ7F5C"): the same ASIN in rows for
+ * several marketplaces is tracked once per marketplace.
  */
 
 import { google } from 'googleapis';
-import { WorkflowState } from '../types/index.js';
+import { WorkflowState, AsinGroup, AsinRole } from '../types/index.js';
+import { DEFAULT_MARKETPLACE, ListingKey, MarketplaceCode, parseListingKey, parseMarketplace, toListingKey } from '../lib/marketplaces.js';
 import fs from 'fs';
 
+const ASIN_PATTERN = /^B[0-9A-Z]{9}$/i;
+
+function parseRole(value?: string): AsinRole {
+  return value?.trim().toLowerCase() === 'own' ? 'own' : 'competitor';
+}
+
+/**
+ * Parse sheet rows into a flat list of listing keys and competitor groups
+ *
+ * Rows with an unknown marketplace are skipped rather than scraped on the wrong site.
+ */
+export function parseSheetRows(
+  rows: string[][],
+  defaultMarketplace: MarketplaceCode = DEFAULT_MARKETPLACE
+): { asins: ListingKey[]; groups: AsinGroup[]; invalidRows: string[] } {
+  const asins: ListingKey[] = [];
+  const groups = new Map<string, AsinGroup>();
+  const invalidRows: string[] = [];
+
+  for (const row of rows.slice(1)) { // Skip header
+    const asin = row[0]?.trim();
+    if (!asin || !ASIN_PATTERN.test(asin)) continue; // Valid ASIN format
+
+    const marketplaceValue = row[3]?.trim();
+    const marketplace = marketplaceValue ? parseMarketplace(marketplaceValue) : defaultMarketplace;
+    if (!marketplace) {
+      invalidRows.push(`${asin}: unknown marketplace "${marketplaceValue}"`);
+      continue;
+    }
+
+    const key = toListingKey(asin.toUpperCase(), marketplace);
+    if (!asins.includes(key)) { // Remove duplicates
+      asins.push(key);
+    }
+
+    const groupName = row[1]?.trim();
+    if (!groupName) continue;
+
+    if (!groups.has(groupName)) {
+      groups.set(groupName, { name: groupName, ownAsins: [], competitorAsins: [] });
+    }
+    const group = groups.get(groupName)!;
+    const members = parseRole(row[2]) === 'own' ? group.ownAsins : group.competitorAsins;
+    if (!members.includes(key)) {
+      members.push(key);
+    }
+  }
+
+  return { asins, groups: Array.from(groups.values()), invalidRows };
+}
+
 export async function readAsinsFromSheet(
   state: WorkflowState,
   sheetId: string,
-  credentialsPath: string
+  credentialsPath: string,
+  defaultMarketplace: MarketplaceCode = DEFAULT_MARKETPLACE
 ): Promise<Partial<WorkflowState>> {
   console.log('📊 Reading ASINs from Google Sheet...');
 
@@ -25,10 +87,10 @@ export async function readAsinsFromSheet(
 
     const sheets = google.sheets({ version: 'v4', auth });
 
-    // Read the sheet (assuming ASINs are in column A)
+    // Read the sheet (ASIN, group, role, marketplace in columns A-D)
     const response = await sheets.spreadsheets.values.get({
       spreadsheetId: sheetId,
-      range: 'A:A', // Read all values in column A
+      range: 'A:D',
     });
 
     const rows = response.data.values;
@@ -36,6 +98,7 @@ export async function readAsinsFromSheet(
       console.log('⚠️  No ASINs found in sheet');
       return {
         asins: [],
+        groups: [],
         errors: [
           ...state.errors,
           { step: 'googleSheets', message: 'No ASINs found in sheet' }
@@ -43,23 +106,38 @@ export async function readAsinsFromSheet(
       };
     }
 
-    // Extract ASINs (skip header row if present)
-    const asins = rows
-      .slice(1) // Skip header
-      .map(row => row[0])
-      .filter(asin => asin && /^B[0-9A-Z]{9}$/i.test(asin)) // Valid ASIN format
-      .map(asin => asin.toUpperCase());
+    const { asins, groups, invalidRows } = parseSheetRows(rows, defaultMarketplace);
 
-    console.log(`✅ Found ${asins.length} valid ASINs`);
+    console.log(`✅ Found ${asins.length} valid listings (ASIN per marketplace)`);
+    if (groups.length > 0) {
+      console.log(`  ${groups.length} competitor groups: ${groups.map(g => `${g.name} (${g.ownAsins.length} own, ${g.competitorAsins.length} competitors)`).join(', ')}`);
+    }
+
+    const marketplaceCounts = new Map<MarketplaceCode, number>();
+    asins.map(key => parseListingKey(key).marketplace)
+      .forEach(code => marketplaceCounts.set(code, (marketplaceCounts.get(code) || 0) + 1));
+    if (Array.from(marketplaceCounts.keys()).some(code => code !== defaultMarketplace)) {
+      console.log(`  Marketplaces: ${Array.from(marketplaceCounts.entries()).map(([code, count]) => `${code} (${count})`).join(', ')}`);
+    }
+
+    invalidRows.forEach(message => console.log(`  ⚠️  Skipped row ${message}`));
 
     return {
-      asins: Array.from(new Set(asins)), // Remove duplicates
+      asins,
+      groups,
+      ...(invalidRows.length > 0 && {
+        errors: [
+          ...state.errors,
+          ...invalidRows.map(message => ({ step: 'googleSheets', message: `Skipped sheet row ${message}` })),
+        ],
+      }),
     };
 
   } catch (error) {
     console.error('❌ Error reading Google Sheet:', error);
     return {
       asins: [],
+      groups: [],
       errors: [
         ...state.errors,
         {
@@ -5,7 +5,13 @@
 import nodemailer from 'nodemailer';
 import { google } from 'googleapis';
 import fs from 'fs';
-import { WorkflowState } from '../types/index.js';
+import { WorkflowState, GroupComparison, AnalysisReport } from '../types/index.js';
+import { ParsedAmazonProduct } from '../lib/firecrawl-amazon.js';
+import { describeListingDiff } from '../lib/listing-diff.js';
+import { CostBreakdown, getCostBreakdown, formatUsd } from '../lib/cost-ledger.js';
+import { DEFAULT_MARKETPLACE, ListingKey, formatPrice, getListingCurrency, parseListingKey, toListingKey } from '../lib/marketplaces.js';
+import { MediaMix, compareMediaMix } from '../lib/media-mix.js';
+import { escapeHtml } from '../lib/html-text.js';
 
 /**
  * Send analysis results via Gmail
@@ -34,11 +40,16 @@ export async function sendEmail(
       },
     });
 
-    const report = state.gptAnalysis;
+    const partial = isBudgetLimited(state);
+    const report = state.gptAnalysis ?? skippedAnalysisReport(state);
     if (!report) {
       throw new Error('No analysis report available to send');
     }
 
+    const changedListings = Array.from(state.listingChanges?.entries() ?? []).filter(([, diff]) => diff.hasChanges);
+    const costBreakdown = state.costs ? getCostBreakdown(state.costs) : undefined;
+    const mediaMix = compareMediaMix(Array.from(state.scrapedListings.values()));
+
     const htmlBody = `
       <html>
         <head>
@@ -51,42 +62,89 @@ export async function sendEmail(
             li { margin: 10px 0; }
             .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #bdc3c7; color: #7f8c8d; font-size: 0.9em; }
             .stats { background: #3498db; color: white; padding: 15px; border-radius: 5px; margin: 20px 0; }
+            table { border-collapse: collapse; margin: 10px 0; }
+            th, td { border: 1px solid #bdc3c7; padding: 6px 10px; text-align: left; }
+            .changes { background: #fef9e7; padding: 15px; border-left: 4px solid #f1c40f; margin: 20px 0; }
           </style>
         </head>
         <body>
           <h1>🚀 Amazon Listing Analysis Report</h1>
 
+          ${partial ? `
+          <div class="changes">
+            <strong>Partial report:</strong> a run budget cap was reached, so some scraping, image or AI analysis was skipped. See the errors below.
+          </div>
+          ` : ''}
+
           <div class="stats">
             <strong>Analysis Date:</strong> ${new Date(report.generatedAt).toLocaleDateString()}<br>
             <strong>Listings Analyzed:</strong> ${state.scrapedListings.size}<br>
             <strong>Images Analyzed:</strong> ${Array.from(state.imageAnalysis.values()).reduce((sum, a) => sum + a.images.length, 0)}<br>
             <strong>Insights Generated:</strong> ${report.competitiveInsights.length + report.recommendations.length}
+            ${costBreakdown ? renderCostBreakdown(costBreakdown) : ''}
           </div>
 
+          ${changedListings.length > 0 ? `
+          <h2>🔄 What Changed Since Last Run</h2>
+          ${changedListings.map(([key, diff]) => `
+          <div class="changes">
+            <strong>${escapeHtml(key)}</strong> (since ${diff.previousRunDate})
+            <ul>
+              ${renderListItems(describeListingDiff(diff))}
+            </ul>
+          </div>
+          `).join('')}
+          ` : ''}
+
           <h2>📊 Executive Summary</h2>
           <div class="summary">
-            ${report.summary.split('\n').map(p => `<p>${p}</p>`).join('')}
+            ${renderParagraphs(report.summary)}
+          </div>
+
+          <h2>👁️ What Amazon AI Sees</h2>
+          <div class="summary">
+            ${renderParagraphs(report.amazonAIPerception)}
+          </div>
+
+          <h2>🎯 Target Audience</h2>
+          <div class="summary">
+            ${renderParagraphs(report.targetAudience)}
           </div>
 
+          ${report.groupComparisons && report.groupComparisons.length > 0 ? `
+          <h2>⚔️ Head-to-Head by Competitor Group</h2>
+          ${report.groupComparisons.map(renderGroupComparison).join('')}
+          ` : ''}
+
           <h2>🔍 Competitive Insights</h2>
           <ul>
-            ${report.competitiveInsights.map(insight => `<li>${insight}</li>`).join('')}
+            ${renderListItems(report.competitiveInsights)}
           </ul>
 
           <h2>💡 Recommendations</h2>
           <ul>
-            ${report.recommendations.map(rec => `<li>${rec}</li>`).join('')}
+            ${renderListItems(report.recommendations)}
           </ul>
 
           <h2>🖼️ Image Quality Analysis</h2>
           <div class="summary">
-            ${report.imageQualityAnalysis.split('\n').map(p => `<p>${p}</p>`).join('')}
+            ${renderParagraphs(report.imageQualityAnalysis)}
           </div>
 
+          ${mediaMix.listings.length > 0 ? `
+          <h2>🎬 Media Mix</h2>
+          ${renderMediaMix(mediaMix)}
+          ` : ''}
+
+          ${state.listingAnalyses && state.listingAnalyses.size > 0 ? `
+          <h2>📦 Per-Listing Analysis</h2>
+          ${Array.from(state.listingAnalyses.entries()).map(([key, listingReport]) => renderListingAnalysis(key, listingReport, state.scrapedListings.get(key))).join('')}
+          ` : ''}
+
           ${state.errors.length > 0 ? `
           <h2>⚠️ Errors Encountered</h2>
           <ul>
-            ${state.errors.map(e => `<li><strong>${e.step}</strong>: ${e.message}${e.asin ? ` (ASIN: ${e.asin})` : ''}</li>`).join('')}
+            ${state.errors.map(e => `<li><strong>${e.step}</strong>${e.category ? ` [${e.category}]` : ''}: ${escapeHtml(e.message)}${e.asin ? ` (ASIN: ${escapeHtml(e.asin)})` : ''}</li>`).join('')}
           </ul>
           ` : ''}
 
@@ -103,7 +161,7 @@ export async function sendEmail(
     await transporter.sendMail({
       from: config.user,
       to: recipients.join(', '),
-      subject: `Amazon Listing Analysis - ${new Date().toLocaleDateString()}`,
+      subject: `Amazon Listing Analysis - ${new Date().toLocaleDateString()}${partial ? ' (partial)' : ''}`,
       html: htmlBody,
     });
 
@@ -126,6 +184,119 @@ export async function sendEmail(
   }
 }
 
+/**
+ * Whether a run budget cap cut the run short (the report is then partial)
+ */
+function isBudgetLimited(state: WorkflowState): boolean {
+  return state.errors.some(e => e.category === 'budget');
+}
+
+/**
+ * Placeholder report for runs without an AI analysis, so the scraped data and
+ * errors are still delivered. Says why the analysis is missing: skipped by a
+ * budget cap, or the error the analysis step failed with.
+ */
+function skippedAnalysisReport(state: WorkflowState): AnalysisReport | undefined {
+  const analysisErrors = state.errors.filter(e => e.step === 'chatgpt' && !e.asin);
+  const budgetError = analysisErrors.find(e => e.category === 'budget');
+  const failure = analysisErrors[analysisErrors.length - 1];
+  if (!budgetError && !failure) return undefined;
+
+  const skipped = budgetError
+    ? 'Not available: AI analysis was skipped because a run budget cap was reached.'
+    : `Not available: AI analysis failed (${failure.message}).`;
+
+  return {
+    summary: skipped,
+    amazonAIPerception: skipped,
+    targetAudience: skipped,
+    competitiveInsights: [],
+    recommendations: [],
+    imageQualityAnalysis: skipped,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// Scraped values and model output are competitor-controlled text, never markup
+function renderParagraphs(text: string): string {
+  return text.split('\n').map(p => `<p>${escapeHtml(p)}</p>`).join('');
+}
+
+function renderListItems(items: string[]): string {
+  return items.map(item => `<li>${escapeHtml(item)}</li>`).join('');
+}
+
+function formatMetric(value: number | null, prefix = ''): string {
+  return value === null ? 'n/a' : `${prefix}${value}`;
+}
+
+function renderMediaMix(mix: MediaMix): string {
+  const formatVideos = (row: MediaMix['listings'][number]) => row.videoCount === null
+    ? 'n/a'
+    : `${row.videoCount}${row.videoSeconds !== null ? ` (${Math.round(row.videoSeconds / 60 * 10) / 10} min)` : ''}`;
+  const format360 = (value: boolean | null) => value === null ? 'n/a' : value ? 'Yes' : 'No';
+
+  return `
+    <table>
+      <tr><th>ASIN</th><th>Images</th><th>A+ images</th><th>Videos</th><th>360 view</th></tr>
+      ${mix.listings.map(row => `<tr><td>${escapeHtml(toListingKey(row.asin, row.marketplace))}</td><td>${row.imageCount}</td><td>${row.aplusImageCount}</td><td>${formatVideos(row)}</td><td>${format360(row.has360View)}</td></tr>`).join('')}
+    </table>
+    <p>Average ${formatMetric(mix.averageImageCount)} images and ${formatMetric(mix.averageVideoCount)} videos per listing; ${formatMetric(mix.videoPercent)}% of listings have a video, ${formatMetric(mix.spin360Percent)}% a 360 view.</p>
+  `;
+}
+
+function formatPriceMetric(value: number | null, currency: string | null): string {
+  return value === null || currency === null ? 'n/a' : formatPrice(value, currency);
+}
+
+function renderCostBreakdown(costs: CostBreakdown): string {
+  const operations = Object.entries(costs.rekognition.callsByOperation)
+    .map(([operation, calls]) => `${operation} ${calls}`)
+    .join(', ');
+
+  return `<br>
+            <strong>Estimated Cost:</strong> ${formatUsd(costs.totalUsd)}<br>
+            &nbsp;&nbsp;Firecrawl: ${costs.firecrawl.credits} credits (${formatUsd(costs.firecrawl.costUsd)})<br>
+            &nbsp;&nbsp;Rekognition: ${costs.rekognition.calls} calls${operations ? ` [${operations}]` : ''} (${formatUsd(costs.rekognition.costUsd)})<br>
+            &nbsp;&nbsp;LLM: ${costs.llm.requests} requests, ${costs.llm.promptTokens} prompt / ${costs.llm.completionTokens} completion tokens (${formatUsd(costs.llm.costUsd)})`;
+}
+
+function renderGroupComparison(comparison: GroupComparison): string {
+  const { pricePositioning: price, imageCount, bulletCoverage } = comparison;
+
+  return `
+    <h3>${escapeHtml(comparison.group)}</h3>
+    <p><strong>Own:</strong> ${escapeHtml(comparison.ownAsins.join(', ')) || 'none'} &nbsp; <strong>Competitors:</strong> ${escapeHtml(comparison.competitorAsins.join(', ')) || 'none'}</p>
+    <table>
+      <tr><th></th><th>Own</th><th>Competitors</th></tr>
+      <tr><td>Price</td><td>${formatPriceMetric(price.ownPrice, price.currency)}</td><td>${formatPriceMetric(price.competitorMin, price.currency)} – ${formatPriceMetric(price.competitorMax, price.currency)} (avg ${formatPriceMetric(price.competitorAverage, price.currency)}, we are ${price.position})</td></tr>
+      <tr><td>Images</td><td>${formatMetric(imageCount.own)}</td><td>${formatMetric(imageCount.competitorAverage)} avg (gap ${formatMetric(imageCount.gap)})</td></tr>
+      <tr><td>Bullets</td><td>${formatMetric(bulletCoverage.ownBulletCount)}</td><td>${formatMetric(bulletCoverage.competitorAverageBulletCount)} avg (coverage ${formatMetric(bulletCoverage.coveragePercent)}%)</td></tr>
+    </table>
+    ${bulletCoverage.missingTerms.length > 0 ? `<p><strong>Terms competitors use that we don't:</strong> ${escapeHtml(bulletCoverage.missingTerms.join(', '))}</p>` : ''}
+    <div class="summary">
+      ${renderParagraphs(comparison.analysis)}
+    </div>
+  `;
+}
+
+function renderListingAnalysis(
+  key: ListingKey,
+  report: AnalysisReport,
+  listing?: ParsedAmazonProduct
+): string {
+  return `
+    <h3>${escapeHtml(key)}${listing ? ` – ${escapeHtml(listing.title)}` : ''}</h3>
+    <div class="summary">
+      ${renderParagraphs(report.summary)}
+    </div>
+    <strong>Recommendations</strong>
+    <ul>
+      ${renderListItems(report.recommendations)}
+    </ul>
+  `;
+}
+
 /**
  * Save analysis results to Google Drive
  */
@@ -153,32 +324,55 @@ export async function saveToGoogleDrive(
 
     const drive = google.drive({ version: 'v3', auth });
 
-    const report = state.gptAnalysis;
+    const partial = isBudgetLimited(state);
+    const report = state.gptAnalysis ?? skippedAnalysisReport(state);
     if (!report) {
       throw new Error('No analysis report available to save');
     }
 
     // Create JSON file with full analysis data
     const analysisData = {
+      runId: state.runId,
       generatedAt: report.generatedAt,
+      partial,
       summary: report.summary,
+      amazonAIPerception: report.amazonAIPerception,
+      targetAudience: report.targetAudience,
       competitiveInsights: report.competitiveInsights,
       recommendations: report.recommendations,
       imageQualityAnalysis: report.imageQualityAnalysis,
-      listings: Array.from(state.scrapedListings.entries()).map(([asin, listing]) => ({
-        asin,
+      groups: state.groups || [],
+      groupComparisons: report.groupComparisons || [],
+      listingAnalyses: Array.from(state.listingAnalyses?.entries() ?? []).map(([key, listingReport]) => ({
+        ...parseListingKey(key),
+        ...listingReport,
+      })),
+      listings: Array.from(state.scrapedListings.values()).map(listing => ({
+        asin: listing.asin,
+        marketplace: listing.marketplace ?? DEFAULT_MARKETPLACE,
         title: listing.title,
         price: listing.price,
+        currency: getListingCurrency(listing),
+        pricing: listing.pricing,
+        details: listing.details,
+        variations: listing.variations,
         rating: listing.rating,
         reviewCount: listing.reviewCount,
+        reviews: listing.reviews,
         bullets: listing.bullets,
+        content: listing.content,
         imageCount: listing.images.length,
+        media: listing.media,
       })),
-      imageAnalysis: Array.from(state.imageAnalysis.entries()).map(([asin, analysis]) => ({
-        asin,
+      mediaMix: compareMediaMix(Array.from(state.scrapedListings.values())),
+      changes: Array.from(state.listingChanges?.values() ?? []).filter(diff => diff.hasChanges),
+      imageAnalysis: Array.from(state.imageAnalysis.entries()).map(([key, analysis]) => ({
+        ...parseListingKey(key),
         imageCount: analysis.images.length,
       })),
+      costs: state.costs ? getCostBreakdown(state.costs) : undefined,
       errors: state.errors,
+      rawResponse: report.rawResponse,
     };
 
     const fileName = `listing-analysis-${new Date().toISOString().split('T')[0]}.json`;
@@ -9,7 +9,12 @@ import {
   DetectFacesCommand,
   DetectModerationLabelsCommand,
 } from '@aws-sdk/client-rekognition';
+import { checkBudget, cloneCostLedger, recordRekognitionCall } from '../lib/cost-ledger.js';
 import { WorkflowState, RekognitionAnalysis } from '../types/index.js';
+import { ListingKey } from '../lib/marketplaces.js';
+
+// DetectLabels + DetectText + DetectFaces + DetectModerationLabels
+const CALLS_PER_IMAGE = 4;
 
 async function fetchImageAsBuffer(url: string): Promise<Buffer> {
   const response = await fetch(url);
@@ -50,6 +55,7 @@ export async function analyzeImages(
 
   const imageAnalysis = new Map(state.imageAnalysis);
   const errors = [...state.errors];
+  const costs = cloneCostLedger(state.costs);
 
   let totalImages = 0;
   for (const listing of state.scrapedListings.values()) {
@@ -59,12 +65,19 @@ export async function analyzeImages(
   console.log(`  Analyzing ${totalImages} images from ${state.scrapedListings.size} listings...`);
 
   let processedImages = 0;
+  let budgetExceeded: string | undefined;
+  const skippedAsins: ListingKey[] = [];
+
+  for (const [key, listing] of state.scrapedListings.entries()) {
+    if (budgetExceeded) {
+      skippedAsins.push(key);
+      continue;
+    }
 
-  for (const [asin, listing] of state.scrapedListings.entries()) {
-    console.log(`  📦 ${asin}: ${listing.images.length} images`);
+    console.log(`  📦 ${key}: ${listing.images.length} images`);
 
     const analysis: RekognitionAnalysis = {
-      asin,
+      asin: listing.asin,
       images: [],
     };
 
@@ -72,6 +85,13 @@ export async function analyzeImages(
     const imagesToAnalyze = listing.images.slice(0, 5);
 
     for (const image of imagesToAnalyze) {
+      budgetExceeded = checkBudget(costs, 'rekognitionCalls', CALLS_PER_IMAGE);
+      if (budgetExceeded) {
+        console.log(`    ⚠️  ${budgetExceeded}, stopping`);
+        if (analysis.images.length === 0) skippedAsins.push(key);
+        break;
+      }
+
       processedImages++;
       console.log(`    [${processedImages}/${totalImages}] Analyzing ${image.url.substring(0, 60)}...`);
 
@@ -85,18 +105,21 @@ export async function analyzeImages(
           MinConfidence: 70,
         });
         const labelsResponse = await client.send(labelsCommand);
+        recordRekognitionCall(costs, 'DetectLabels');
 
         // Detect text
         const textCommand = new DetectTextCommand({
           Image: { Bytes: imageBuffer },
         });
         const textResponse = await client.send(textCommand);
+        recordRekognitionCall(costs, 'DetectText');
 
         // Detect faces
         const facesCommand = new DetectFacesCommand({
           Image: { Bytes: imageBuffer },
         });
         const facesResponse = await client.send(facesCommand);
+        recordRekognitionCall(costs, 'DetectFaces');
 
         // Detect moderation labels (inappropriate content)
         const moderationCommand = new DetectModerationLabelsCommand({
@@ -104,6 +127,7 @@ export async function analyzeImages(
           MinConfidence: 60,
         });
         const moderationResponse = await client.send(moderationCommand);
+        recordRekognitionCall(costs, 'DetectModerationLabels');
 
         analysis.images.push({
           url: image.url,
@@ -133,19 +157,30 @@ export async function analyzeImages(
         console.log(`      ❌ Error: ${error}`);
         errors.push({
           step: 'rekognition',
-          asin,
+          asin: key,
           message: `Image analysis failed: ${error instanceof Error ? error.message : String(error)}`
         });
       }
     }
 
-    imageAnalysis.set(asin, analysis);
+    if (!budgetExceeded || analysis.images.length > 0) {
+      imageAnalysis.set(key, analysis);
+    }
+  }
+
+  if (budgetExceeded) {
+    errors.push({
+      step: 'rekognition',
+      message: `${budgetExceeded}, skipped image analysis${skippedAsins.length > 0 ? ` for ${skippedAsins.join(', ')}` : ' for the remaining images'}`,
+      category: 'budget',
+    });
   }
 
   console.log(`✅ Analyzed ${processedImages} images for ${imageAnalysis.size} listings`);
 
   return {
     imageAnalysis,
+    costs,
     errors,
   };
 }
@@ -0,0 +1,35 @@
+/**
+ * Snapshot Node - Persists scraped listings for month-over-month comparison
+ */
+
+import { saveSnapshots, toRunDate } from '../lib/snapshot-store.js';
+import { WorkflowState } from '../types/index.js';
+
+export async function saveListingSnapshots(
+  state: WorkflowState,
+  snapshotDir: string
+): Promise<Partial<WorkflowState>> {
+  console.log('🗄️  Saving listing snapshots...');
+
+  const runDate = state.runDate || toRunDate();
+
+  try {
+    const saved = saveSnapshots(snapshotDir, runDate, state.scrapedListings, state.imageAnalysis);
+    console.log(`✅ Saved ${saved} snapshots to ${snapshotDir} (run ${runDate})`);
+
+    return { runDate };
+
+  } catch (error) {
+    console.error('❌ Failed to save listing snapshots:', error);
+    return {
+      runDate,
+      errors: [
+        ...state.errors,
+        {
+          step: 'snapshot',
+          message: error instanceof Error ? error.message : String(error)
+        }
+      ]
+    };
+  }
+}
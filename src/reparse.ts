@@ -0,0 +1,188 @@
+/**
+ * Offline re-parse of cached scrapes
+ *
+ * Re-runs parseAmazonListing over the raw pages in the scrape cache, without any
+ * network access, and reports what changed against the listing snapshots stored
+ * for that date. With --save the re-parsed listings replace the stored snapshots
+ * (keeping their image analysis), so later reports and change detection use the
+ * fixed extraction.
+ *
+ * With --compare-rules the cached pages are parsed twice instead, with the current
+ * extraction rules and with a candidate rules file, to A/B a rules change before
+ * it goes live.
+ *
+ * Usage:
+ *   npm run reparse                          # latest cached scrape date
+ *   npm run reparse -- 2024-02-01 --save     # re-parse a date and update its snapshots
+ *   npm run reparse -- --compare-rules ./rules-next.json
+ */
+
+import { parseAmazonListing, ParsedAmazonProduct } from './lib/firecrawl-amazon.js';
+import { listScrapeDates, loadCachedScrapes } from './lib/scrape-cache.js';
+import { loadRunSnapshots, saveSnapshots } from './lib/snapshot-store.js';
+import { diffListings, describeListingDiff, ListingDiff } from './lib/listing-diff.js';
+import { ExtractionRules } from './lib/extraction-rules.js';
+import { RekognitionAnalysis } from './types/index.js';
+import { ListingKey } from './lib/marketplaces.js';
+
+export interface ReparseOptions {
+  cacheDir: string;
+  snapshotDir: string;
+  // Defaults to the latest scrape date in the cache
+  scrapeDate?: string;
+  // Write re-parsed listings to the snapshot store
+  save?: boolean;
+  // Default: built-in rules
+  rules?: ExtractionRules;
+}
+
+export interface ReparseSummary {
+  scrapeDate?: string;
+  listings: Map<ListingKey, ParsedAmazonProduct>;
+  failures: Array<{ key: ListingKey; message: string }>;
+  // Listings whose re-parse differs from the stored snapshot
+  changes: ListingDiff[];
+  saved: number;
+}
+
+export async function reparseCachedScrapes(options: ReparseOptions): Promise<ReparseSummary> {
+  const scrapeDate = options.scrapeDate ?? listScrapeDates(options.cacheDir).pop();
+  const summary: ReparseSummary = { scrapeDate, listings: new Map(), failures: [], changes: [], saved: 0 };
+
+  if (!scrapeDate) {
+    console.log(`No cached scrapes found in ${options.cacheDir}`);
+    return summary;
+  }
+
+  const pages = loadCachedScrapes(options.cacheDir, scrapeDate);
+  const snapshots = loadRunSnapshots(options.snapshotDir, scrapeDate);
+  console.log(`🔁 Re-parsing ${pages.size} cached pages from ${scrapeDate}...`);
+
+  for (const [key, page] of pages) {
+    const result = await parseAmazonListing(page.markdown, page.html, page.asin, page.marketplace, options.rules);
+
+    if (!result.success || !result.data) {
+      console.log(`  ❌ ${key}: ${result.error}`);
+      summary.failures.push({ key, message: result.error || 'Unknown error' });
+      continue;
+    }
+
+    summary.listings.set(key, result.data);
+    const snapshot = snapshots.get(key);
+    if (!snapshot) {
+      console.log(`  ✅ ${key}: ${result.data.title.substring(0, 60)} (no stored snapshot)`);
+      continue;
+    }
+
+    const diff = diffListings(snapshot.listing, result.data, scrapeDate);
+    if (diff.hasChanges) {
+      summary.changes.push(diff);
+      console.log(`  ✏️  ${key}:`);
+      describeListingDiff(diff).forEach(line => console.log(`      ${line}`));
+    } else {
+      console.log(`  ✅ ${key}: unchanged`);
+    }
+  }
+
+  if (options.save && summary.listings.size > 0) {
+    const imageAnalysis = new Map<ListingKey, RekognitionAnalysis>();
+    snapshots.forEach((snapshot, key) => {
+      if (snapshot.imageAnalysis) imageAnalysis.set(key, snapshot.imageAnalysis);
+    });
+    summary.saved = saveSnapshots(options.snapshotDir, scrapeDate, summary.listings, imageAnalysis);
+  }
+
+  console.log(`\n✅ Re-parsed ${summary.listings.size}/${pages.size} listings, ${summary.changes.length} differ from stored snapshots${options.save ? `, ${summary.saved} snapshots updated` : ''}`);
+
+  return summary;
+}
+
+export interface RulesComparisonOptions {
+  cacheDir: string;
+  // Defaults to the latest scrape date in the cache
+  scrapeDate?: string;
+  baseline: ExtractionRules;
+  candidate: ExtractionRules;
+}
+
+export interface RulesComparison {
+  scrapeDate?: string;
+  baselineVersion: string;
+  candidateVersion: string;
+  pages: number;
+  // Listings the two rule versions parse differently (before = baseline, after = candidate)
+  changes: ListingDiff[];
+  // Pages only one version fails on, or both
+  failures: Array<{ key: ListingKey; baseline?: string; candidate?: string }>;
+  // Mean parse confidence of the listings each version parsed (null when none)
+  averageConfidence: { baseline: number | null; candidate: number | null };
+}
+
+function averageConfidence(listings: ParsedAmazonProduct[]): number | null {
+  if (listings.length === 0) return null;
+  const total = listings.reduce((sum, listing) => sum + (listing.confidence ?? 0), 0);
+  return Math.round((total / listings.length) * 100) / 100;
+}
+
+/**
+ * Parse the cached pages of a date with two rule versions and report the differences
+ */
+export async function compareExtractionRules(options: RulesComparisonOptions): Promise<RulesComparison> {
+  const scrapeDate = options.scrapeDate ?? listScrapeDates(options.cacheDir).pop();
+  const comparison: RulesComparison = {
+    scrapeDate,
+    baselineVersion: options.baseline.version,
+    candidateVersion: options.candidate.version,
+    pages: 0,
+    changes: [],
+    failures: [],
+    averageConfidence: { baseline: null, candidate: null },
+  };
+
+  if (!scrapeDate) {
+    console.log(`No cached scrapes found in ${options.cacheDir}`);
+    return comparison;
+  }
+
+  const pages = loadCachedScrapes(options.cacheDir, scrapeDate);
+  comparison.pages = pages.size;
+  console.log(`🆎 Comparing extraction rules ${comparison.baselineVersion} → ${comparison.candidateVersion} on ${pages.size} cached pages from ${scrapeDate}...`);
+
+  const baselineListings: ParsedAmazonProduct[] = [];
+  const candidateListings: ParsedAmazonProduct[] = [];
+
+  for (const [key, page] of pages) {
+    const baseline = await parseAmazonListing(page.markdown, page.html, page.asin, page.marketplace, options.baseline);
+    const candidate = await parseAmazonListing(page.markdown, page.html, page.asin, page.marketplace, options.candidate);
+    if (baseline.data) baselineListings.push(baseline.data);
+    if (candidate.data) candidateListings.push(candidate.data);
+
+    if (!baseline.data || !candidate.data) {
+      comparison.failures.push({
+        key,
+        ...(!baseline.data && { baseline: baseline.error || 'Unknown error' }),
+        ...(!candidate.data && { candidate: candidate.error || 'Unknown error' }),
+      });
+      console.log(`  ❌ ${key}: ${baseline.data ? 'candidate' : candidate.data ? 'baseline' : 'both versions'} failed`);
+      continue;
+    }
+
+    const diff = diffListings(baseline.data, candidate.data, scrapeDate);
+    if (diff.hasChanges) {
+      comparison.changes.push(diff);
+      console.log(`  ✏️  ${key}: confidence ${baseline.data.confidence} → ${candidate.data.confidence}`);
+      describeListingDiff(diff).forEach(line => console.log(`      ${line}`));
+    } else {
+      console.log(`  ✅ ${key}: same result`);
+    }
+  }
+
+  comparison.averageConfidence = {
+    baseline: averageConfidence(baselineListings),
+    candidate: averageConfidence(candidateListings),
+  };
+
+  console.log(`\n✅ ${comparison.changes.length}/${pages.size} listings differ, ${comparison.failures.length} failed; average confidence ${comparison.averageConfidence.baseline ?? 'n/a'} → ${comparison.averageConfidence.candidate ?? 'n/a'}`);
+
+  return comparison;
+}
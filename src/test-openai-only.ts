@@ -4,6 +4,7 @@
 
 import dotenv from 'dotenv';
 import { analyzeWithGPT } from './nodes/chatgpt.js';
+import { DEFAULT_MODELS } from './lib/llm-provider.js';
 import { WorkflowState } from './types/index.js';
 
 dotenv.config();
@@ -24,9 +25,9 @@ async function testOpenAI() {
 
   // Create minimal test data
   const state: WorkflowState = {
-    asins: ['B0CJBN849W'],
+    asins: ['US:B0CJBN849W'],
     scrapedListings: new Map([
-      ['B0CJBN849W', {
+      ['US:B0CJBN849W', {
         asin: 'B0CJBN849W',
         title: 'Premium Top Loader Binder for 216 Cards - Non-Tenting 9 Pocket Double Sided Design',
         price: 34.99,
@@ -46,7 +47,7 @@ async function testOpenAI() {
       }]
     ]),
     imageAnalysis: new Map([
-      ['B0CJBN849W', {
+      ['US:B0CJBN849W', {
         asin: 'B0CJBN849W',
         images: [
           {
@@ -72,7 +73,12 @@ async function testOpenAI() {
   try {
     console.log('🤖 Calling ChatGPT API...\n');
 
-    const result = await analyzeWithGPT(state, openaiKey);
+    const result = await analyzeWithGPT(state, {
+      provider: 'openai',
+      model: DEFAULT_MODELS.openai,
+      temperature: 0.7,
+      apiKey: openaiKey,
+    });
 
     if (result.gptAnalysis) {
       console.log('✅ SUCCESS! OpenAI API is working\n');
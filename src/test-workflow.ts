@@ -7,7 +7,9 @@ import dotenv from 'dotenv';
 import { scrapeAndParseAmazon } from './lib/firecrawl-amazon.js';
 import { analyzeImages } from './nodes/rekognition.js';
 import { analyzeWithGPT } from './nodes/chatgpt.js';
+import { DEFAULT_MODELS } from './lib/llm-provider.js';
 import { WorkflowState } from './types/index.js';
+import { toListingKey } from './lib/marketplaces.js';
 
 dotenv.config();
 
@@ -42,7 +44,7 @@ async function testCoreWorkflow() {
 
   // Initialize workflow state
   const state: WorkflowState = {
-    asins: testAsins,
+    asins: testAsins.map(asin => toListingKey(asin)),
     scrapedListings: new Map(),
     imageAnalysis: new Map(),
     errors: [],
@@ -59,7 +61,7 @@ async function testCoreWorkflow() {
       const result = await scrapeAndParseAmazon(asin, firecrawlKey);
 
       if (result.success && result.data) {
-        state.scrapedListings.set(asin, result.data);
+        state.scrapedListings.set(toListingKey(asin), result.data);
         console.log(`  ✅ ${asin}: ${result.data.title.substring(0, 60)}...`);
         console.log(`     - Price: $${result.data.price}`);
         console.log(`     - Rating: ${result.data.rating} stars`);
@@ -69,7 +71,7 @@ async function testCoreWorkflow() {
         state.errors.push({
           step: 'firecrawl',
           message: result.error || 'Unknown error',
-          asin,
+          asin: toListingKey(asin),
         });
       }
       console.log();
@@ -108,7 +110,12 @@ async function testCoreWorkflow() {
     // ============================================================
     console.log('🤖 Step 3: Generating insights with ChatGPT...\n');
 
-    const gptResult = await analyzeWithGPT(state, openaiKey);
+    const gptResult = await analyzeWithGPT(state, {
+      provider: 'openai',
+      model: DEFAULT_MODELS.openai,
+      temperature: 0.7,
+      apiKey: openaiKey,
+    });
 
     if (gptResult.gptAnalysis) {
       state.gptAnalysis = gptResult.gptAnalysis;
@@ -3,20 +3,44 @@
  */
 
 import { ParsedAmazonProduct } from '../lib/firecrawl-amazon.js';
+import { ListingDiff } from '../lib/listing-diff.js';
+import { GroupMetrics } from '../lib/group-comparison.js';
+import { BudgetLimits, CostLedger, UnitPrices } from '../lib/cost-ledger.js';
+import { ListingKey, MarketplaceCode } from '../lib/marketplaces.js';
 
 export interface WorkflowState {
-  // Input
-  asins: string[];
+  // Input listings as marketplace:ASIN keys, e.g. "UK:B0CJBQ7F5C", so one ASIN can be
+  // tracked on several marketplaces (plus variation children when the scrape expands parents).
+  // Every listing map below is keyed the same way.
+  asins: ListingKey[];
+
+  // Competitor groups (own ASINs vs. competitor ASINs), empty when the sheet has no group column
+  groups?: AsinGroup[];
+
+  // Run ID (LangGraph thread ID) used to checkpoint and resume the run
+  runId?: string;
+
+  // Run date (YYYY-MM-DD) used to key listing snapshots
+  runDate?: string;
 
   // Scraped data
-  scrapedListings: Map<string, ParsedAmazonProduct>;
+  scrapedListings: Map<ListingKey, ParsedAmazonProduct>;
+
+  // Changes since the previous run (only listings with a previous snapshot)
+  listingChanges?: Map<ListingKey, ListingDiff>;
 
   // Image analysis results
-  imageAnalysis: Map<string, RekognitionAnalysis>;
+  imageAnalysis: Map<ListingKey, RekognitionAnalysis>;
 
-  // GPT analysis
+  // GPT analysis (portfolio-wide, or the roll-up in per-ASIN mode)
   gptAnalysis?: AnalysisReport;
 
+  // Per-listing GPT analysis (per-ASIN mode only)
+  listingAnalyses?: Map<ListingKey, AnalysisReport>;
+
+  // Paid API usage (Firecrawl credits, Rekognition calls, LLM tokens), unit prices and budget caps
+  costs?: CostLedger;
+
   // Output
   emailSent?: boolean;
   driveSaved?: boolean;
@@ -24,11 +48,24 @@ export interface WorkflowState {
   // Error tracking
   errors: Array<{
     step: string;
+    // Listing key of the failed listing
     asin?: string;
     message: string;
+    // Failure class, e.g. a Firecrawl error category ('rate_limited', 'blocked', ...) or
+    // 'budget' when a run budget cap skipped the rest of the step
+    category?: string;
   }>;
 }
 
+export type AsinRole = 'own' | 'competitor';
+
+export interface AsinGroup {
+  name: string;
+  // Listing keys (marketplace:ASIN)
+  ownAsins: ListingKey[];
+  competitorAsins: ListingKey[];
+}
+
 export interface RekognitionAnalysis {
   asin: string;
   images: Array<{
@@ -49,15 +86,92 @@ export interface RekognitionAnalysis {
   }>;
 }
 
+export type AnalysisMode = 'portfolio' | 'perAsin';
+
+// What the AI analysis does with listings parsed below the minimum confidence
+export type LowConfidenceHandling = 'caveat' | 'exclude';
+
 export interface AnalysisReport {
   summary: string;
+  amazonAIPerception: string;
+  targetAudience: string;
   competitiveInsights: string[];
   recommendations: string[];
   imageQualityAnalysis: string;
+  groupComparisons?: GroupComparison[];
+  // Raw model response of the accepted attempt, kept for debugging
+  rawResponse?: string;
   generatedAt: string;
 }
 
+export interface GroupComparison extends GroupMetrics {
+  analysis: string;
+}
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  // Overrides the built-in context window lookup for the model (tokens)
+  contextWindow?: number;
+  apiKey?: string;
+  // OpenAI-compatible endpoint (e.g. Ollama, llama.cpp)
+  baseUrl?: string;
+  // Azure OpenAI
+  azureInstanceName?: string;
+  azureDeploymentName?: string;
+  azureApiVersion?: string;
+}
+
+export interface ScrapeConfig {
+  // Scrapes in flight at once
+  concurrency: number;
+  // Token-bucket rate limit on scrape starts
+  requestsPerMinute: number;
+  // Retries per ASIN for rate-limited and transient Firecrawl errors
+  maxRetries: number;
+  // Re-scrapes per ASIN when Amazon serves a robot check (each costs credits)
+  blockedRetries: number;
+  // Listings parsed below this confidence (0-1) are flagged in errors
+  minConfidence: number;
+  // Raw scrape cache directory (unset = no cache; SCRAPE_CACHE_DIR set empty)
+  cacheDir?: string;
+  // Cached pages younger than this are parsed instead of re-scraped (0 = always scrape)
+  cacheTtlHours: number;
+  // Child ASINs scraped per parent listing with variations (0 = don't expand)
+  expandVariations: number;
+  // Extraction rules file overriding the built-in selectors and patterns (see extraction-rules.ts)
+  rulesPath?: string;
+}
+
+// Settings of the offline re-parse, which needs no API credentials
+export interface ReparseConfig {
+  // Raw scrape cache the pages are read from
+  cacheDir: string;
+  snapshotDir: string;
+  // Extraction rules file (unset = built-in rules)
+  rulesPath?: string;
+}
+
+export type ScraperBackendName = 'firecrawl' | 'firecrawl-self-hosted' | 'http' | 'browser';
+
+export interface ScraperConfig {
+  backend: ScraperBackendName;
+  // Tried in order when the backend fails with anything but a missing listing
+  fallbacks: ScraperBackendName[];
+  firecrawlApiKey?: string;
+  // Self-hosted Firecrawl instance (firecrawl-self-hosted)
+  firecrawlBaseUrl?: string;
+  // Browserless-compatible headless Chrome endpoint and its token (browser)
+  browserEndpoint?: string;
+  browserToken?: string;
+}
+
 export interface Config {
+  // Empty when no firecrawl backend is configured
   firecrawlApiKey: string;
   openaiApiKey: string;
   googleSheetId: string;
@@ -69,4 +183,16 @@ export interface Config {
   awsProfile?: string;
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
+  snapshotDir: string;
+  checkpointDir: string;
+  // Marketplace for sheet rows without one
+  defaultMarketplace: MarketplaceCode;
+  scrape: ScrapeConfig;
+  // Backends that fetch the listing pages
+  scraper: ScraperConfig;
+  analysisMode: AnalysisMode;
+  lowConfidenceListings: LowConfidenceHandling;
+  llm: LLMConfig;
+  costPrices: UnitPrices;
+  budgetLimits: BudgetLimits;
 }
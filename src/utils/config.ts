@@ -3,14 +3,200 @@
  */
 
 import dotenv from 'dotenv';
-import { Config } from '../types/index.js';
+import {
+  Config,
+  AnalysisMode,
+  LLMConfig,
+  LLMProviderName,
+  LowConfidenceHandling,
+  ReparseConfig,
+  ScrapeConfig,
+  ScraperBackendName,
+  ScraperConfig,
+} from '../types/index.js';
+import { DEFAULT_MODELS } from '../lib/llm-provider.js';
+import { BudgetLimits, UnitPrices, getDefaultLLMPrices } from '../lib/cost-ledger.js';
+import { DEFAULT_MARKETPLACE, listMarketplaces, parseMarketplace } from '../lib/marketplaces.js';
 
 dotenv.config();
 
+const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'azure-openai', 'anthropic', 'openai-compatible'];
+
+// API credentials each LLM provider needs
+const LLM_PROVIDER_REQUIRED: Record<LLMProviderName, string[]> = {
+  'openai': ['OPENAI_API_KEY'],
+  'azure-openai': ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_INSTANCE_NAME', 'AZURE_OPENAI_DEPLOYMENT_NAME'],
+  'anthropic': ['ANTHROPIC_API_KEY'],
+  'openai-compatible': [],
+};
+
+const DEFAULT_SNAPSHOT_DIR = './data/snapshots';
+const DEFAULT_SCRAPE_CACHE_DIR = './data/scrape-cache';
+
+const SCRAPER_BACKENDS: ScraperBackendName[] = ['firecrawl', 'firecrawl-self-hosted', 'http', 'browser'];
+
+// Settings each scraper backend needs
+const SCRAPER_BACKEND_REQUIRED: Record<ScraperBackendName, string[]> = {
+  'firecrawl': ['FIRECRAWL_API_KEY'],
+  'firecrawl-self-hosted': ['FIRECRAWL_BASE_URL'],
+  'http': [],
+  'browser': ['BROWSER_ENDPOINT'],
+};
+
+function parseOptionalNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name} "${value}": expected a number`);
+  }
+  return parsed;
+}
+
+function loadLLMConfig(provider: LLMProviderName): LLMConfig {
+  const apiKeys: Record<LLMProviderName, string | undefined> = {
+    'openai': process.env.OPENAI_API_KEY,
+    'azure-openai': process.env.AZURE_OPENAI_API_KEY,
+    'anthropic': process.env.ANTHROPIC_API_KEY,
+    'openai-compatible': process.env.LLM_API_KEY,
+  };
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature: parseOptionalNumber('LLM_TEMPERATURE') ?? 0.7,
+    maxTokens: parseOptionalNumber('LLM_MAX_TOKENS'),
+    contextWindow: parseOptionalNumber('LLM_CONTEXT_WINDOW'),
+    apiKey: apiKeys[provider],
+    baseUrl: process.env.LLM_BASE_URL,
+    azureInstanceName: process.env.AZURE_OPENAI_INSTANCE_NAME,
+    azureDeploymentName: process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+    azureApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-08-01-preview',
+  };
+}
+
+// Firecrawl Standard plan ($83 / 100k credits) and Rekognition image APIs ($1 / 1k calls)
+const DEFAULT_FIRECRAWL_CREDIT_PRICE = 0.00083;
+const DEFAULT_REKOGNITION_CALL_PRICE = 0.001;
+
+function loadCostPrices(llm: LLMConfig): UnitPrices {
+  const llmDefaults = getDefaultLLMPrices(llm.model);
+
+  return {
+    firecrawlCredit: parseOptionalNumber('FIRECRAWL_CREDIT_PRICE') ?? DEFAULT_FIRECRAWL_CREDIT_PRICE,
+    rekognitionCall: parseOptionalNumber('REKOGNITION_CALL_PRICE') ?? DEFAULT_REKOGNITION_CALL_PRICE,
+    llmPromptPer1M: parseOptionalNumber('LLM_PROMPT_PRICE_PER_1M') ?? llmDefaults.llmPromptPer1M,
+    llmCompletionPer1M: parseOptionalNumber('LLM_COMPLETION_PRICE_PER_1M') ?? llmDefaults.llmCompletionPer1M,
+  };
+}
+
+function loadBudgetLimits(): BudgetLimits {
+  const limits: BudgetLimits = {
+    maxAsins: parseOptionalNumber('MAX_ASINS_PER_RUN'),
+    maxFirecrawlCredits: parseOptionalNumber('MAX_FIRECRAWL_CREDITS'),
+    maxRekognitionCalls: parseOptionalNumber('MAX_REKOGNITION_CALLS'),
+    maxLLMTokens: parseOptionalNumber('MAX_LLM_TOKENS'),
+  };
+
+  for (const [name, value] of Object.entries(limits)) {
+    if (value !== undefined && value < 0) {
+      throw new Error(`Invalid budget limit ${name} "${value}": expected a non-negative number`);
+    }
+  }
+
+  return limits;
+}
+
+function loadScrapeConfig(): ScrapeConfig {
+  const concurrency = parseOptionalNumber('SCRAPE_CONCURRENCY') ?? 3;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid SCRAPE_CONCURRENCY "${concurrency}": expected a positive integer`);
+  }
+
+  const requestsPerMinute = parseOptionalNumber('SCRAPE_REQUESTS_PER_MINUTE') ?? 20;
+  if (requestsPerMinute <= 0) {
+    throw new Error(`Invalid SCRAPE_REQUESTS_PER_MINUTE "${requestsPerMinute}": expected a positive number`);
+  }
+
+  const maxRetries = parseOptionalNumber('SCRAPE_MAX_RETRIES') ?? 3;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error(`Invalid SCRAPE_MAX_RETRIES "${maxRetries}": expected a non-negative integer`);
+  }
+
+  const blockedRetries = parseOptionalNumber('SCRAPE_BLOCKED_RETRIES') ?? 1;
+  if (!Number.isInteger(blockedRetries) || blockedRetries < 0) {
+    throw new Error(`Invalid SCRAPE_BLOCKED_RETRIES "${blockedRetries}": expected a non-negative integer`);
+  }
+
+  const minConfidence = parseOptionalNumber('PARSE_MIN_CONFIDENCE') ?? 0.6;
+  if (minConfidence < 0 || minConfidence > 1) {
+    throw new Error(`Invalid PARSE_MIN_CONFIDENCE "${minConfidence}": expected a number between 0 and 1`);
+  }
+
+  const cacheTtlHours = parseOptionalNumber('SCRAPE_CACHE_TTL_HOURS') ?? 24;
+  if (cacheTtlHours < 0) {
+    throw new Error(`Invalid SCRAPE_CACHE_TTL_HOURS "${cacheTtlHours}": expected a non-negative number`);
+  }
+
+  const expandVariations = parseOptionalNumber('SCRAPE_EXPAND_VARIATIONS') ?? 0;
+  if (!Number.isInteger(expandVariations) || expandVariations < 0) {
+    throw new Error(`Invalid SCRAPE_EXPAND_VARIATIONS "${expandVariations}": expected a non-negative integer`);
+  }
+
+  // Set but empty turns the cache off
+  const cacheDir = process.env.SCRAPE_CACHE_DIR ?? DEFAULT_SCRAPE_CACHE_DIR;
+
+  return {
+    concurrency,
+    requestsPerMinute,
+    maxRetries,
+    blockedRetries,
+    minConfidence,
+    cacheDir: cacheDir || undefined,
+    cacheTtlHours,
+    expandVariations,
+    rulesPath: process.env.EXTRACTION_RULES_PATH || undefined,
+  };
+}
+
+function parseScraperBackends(): ScraperBackendName[] {
+  const backend = process.env.SCRAPER_BACKEND || 'firecrawl';
+  const fallbacks = (process.env.SCRAPER_FALLBACKS || '').split(',').map(name => name.trim()).filter(Boolean);
+
+  if (!SCRAPER_BACKENDS.includes(backend as ScraperBackendName)) {
+    throw new Error(`Invalid SCRAPER_BACKEND "${backend}": expected one of ${SCRAPER_BACKENDS.join(', ')}`);
+  }
+  const invalid = fallbacks.find(name => !SCRAPER_BACKENDS.includes(name as ScraperBackendName));
+  if (invalid) {
+    throw new Error(`Invalid SCRAPER_FALLBACKS "${invalid}": expected a comma-separated list of ${SCRAPER_BACKENDS.join(', ')}`);
+  }
+
+  return [backend, ...fallbacks] as ScraperBackendName[];
+}
+
+function loadScraperConfig([backend, ...fallbacks]: ScraperBackendName[]): ScraperConfig {
+  return {
+    backend,
+    fallbacks: fallbacks.filter(name => name !== backend),
+    firecrawlApiKey: process.env.FIRECRAWL_API_KEY || undefined,
+    firecrawlBaseUrl: process.env.FIRECRAWL_BASE_URL || undefined,
+    browserEndpoint: process.env.BROWSER_ENDPOINT || undefined,
+    browserToken: process.env.BROWSER_TOKEN || undefined,
+  };
+}
+
 export function loadConfig(): Config {
+  const llmProvider = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(llmProvider)) {
+    throw new Error(`Invalid LLM_PROVIDER "${llmProvider}": expected one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const scraperBackends = parseScraperBackends();
+
   const required = [
-    'FIRECRAWL_API_KEY',
-    'OPENAI_API_KEY',
+    ...new Set(scraperBackends.flatMap(backend => SCRAPER_BACKEND_REQUIRED[backend])),
+    ...LLM_PROVIDER_REQUIRED[llmProvider],
     'GOOGLE_SHEET_ID',
     'GOOGLE_CREDENTIALS_PATH',
     'AWS_REGION',
@@ -29,9 +215,27 @@ export function loadConfig(): Config {
     throw new Error('AWS credentials required: Set AWS_PROFILE or (AWS_ACCESS_KEY_ID + AWS_SECRET_ACCESS_KEY)');
   }
 
+  const analysisMode = (process.env.ANALYSIS_MODE || 'portfolio') as AnalysisMode;
+  if (analysisMode !== 'portfolio' && analysisMode !== 'perAsin') {
+    throw new Error(`Invalid ANALYSIS_MODE "${analysisMode}": expected "portfolio" or "perAsin"`);
+  }
+
+  const lowConfidenceListings = (process.env.LOW_CONFIDENCE_LISTINGS || 'caveat') as LowConfidenceHandling;
+  if (lowConfidenceListings !== 'caveat' && lowConfidenceListings !== 'exclude') {
+    throw new Error(`Invalid LOW_CONFIDENCE_LISTINGS "${lowConfidenceListings}": expected "caveat" or "exclude"`);
+  }
+
+  const marketplaceValue = process.env.AMAZON_MARKETPLACE || DEFAULT_MARKETPLACE;
+  const defaultMarketplace = parseMarketplace(marketplaceValue);
+  if (!defaultMarketplace) {
+    throw new Error(`Invalid AMAZON_MARKETPLACE "${marketplaceValue}": expected one of ${listMarketplaces().join(', ')}`);
+  }
+
+  const llm = loadLLMConfig(llmProvider);
+
   return {
-    firecrawlApiKey: process.env.FIRECRAWL_API_KEY!,
-    openaiApiKey: process.env.OPENAI_API_KEY!,
+    firecrawlApiKey: process.env.FIRECRAWL_API_KEY || '',
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
     googleSheetId: process.env.GOOGLE_SHEET_ID!,
     googleCredentialsPath: process.env.GOOGLE_CREDENTIALS_PATH!,
     gmailUser: process.env.GMAIL_USER || '',
@@ -41,5 +245,31 @@ export function loadConfig(): Config {
     awsProfile: process.env.AWS_PROFILE,
     awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
     awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    snapshotDir: process.env.SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR,
+    checkpointDir: process.env.CHECKPOINT_DIR || './data/checkpoints',
+    defaultMarketplace,
+    scrape: loadScrapeConfig(),
+    scraper: loadScraperConfig(scraperBackends),
+    analysisMode,
+    lowConfidenceListings,
+    llm,
+    costPrices: loadCostPrices(llm),
+    budgetLimits: loadBudgetLimits(),
+  };
+}
+
+/**
+ * Load only what the offline re-parse uses, so it runs without API credentials
+ */
+export function loadReparseConfig(): ReparseConfig {
+  const cacheDir = process.env.SCRAPE_CACHE_DIR ?? DEFAULT_SCRAPE_CACHE_DIR;
+  if (!cacheDir) {
+    throw new Error('SCRAPE_CACHE_DIR is empty (scrape cache turned off): there are no cached pages to re-parse');
+  }
+
+  return {
+    cacheDir,
+    snapshotDir: process.env.SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR,
+    rulesPath: process.env.EXTRACTION_RULES_PATH || undefined,
   };
 }
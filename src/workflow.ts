@@ -2,80 +2,99 @@
  * LangGraph Workflow for Listing Analysis Automation
  */
 
-import { StateGraph, END } from '@langchain/langgraph';
-import { WorkflowState } from './types/index.js';
+import { StateGraph, START, END } from '@langchain/langgraph';
+import { Config, WorkflowState } from './types/index.js';
 import { readAsinsFromSheet } from './nodes/googleSheets.js';
 import { scrapeListings } from './nodes/firecrawl.js';
+import { detectListingChanges } from './nodes/changeDetection.js';
 import { analyzeImages } from './nodes/rekognition.js';
+import { saveListingSnapshots } from './nodes/snapshot.js';
 import { analyzeWithGPT } from './nodes/chatgpt.js';
 import { sendEmail, saveToGoogleDrive } from './nodes/output.js';
 import { loadConfig } from './utils/config.js';
+import { toRunDate } from './lib/snapshot-store.js';
+import { createCostLedger, getCostBreakdown, formatUsd } from './lib/cost-ledger.js';
+import { FileCheckpointSaver, createRunId } from './lib/checkpoint-store.js';
 
 /**
  * Create the LangGraph workflow
+ *
+ * Compiled with a file-backed checkpointer: every completed node is saved under the
+ * run's thread ID (the run ID), so a crashed run can be resumed with resumeWorkflow().
  */
-export function createWorkflow() {
-  const config = loadConfig();
-
-  // Define the graph
+export function createWorkflow(config: Config = loadConfig()) {
+  // Define the graph (channel reducers typed from the state fields)
   const workflow = new StateGraph<WorkflowState>({
     channels: {
-      asins: { value: (left?: string[], right?: string[]) => right ?? left ?? [] },
-      scrapedListings: { value: (left?: Map<string, any>, right?: Map<string, any>) => right ?? left ?? new Map() },
-      imageAnalysis: { value: (left?: Map<string, any>, right?: Map<string, any>) => right ?? left ?? new Map() },
-      gptAnalysis: { value: (left?: any, right?: any) => right ?? left },
+      asins: { value: (left?: WorkflowState['asins'], right?: WorkflowState['asins']) => right ?? left ?? [] },
+      groups: { value: (left?: WorkflowState['groups'], right?: WorkflowState['groups']) => right ?? left ?? [] },
+      runId: { value: (left?: string, right?: string) => right ?? left },
+      runDate: { value: (left?: string, right?: string) => right ?? left },
+      scrapedListings: { value: (left?: WorkflowState['scrapedListings'], right?: WorkflowState['scrapedListings']) => right ?? left ?? new Map() },
+      listingChanges: { value: (left?: WorkflowState['listingChanges'], right?: WorkflowState['listingChanges']) => right ?? left },
+      imageAnalysis: { value: (left?: WorkflowState['imageAnalysis'], right?: WorkflowState['imageAnalysis']) => right ?? left ?? new Map() },
+      gptAnalysis: { value: (left?: WorkflowState['gptAnalysis'], right?: WorkflowState['gptAnalysis']) => right ?? left },
+      listingAnalyses: { value: (left?: WorkflowState['listingAnalyses'], right?: WorkflowState['listingAnalyses']) => right ?? left },
+      costs: { value: (left?: WorkflowState['costs'], right?: WorkflowState['costs']) => right ?? left },
       emailSent: { value: (left?: boolean, right?: boolean) => right ?? left },
       driveSaved: { value: (left?: boolean, right?: boolean) => right ?? left },
-      errors: { value: (left?: any[], right?: any[]) => right ?? left ?? [] },
+      errors: { value: (left?: WorkflowState['errors'], right?: WorkflowState['errors']) => right ?? left ?? [] },
     },
+  })
+    // Add nodes
+    .addNode('readSheet', async (state: WorkflowState) => {
+      return await readAsinsFromSheet(state, config.googleSheetId, config.googleCredentialsPath, config.defaultMarketplace);
+    })
+    .addNode('scrape', async (state: WorkflowState) => {
+      return await scrapeListings(state, config.firecrawlApiKey, config.scrape, config.scraper);
+    })
+    .addNode('detectChanges', async (state: WorkflowState) => {
+      return await detectListingChanges(state, config.snapshotDir);
+    })
+    .addNode('analyzeImages', async (state: WorkflowState) => {
+      return await analyzeImages(state, {
+        region: config.awsRegion,
+        profile: config.awsProfile,
+        accessKeyId: config.awsAccessKeyId,
+        secretAccessKey: config.awsSecretAccessKey,
+      });
+    })
+    .addNode('saveSnapshots', async (state: WorkflowState) => {
+      return await saveListingSnapshots(state, config.snapshotDir);
+    })
+    .addNode('analyzeWithGPT', async (state: WorkflowState) => {
+      return await analyzeWithGPT(state, config.llm, {
+        mode: config.analysisMode,
+        minConfidence: config.scrape.minConfidence,
+        lowConfidence: config.lowConfidenceListings,
+      });
+    })
+    .addNode('sendEmail', async (state: WorkflowState) => {
+      return await sendEmail(state, {
+        user: config.gmailUser,
+        password: config.gmailPassword,
+      });
+    })
+    .addNode('saveToDrive', async (state: WorkflowState) => {
+      return await saveToGoogleDrive(state, {
+        credentialsPath: config.googleCredentialsPath,
+        folderId: config.driveFolderId,
+      });
+    })
+    // Define edges (workflow flow)
+    .addEdge(START, 'readSheet')
+    .addEdge('readSheet', 'scrape')
+    .addEdge('scrape', 'detectChanges')
+    .addEdge('detectChanges', 'analyzeImages')
+    .addEdge('analyzeImages', 'saveSnapshots')
+    .addEdge('saveSnapshots', 'analyzeWithGPT')
+    .addEdge('analyzeWithGPT', 'sendEmail')
+    .addEdge('sendEmail', 'saveToDrive')
+    .addEdge('saveToDrive', END);
+
+  return workflow.compile({
+    checkpointer: new FileCheckpointSaver(config.checkpointDir),
   });
-
-  // Add nodes
-  workflow.addNode('readSheet', async (state: WorkflowState) => {
-    return await readAsinsFromSheet(state, config.googleSheetId, config.googleCredentialsPath);
-  });
-
-  workflow.addNode('scrape', async (state: WorkflowState) => {
-    return await scrapeListings(state, config.firecrawlApiKey);
-  });
-
-  workflow.addNode('analyzeImages', async (state: WorkflowState) => {
-    return await analyzeImages(state, {
-      region: config.awsRegion,
-      profile: config.awsProfile,
-      accessKeyId: config.awsAccessKeyId,
-      secretAccessKey: config.awsSecretAccessKey,
-    });
-  });
-
-  workflow.addNode('analyzeWithGPT', async (state: WorkflowState) => {
-    return await analyzeWithGPT(state, config.openaiApiKey);
-  });
-
-  workflow.addNode('sendEmail', async (state: WorkflowState) => {
-    return await sendEmail(state, {
-      user: config.gmailUser,
-      password: config.gmailPassword,
-    });
-  });
-
-  workflow.addNode('saveToDrive', async (state: WorkflowState) => {
-    return await saveToGoogleDrive(state, {
-      credentialsPath: config.googleCredentialsPath,
-      folderId: config.driveFolderId,
-    });
-  });
-
-  // Define edges (workflow flow)
-  workflow.addEdge('__start__', 'readSheet');
-  workflow.addEdge('readSheet', 'scrape');
-  workflow.addEdge('scrape', 'analyzeImages');
-  workflow.addEdge('analyzeImages', 'analyzeWithGPT');
-  workflow.addEdge('analyzeWithGPT', 'sendEmail');
-  workflow.addEdge('sendEmail', 'saveToDrive');
-  workflow.addEdge('saveToDrive', END);
-
-  return workflow.compile();
 }
 
 /**
@@ -85,38 +104,97 @@ export async function runWorkflow() {
   console.log('🚀 Starting Listing Analysis Automation Workflow\n');
   console.log('=' .repeat(60));
 
-  const app = createWorkflow();
+  const config = loadConfig();
+  const app = createWorkflow(config);
+  const runId = createRunId();
+  console.log(`🆔 Run ID: ${runId}`);
 
   const initialState: WorkflowState = {
     asins: [],
+    groups: [],
+    runId,
+    runDate: toRunDate(),
     scrapedListings: new Map(),
     imageAnalysis: new Map(),
+    costs: createCostLedger(config.costPrices, config.budgetLimits),
     errors: [],
   };
 
   try {
-    const result = await app.invoke(initialState);
-
-    console.log('\n' + '='.repeat(60));
-    console.log('✅ Workflow completed successfully!\n');
-    console.log('📊 Final Results:');
-    console.log(`  - ASINs processed: ${result.asins.length}`);
-    console.log(`  - Listings scraped: ${result.scrapedListings.size}`);
-    console.log(`  - Images analyzed: ${Array.from(result.imageAnalysis.values()).reduce((sum, a) => sum + a.images.length, 0)}`);
-    console.log(`  - Email sent: ${result.emailSent ? '✅' : '❌'}`);
-    console.log(`  - Saved to Drive: ${result.driveSaved ? '✅' : '❌'}`);
-
-    if (result.errors.length > 0) {
-      console.log(`\n⚠️  Errors encountered: ${result.errors.length}`);
-      result.errors.forEach(error => {
-        console.log(`  - [${error.step}] ${error.message}${error.asin ? ` (${error.asin})` : ''}`);
-      });
-    }
+    const result = await app.invoke(initialState, { configurable: { thread_id: runId } }) as WorkflowState;
+    printSummary(result);
+    return result;
+
+  } catch (error) {
+    console.error('\n❌ Workflow failed:', error);
+    console.error(`   Completed steps are checkpointed. Resume with: npm run resume -- ${runId}`);
+    throw error;
+  }
+}
+
+/**
+ * Resume a crashed run from its last completed node
+ *
+ * Completed steps (scraping, image analysis, ...) are restored from the checkpoint
+ * and not repeated.
+ */
+export async function resumeWorkflow(runId: string) {
+  console.log(`🔁 Resuming Listing Analysis Automation Workflow (run ${runId})\n`);
+  console.log('=' .repeat(60));
+
+  const config = loadConfig();
+  const app = createWorkflow(config);
+  const runConfig = { configurable: { thread_id: runId } };
 
+  const snapshot = await app.getState(runConfig);
+  if (!snapshot.createdAt) {
+    throw new Error(`No checkpoint found for run ${runId} in ${config.checkpointDir}`);
+  }
+  if (snapshot.next.length === 0) {
+    console.log(`✅ Run ${runId} already completed, nothing to resume`);
+    return snapshot.values as WorkflowState;
+  }
+
+  console.log(`  Continuing at: ${snapshot.next.join(', ')}`);
+
+  try {
+    // A null input continues the thread from its last checkpoint
+    const result = await app.invoke(null, runConfig) as WorkflowState;
+    printSummary(result);
     return result;
 
   } catch (error) {
     console.error('\n❌ Workflow failed:', error);
+    console.error(`   Completed steps are checkpointed. Resume with: npm run resume -- ${runId}`);
     throw error;
   }
 }
+
+function printSummary(result: WorkflowState) {
+  console.log('\n' + '='.repeat(60));
+  console.log('✅ Workflow completed successfully!\n');
+  console.log('📊 Final Results:');
+  console.log(`  - ASINs processed: ${result.asins.length}`);
+  console.log(`  - Listings scraped: ${result.scrapedListings.size}`);
+  console.log(`  - Images analyzed: ${Array.from(result.imageAnalysis.values()).reduce((sum, a) => sum + a.images.length, 0)}`);
+  console.log(`  - Email sent: ${result.emailSent ? '✅' : '❌'}`);
+  console.log(`  - Saved to Drive: ${result.driveSaved ? '✅' : '❌'}`);
+
+  if (result.costs) {
+    const costs = getCostBreakdown(result.costs);
+    console.log(`\n💰 Estimated Cost: ${formatUsd(costs.totalUsd)}`);
+    console.log(`  - Firecrawl: ${costs.firecrawl.credits} credits (${formatUsd(costs.firecrawl.costUsd)})`);
+    console.log(`  - Rekognition: ${costs.rekognition.calls} calls (${formatUsd(costs.rekognition.costUsd)})`);
+    Object.entries(costs.rekognition.callsByOperation).forEach(([operation, calls]) => {
+      console.log(`      ${operation}: ${calls}`);
+    });
+    console.log(`  - LLM: ${costs.llm.requests} requests, ${costs.llm.promptTokens} prompt / ${costs.llm.completionTokens} completion tokens (${formatUsd(costs.llm.costUsd)})`);
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`\n⚠️  Errors encountered: ${result.errors.length}`);
+    result.errors.forEach(error => {
+      console.log(`  - [${error.step}${error.category ? `/${error.category}` : ''}] ${error.message}${error.asin ? ` (${error.asin})` : ''}`);
+    });
+  }
+}
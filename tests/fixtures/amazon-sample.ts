@@ -2,6 +2,8 @@
  * Sample Amazon listing data for testing
  */
 
+import type { ParsedAmazonProduct } from '../../src/lib/firecrawl-amazon.js';
+
 export const sampleAmazonHTML = `
 <html>
   <body>
@@ -105,8 +107,370 @@ export const sampleScrapedListing = {
 };
 
 export const sampleWorkflowState = {
-  asins: ['B0TESTSKU', 'B0TEST2'],
+  asins: ['US:B0TESTSKU', 'US:B0TEST2'],
   scrapedListings: new Map(),
   imageAnalysis: new Map(),
   errors: [],
 };
+
+/**
+ * A parsed listing with test defaults, for tests that need listings without parsing a page
+ */
+export function makeListing(overrides: Partial<ParsedAmazonProduct> = {}): ParsedAmazonProduct {
+  return {
+    asin: 'B0TEST',
+    title: 'Test Product',
+    price: 10.99,
+    rating: 4.5,
+    reviewCount: 100,
+    bullets: [],
+    description: '',
+    images: [],
+    parsedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Pages Amazon serves instead of a listing
+
+export const sampleCaptchaHTML = `
+<html>
+  <head><title dir="ltr">Robot Check</title></head>
+  <body>
+    <h4>Enter the characters you see below</h4>
+    <p class="a-last">Sorry, we just need to make sure you're not a robot. For best results, please make sure your browser is accepting cookies.</p>
+    <form method="get" action="/errors/validateCaptcha" name="">
+      <input type="text" id="captchacharacters" name="field-keywords">
+    </form>
+  </body>
+</html>
+`;
+
+export const sampleCaptchaMarkdown = `
+#### Enter the characters you see below
+
+Sorry, we just need to make sure you're not a robot. For best results, please make sure your browser is accepting cookies.
+
+Type the characters you see in this image:
+`;
+
+export const sampleDogPageHTML = `
+<html>
+  <head><title>Amazon.com Page Not Found</title></head>
+  <body>
+    <a href="/ref=cs_404_logo"><img alt="Sorry! We couldn't find that page. Try searching or go to Amazon's home page." src="https://images-na.ssl-images-amazon.com/images/G/01/error/title._TTD_.png"></a>
+    <a href="/dogsofamazon"><img alt="Dogs of Amazon" src="https://images-na.ssl-images-amazon.com/images/G/01/error/58._TTD_.jpg"></a>
+  </body>
+</html>
+`;
+
+export const sampleDogPageMarkdown = `
+[![Sorry! We couldn't find that page. Try searching or go to Amazon's home page.](https://images-na.ssl-images-amazon.com/images/G/01/error/title._TTD_.png)](https://www.amazon.com/ref=cs_404_logo)
+
+[![Dogs of Amazon](https://images-na.ssl-images-amazon.com/images/G/01/error/58._TTD_.jpg)](https://www.amazon.com/dogsofamazon)
+`;
+
+export const sampleUnavailableMarkdown = `
+# Ultimate Guard Katana Sleeves Standard Size Black (100)
+
+4.8 out of 5 stars (1,234)
+
+Currently unavailable.
+We don't know when or if this item will be back in stock.
+`;
+
+export const sampleRegionLockedMarkdown = `
+# Ultimate Guard Katana Sleeves Standard Size Black (100)
+
+$12.99
+
+This item cannot be shipped to your selected delivery location. Please choose a different delivery location.
+`;
+
+// amazon.de listing: comma decimals, "." thousands, German rating/review text
+export const sampleAmazonDEHTML = `
+<html>
+  <body>
+    <div id="dp">
+      <span id="productTitle">Ultimate Guard Katana Hüllen Standardgröße Schwarz (100)</span>
+      <div id="corePriceDisplay_desktop_feature_div">
+        <span class="a-price"><span class="a-offscreen">1.299,00&nbsp;€</span></span>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+
+export const sampleAmazonDEMarkdown = `
+# Ultimate Guard Katana Hüllen Standardgröße Schwarz (100)
+
+4,6 von 5 Sternen
+1.234 Sternebewertungen
+
+8,99 €
+`;
+
+// amazon.co.jp listing: yen without decimals, rating after "5つ星のうち"
+export const sampleAmazonJPMarkdown = `
+# Ultimate Guard カタナ スリーブ スタンダードサイズ ブラック (100枚入り)
+
+5つ星のうち4.5
+2,345個の評価
+
+￥1,980
+`;
+
+// Buybox with a strike-through list price, coupon, deal badge and Subscribe & Save
+export const sampleAmazonDealHTML = `
+<html>
+  <body>
+    <div id="dp">
+      <span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span>
+      <div id="dealBadge_feature_div"><span class="a-badge-text">Limited time deal</span></div>
+      <div id="corePriceDisplay_desktop_feature_div">
+        <span class="a-size-large a-color-price savingPriceOverride aok-align-center reinventPriceSavingsPercentageMargin savingsPercentage">-20%</span>
+        <span class="a-price aok-align-center reinventPricePriceToPayMargin priceToPay"><span class="a-offscreen">$19.99</span></span>
+        <span class="a-size-small a-color-secondary aok-align-center basisPrice">List Price:
+          <span class="a-price a-text-price" data-a-size="s" data-a-strike="true" data-a-color="secondary"><span class="a-offscreen">$24.99</span></span>
+        </span>
+      </div>
+      <div id="promoPriceBlockMessage_feature_div">
+        <label id="couponTextpctch123">Apply 15% coupon</label>
+      </div>
+      <div id="snsAccordionRowMiddle">
+        <span id="sns-base-price">$18.99</span>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+
+// Breadcrumb, product details tables and Best Sellers Rank
+export const sampleAmazonDetailsHTML = `
+<html>
+  <body>
+    <div id="wayfinding-breadcrumbs_feature_div">
+      <ul class="a-unordered-list a-horizontal a-size-small">
+        <li><span class="a-list-item"><a class="a-link-normal a-color-tertiary" href="/toys">Toys &amp; Games</a></span></li>
+        <li class="a-breadcrumb-divider"><span class="a-list-item a-color-tertiary">&rsaquo;</span></li>
+        <li><span class="a-list-item"><a class="a-link-normal a-color-tertiary" href="/cards">Trading Cards &amp; Accessories</a></span></li>
+        <li class="a-breadcrumb-divider"><span class="a-list-item a-color-tertiary">&rsaquo;</span></li>
+        <li><span class="a-list-item"><a class="a-link-normal a-color-tertiary" href="/sleeves">Card Sleeves</a></span></li>
+      </ul>
+    </div>
+    <a id="bylineInfo" class="a-link-normal" href="/stores/UltimateGuard">Visit the Ultimate Guard Store</a>
+    <table id="productDetails_techSpec_section_1" class="a-keyvalue prodDetTable">
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Manufacturer </th><td class="a-size-base prodDetAttrValue"> Ultimate Guard </td></tr>
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Product Dimensions </th><td class="a-size-base prodDetAttrValue"> 3.7 x 2.7 x 1.4 inches; 3.53 ounces </td></tr>
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Material </th><td class="a-size-base prodDetAttrValue"> Polypropylene </td></tr>
+    </table>
+    <table id="productDetails_detailBullets_sections1" class="a-keyvalue prodDetTable">
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Customer Reviews </th><td class="a-size-base"> 4.7 out of 5 stars </td></tr>
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Best Sellers Rank </th><td>
+        <span><ul class="a-unordered-list a-nostyle a-vertical zg_hrsr">
+          <li><span class="a-list-item"> #1,234 in Toys &amp; Games (<a href="/gp/bestsellers/toys-and-games">See Top 100 in Toys &amp; Games</a>) </span></li>
+          <li><span class="a-list-item"> #5 in <a href="/gp/bestsellers/sleeves">Trading Card Sleeves</a> </span></li>
+        </ul></span>
+      </td></tr>
+      <tr><th class="a-color-secondary a-size-base prodDetSectionEntry"> Date First Available </th><td class="a-size-base prodDetAttrValue"> March 3, 2021 </td></tr>
+    </table>
+  </body>
+</html>
+`;
+
+// Firecrawl markdown of the same page without HTML detail tables
+export const sampleAmazonDetailsMarkdown = `
+[Toys & Games](https://www.amazon.com/toys) › [Trading Cards & Accessories](https://www.amazon.com/cards) › [Card Sleeves](https://www.amazon.com/sleeves)
+
+# Ultimate Guard Katana Sleeves Standard Size Black (100)
+
+## Product information
+
+| Brand | Ultimate Guard |
+| --- | --- |
+| Item Weight | 3.53 ounces |
+| Best Sellers Rank | #1,234 in Toys & Games ([See Top 100 in Toys & Games](https://www.amazon.com/gp/bestsellers)) #5 in [Trading Card Sleeves](https://www.amazon.com/sleeves) |
+
+## Customer reviews
+`;
+
+// Twister data for a parent with color x size children, plus a carousel outside the twister
+export const sampleAmazonVariationsHTML = `
+<html>
+  <body>
+    <span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span>
+    <form id="twister" method="get">
+      <ul class="a-unordered-list a-nostyle a-button-list">
+        <li id="color_name_0" data-defaultasin="B0CHILDBLK" class="swatchSelect">
+          <span class="a-button-text"><span class="twisterSwatchPrice">$6.49</span></span>
+        </li>
+        <li id="color_name_1" data-defaultasin="B0CHILDBLU" class="swatchAvailable">
+          <span class="a-button-text"><span class="twisterSwatchPrice">$7.99</span></span>
+        </li>
+        <li id="color_name_2" data-defaultasin="B0CHILDRED" class="swatchUnavailable">
+          <span class="a-button-text">Currently unavailable.</span>
+        </li>
+      </ul>
+    </form>
+    <ol class="a-carousel">
+      <li data-asin="B0CAROUSEL" class="a-carousel-card"><span>$12.99</span></li>
+    </ol>
+    <script type="text/javascript">
+      var dataToReturn = {
+        "parentAsin" : "B0PARENT01",
+        "dimensionsDisplay" : ["Color", "Size"],
+        "dimensionValuesDisplayData" : {"B0CHILDBLK":["Black","Standard"],"B0CHILDBLU":["Blue","Standard"],"B0CHILDRED":["Red","Standard"]}
+      };
+    </script>
+  </body>
+</html>
+`;
+
+// Rating histogram, "Customers say" summary and one positive and one critical review
+export const sampleAmazonReviewsHTML = `
+<html>
+  <body>
+    <span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span>
+    <ul id="histogramTable" class="a-unordered-list a-nostyle a-vertical">
+      <li><a aria-label="72 percent of reviews have 5 stars" href="/reviews?filterByStar=five_star">5 star</a></li>
+      <li><a aria-label="15 percent of reviews have 4 stars" href="/reviews?filterByStar=four_star">4 star</a></li>
+      <li><a aria-label="5 percent of reviews have 3 stars" href="/reviews?filterByStar=three_star">3 star</a></li>
+      <li><a aria-label="2 percent of reviews have 2 stars" href="/reviews?filterByStar=two_star">2 star</a></li>
+      <li><a aria-label="6 percent of reviews have 1 stars" href="/reviews?filterByStar=one_star">1 star</a></li>
+    </ul>
+    <div id="product-insights-cm-cr-dp-insights">
+      <h3>Customers say</h3>
+      <p>Customers like the fit and shuffle feel of the sleeves. Some mention that sleeves split at the seams after heavy play.</p>
+      <p>AI-generated from the text of customer reviews</p>
+    </div>
+    <div id="cm-cr-dp-review-list">
+      <div id="R1POSITIVE" data-hook="review" class="a-section review aok-relative">
+        <a data-hook="review-title" class="a-link-normal" href="/review/R1POSITIVE">
+          <i data-hook="review-star-rating" class="a-icon a-icon-star a-star-5"><span class="a-icon-alt">5.0 out of 5 stars</span></i>
+          <span>Perfect fit for my Commander deck</span>
+        </a>
+        <span data-hook="review-date">Reviewed in the United States on March 3, 2024</span>
+        <div data-hook="review-collapsed"><span data-hook="review-body"><div><span>Great shuffle feel, <b>no clumping</b> after months.</span></div></span></div>
+      </div>
+      <div id="R2CRITICAL" data-hook="review" class="a-section review aok-relative">
+        <a data-hook="review-title" class="a-link-normal" href="/review/R2CRITICAL">
+          <i data-hook="review-star-rating" class="a-icon a-icon-star a-star-1"><span class="a-icon-alt">1.0 out of 5 stars</span></i>
+          <span>Split after a week</span>
+        </a>
+        <div data-hook="review-collapsed"><span data-hook="review-body"><div><span>Several sleeves split at the seam.</span><br><span>Would not buy again.</span></div></span></div>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+
+// "From the manufacturer" A+ modules with a comparison chart, and the customer Q&A block
+export const sampleAmazonContentHTML = `
+<html>
+  <body>
+    <span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span>
+    <div id="aplus_feature_div">
+      <h2>From the manufacturer</h2>
+      <div class="aplus-module aplus-3p-fixed-width">
+        <img src="https://m.media-amazon.com/images/I/81APLUSBNR._AC_SL1500_.jpg" alt="">
+      </div>
+      <div class="aplus-module module-4 celwidget">
+        <h3 class="a-spacing-mini">Double-sleeve protection</h3>
+        <p>Fits perfectly inside Katana inner sleeves.</p>
+        <p>Acid-free and PVC-free for long-term storage.</p>
+      </div>
+      <div class="aplus-module module-5 celwidget">
+        <span class="a-text-bold">Tournament ready</span>
+        <p>Matte backs for smooth shuffling.</p>
+      </div>
+      <div class="aplus-module module-comparison">
+        <table class="a-bordered a-horizontal-stripes aplus-comparison-table">
+          <tr><th></th><th><a href="/dp/B0CJBQ7F5C">Katana Sleeves</a></th><th><a href="/dp/B0OTHER001">Katana Inner Sleeves</a></th></tr>
+          <tr><th>Sleeves per pack</th><td>100</td><td>60</td></tr>
+          <tr><th>Matte finish</th><td><i class="a-icon a-icon-checkmark"></i></td><td></td></tr>
+        </table>
+      </div>
+    </div>
+    <div id="ask-btf_feature_div">
+      <div id="question-Tx1">
+        <span>Question:</span> <a href="/ask/Tx1">Do these fit Yu-Gi-Oh cards?</a>
+        <span>Answer:</span> <span>No, these are standard size. Use the Japanese size sleeves.</span>
+      </div>
+      <div id="question-Tx2">
+        <span>Question:</span> <a href="/ask/Tx2">Are they double-sleeve compatible?</a>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+
+// Gallery videos in the page scripts, a "Videos for this product" carousel and a 360 spin
+export const sampleAmazonMediaHTML = `
+<html>
+  <body>
+    <span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span>
+    <div id="altImages">
+      <li class="videoThumbnail"><span class="a-size-mini">2 VIDEOS</span></li>
+      <div id="spin360_feature_div"><img src="https://m.media-amazon.com/images/I/61SPIN360L._AC_US40_.jpg"></div>
+    </div>
+    <div id="vse-related-videos">
+      <div class="vse-video-card" data-video-url="https://m.media-amazon.com/videos/creator1.mp4" data-title="Sleeving a Commander deck">
+        <img src="https://m.media-amazon.com/images/I/51CREATOR1._SX300_.jpg">
+        <span class="vse-video-duration">2:05</span>
+      </div>
+    </div>
+    <script type="text/javascript">
+      var obj = jQuery.parseJSON('{"videos":[{"title":"Katana Sleeves &amp; Inner Sleeves","thumbUrl":"https://m.media-amazon.com/images/I/51VIDEO001._SX522_.jpg","durationTimestamp":"0:45","url":"https://m.media-amazon.com/videos/1.mp4"},{"title":"Shuffle test","slateUrl":"https://m.media-amazon.com/images/I/51VIDEO002._SX522_.jpg","durationSeconds":30}]}');
+    </script>
+  </body>
+</html>
+`;
+
+// Current page layout: nested sections inside feature-bullets and the A+ block, unclosed
+// <li> tags, a landing image whose src is a placeholder and a productDescription block
+export const sampleAmazonNestedMarkupHTML = `
+<html>
+  <body>
+    <div id="dp">
+      <div id="titleSection"><h1 id="title" class="a-size-large">
+        <span id="productTitle" class="a-size-large product-title-word-break">
+          Ultimate Guard Katana Sleeves &amp; Inner Sleeves Standard Size Black (100)
+        </span>
+      </h1></div>
+      <div id="imgTagWrapperId" class="imgTagWrapper">
+        <img alt="Katana Sleeves" src="data:image/gif;base64,R0lGODlhAQABAIAAAP" data-old-hires="https://m.media-amazon.com/images/I/71MAINHIRES._AC_SL1500_.jpg" id="landingImage" data-a-dynamic-image="{&quot;https://m.media-amazon.com/images/I/71MAINHIRES._AC_SX679_.jpg&quot;:[679,679]}">
+      </div>
+      <div id="altImages">
+        <img src="https://m.media-amazon.com/images/I/71GALLERY2._AC_US40_.jpg">
+      </div>
+      <div id="feature-bullets" class="a-section a-spacing-medium">
+        <div class="a-section"><h1 class="a-size-base-plus">About this item</h1></div>
+        <ul class="a-unordered-list a-vertical">
+          <li><span class="a-list-item"><span class="a-text-bold">Double-sleeve ready:</span> fits standard size cards in an inner sleeve</span>
+          <li><span class="a-list-item">Acid-free, PVC-free polypropylene for archival safety</span>
+          <li class="aok-hidden"><span class="a-list-item"><div class="a-section">Matte back with a <b>non-glare</b> finish for shuffling</div></span></li>
+        </ul>
+        <div id="feature-bullets-btf"><a href="#productDetails">See more product details</a></div>
+      </div>
+      <div id="productDescription_feature_div">
+        <div id="productDescription" class="a-section a-spacing-small">
+          <p><span>Katana Sleeves are made for players who shuffle hard.</span></p>
+          <p><span>Each box holds 100 sleeves.</span></p>
+        </div>
+      </div>
+      <div id="aplus_feature_div">
+        <div id="aplus" class="a-section a-spacing-extra-large bucket">
+          <div class="aplus-v2 desktop celwidget">
+            <div class="aplus-module module-1"><div class="aplus-module-wrapper">
+              <img src="https://m.media-amazon.com/images/I/81APLUS001.jpg">
+            </div></div>
+            <div class="aplus-module module-2">
+              <img data-src="https://m.media-amazon.com/images/I/81APLUS002.jpg" src="https://m.media-amazon.com/images/G/01/x-locale/common/grey-pixel.gif">
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  </body>
+</html>
+`;
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for A+ module, comparison chart and Q&A extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractContent, parseQuestions } from '../../src/lib/amazon-content.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import { sampleAmazonContentHTML, sampleAmazonHTML, sampleAmazonMarkdown } from '../fixtures/amazon-sample.js';
+
+describe('extractContent', () => {
+  it('should extract A+ modules, the comparison chart and Q&A from the HTML', () => {
+    expect(extractContent('', parseHtml(sampleAmazonContentHTML))).toEqual({
+      aplusModules: [
+        { headline: 'Double-sleeve protection', body: 'Fits perfectly inside Katana inner sleeves. Acid-free and PVC-free for long-term storage.' },
+        { headline: 'Tournament ready', body: 'Matte backs for smooth shuffling.' },
+      ],
+      comparisonChart: {
+        products: [
+          { name: 'Katana Sleeves', asin: 'B0CJBQ7F5C' },
+          { name: 'Katana Inner Sleeves', asin: 'B0OTHER001' },
+        ],
+        rows: [
+          { attribute: 'Sleeves per pack', values: ['100', '60'] },
+          { attribute: 'Matte finish', values: ['Yes', ''] },
+        ],
+      },
+      questions: [
+        { question: 'Do these fit Yu-Gi-Oh cards?', answer: 'No, these are standard size. Use the Japanese size sleeves.' },
+        { question: 'Are they double-sleeve compatible?', answer: null },
+      ],
+    });
+  });
+
+  it('should fall back to the markdown "From the manufacturer" section', () => {
+    const markdown = `
+## From the manufacturer
+
+![banner](https://m.media-amazon.com/images/I/81APLUSBNR.jpg)
+
+### Double-sleeve protection
+
+Fits perfectly inside Katana inner sleeves.
+
+|  | Katana Sleeves | Katana Inner Sleeves |
+| --- | --- | --- |
+| Sleeves per pack | 100 | 60 |
+
+## Customer reviews
+
+Great sleeves.
+`;
+
+    const content = extractContent(markdown, parseHtml(''));
+
+    expect(content.aplusModules).toEqual([
+      { headline: 'Double-sleeve protection', body: 'Fits perfectly inside Katana inner sleeves.' },
+    ]);
+    expect(content.comparisonChart).toEqual({
+      products: [{ name: 'Katana Sleeves', asin: null }, { name: 'Katana Inner Sleeves', asin: null }],
+      rows: [{ attribute: 'Sleeves per pack', values: ['100', '60'] }],
+    });
+  });
+
+  it('should end the last A+ module at its own closing tag', () => {
+    const html = `
+      <div id="aplus"><div class="aplus-module">
+        <h3>Tournament ready</h3>
+        <div><p>Matte backs for smooth shuffling.</p></div>
+      </div></div>
+      <div id="important-information"><p>Safety information: not a toy.</p></div>`;
+
+    expect(extractContent('', parseHtml(html)).aplusModules).toEqual([
+      { headline: 'Tournament ready', body: 'Matte backs for smooth shuffling.' },
+    ]);
+  });
+
+  it('should return empty content for pages without A+ or Q&A', () => {
+    expect(extractContent(sampleAmazonMarkdown, parseHtml(sampleAmazonHTML))).toEqual({
+      aplusModules: [],
+      comparisonChart: null,
+      questions: [],
+    });
+  });
+});
+
+describe('parseQuestions', () => {
+  it('should read questions and answers on the same line', () => {
+    expect(parseQuestions('**Question:** Is it acid-free?\n**Answer:** Yes.')).toEqual([
+      { question: 'Is it acid-free?', answer: 'Yes.' },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for Best Sellers Rank, category path and product details extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractDetails, parseBestSellersRanks } from '../../src/lib/amazon-details.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import {
+  sampleAmazonDetailsHTML,
+  sampleAmazonDetailsMarkdown,
+  sampleAmazonHTML,
+  sampleAmazonMarkdown,
+} from '../fixtures/amazon-sample.js';
+
+describe('extractDetails', () => {
+  it('should extract details from the HTML tables', () => {
+    expect(extractDetails('', parseHtml(sampleAmazonDetailsHTML))).toEqual({
+      bestSellersRanks: [
+        { rank: 1234, category: 'Toys & Games' },
+        { rank: 5, category: 'Trading Card Sleeves' },
+      ],
+      categoryPath: ['Toys & Games', 'Trading Cards & Accessories', 'Card Sleeves'],
+      brand: 'Ultimate Guard',
+      manufacturer: 'Ultimate Guard',
+      dateFirstAvailable: '2021-03-03',
+      dimensions: '3.7 x 2.7 x 1.4 inches',
+      weight: '3.53 ounces',
+      technicalDetails: {
+        'Manufacturer': 'Ultimate Guard',
+        'Product Dimensions': '3.7 x 2.7 x 1.4 inches; 3.53 ounces',
+        'Material': 'Polypropylene',
+        'Date First Available': 'March 3, 2021',
+      },
+    });
+  });
+
+  it('should fall back to the markdown details section', () => {
+    const details = extractDetails(sampleAmazonDetailsMarkdown, parseHtml(''));
+
+    expect(details.bestSellersRanks).toEqual([
+      { rank: 1234, category: 'Toys & Games' },
+      { rank: 5, category: 'Trading Card Sleeves' },
+    ]);
+    expect(details.categoryPath).toEqual(['Toys & Games', 'Trading Cards & Accessories', 'Card Sleeves']);
+    expect(details.brand).toBe('Ultimate Guard');
+    expect(details.weight).toBe('3.53 ounces');
+    expect(details.technicalDetails).toEqual({ 'Brand': 'Ultimate Guard', 'Item Weight': '3.53 ounces' });
+  });
+
+  it('should return empty details for pages without them', () => {
+    const details = extractDetails(sampleAmazonMarkdown, parseHtml(sampleAmazonHTML));
+
+    expect(details.bestSellersRanks).toEqual([]);
+    expect(details.categoryPath).toEqual([]);
+    expect(details.dateFirstAvailable).toBeNull();
+    expect(details.technicalDetails).toEqual({});
+  });
+
+  it('should read German detail bullets', () => {
+    const html = `
+      <div id="detailBullets_feature_div"><ul>
+        <li><span class="a-list-item"><span class="a-text-bold">Hersteller \u200f : \u200e</span> <span>Ultimate Guard</span></span></li>
+        <li><span class="a-list-item"><span class="a-text-bold">Artikelgewicht \u200f : \u200e</span> <span>100 g</span></span></li>
+      </ul></div>
+      <ul><li>Amazon Bestseller-Rang: Nr. 2.345 in Spielzeug (Siehe Top 100) Nr. 7 in Kartenhüllen</li></ul>`;
+    const details = extractDetails('', parseHtml(html));
+
+    expect(details.manufacturer).toBe('Ultimate Guard');
+    expect(details.weight).toBe('100 g');
+    expect(details.bestSellersRanks).toEqual([
+      { rank: 2345, category: 'Spielzeug' },
+      { rank: 7, category: 'Kartenhüllen' },
+    ]);
+  });
+
+  it('should read values with nested markup up to their own closing tag', () => {
+    const html = `
+      <div id="detailBullets_feature_div"><ul>
+        <li><span class="a-list-item"><span class="a-text-bold">Manufacturer : </span> <span><span>Ultimate</span> Guard</span></span></li>
+      </ul></div>
+      <table id="productDetails_techSpec_section_1">
+        <tr><th>Material</th><td><table><tr><td>Polypropylene</td></tr></table> (acid-free)</td></tr>
+      </table>`;
+    const details = extractDetails('', parseHtml(html));
+
+    expect(details.manufacturer).toBe('Ultimate Guard');
+    expect(details.technicalDetails.Material).toBe('Polypropylene (acid-free)');
+  });
+});
+
+describe('parseBestSellersRanks', () => {
+  it('should ignore ranks outside the Best Sellers Rank section', () => {
+    expect(parseBestSellersRanks('#1 in customer hearts')).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for video and 360-view extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMedia, parseDuration } from '../../src/lib/amazon-media.js';
+import { sampleAmazonHTML, sampleAmazonMarkdown, sampleAmazonMediaHTML } from '../fixtures/amazon-sample.js';
+
+describe('extractMedia', () => {
+  it('should extract gallery and carousel videos and the 360 view', () => {
+    expect(extractMedia('', sampleAmazonMediaHTML)).toEqual({
+      videoCount: 3,
+      videos: [
+        {
+          title: 'Katana Sleeves & Inner Sleeves',
+          thumbnailUrl: 'https://m.media-amazon.com/images/I/51VIDEO001._SX522_.jpg',
+          durationSeconds: 45,
+          source: 'gallery',
+        },
+        {
+          title: 'Shuffle test',
+          thumbnailUrl: 'https://m.media-amazon.com/images/I/51VIDEO002._SX522_.jpg',
+          durationSeconds: 30,
+          source: 'gallery',
+        },
+        {
+          title: 'Sleeving a Commander deck',
+          thumbnailUrl: 'https://m.media-amazon.com/images/I/51CREATOR1._SX300_.jpg',
+          durationSeconds: 125,
+          source: 'carousel',
+        },
+      ],
+      has360View: true,
+    });
+  });
+
+  it('should count labeled videos from the markdown', () => {
+    const media = extractMedia('![](https://m.media-amazon.com/images/I/71CZ9vJUGxL.jpg)\n\n4 VIDEOS\n\n360° View', '');
+
+    expect(media).toEqual({ videoCount: 4, videos: [], has360View: true });
+  });
+
+  it('should report no media for pages without videos', () => {
+    expect(extractMedia(sampleAmazonMarkdown, sampleAmazonHTML)).toEqual({ videoCount: 0, videos: [], has360View: false });
+  });
+});
+
+describe('parseDuration', () => {
+  it('should parse minutes and hours', () => {
+    expect(parseDuration('0:45')).toBe(45);
+    expect(parseDuration('1:02:03')).toBe(3723);
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for buybox, coupon and deal extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractPricing } from '../../src/lib/amazon-pricing.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import { compileFieldRules } from '../../src/lib/extraction-rules.js';
+import { getMarketplace } from '../../src/lib/marketplaces.js';
+import { sampleAmazonDealHTML, sampleAmazonHTML, sampleAmazonMarkdown } from '../fixtures/amazon-sample.js';
+
+const us = getMarketplace('US');
+
+describe('extractPricing', () => {
+  it('should extract the buybox offer from the HTML', () => {
+    expect(extractPricing('', parseHtml(sampleAmazonDealHTML), us)).toEqual({
+      buyboxPrice: 19.99,
+      listPrice: 24.99,
+      savingsPercent: 20,
+      coupon: { kind: 'percent', value: 15 },
+      lightningDeal: false,
+      limitedTimeDeal: true,
+      subscribeAndSavePrice: 18.99,
+    });
+  });
+
+  it('should return empty pricing for pages without offer details', () => {
+    expect(extractPricing(sampleAmazonMarkdown, parseHtml(sampleAmazonHTML), us)).toEqual({
+      buyboxPrice: null,
+      listPrice: null,
+      savingsPercent: null,
+      coupon: null,
+      lightningDeal: false,
+      limitedTimeDeal: false,
+      subscribeAndSavePrice: null,
+    });
+  });
+
+  it('should read offer details from the markdown', () => {
+    const markdown = [
+      'Lightning Deal',
+      'List Price: ~~$29.99~~',
+      'Save $3.00 with coupon',
+      'Subscribe & Save: Save 5% now and up to 15% on repeat deliveries $22.79',
+    ].join('\n');
+
+    const pricing = extractPricing(markdown, parseHtml('<html></html>'), us);
+
+    expect(pricing.listPrice).toBe(29.99);
+    expect(pricing.coupon).toEqual({ kind: 'amount', value: 3 });
+    expect(pricing.lightningDeal).toBe(true);
+    expect(pricing.subscribeAndSavePrice).toBe(22.79);
+  });
+
+  it('should find the buybox amount anywhere inside the price element', () => {
+    const html = `<div id="ppd">
+      <span class="a-price priceToPay" data-a-size="xl">
+        <span aria-hidden="true"><span class="a-price-symbol">$</span>19<span class="a-price-fraction">99</span></span>
+        <span class="a-offscreen a-text-normal">$19.99</span>
+      </span>
+    </div>`;
+
+    expect(extractPricing('', parseHtml(html), us).buyboxPrice).toBe(19.99);
+  });
+
+  it('should compute savings from the list and buybox prices', () => {
+    const html = sampleAmazonDealHTML.replace(/<span[^>]*savingsPercentage[^>]*>-20%<\/span>/, '');
+
+    expect(extractPricing('', parseHtml(html), us).savingsPercent).toBe(20);
+  });
+
+  it('should read amounts in the marketplace currency', () => {
+    const html = `<div id="corePriceDisplay_desktop_feature_div">
+      <span class="a-price priceToPay"><span class="a-offscreen">16,99&nbsp;€</span></span>
+      <span class="a-price a-text-price" data-a-strike="true"><span class="a-offscreen">21,99&nbsp;€</span></span>
+    </div>`;
+
+    const pricing = extractPricing('', parseHtml(html), getMarketplace('DE'));
+
+    expect(pricing.buyboxPrice).toBe(16.99);
+    expect(pricing.listPrice).toBe(21.99);
+    expect(pricing.savingsPercent).toBe(23);
+  });
+
+  it('should read pricing with overridden selectors and patterns', () => {
+    const html = '<div id="new-buybox"><span class="amount">$17.49</span></div>';
+    const markdown = 'Clip 10% off coupon';
+    const rules = compileFieldRules({
+      version: 'pricing-fix',
+      rules: {
+        selectors: { buyboxPrice: ['#new-buybox .amount'] },
+        pricing: { couponPercent: ['Clip\\s+(\\d{1,2})%\\s+off\\s+coupon'] },
+      },
+    }, us);
+
+    expect(extractPricing(markdown, parseHtml(html), us).buyboxPrice).toBeNull();
+    expect(extractPricing(markdown, parseHtml(html), us).coupon).toBeNull();
+
+    const pricing = extractPricing(markdown, parseHtml(html), us, rules);
+    expect(pricing.buyboxPrice).toBe(17.49);
+    expect(pricing.coupon).toEqual({ kind: 'percent', value: 10 });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for star histogram, review snippet and "Customers say" extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractReviews, parseStarHistogram } from '../../src/lib/amazon-reviews.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import { getMarketplace } from '../../src/lib/marketplaces.js';
+import { sampleAmazonHTML, sampleAmazonMarkdown, sampleAmazonReviewsHTML } from '../fixtures/amazon-sample.js';
+
+const us = getMarketplace('US');
+
+describe('extractReviews', () => {
+  it('should extract the histogram, review snippets and summary from the HTML', () => {
+    expect(extractReviews('', parseHtml(sampleAmazonReviewsHTML), us)).toEqual({
+      starHistogram: { 5: 72, 4: 15, 3: 5, 2: 2, 1: 6 },
+      topPositive: [{
+        title: 'Perfect fit for my Commander deck',
+        text: 'Great shuffle feel, no clumping after months.',
+        rating: 5,
+      }],
+      topCritical: [{
+        title: 'Split after a week',
+        text: 'Several sleeves split at the seam. Would not buy again.',
+        rating: 1,
+      }],
+      customersSay: 'Customers like the fit and shuffle feel of the sleeves. Some mention that sleeves split at the seams after heavy play.',
+    });
+  });
+
+  it('should fall back to the markdown for the histogram and summary', () => {
+    const markdown = `
+## Customer reviews
+
+| 5 star | 72% |
+| 4 star | 15% |
+| 3 star | 5% |
+| 2 star | 2% |
+| 1 star | 6% |
+
+### Customers say
+
+Customers like the fit and shuffle feel of the sleeves, but some report splitting.
+`;
+
+    const reviews = extractReviews(markdown, parseHtml(''), us);
+
+    expect(reviews.starHistogram).toEqual({ 5: 72, 4: 15, 3: 5, 2: 2, 1: 6 });
+    expect(reviews.customersSay).toBe('Customers like the fit and shuffle feel of the sleeves, but some report splitting.');
+    expect(reviews.topCritical).toEqual([]);
+  });
+
+  it('should return empty reviews for pages without them', () => {
+    expect(extractReviews(sampleAmazonMarkdown, parseHtml(sampleAmazonHTML), us)).toEqual({
+      starHistogram: null,
+      topPositive: [],
+      topCritical: [],
+      customersSay: null,
+    });
+  });
+
+  it('should read each review block up to its own closing tag', () => {
+    const html = `
+      <div data-hook="review">
+        <a data-hook="review-title"><span>Great sleeves</span></a>
+        <i data-hook="review-star-rating"><span class="a-icon-alt">5.0 out of 5 stars</span></i>
+        <div data-hook="review-body"><div><div>Fits well.</div></div> Shuffles great.</div>
+      </div>
+      <div id="other-reviews"><p>Read reviews that mention: sleeves 1.0 out of 5 stars</p></div>`;
+
+    expect(extractReviews('', parseHtml(html), us).topPositive).toEqual([
+      { title: 'Great sleeves', text: 'Fits well. Shuffles great.', rating: 5 },
+    ]);
+  });
+
+  it('should truncate long review text', () => {
+    const html = sampleAmazonReviewsHTML.replace('Several sleeves split at the seam.', 'x'.repeat(400));
+
+    expect(extractReviews('', parseHtml(html), us).topCritical[0].text).toHaveLength(300);
+  });
+});
+
+describe('parseStarHistogram', () => {
+  it('should read localized star labels', () => {
+    const text = '5 Sterne 70 %\n4 Sterne 20 %\n3 Sterne 5 %\n2 Sterne 2 %\n1 Sterne 3 %';
+
+    expect(parseStarHistogram(text, getMarketplace('DE'))).toEqual({ 5: 70, 4: 20, 3: 5, 2: 2, 1: 3 });
+  });
+
+  it('should require all five stars', () => {
+    expect(parseStarHistogram('5 star 72%\n4 star 15%', us)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for variation (twister) extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractVariations } from '../../src/lib/amazon-variations.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import { getMarketplace } from '../../src/lib/marketplaces.js';
+import { sampleAmazonHTML, sampleAmazonVariationsHTML } from '../fixtures/amazon-sample.js';
+
+const us = getMarketplace('US');
+
+describe('extractVariations', () => {
+  it('should extract the variation matrix with swatch prices and availability', () => {
+    expect(extractVariations(parseHtml(sampleAmazonVariationsHTML), us)).toEqual({
+      parentAsin: 'B0PARENT01',
+      dimensions: ['Color', 'Size'],
+      children: [
+        { asin: 'B0CHILDBLK', values: { Color: 'Black', Size: 'Standard' }, price: 6.49, available: true },
+        { asin: 'B0CHILDBLU', values: { Color: 'Blue', Size: 'Standard' }, price: 7.99, available: true },
+        { asin: 'B0CHILDRED', values: { Color: 'Red', Size: 'Standard' }, price: null, available: false },
+      ],
+    });
+  });
+
+  it('should leave price and availability unknown without swatches', () => {
+    const html = sampleAmazonVariationsHTML.replace(/<form id="twister"[\s\S]*?<\/form>/, '');
+
+    const children = extractVariations(parseHtml(html), us)?.children;
+
+    expect(children).toHaveLength(3);
+    expect(children?.[0]).toEqual({ asin: 'B0CHILDBLK', values: { Color: 'Black', Size: 'Standard' }, price: null, available: null });
+  });
+
+  it('should fall back to twister swatches without display data', () => {
+    const html = sampleAmazonVariationsHTML.replace(/"dimensionValuesDisplayData"[^\n]*\n/, '');
+
+    const children = extractVariations(parseHtml(html), us)?.children;
+
+    expect(children?.map(child => child.asin)).toEqual(['B0CHILDBLK', 'B0CHILDBLU', 'B0CHILDRED']);
+    expect(children?.[1]).toEqual({ asin: 'B0CHILDBLU', values: {}, price: 7.99, available: true });
+  });
+
+  it('should only read swatches inside a twister without a form', () => {
+    const html = sampleAmazonVariationsHTML
+      .replace(/"dimensionValuesDisplayData"[^\n]*\n/, '')
+      .replace('<form id="twister" method="get">', '<div id="twister_feature_div">')
+      .replace('</form>', '</div>');
+
+    const children = extractVariations(parseHtml(html), us)?.children;
+
+    expect(children?.map(child => child.asin)).toEqual(['B0CHILDBLK', 'B0CHILDBLU', 'B0CHILDRED']);
+  });
+
+  it('should return null for listings without variations', () => {
+    expect(extractVariations(parseHtml(sampleAmazonHTML), us)).toBeNull();
+  });
+});
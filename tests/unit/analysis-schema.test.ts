@@ -0,0 +1,69 @@
+/**
+ * Unit tests for structured analysis output validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAnalysisOutput, validateAnalysisOutput } from '../../src/lib/analysis-schema.js';
+
+const validOutput = {
+  summary: 'Summary',
+  amazonAIPerception: 'Perception',
+  targetAudience: 'Audience',
+  competitiveInsights: ['Insight'],
+  recommendations: ['Recommendation'],
+  imageQualityAnalysis: 'Images',
+  groupAnalyses: [],
+};
+
+describe('parseAnalysisOutput', () => {
+  it('should accept valid JSON output', () => {
+    const result = parseAnalysisOutput(JSON.stringify(validOutput));
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept JSON wrapped in a code fence', () => {
+    const result = parseAnalysisOutput('```json\n' + JSON.stringify(validOutput) + '\n```');
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject non-JSON output', () => {
+    const result = parseAnalysisOutput('## Summary\nMarkdown');
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors[0]).toContain('not valid JSON');
+    }
+  });
+});
+
+describe('validateAnalysisOutput', () => {
+  it('should report every invalid field', () => {
+    const result = validateAnalysisOutput({ ...validOutput, summary: '', recommendations: 'text' });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toContain('summary');
+      expect(result.errors[1]).toContain('recommendations');
+    }
+  });
+
+  it('should reject non-object values', () => {
+    expect(validateAnalysisOutput([]).valid).toBe(false);
+    expect(validateAnalysisOutput(null).valid).toBe(false);
+  });
+
+  it('should report missing group analyses', () => {
+    const result = validateAnalysisOutput(
+      { ...validOutput, groupAnalyses: [{ group: 'Binders', analysis: 'Text' }] },
+      ['Binders', 'Sleeves']
+    );
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual(['"groupAnalyses" is missing groups: Sleeves']);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for change detection node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectListingChanges } from '../../src/nodes/changeDetection.js';
+import { saveSnapshots } from '../../src/lib/snapshot-store.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+describe('detectListingChanges', () => {
+  let snapshotDir: string;
+
+  beforeEach(() => {
+    snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'changes-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+  });
+
+  it('should diff listings against the previous run', async () => {
+    saveSnapshots(snapshotDir, '2024-01-01', new Map([
+      ['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 10 })],
+      ['US:B0TEST2', makeListing({ asin: 'B0TEST2', price: 20 })],
+    ]));
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3'],
+      runDate: '2024-02-01',
+      scrapedListings: new Map([
+        ['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 12 })],
+        ['US:B0TEST2', makeListing({ asin: 'B0TEST2', price: 20 })],
+        ['US:B0TEST3', makeListing({ asin: 'B0TEST3', price: 30 })],
+      ]),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const result = await detectListingChanges(state, snapshotDir);
+
+    expect(result.listingChanges?.size).toBe(2);
+    expect(result.listingChanges?.get('US:B0TEST1')?.hasChanges).toBe(true);
+    expect(result.listingChanges?.get('US:B0TEST1')?.price?.delta).toBe(2);
+    expect(result.listingChanges?.get('US:B0TEST2')?.hasChanges).toBe(false);
+    expect(result.listingChanges?.has('US:B0TEST3')).toBe(false);
+  });
+
+  it('should ignore snapshots from the current run date', async () => {
+    saveSnapshots(snapshotDir, '2024-02-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 10 })]]));
+
+    const state = {
+      asins: ['US:B0TEST1'],
+      runDate: '2024-02-01',
+      scrapedListings: new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 12 })]]),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const result = await detectListingChanges(state, snapshotDir);
+
+    expect(result.listingChanges?.size).toBe(0);
+  });
+});
@@ -4,46 +4,71 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { analyzeWithGPT } from '../../src/nodes/chatgpt.js';
+import { createCostLedger } from '../../src/lib/cost-ledger.js';
+import { ParsedAmazonProduct } from '../../src/lib/firecrawl-amazon.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+const { mockInvoke } = vi.hoisted(() => ({ mockInvoke: vi.fn() }));
 
 // Mock LangChain
 vi.mock('@langchain/openai', () => ({
   ChatOpenAI: vi.fn(() => ({
-    invoke: vi.fn(),
+    invoke: mockInvoke,
   })),
 }));
 
+const productListing = (asin: string, overrides: Partial<ParsedAmazonProduct> = {}) => makeListing({
+  asin,
+  title: `Product ${asin}`,
+  bullets: ['Feature 1'],
+  description: 'Test description',
+  ...overrides,
+});
+
+const validOutput = {
+  summary: 'This is a test summary of the competitive analysis.',
+  amazonAIPerception: 'Rekognition detects binders and trading cards.',
+  targetAudience: 'Trading card collectors aged 10-40.',
+  competitiveInsights: [
+    'Products are competitively priced',
+    'High review counts indicate market saturation',
+    'Images vary in quality',
+  ],
+  recommendations: [
+    'Optimize product titles',
+    'Improve image quality',
+    'Update bullet points',
+  ],
+  imageQualityAnalysis: 'Overall image quality is moderate with room for improvement.',
+  groupAnalyses: [],
+};
+
+const llmConfig = {
+  provider: 'openai' as const,
+  model: 'gpt-4o',
+  temperature: 0.7,
+  apiKey: 'test-api-key',
+};
+
+const emptyState = () => ({
+  asins: [],
+  scrapedListings: new Map(),
+  imageAnalysis: new Map(),
+  errors: [],
+});
+
 describe('analyzeWithGPT', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   it('should analyze listings and return structured report', async () => {
-    const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockResolvedValue({
-      content: `
-## Summary
-This is a test summary of the competitive analysis.
-
-## Competitive Insights
-- Insight 1: Products are competitively priced
-- Insight 2: High review counts indicate market saturation
-- Insight 3: Images vary in quality
-
-## Recommendations
-- Recommendation 1: Optimize product titles
-- Recommendation 2: Improve image quality
-- Recommendation 3: Update bullet points
-
-## Image Quality Analysis
-Overall image quality is moderate with room for improvement.
-      `,
-    });
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test Product',
           price: 10.99,
@@ -56,7 +81,7 @@ Overall image quality is moderate with room for improvement.
         }],
       ]),
       imageAnalysis: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           images: [{
             url: 'https://example.com/image.jpg',
@@ -70,122 +95,658 @@ Overall image quality is moderate with room for improvement.
       errors: [],
     };
 
-    const result = await analyzeWithGPT(state, 'test-api-key');
+    const result = await analyzeWithGPT(state, llmConfig);
 
     expect(result.gptAnalysis).toBeDefined();
     expect(result.gptAnalysis?.summary).toContain('competitive analysis');
-    expect(result.gptAnalysis?.competitiveInsights.length).toBeGreaterThan(0);
-    expect(result.gptAnalysis?.recommendations.length).toBeGreaterThan(0);
+    expect(result.gptAnalysis?.amazonAIPerception).toContain('binders');
+    expect(result.gptAnalysis?.targetAudience).toContain('collectors');
+    expect(result.gptAnalysis?.competitiveInsights).toEqual(validOutput.competitiveInsights);
+    expect(result.gptAnalysis?.recommendations).toEqual(validOutput.recommendations);
+  });
+
+  it('should request a strict JSON schema response format', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+    await analyzeWithGPT(emptyState(), llmConfig);
+
+    const options = mockInvoke.mock.calls[0][1];
+    expect(options.response_format.type).toBe('json_schema');
+    expect(options.response_format.json_schema.strict).toBe(true);
+    expect(options.response_format.json_schema.schema.required).toContain('competitiveInsights');
+  });
+
+  it('should record the raw response for debugging', async () => {
+    const raw = JSON.stringify(validOutput);
+    mockInvoke.mockResolvedValue({ content: raw });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(result.gptAnalysis?.rawResponse).toBe(raw);
+  });
+
+  it('should retry with a repair prompt when validation fails', async () => {
+    mockInvoke
+      .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, recommendations: [] }) })
+      .mockResolvedValueOnce({ content: JSON.stringify(validOutput) });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(2);
+    const repairMessages = mockInvoke.mock.calls[1][0];
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[2].content).toContain('"recommendations" must be a non-empty array');
+    expect(result.gptAnalysis?.recommendations).toEqual(validOutput.recommendations);
+  });
+
+  it('should retry when the response is not valid JSON', async () => {
+    mockInvoke
+      .mockResolvedValueOnce({ content: '## Summary\nNot JSON' })
+      .mockResolvedValueOnce({ content: JSON.stringify(validOutput) });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(2);
+    expect(result.gptAnalysis).toBeDefined();
+  });
+
+  it('should record an error after repeated validation failures', async () => {
+    mockInvoke.mockResolvedValue({ content: '{"summary": "incomplete"}' });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(3);
+    expect(result.gptAnalysis).toBeUndefined();
+    expect(result.errors?.[0].step).toBe('chatgpt');
+    expect(result.errors?.[0].message).toContain('failed validation after 3 attempts');
+    expect(result.errors?.[0].message).toContain('incomplete');
+  });
+
+  it('should require an analysis for every competitor group', async () => {
+    mockInvoke
+      .mockResolvedValueOnce({ content: JSON.stringify(validOutput) })
+      .mockResolvedValueOnce({
+        content: JSON.stringify({
+          ...validOutput,
+          groupAnalyses: [{ group: 'Binders', analysis: 'We are priced above competitors.' }],
+        }),
+      });
+
+    const state = {
+      ...emptyState(),
+      groups: [{ name: 'Binders', ownAsins: ['US:B0OWN00001'], competitorAsins: ['US:B0COMP0001'] }],
+    };
+
+    const result = await analyzeWithGPT(state, llmConfig);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(2);
+    expect(result.gptAnalysis?.groupComparisons?.[0].group).toBe('Binders');
+    expect(result.gptAnalysis?.groupComparisons?.[0].analysis).toBe('We are priced above competitors.');
+  });
+
+  it('should handle GPT API errors', async () => {
+    mockInvoke.mockRejectedValue(new Error('API rate limit exceeded'));
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(result.gptAnalysis).toBeUndefined();
+    expect(result.errors?.length).toBeGreaterThan(0);
+    expect(result.errors?.[0].step).toBe('chatgpt');
+  });
+
+  it('should include timestamp in generated report', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(result.gptAnalysis?.generatedAt).toBeDefined();
+    expect(new Date(result.gptAnalysis!.generatedAt).getTime()).toBeGreaterThan(0);
+  });
+
+  it('should record token usage of every attempt in the cost ledger', async () => {
+    const usage_metadata = { input_tokens: 1000, output_tokens: 200, total_tokens: 1200 };
+    mockInvoke
+      .mockResolvedValueOnce({ content: '{"summary": "incomplete"}', usage_metadata })
+      .mockResolvedValueOnce({ content: JSON.stringify(validOutput), usage_metadata });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(result.costs?.llm).toEqual({ requests: 2, promptTokens: 2000, completionTokens: 400 });
+  });
+
+  it('should keep token usage when the analysis fails', async () => {
+    mockInvoke.mockResolvedValue({
+      content: '{"summary": "incomplete"}',
+      usage_metadata: { input_tokens: 500, output_tokens: 50, total_tokens: 550 },
+    });
+
+    const result = await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(result.gptAnalysis).toBeUndefined();
+    expect(result.costs?.llm).toEqual({ requests: 3, promptTokens: 1500, completionTokens: 150 });
   });
 
-  it('should extract insights as list items', async () => {
+  it('should use GPT-4 model', async () => {
     const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockResolvedValue({
-      content: `
-## Competitive Insights
-- First insight here
-- Second insight here
-- Third insight here
-      `,
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+    await analyzeWithGPT(emptyState(), llmConfig);
+
+    expect(ChatOpenAI).toHaveBeenCalledWith(
+      expect.objectContaining({
+        modelName: 'gpt-4o',
+        openAIApiKey: 'test-api-key',
+      })
+    );
+  });
+
+  describe('per-ASIN mode', () => {
+    const perAsinState = () => ({
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
+      scrapedListings: new Map([
+        ['US:B0TEST1', productListing('B0TEST1')],
+        ['US:B0TEST2', productListing('B0TEST2')],
+      ]),
+      imageAnalysis: new Map(),
+      errors: [],
+    });
+
+    it('should produce a report per listing followed by a roll-up', async () => {
+      mockInvoke
+        .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, summary: 'Listing one summary' }) })
+        .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, summary: 'Listing two summary' }) })
+        .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, summary: 'Portfolio roll-up' }) });
+
+      const result = await analyzeWithGPT(perAsinState(), llmConfig, { mode: 'perAsin' });
+
+      expect(mockInvoke).toHaveBeenCalledTimes(3);
+      expect(result.listingAnalyses?.size).toBe(2);
+      expect(result.listingAnalyses?.get('US:B0TEST1')?.summary).toBe('Listing one summary');
+      expect(result.listingAnalyses?.get('US:B0TEST2')?.summary).toBe('Listing two summary');
+      expect(result.gptAnalysis?.summary).toBe('Portfolio roll-up');
+
+      const rollupPrompt = mockInvoke.mock.calls[2][0][0].content;
+      expect(rollupPrompt).toContain('Partial Analyses');
+      expect(rollupPrompt).toContain('Listing two summary');
+    });
+
+    it('should only include one listing in each per-ASIN prompt', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      await analyzeWithGPT(perAsinState(), llmConfig, { mode: 'perAsin' });
+
+      const firstPrompt = mockInvoke.mock.calls[0][0][0].content;
+      expect(firstPrompt).toContain('B0TEST1');
+      expect(firstPrompt).not.toContain('B0TEST2');
+    });
+
+    it('should record per-listing failures and roll up the rest', async () => {
+      mockInvoke
+        .mockRejectedValueOnce(new Error('Timeout'))
+        .mockResolvedValueOnce({ content: JSON.stringify(validOutput) })
+        .mockResolvedValueOnce({ content: JSON.stringify(validOutput) });
+
+      const result = await analyzeWithGPT(perAsinState(), llmConfig, { mode: 'perAsin' });
+
+      expect(result.listingAnalyses?.size).toBe(1);
+      expect(result.gptAnalysis).toBeDefined();
+      expect(result.errors).toEqual([{ step: 'chatgpt', asin: 'US:B0TEST1', message: 'Timeout' }]);
+    });
+
+    it('should keep the per-listing reports and merge them when the roll-up fails', async () => {
+      mockInvoke
+        .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, summary: 'Listing one summary' }) })
+        .mockResolvedValueOnce({ content: JSON.stringify({ ...validOutput, summary: 'Listing two summary' }) })
+        .mockRejectedValueOnce(new Error('Service unavailable'));
+
+      const result = await analyzeWithGPT(perAsinState(), llmConfig, { mode: 'perAsin' });
+
+      expect(result.listingAnalyses?.size).toBe(2);
+      expect(result.gptAnalysis?.summary).toBe('US:B0TEST1: Listing one summary\nUS:B0TEST2: Listing two summary');
+      expect(result.errors).toEqual([{
+        step: 'chatgpt',
+        message: 'Roll-up failed: Service unavailable; the report merges 2 partial analyses',
+      }]);
+    });
+
+    it('should not produce per-listing reports in portfolio mode', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      const result = await analyzeWithGPT(perAsinState(), llmConfig);
+
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+      expect(result.listingAnalyses).toBeUndefined();
+    });
+  });
+
+  describe('token budgeting', () => {
+    const makeLongListing = (asin: string) => productListing(asin, {
+      bullets: Array.from({ length: 5 }, (_, i) => `Long benefit-driven bullet number ${i} describing the product in detail`),
+      description: 'A detailed product description. '.repeat(150),
+    });
+
+    const largeState = () => ({
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3', 'US:B0TEST4'],
+      scrapedListings: new Map(['B0TEST1', 'B0TEST2', 'B0TEST3', 'B0TEST4'].map(asin => [`US:${asin}`, makeLongListing(asin)])),
+      imageAnalysis: new Map(),
+      errors: [],
+    });
+
+    // Too small for all four listings in one prompt
+    const smallContextConfig = { ...llmConfig, model: 'local-model', contextWindow: 4000, maxTokens: 1000 };
+
+    it('should send one request when the prompt fits the budget', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      await analyzeWithGPT(largeState(), llmConfig);
+
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+    });
+
+    it('should chunk listings and reduce when the prompt exceeds the budget', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      const result = await analyzeWithGPT(largeState(), smallContextConfig);
+
+      const prompts: string[] = mockInvoke.mock.calls.map(call => call[0][0].content);
+      const chunkPrompts = prompts.filter(prompt => prompt.includes('# Product Listings Data'));
+      const rollupPrompts = prompts.filter(prompt => prompt.includes('# Partial Analyses'));
+
+      expect(chunkPrompts.length).toBeGreaterThan(1);
+      expect(rollupPrompts).toHaveLength(1);
+      expect(rollupPrompts[0]).toContain('B0TEST4');
+      ['B0TEST1', 'B0TEST2', 'B0TEST3', 'B0TEST4'].forEach(asin => {
+        expect(chunkPrompts.filter(prompt => prompt.includes(`"asin": "${asin}"`))).toHaveLength(1);
+      });
+      expect(result.gptAnalysis).toBeDefined();
+    });
+
+    it('should record failed chunks and still reduce the rest', async () => {
+      mockInvoke
+        .mockRejectedValueOnce(new Error('Context length exceeded'))
+        .mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      const result = await analyzeWithGPT(largeState(), smallContextConfig);
+
+      expect(result.gptAnalysis).toBeDefined();
+      expect(result.errors?.[0].message).toMatch(/^Chunk 1\/\d+ \(US:B0TEST1.*\) failed: Context length exceeded/);
+    });
+  });
+
+  describe('budget caps', () => {
+    const budgetState = (maxLLMTokens: number) => ({
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3'],
+      scrapedListings: new Map(['B0TEST1', 'B0TEST2', 'B0TEST3'].map(asin => [`US:${asin}`, productListing(asin)])),
+      imageAnalysis: new Map(),
+      costs: createCostLedger(undefined, { maxLLMTokens }),
+      errors: [],
+    });
+
+    it('should skip the analysis when the prompt does not fit the token cap', async () => {
+      const result = await analyzeWithGPT(budgetState(100), llmConfig);
+
+      expect(mockInvoke).not.toHaveBeenCalled();
+      expect(result.gptAnalysis).toBeUndefined();
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors?.[0]).toMatchObject({ step: 'chatgpt', category: 'budget' });
+      expect(result.errors?.[0].message).toMatch(/^LLM token cap reached .*, skipped AI analysis$/);
+    });
+
+    it('should keep finished per-ASIN reports and merge them when the cap is hit', async () => {
+      mockInvoke.mockResolvedValue({
+        content: JSON.stringify(validOutput),
+        usage_metadata: { input_tokens: 5000, output_tokens: 0, total_tokens: 5000 },
+      });
+
+      const result = await analyzeWithGPT(budgetState(5500), llmConfig, { mode: 'perAsin' });
+
+      expect(mockInvoke).toHaveBeenCalledTimes(1);
+      expect(result.listingAnalyses?.size).toBe(1);
+      expect(result.gptAnalysis?.summary).toBe(`US:B0TEST1: ${validOutput.summary}`);
+      expect(result.gptAnalysis?.recommendations).toEqual(validOutput.recommendations);
+
+      const budgetErrors = result.errors?.filter(e => e.category === 'budget') || [];
+      expect(budgetErrors).toHaveLength(2);
+      expect(budgetErrors[0].message).toContain('skipped AI analysis of US:B0TEST2, US:B0TEST3');
+      expect(budgetErrors[1].message).toContain('skipped the roll-up; the report merges 1 partial analyses');
     });
+  });
+
+  describe('parse confidence', () => {
+    const makeScoredListing = (asin: string, confidence?: number) => productListing(asin, confidence === undefined ? {} : {
+      confidence,
+      completeness: 0.57,
+      provenance: {
+        title: 'first_long_line',
+        price: 'missing',
+        rating: 'stars_text',
+        reviewCount: 'ratings_count',
+        bullets: 'feature_bullets',
+        description: 'missing',
+        images: 'missing',
+      },
+    });
+
+    const confidenceState = () => ({
+      asins: ['US:B0GOOD', 'US:B0SHAKY', 'US:B0OLD'],
+      scrapedListings: new Map([
+        ['US:B0GOOD', makeScoredListing('B0GOOD', 0.9)],
+        ['US:B0SHAKY', makeScoredListing('B0SHAKY', 0.42)],
+        // Parsed before confidence was recorded
+        ['US:B0OLD', makeScoredListing('B0OLD')],
+      ]),
+      imageAnalysis: new Map(),
+      errors: [],
+    });
+
+    it('should caveat low-confidence listings in the prompt by default', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      await analyzeWithGPT(confidenceState(), llmConfig, { minConfidence: 0.6 });
+
+      const prompt = mockInvoke.mock.calls[0][0][0].content;
+      expect(prompt).toContain('B0SHAKY');
+      expect(prompt).toContain('"parseWarning": "Unreliable extraction (confidence 0.42: title guessed from the first long line, price not found');
+      expect(prompt).toContain('Do not base recommendations on those fields');
+      expect(prompt.match(/"parseWarning": /g)).toHaveLength(1);
+    });
+
+    it('should exclude low-confidence listings when configured', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      await analyzeWithGPT(confidenceState(), llmConfig, { minConfidence: 0.6, lowConfidence: 'exclude' });
+
+      const prompt = mockInvoke.mock.calls[0][0][0].content;
+      expect(prompt).not.toContain('B0SHAKY');
+      expect(prompt).toContain('B0GOOD');
+      expect(prompt).toContain('B0OLD');
+      expect(prompt).not.toContain('parseWarning');
+    });
+
+    it('should caveat listings in per-ASIN prompts and the roll-up', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      await analyzeWithGPT(confidenceState(), llmConfig, { mode: 'perAsin', minConfidence: 0.6 });
+
+      const shakyPrompt = mockInvoke.mock.calls[1][0][0].content;
+      const rollupPrompt = mockInvoke.mock.calls[3][0][0].content;
+      expect(shakyPrompt).toContain('parseWarning');
+      expect(rollupPrompt).toContain('parseWarning');
+    });
+  });
+
+  describe('marketplaces', () => {
+    it('should pass the currency of each listing and warn about mixed currencies', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      const state = {
+        asins: ['UK:B0UK', 'DE:B0DE'],
+        scrapedListings: new Map([
+          ['UK:B0UK', productListing('B0UK', { marketplace: 'UK', currency: 'GBP' })],
+          ['DE:B0DE', productListing('B0DE', { marketplace: 'DE', currency: 'EUR' })],
+        ]),
+        imageAnalysis: new Map(),
+        errors: [],
+      };
+
+      await analyzeWithGPT(state as any, llmConfig);
+
+      const prompt = mockInvoke.mock.calls[0][0][0].content;
+      expect(prompt).toContain('"currency": "GBP"');
+      expect(prompt).toContain('"marketplace": "DE"');
+      expect(prompt).toContain('Do not compare prices across currencies');
+    });
+
+    it('should not warn when all listings share a currency', async () => {
+      mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+      const state = {
+        asins: ['DE:B0DE', 'FR:B0FR'],
+        scrapedListings: new Map([
+          ['DE:B0DE', productListing('B0DE', { marketplace: 'DE', currency: 'EUR' })],
+          ['FR:B0FR', productListing('B0FR', { marketplace: 'FR', currency: 'EUR' })],
+        ]),
+        imageAnalysis: new Map(),
+        errors: [],
+      };
+
+      await analyzeWithGPT(state as any, llmConfig);
+
+      expect(mockInvoke.mock.calls[0][0][0].content).not.toContain('Do not compare prices across currencies');
+    });
+  });
+
+  it('should pass offer details without empty fields', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
+
+    const state = {
+      asins: ['US:B0DEAL'],
+      scrapedListings: new Map([
+        ['US:B0DEAL', {
+          asin: 'B0DEAL',
+          title: 'Deal Product',
+          price: 19.99,
+          pricing: {
+            buyboxPrice: 19.99,
+            listPrice: 24.99,
+            savingsPercent: 20,
+            coupon: { kind: 'percent', value: 15 },
+            lightningDeal: false,
+            limitedTimeDeal: true,
+            subscribeAndSavePrice: null,
+          },
+          rating: 4.5,
+          reviewCount: 100,
+          bullets: [],
+          description: '',
+          images: [],
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    await analyzeWithGPT(state as any, llmConfig);
+
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"listPrice": 24.99');
+    expect(prompt).toContain('"limitedTimeDeal": true');
+    expect(prompt).not.toContain('lightningDeal');
+    expect(prompt).not.toContain('subscribeAndSavePrice');
+  });
+
+  it('should pass Best Sellers Rank and product details without empty fields', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: [],
-      scrapedListings: new Map(),
+      asins: ['US:B0RANK'],
+      scrapedListings: new Map([
+        ['US:B0RANK', {
+          asin: 'B0RANK',
+          title: 'Ranked Product',
+          price: 9.99,
+          details: {
+            bestSellersRanks: [{ rank: 5, category: 'Trading Card Sleeves' }],
+            categoryPath: [],
+            brand: 'Ultimate Guard',
+            manufacturer: null,
+            dateFirstAvailable: '2021-03-03',
+            dimensions: null,
+            weight: null,
+            technicalDetails: {},
+          },
+          rating: 4.5,
+          reviewCount: 100,
+          bullets: [],
+          description: '',
+          images: [],
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
       imageAnalysis: new Map(),
       errors: [],
     };
 
-    const result = await analyzeWithGPT(state, 'test-api-key');
+    await analyzeWithGPT(state as any, llmConfig);
 
-    expect(result.gptAnalysis?.competitiveInsights).toHaveLength(3);
-    expect(result.gptAnalysis?.competitiveInsights[0]).toBe('First insight here');
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"category": "Trading Card Sleeves"');
+    expect(prompt).toContain('"dateFirstAvailable": "2021-03-03"');
+    expect(prompt).not.toContain('categoryPath');
+    expect(prompt).not.toContain('technicalDetails');
   });
 
-  it('should extract recommendations as list items', async () => {
-    const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockResolvedValue({
-      content: `
-## Recommendations
-1. First recommendation
-2. Second recommendation
-3. Third recommendation
-      `,
-    });
+  it('should summarize the variation family of each listing', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: [],
-      scrapedListings: new Map(),
+      asins: ['US:B0CHILDBLU'],
+      scrapedListings: new Map([
+        ['US:B0CHILDBLU', {
+          asin: 'B0CHILDBLU',
+          title: 'Blue Sleeves',
+          price: 7.99,
+          variations: {
+            parentAsin: 'B0PARENT01',
+            dimensions: ['Color'],
+            children: [
+              { asin: 'B0CHILDBLK', values: { Color: 'Black' }, price: 6.49, available: true },
+              { asin: 'B0CHILDBLU', values: { Color: 'Blue' }, price: 7.99, available: true },
+              { asin: 'B0CHILDRED', values: { Color: 'Red' }, price: null, available: false },
+            ],
+          },
+          rating: 4.5,
+          reviewCount: 100,
+          bullets: [],
+          description: '',
+          images: [],
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
       imageAnalysis: new Map(),
       errors: [],
     };
 
-    const result = await analyzeWithGPT(state, 'test-api-key');
+    await analyzeWithGPT(state as any, llmConfig);
 
-    expect(result.gptAnalysis?.recommendations).toHaveLength(3);
-    expect(result.gptAnalysis?.recommendations[0]).toBe('First recommendation');
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"parentAsin": "B0PARENT01"');
+    expect(prompt).toContain('"childCount": 3');
+    expect(prompt).toContain('"unavailableCount": 1');
+    expect(prompt).toMatch(/"priceRange": \[\s*6.49,\s*7.99\s*\]/);
+    expect(prompt).not.toContain('B0CHILDBLK');
   });
 
-  it('should handle GPT API errors', async () => {
-    const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockRejectedValue(new Error('API rate limit exceeded'));
+  it('should pass customer feedback without empty fields', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: [],
-      scrapedListings: new Map(),
+      asins: ['US:B0REVIEWS'],
+      scrapedListings: new Map([
+        ['US:B0REVIEWS', {
+          asin: 'B0REVIEWS',
+          title: 'Reviewed Product',
+          price: 9.99,
+          rating: 4.5,
+          reviewCount: 100,
+          reviews: {
+            starHistogram: { 5: 72, 4: 15, 3: 5, 2: 2, 1: 6 },
+            topPositive: [],
+            topCritical: [{ title: 'Split after a week', text: 'Several sleeves split at the seam.', rating: 1 }],
+            customersSay: null,
+          },
+          bullets: [],
+          description: '',
+          images: [],
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
       imageAnalysis: new Map(),
       errors: [],
     };
 
-    const result = await analyzeWithGPT(state, 'test-api-key');
+    await analyzeWithGPT(state as any, llmConfig);
 
-    expect(result.gptAnalysis).toBeUndefined();
-    expect(result.errors?.length).toBeGreaterThan(0);
-    expect(result.errors?.[0].step).toBe('chatgpt');
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"title": "Split after a week"');
+    expect(prompt).toContain('"starHistogram"');
+    expect(prompt).toContain('Complaints from critical reviews');
+    expect(prompt).not.toContain('"topPositive"');
+    expect(prompt).not.toContain('"customersSay"');
   });
 
-  it('should include timestamp in generated report', async () => {
-    const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockResolvedValue({
-      content: '## Summary\nTest',
-    });
+  it('should pass A+ content and Q&A without empty fields', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: [],
-      scrapedListings: new Map(),
+      asins: ['US:B0APLUS'],
+      scrapedListings: new Map([
+        ['US:B0APLUS', {
+          asin: 'B0APLUS',
+          title: 'A+ Product',
+          price: 9.99,
+          rating: 4.5,
+          reviewCount: 100,
+          bullets: [],
+          description: '',
+          content: {
+            aplusModules: [{ headline: 'Double-sleeve protection', body: 'Fits perfectly inside Katana inner sleeves.' }],
+            comparisonChart: null,
+            questions: [{ question: 'Do these fit Yu-Gi-Oh cards?', answer: null }],
+          },
+          images: [],
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
       imageAnalysis: new Map(),
       errors: [],
     };
 
-    const result = await analyzeWithGPT(state, 'test-api-key');
+    await analyzeWithGPT(state as any, llmConfig);
 
-    expect(result.gptAnalysis?.generatedAt).toBeDefined();
-    expect(new Date(result.gptAnalysis!.generatedAt).getTime()).toBeGreaterThan(0);
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"headline": "Double-sleeve protection"');
+    expect(prompt).toContain('"question": "Do these fit Yu-Gi-Oh cards?"');
+    expect(prompt).not.toContain('"comparisonChart"');
   });
 
-  it('should use GPT-4 model', async () => {
-    const { ChatOpenAI } = await import('@langchain/openai');
-    const mockLLM = new ChatOpenAI({} as any);
-    (mockLLM.invoke as any).mockResolvedValue({ content: 'Test' });
+  it('should pass video counts and durations without thumbnails', async () => {
+    mockInvoke.mockResolvedValue({ content: JSON.stringify(validOutput) });
 
     const state = {
-      asins: [],
-      scrapedListings: new Map(),
+      asins: ['US:B0VIDEO'],
+      scrapedListings: new Map([
+        ['US:B0VIDEO', {
+          asin: 'B0VIDEO',
+          title: 'Video Product',
+          price: 9.99,
+          rating: 4.5,
+          reviewCount: 100,
+          bullets: [],
+          description: '',
+          images: [],
+          media: {
+            videoCount: 2,
+            videos: [
+              { title: 'Shuffle test', thumbnailUrl: 'https://m.media-amazon.com/images/I/51VIDEO002.jpg', durationSeconds: 30, source: 'gallery' },
+              { title: null, thumbnailUrl: null, durationSeconds: null, source: 'carousel' },
+            ],
+            has360View: true,
+          },
+          parsedAt: '2024-01-01T00:00:00.000Z',
+        }],
+      ]),
       imageAnalysis: new Map(),
       errors: [],
     };
 
-    await analyzeWithGPT(state, 'test-api-key');
+    await analyzeWithGPT(state as any, llmConfig);
 
-    expect(ChatOpenAI).toHaveBeenCalledWith(
-      expect.objectContaining({
-        modelName: 'gpt-4o',
-        openAIApiKey: 'test-api-key',
-      })
-    );
+    const prompt = mockInvoke.mock.calls[0][0][0].content;
+    expect(prompt).toContain('"videoCount": 2');
+    expect(prompt).toMatch(/"videoDurations": \[\s*30\s*\]/);
+    expect(prompt).toContain('"has360View": true');
+    expect(prompt).not.toContain('51VIDEO002');
   });
 });
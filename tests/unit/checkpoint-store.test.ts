@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the file-backed checkpoint store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StateGraph, START, END } from '@langchain/langgraph';
+import { FileCheckpointSaver, createRunId, listRuns } from '../../src/lib/checkpoint-store.js';
+
+interface TestState {
+  scraped: Map<string, string>;
+  analyzed?: boolean;
+}
+
+describe('checkpoint store', () => {
+  let checkpointDir: string;
+
+  beforeEach(() => {
+    checkpointDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoints-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(checkpointDir, { recursive: true, force: true });
+  });
+
+  // Two-step graph: scrape (expensive) then analyze; each saver simulates a separate process
+  const buildGraph = (scrape: () => Map<string, string>, analyze: (state: TestState) => boolean) =>
+    new StateGraph<TestState>({
+      channels: {
+        scraped: { value: (left?: Map<string, string>, right?: Map<string, string>) => right ?? left ?? new Map() },
+        analyzed: { value: (left?: boolean, right?: boolean) => right ?? left },
+      },
+    })
+      .addNode('scrape', async () => ({ scraped: scrape() }))
+      .addNode('analyze', async (state: TestState) => ({ analyzed: analyze(state) }))
+      .addEdge(START, 'scrape')
+      .addEdge('scrape', 'analyze')
+      .addEdge('analyze', END)
+      .compile({ checkpointer: new FileCheckpointSaver(checkpointDir) });
+
+  it('should resume after a crash without repeating completed nodes', async () => {
+    const scrape = vi.fn(() => new Map([['B0TEST', 'Test Product']]));
+    const runConfig = { configurable: { thread_id: 'run-1' } };
+
+    const crashing = buildGraph(scrape, () => {
+      throw new Error('LLM crashed');
+    });
+    await expect(crashing.invoke({ scraped: new Map() }, runConfig)).rejects.toThrow('LLM crashed');
+
+    const seen: TestState[] = [];
+    const resumed = buildGraph(scrape, state => {
+      seen.push(state);
+      return true;
+    });
+
+    expect((await resumed.getState(runConfig)).next).toEqual(['analyze']);
+
+    const result = await resumed.invoke(null, runConfig);
+
+    expect(scrape).toHaveBeenCalledTimes(1);
+    expect(seen[0].scraped).toBeInstanceOf(Map);
+    expect(seen[0].scraped.get('B0TEST')).toBe('Test Product');
+    expect(result.analyzed).toBe(true);
+    expect((await resumed.getState(runConfig)).next).toEqual([]);
+  });
+
+  it('should keep runs separate by thread ID', async () => {
+    const graph = buildGraph(() => new Map([['B0TEST', 'x']]), () => true);
+
+    await graph.invoke({ scraped: new Map() }, { configurable: { thread_id: 'run-a' } });
+    await graph.invoke({ scraped: new Map() }, { configurable: { thread_id: 'run-b' } });
+
+    expect(listRuns(checkpointDir).map(run => run.runId).sort()).toEqual(['run-a', 'run-b']);
+
+    const fresh = buildGraph(() => new Map(), () => false);
+    expect((await fresh.getState({ configurable: { thread_id: 'run-c' } })).createdAt).toBeUndefined();
+  });
+
+  it('should reject unsafe run IDs', async () => {
+    const graph = buildGraph(() => new Map(), () => true);
+
+    await expect(graph.invoke({ scraped: new Map() }, { configurable: { thread_id: '../escape' } }))
+      .rejects.toThrow('Invalid run ID');
+  });
+
+  it('should list no runs for a missing directory', () => {
+    expect(listRuns(path.join(checkpointDir, 'missing'))).toEqual([]);
+  });
+
+  it('should create run IDs from the run date', () => {
+    const runId = createRunId(new Date('2024-02-01T10:00:00Z'));
+
+    expect(runId).toMatch(/^2024-02-01-[0-9a-f]{8}$/);
+    expect(createRunId()).not.toBe(createRunId());
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../../src/utils/config.js';
+import { loadConfig, loadReparseConfig } from '../../src/utils/config.js';
 
 describe('loadConfig', () => {
   const originalEnv = process.env;
@@ -97,4 +97,338 @@ describe('loadConfig', () => {
     expect(config.gmailPassword).toBe('');
     expect(config.driveFolderId).toBeUndefined();
   });
+
+  it('should default analysis mode to portfolio', () => {
+    delete process.env.ANALYSIS_MODE;
+
+    const config = loadConfig();
+
+    expect(config.analysisMode).toBe('portfolio');
+  });
+
+  it('should load per-ASIN analysis mode', () => {
+    process.env.ANALYSIS_MODE = 'perAsin';
+
+    const config = loadConfig();
+
+    expect(config.analysisMode).toBe('perAsin');
+  });
+
+  it('should reject unknown analysis modes', () => {
+    process.env.ANALYSIS_MODE = 'everything';
+
+    expect(() => loadConfig()).toThrow('Invalid ANALYSIS_MODE');
+  });
+
+  it('should default to the OpenAI provider', () => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MODEL;
+    delete process.env.LLM_TEMPERATURE;
+    delete process.env.LLM_MAX_TOKENS;
+
+    const config = loadConfig();
+
+    expect(config.llm).toEqual(expect.objectContaining({
+      provider: 'openai',
+      model: 'gpt-4o',
+      temperature: 0.7,
+      maxTokens: undefined,
+      apiKey: 'test-openai-key',
+    }));
+  });
+
+  it('should load model, temperature and max tokens overrides', () => {
+    process.env.LLM_MODEL = 'gpt-4o-mini';
+    process.env.LLM_TEMPERATURE = '0.2';
+    process.env.LLM_MAX_TOKENS = '2000';
+
+    const config = loadConfig();
+
+    expect(config.llm.model).toBe('gpt-4o-mini');
+    expect(config.llm.temperature).toBe(0.2);
+    expect(config.llm.maxTokens).toBe(2000);
+  });
+
+  it('should require the Anthropic key instead of OpenAI for the anthropic provider', () => {
+    process.env.LLM_PROVIDER = 'anthropic';
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(() => loadConfig()).toThrow(/ANTHROPIC_API_KEY/);
+
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    const config = loadConfig();
+
+    expect(config.llm.provider).toBe('anthropic');
+    expect(config.llm.apiKey).toBe('sk-ant-test');
+  });
+
+  it('should require Azure settings for the azure-openai provider', () => {
+    process.env.LLM_PROVIDER = 'azure-openai';
+
+    expect(() => loadConfig()).toThrow(/AZURE_OPENAI_API_KEY.*AZURE_OPENAI_INSTANCE_NAME.*AZURE_OPENAI_DEPLOYMENT_NAME/);
+  });
+
+  it('should not require API keys for an OpenAI-compatible local endpoint', () => {
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    process.env.LLM_BASE_URL = 'http://localhost:8080/v1';
+    delete process.env.OPENAI_API_KEY;
+
+    const config = loadConfig();
+
+    expect(config.llm.provider).toBe('openai-compatible');
+    expect(config.llm.baseUrl).toBe('http://localhost:8080/v1');
+    expect(config.llm.model).toBe('llama3.1');
+  });
+
+  it('should reject unknown LLM providers', () => {
+    process.env.LLM_PROVIDER = 'mystery';
+
+    expect(() => loadConfig()).toThrow('Invalid LLM_PROVIDER');
+  });
+
+  it('should default to the Firecrawl scraper backend', () => {
+    delete process.env.SCRAPER_BACKEND;
+    delete process.env.SCRAPER_FALLBACKS;
+
+    expect(loadConfig().scraper).toEqual(expect.objectContaining({ backend: 'firecrawl', fallbacks: [] }));
+  });
+
+  it('should load the scraper backend and its fallbacks, requiring only their settings', () => {
+    process.env.SCRAPER_BACKEND = 'firecrawl-self-hosted';
+    process.env.SCRAPER_FALLBACKS = 'browser, http';
+    delete process.env.FIRECRAWL_API_KEY;
+    delete process.env.FIRECRAWL_BASE_URL;
+    delete process.env.BROWSER_ENDPOINT;
+
+    expect(() => loadConfig()).toThrow(/FIRECRAWL_BASE_URL.*BROWSER_ENDPOINT/);
+
+    process.env.FIRECRAWL_BASE_URL = 'http://firecrawl.internal:3002';
+    process.env.BROWSER_ENDPOINT = 'http://chrome.internal:3000';
+    const config = loadConfig();
+
+    expect(config.firecrawlApiKey).toBe('');
+    expect(config.scraper).toEqual(expect.objectContaining({
+      backend: 'firecrawl-self-hosted',
+      fallbacks: ['browser', 'http'],
+      firecrawlBaseUrl: 'http://firecrawl.internal:3002',
+      browserEndpoint: 'http://chrome.internal:3000',
+    }));
+  });
+
+  it('should reject unknown scraper backends', () => {
+    process.env.SCRAPER_BACKEND = 'curl';
+    expect(() => loadConfig()).toThrow('Invalid SCRAPER_BACKEND');
+
+    process.env.SCRAPER_BACKEND = 'http';
+    process.env.SCRAPER_FALLBACKS = 'firecrawl,wget';
+    expect(() => loadConfig()).toThrow('Invalid SCRAPER_FALLBACKS "wget"');
+  });
+
+  it('should reject non-numeric temperature', () => {
+    process.env.LLM_TEMPERATURE = 'warm';
+
+    expect(() => loadConfig()).toThrow('Invalid LLM_TEMPERATURE');
+  });
+
+  it('should default unit prices from the configured model', () => {
+    process.env.LLM_MODEL = 'gpt-4o-mini';
+
+    const config = loadConfig();
+
+    expect(config.costPrices).toEqual({
+      firecrawlCredit: 0.00083,
+      rekognitionCall: 0.001,
+      llmPromptPer1M: 0.15,
+      llmCompletionPer1M: 0.6,
+    });
+  });
+
+  it('should load unit price overrides', () => {
+    process.env.FIRECRAWL_CREDIT_PRICE = '0.0019';
+    process.env.REKOGNITION_CALL_PRICE = '0.0008';
+    process.env.LLM_PROMPT_PRICE_PER_1M = '1';
+    process.env.LLM_COMPLETION_PRICE_PER_1M = '4';
+
+    const config = loadConfig();
+
+    expect(config.costPrices).toEqual({
+      firecrawlCredit: 0.0019,
+      rekognitionCall: 0.0008,
+      llmPromptPer1M: 1,
+      llmCompletionPer1M: 4,
+    });
+  });
+
+  it('should reject non-numeric unit prices', () => {
+    process.env.FIRECRAWL_CREDIT_PRICE = 'cheap';
+
+    expect(() => loadConfig()).toThrow('Invalid FIRECRAWL_CREDIT_PRICE');
+  });
+
+  it('should leave budget limits unset by default', () => {
+    const config = loadConfig();
+
+    expect(config.budgetLimits).toEqual({
+      maxAsins: undefined,
+      maxFirecrawlCredits: undefined,
+      maxRekognitionCalls: undefined,
+      maxLLMTokens: undefined,
+    });
+  });
+
+  it('should load budget limits', () => {
+    process.env.MAX_ASINS_PER_RUN = '50';
+    process.env.MAX_FIRECRAWL_CREDITS = '100';
+    process.env.MAX_REKOGNITION_CALLS = '1000';
+    process.env.MAX_LLM_TOKENS = '200000';
+
+    const config = loadConfig();
+
+    expect(config.budgetLimits).toEqual({
+      maxAsins: 50,
+      maxFirecrawlCredits: 100,
+      maxRekognitionCalls: 1000,
+      maxLLMTokens: 200000,
+    });
+  });
+
+  it('should reject negative budget limits', () => {
+    process.env.MAX_LLM_TOKENS = '-1';
+
+    expect(() => loadConfig()).toThrow('Invalid budget limit maxLLMTokens');
+  });
+
+  it('should default the checkpoint directory', () => {
+    delete process.env.CHECKPOINT_DIR;
+
+    expect(loadConfig().checkpointDir).toBe('./data/checkpoints');
+
+    process.env.CHECKPOINT_DIR = '/var/lib/listing-analysis/checkpoints';
+    expect(loadConfig().checkpointDir).toBe('/var/lib/listing-analysis/checkpoints');
+  });
+
+  it('should load scrape concurrency and rate limit', () => {
+    expect(loadConfig().scrape).toEqual({
+      concurrency: 3,
+      requestsPerMinute: 20,
+      maxRetries: 3,
+      blockedRetries: 1,
+      minConfidence: 0.6,
+      cacheDir: './data/scrape-cache',
+      cacheTtlHours: 24,
+      expandVariations: 0,
+    });
+
+    process.env.SCRAPE_CONCURRENCY = '8';
+    process.env.SCRAPE_REQUESTS_PER_MINUTE = '100';
+    process.env.SCRAPE_MAX_RETRIES = '0';
+    process.env.SCRAPE_BLOCKED_RETRIES = '2';
+    process.env.SCRAPE_CACHE_DIR = '/tmp/scrape-cache';
+    process.env.SCRAPE_CACHE_TTL_HOURS = '0';
+    process.env.SCRAPE_EXPAND_VARIATIONS = '5';
+    expect(loadConfig().scrape).toEqual({
+      concurrency: 8,
+      requestsPerMinute: 100,
+      maxRetries: 0,
+      blockedRetries: 2,
+      minConfidence: 0.6,
+      cacheDir: '/tmp/scrape-cache',
+      cacheTtlHours: 0,
+      expandVariations: 5,
+    });
+  });
+
+  it('should turn the scrape cache off with an empty SCRAPE_CACHE_DIR', () => {
+    process.env.SCRAPE_CACHE_DIR = '';
+
+    expect(loadConfig().scrape.cacheDir).toBeUndefined();
+  });
+
+  it('should reject invalid scrape concurrency', () => {
+    process.env.SCRAPE_CONCURRENCY = '0';
+
+    expect(() => loadConfig()).toThrow('Invalid SCRAPE_CONCURRENCY');
+  });
+
+  it('should reject invalid variation expansion', () => {
+    process.env.SCRAPE_EXPAND_VARIATIONS = '-1';
+
+    expect(() => loadConfig()).toThrow('Invalid SCRAPE_EXPAND_VARIATIONS');
+  });
+
+  it('should load the extraction rules path', () => {
+    expect(loadConfig().scrape.rulesPath).toBeUndefined();
+
+    process.env.EXTRACTION_RULES_PATH = './config/extraction-rules.json';
+    expect(loadConfig().scrape.rulesPath).toBe('./config/extraction-rules.json');
+  });
+
+  it('should load parse confidence settings', () => {
+    expect(loadConfig().lowConfidenceListings).toBe('caveat');
+
+    process.env.PARSE_MIN_CONFIDENCE = '0.75';
+    process.env.LOW_CONFIDENCE_LISTINGS = 'exclude';
+    const config = loadConfig();
+
+    expect(config.scrape.minConfidence).toBe(0.75);
+    expect(config.lowConfidenceListings).toBe('exclude');
+  });
+
+  it('should reject invalid parse confidence settings', () => {
+    process.env.PARSE_MIN_CONFIDENCE = '75';
+    expect(() => loadConfig()).toThrow('Invalid PARSE_MIN_CONFIDENCE');
+
+    process.env.PARSE_MIN_CONFIDENCE = '0.6';
+    process.env.LOW_CONFIDENCE_LISTINGS = 'drop';
+    expect(() => loadConfig()).toThrow('Invalid LOW_CONFIDENCE_LISTINGS');
+  });
+
+  it('should load the default marketplace', () => {
+    expect(loadConfig().defaultMarketplace).toBe('US');
+
+    process.env.AMAZON_MARKETPLACE = 'amazon.co.uk';
+    expect(loadConfig().defaultMarketplace).toBe('UK');
+
+    process.env.AMAZON_MARKETPLACE = 'BR';
+    expect(() => loadConfig()).toThrow('Invalid AMAZON_MARKETPLACE');
+  });
+});
+
+describe('loadReparseConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should load the cache, snapshot and rules settings without API credentials', () => {
+    for (const key of ['FIRECRAWL_API_KEY', 'OPENAI_API_KEY', 'GOOGLE_SHEET_ID', 'GOOGLE_CREDENTIALS_PATH', 'AWS_REGION']) {
+      delete process.env[key];
+    }
+    delete process.env.SCRAPE_CACHE_DIR;
+    delete process.env.SNAPSHOT_DIR;
+    delete process.env.EXTRACTION_RULES_PATH;
+
+    expect(loadReparseConfig()).toEqual({ cacheDir: './data/scrape-cache', snapshotDir: './data/snapshots' });
+
+    process.env.SCRAPE_CACHE_DIR = '/tmp/scrape-cache';
+    process.env.SNAPSHOT_DIR = '/tmp/snapshots';
+    process.env.EXTRACTION_RULES_PATH = './config/extraction-rules.json';
+    expect(loadReparseConfig()).toEqual({
+      cacheDir: '/tmp/scrape-cache',
+      snapshotDir: '/tmp/snapshots',
+      rulesPath: './config/extraction-rules.json',
+    });
+  });
+
+  it('should reject a turned-off scrape cache', () => {
+    process.env.SCRAPE_CACHE_DIR = '';
+
+    expect(() => loadReparseConfig()).toThrow('SCRAPE_CACHE_DIR is empty');
+  });
 });
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for cost ledger
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCostLedger,
+  cloneCostLedger,
+  recordFirecrawlCredits,
+  recordRekognitionCall,
+  recordLLMUsage,
+  getCostBreakdown,
+  getDefaultLLMPrices,
+  formatUsd,
+  checkBudget,
+  assertWithinBudget,
+  BudgetExceededError,
+} from '../../src/lib/cost-ledger.js';
+
+const prices = {
+  firecrawlCredit: 0.001,
+  rekognitionCall: 0.001,
+  llmPromptPer1M: 2.5,
+  llmCompletionPer1M: 10,
+};
+
+describe('cost ledger', () => {
+  it('should start empty', () => {
+    const breakdown = getCostBreakdown(createCostLedger(prices));
+
+    expect(breakdown.firecrawl.credits).toBe(0);
+    expect(breakdown.rekognition.calls).toBe(0);
+    expect(breakdown.llm.requests).toBe(0);
+    expect(breakdown.totalUsd).toBe(0);
+  });
+
+  it('should accumulate usage and price it', () => {
+    const ledger = createCostLedger(prices);
+
+    recordFirecrawlCredits(ledger, 5);
+    recordFirecrawlCredits(ledger, 1);
+    recordRekognitionCall(ledger, 'DetectLabels');
+    recordRekognitionCall(ledger, 'DetectLabels');
+    recordRekognitionCall(ledger, 'DetectText');
+    recordLLMUsage(ledger, { promptTokens: 100000, completionTokens: 20000 });
+    recordLLMUsage(ledger, { promptTokens: 100000, completionTokens: 30000 });
+
+    const breakdown = getCostBreakdown(ledger);
+
+    expect(breakdown.firecrawl).toEqual({ credits: 6, costUsd: 0.006 });
+    expect(breakdown.rekognition).toEqual({
+      calls: 3,
+      callsByOperation: { DetectLabels: 2, DetectText: 1 },
+      costUsd: 0.003,
+    });
+    expect(breakdown.llm).toEqual({
+      requests: 2,
+      promptTokens: 200000,
+      completionTokens: 50000,
+      costUsd: 1,
+    });
+    expect(breakdown.totalUsd).toBe(1.009);
+    expect(breakdown.prices).toEqual(prices);
+  });
+
+  it('should count LLM requests without reported usage', () => {
+    const ledger = createCostLedger(prices);
+
+    recordLLMUsage(ledger, undefined);
+
+    expect(ledger.llm).toEqual({ requests: 1, promptTokens: 0, completionTokens: 0 });
+  });
+
+  it('should clone without sharing state', () => {
+    const ledger = createCostLedger(prices);
+    recordRekognitionCall(ledger, 'DetectFaces');
+
+    const clone = cloneCostLedger(ledger);
+    recordRekognitionCall(clone, 'DetectFaces');
+    recordLLMUsage(clone, { promptTokens: 10, completionTokens: 5 });
+
+    expect(ledger.rekognitionCalls.DetectFaces).toBe(1);
+    expect(ledger.llm.requests).toBe(0);
+    expect(clone.rekognitionCalls.DetectFaces).toBe(2);
+  });
+
+  it('should start a free ledger when state has none', () => {
+    const ledger = cloneCostLedger(undefined);
+    recordFirecrawlCredits(ledger, 3);
+
+    expect(getCostBreakdown(ledger).totalUsd).toBe(0);
+    expect(ledger.firecrawlCredits).toBe(3);
+  });
+});
+
+describe('budget caps', () => {
+  it('should allow everything without limits', () => {
+    const ledger = createCostLedger(prices);
+    recordFirecrawlCredits(ledger, 1000);
+
+    expect(checkBudget(ledger, 'firecrawlCredits', 1000)).toBeUndefined();
+  });
+
+  it('should allow calls that fit exactly and reject calls that do not', () => {
+    const ledger = createCostLedger(prices, { maxRekognitionCalls: 8 });
+    recordRekognitionCall(ledger, 'DetectLabels');
+    recordRekognitionCall(ledger, 'DetectText');
+    recordRekognitionCall(ledger, 'DetectFaces');
+    recordRekognitionCall(ledger, 'DetectModerationLabels');
+
+    expect(checkBudget(ledger, 'rekognitionCalls', 4)).toBeUndefined();
+    expect(checkBudget(ledger, 'rekognitionCalls', 5)).toBe('Rekognition call cap reached (4 used + 5 needed > 8 allowed)');
+  });
+
+  it('should count prompt and completion tokens against the LLM cap', () => {
+    const ledger = createCostLedger(prices, { maxLLMTokens: 1000 });
+    recordLLMUsage(ledger, { promptTokens: 600, completionTokens: 300 });
+
+    expect(checkBudget(ledger, 'llmTokens', 100)).toBeUndefined();
+    expect(checkBudget(ledger, 'llmTokens', 101)).toContain('LLM token cap reached');
+  });
+
+  it('should throw a BudgetExceededError when asserting over budget', () => {
+    const ledger = createCostLedger(prices, { maxFirecrawlCredits: 0 });
+
+    expect(() => assertWithinBudget(ledger, 'firecrawlCredits', 1)).toThrow(BudgetExceededError);
+    try {
+      assertWithinBudget(ledger, 'firecrawlCredits', 1);
+    } catch (error) {
+      expect((error as BudgetExceededError).resource).toBe('firecrawlCredits');
+    }
+  });
+
+  it('should keep limits when cloning', () => {
+    const clone = cloneCostLedger(createCostLedger(prices, { maxAsins: 50 }));
+
+    expect(clone.limits).toEqual({ maxAsins: 50 });
+  });
+});
+
+describe('getDefaultLLMPrices', () => {
+  it('should match the longest model prefix', () => {
+    expect(getDefaultLLMPrices('gpt-4o')).toEqual({ llmPromptPer1M: 2.5, llmCompletionPer1M: 10 });
+    expect(getDefaultLLMPrices('gpt-4o-mini-2024-07-18')).toEqual({ llmPromptPer1M: 0.15, llmCompletionPer1M: 0.6 });
+  });
+
+  it('should price unknown (local) models at zero', () => {
+    expect(getDefaultLLMPrices('llama3.1')).toEqual({ llmPromptPer1M: 0, llmCompletionPer1M: 0 });
+  });
+});
+
+describe('formatUsd', () => {
+  it('should format dollars and keep sub-cent precision', () => {
+    expect(formatUsd(0)).toBe('$0.00');
+    expect(formatUsd(1.5)).toBe('$1.50');
+    expect(formatUsd(0.0042)).toBe('$0.0042');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for extraction rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_FIELD_RULES,
+  ExtractionRulesError,
+  compileFieldRules,
+  expandPattern,
+  loadExtractionRules,
+  resolveFieldRules,
+  validateExtractionRules,
+} from '../../src/lib/extraction-rules.js';
+import { parseAmazonListing } from '../../src/lib/firecrawl-amazon.js';
+import { getMarketplace } from '../../src/lib/marketplaces.js';
+import { sampleAmazonHTML, sampleAmazonMarkdown, sampleAmazonDEMarkdown } from '../fixtures/amazon-sample.js';
+
+describe('expandPattern', () => {
+  it('should expand placeholders in the marketplace language and number format', () => {
+    expect(expandPattern('{{ratingOutOfFive}}', getMarketplace('US'))).toBe('(\\d+[.,]\\d+)\\s*out\\s*of\\s*5\\s*stars');
+    expect(new RegExp(expandPattern('{{symbolLast}}', getMarketplace('DE'))).exec('8,99 €')?.[1]).toBe('8,99');
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(() => expandPattern('{{price}}', getMarketplace('US'))).toThrow('unknown placeholder {{price}}');
+  });
+});
+
+describe('validateExtractionRules', () => {
+  it('should accept a rules file with global and marketplace overrides', () => {
+    const rules = {
+      version: '2024-06-02',
+      rules: { selectors: { title: ['h1.product-title'] }, bulletExcludes: ['^Sponsored'] },
+      marketplaces: { DE: { rating: [{ pattern: '{{ratingNumber}}\\s*von\\s*5', source: 'stars_text' }] } },
+    };
+
+    expect(validateExtractionRules(rules)).toBe(rules);
+  });
+
+  it('should list every problem found', () => {
+    const rules = {
+      rules: {
+        price: [{ pattern: '{{symbolFirst}}', source: 'buybox' }],
+        rating: [{ pattern: '\\d+ stars', source: 'stars_text' }],
+        reviewCount: [{ pattern: '(\\d+', source: 'ratings_count' }],
+        bulletExcludes: [42],
+        selectors: { title: ['h1:first-child'], subtitle: ['h2'] },
+        images: [],
+      },
+      marketplaces: { XX: {}, JP: { description: [{ pattern: '{{unknown}}', source: 'description_section' }] } },
+    };
+
+    try {
+      validateExtractionRules(rules, 'rules.json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExtractionRulesError);
+      expect((error as Error).message).toMatch(/^Invalid extraction rules in rules\.json: /);
+      expect((error as ExtractionRulesError).problems).toEqual([
+        'version must be a non-empty string',
+        'rules.price[0].source must be one of price_label, stray_match',
+        'rules.rating[0].pattern (US): must capture the value in group 1',
+        expect.stringMatching(/^rules\.reviewCount\[0\]\.pattern \(US\): Invalid regular expression/),
+        'rules.bulletExcludes[0] must be a non-empty string',
+        expect.stringMatching(/^rules\.selectors\.title\[0\]: Invalid selector "h1:first-child"/),
+        expect.stringMatching(/^rules\.selectors\.subtitle is not a selector field/),
+        expect.stringMatching(/^rules\.images is not a rules field/),
+        expect.stringMatching(/^marketplaces\.XX is not a marketplace/),
+        'marketplaces.JP.description[0].pattern (JP): unknown placeholder {{unknown}}',
+      ]);
+    }
+  });
+
+  it('should validate pricing selectors and patterns', () => {
+    const rules = {
+      version: '5',
+      rules: {
+        selectors: { buyboxPrice: ['#price:hover'] },
+        pricing: {
+          couponPercent: ['Clip \\d+% coupon'],
+          lightningDeal: ['Blitzangebot'],
+          listPrice: ['{{listPriceLabel}} {{unknown}}'],
+          shippingFee: [],
+        },
+      },
+      marketplaces: { DE: { pricing: { subscribeAndSavePrice: '{{symbolLast}}' } } },
+    };
+
+    expect(() => validateExtractionRules(rules)).toThrow(ExtractionRulesError);
+    try {
+      validateExtractionRules(rules);
+    } catch (error) {
+      expect((error as ExtractionRulesError).problems).toEqual([
+        expect.stringMatching(/^rules\.selectors\.buyboxPrice\[0\]: Invalid selector "#price:hover"/),
+        'rules.pricing.couponPercent[0] (US): must capture the value in group 1',
+        'rules.pricing.listPrice[0] (US): unknown placeholder {{unknown}}',
+        expect.stringMatching(/^rules\.pricing\.shippingFee is not a pricing field/),
+        'marketplaces.DE.pricing.subscribeAndSavePrice must be an array of strings',
+      ]);
+    }
+  });
+
+  it('should reject a rules file that is not an object', () => {
+    expect(() => validateExtractionRules([])).toThrow('Invalid extraction rules: rules must be a JSON object');
+  });
+});
+
+describe('loadExtractionRules', () => {
+  let rulesDir: string;
+
+  beforeEach(() => {
+    rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  it('should read and validate a rules file', () => {
+    const rulesPath = path.join(rulesDir, 'rules.json');
+    fs.writeFileSync(rulesPath, JSON.stringify({ version: '2', rules: { titleHeadingExcludes: ['Sponsored'] } }));
+
+    expect(loadExtractionRules(rulesPath)).toEqual({ version: '2', rules: { titleHeadingExcludes: ['Sponsored'] } });
+  });
+
+  it('should report missing and malformed files', () => {
+    const rulesPath = path.join(rulesDir, 'rules.json');
+    expect(() => loadExtractionRules(rulesPath)).toThrow(ExtractionRulesError);
+
+    fs.writeFileSync(rulesPath, '{ "version": ');
+    expect(() => loadExtractionRules(rulesPath)).toThrow(`Invalid extraction rules in ${rulesPath}`);
+  });
+});
+
+describe('resolveFieldRules', () => {
+  it('should apply marketplace over global over built-in rules, per field', () => {
+    const rules = {
+      version: '3',
+      rules: {
+        bulletExcludes: ['^Sponsored'],
+        selectors: { title: ['h1.product-title'] },
+        rating: [{ pattern: '{{ratingNumber}}', source: 'loose_match' as const }],
+      },
+      marketplaces: {
+        DE: { selectors: { bullets: ['#bullets li'] }, rating: [{ pattern: '{{ratingNumber}}\\s*von', source: 'stars_text' as const }] },
+      },
+    };
+
+    const us = resolveFieldRules(rules, 'US');
+    expect(us.bulletExcludes).toEqual(['^Sponsored']);
+    expect(us.rating).toEqual([{ pattern: '{{ratingNumber}}', source: 'loose_match' }]);
+    expect(us.price).toBe(DEFAULT_FIELD_RULES.price);
+    expect(us.selectors.bullets).toBe(DEFAULT_FIELD_RULES.selectors.bullets);
+
+    const de = resolveFieldRules(rules, 'DE');
+    expect(de.rating).toEqual([{ pattern: '{{ratingNumber}}\\s*von', source: 'stars_text' }]);
+    expect(de.selectors).toMatchObject({ title: ['h1.product-title'], bullets: ['#bullets li'] });
+    expect(de.bulletExcludes).toEqual(['^Sponsored']);
+  });
+
+  it('should compile the rules once per marketplace', () => {
+    const rules = { version: '4' };
+
+    expect(compileFieldRules(rules, getMarketplace('US'))).toBe(compileFieldRules(rules, getMarketplace('US')));
+    expect(compileFieldRules(rules, getMarketplace('DE'))).not.toBe(compileFieldRules(rules, getMarketplace('US')));
+  });
+});
+
+describe('parseAmazonListing with extraction rules', () => {
+  it('should record the built-in rules version by default', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.rulesVersion).toBe('builtin');
+  });
+
+  it('should use the rules of the listing marketplace', async () => {
+    // Only the second star line counts on amazon.de with this rule
+    const markdown = sampleAmazonDEMarkdown.replace('4,6 von 5 Sternen', '4,6 von 5 Sternen\nDurchschnitt: 4,4');
+    const rules = {
+      version: 'de-average',
+      marketplaces: { DE: { rating: [{ pattern: 'Durchschnitt:\\s*{{ratingNumber}}', source: 'stars_text' as const }] } },
+    };
+
+    const de = await parseAmazonListing(markdown, '', 'B0TESTSKU', 'DE', rules);
+    expect(de.data?.rating).toBe(4.4);
+    expect(de.data?.rulesVersion).toBe('de-average');
+
+    const us = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU', 'US', rules);
+    expect(us.data?.rating).toBe(4.7);
+  });
+
+  it('should read bullets with replaced selector chains', async () => {
+    const html = '<ul class="highlights"><li>Fits standard size trading cards and sleeves</li></ul>';
+    const rules = { version: 'highlights', rules: { selectors: { bullets: ['ul.highlights li'] } } };
+
+    const result = await parseAmazonListing('', html, 'B0TESTSKU', 'US', rules);
+
+    expect(result.data?.bullets).toEqual(['Fits standard size trading cards and sleeves']);
+    expect(result.data?.provenance?.bullets).toBe('feature_bullets');
+  });
+});
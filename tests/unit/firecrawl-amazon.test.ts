@@ -2,9 +2,41 @@
  * Unit tests for Firecrawl Amazon parser
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { scrapeAmazonListing, parseAmazonListing, scrapeAndParseAmazon } from '../../src/lib/firecrawl-amazon.js';
-import { sampleAmazonHTML, sampleAmazonMarkdown, expectedParsedProduct, sampleFirecrawlResponse } from '../fixtures/amazon-sample.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  scrapeAmazonListing,
+  parseAmazonListing,
+  scrapeAndParseAmazon,
+  FirecrawlError,
+  classifyHttpStatus,
+  parseRetryAfter,
+  detectListingFailure,
+} from '../../src/lib/firecrawl-amazon.js';
+import { loadCachedScrapes, listScrapeDates } from '../../src/lib/scrape-cache.js';
+import {
+  sampleAmazonHTML,
+  sampleAmazonMarkdown,
+  expectedParsedProduct,
+  sampleFirecrawlResponse,
+  sampleCaptchaHTML,
+  sampleCaptchaMarkdown,
+  sampleDogPageHTML,
+  sampleDogPageMarkdown,
+  sampleUnavailableMarkdown,
+  sampleRegionLockedMarkdown,
+  sampleAmazonDEHTML,
+  sampleAmazonDEMarkdown,
+  sampleAmazonJPMarkdown,
+  sampleAmazonDealHTML,
+  sampleAmazonDetailsHTML,
+  sampleAmazonVariationsHTML,
+  sampleAmazonReviewsHTML,
+  sampleAmazonContentHTML,
+  sampleAmazonMediaHTML,
+} from '../fixtures/amazon-sample.js';
 
 describe('parseAmazonListing', () => {
   it('should extract title from HTML productTitle', async () => {
@@ -128,6 +160,205 @@ describe('parseAmazonListing', () => {
   });
 });
 
+describe('parseAmazonListing provenance', () => {
+  it('should record which strategy produced each field', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.provenance).toEqual({
+      title: 'product_title',
+      price: 'stray_match',
+      rating: 'stars_text',
+      reviewCount: 'ratings_count',
+      bullets: 'feature_bullets',
+      description: 'description_section',
+      images: 'url_scan',
+    });
+    expect(result.data?.completeness).toBe(1);
+    expect(result.data?.confidence).toBe(0.83);
+  });
+
+  it('should prefer the buybox price over stray amounts', async () => {
+    const html = sampleAmazonHTML.replace(
+      '<div id="dp">',
+      '<div id="dp"><div id="corePrice_feature_div"><span class="a-price"><span class="a-offscreen">$1,299.00</span></span></div>'
+    );
+
+    const result = await parseAmazonListing(sampleAmazonMarkdown, html, 'B0TESTSKU');
+
+    expect(result.data?.price).toBe(1299);
+    expect(result.data?.provenance?.price).toBe('buybox');
+  });
+
+  it('should prefer a labeled price over the first amount on the page', async () => {
+    const markdown = sampleAmazonMarkdown.replace('$6.49', 'Was $9.99\n\nPrice: $6.49');
+
+    const result = await parseAmazonListing(markdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.price).toBe(6.49);
+    expect(result.data?.provenance?.price).toBe('price_label');
+  });
+
+  it('should take the price from the buybox offer and keep its details', async () => {
+    const markdown = sampleAmazonMarkdown.replace('$6.49', 'List Price: $24.99\n\n$19.99');
+
+    const result = await parseAmazonListing(markdown, sampleAmazonDealHTML, 'B0TESTSKU');
+
+    expect(result.data?.price).toBe(19.99);
+    expect(result.data?.provenance?.price).toBe('buybox');
+    expect(result.data?.pricing).toMatchObject({ listPrice: 24.99, savingsPercent: 20, limitedTimeDeal: true });
+  });
+
+  it('should extract Best Sellers Rank and product details', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonDetailsHTML, 'B0TESTSKU');
+
+    expect(result.data?.details?.bestSellersRanks[1]).toEqual({ rank: 5, category: 'Trading Card Sleeves' });
+    expect(result.data?.details?.categoryPath).toHaveLength(3);
+    expect(result.data?.details?.brand).toBe('Ultimate Guard');
+  });
+
+  it('should extract the star histogram and review snippets', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonReviewsHTML, 'B0TESTSKU');
+
+    expect(result.data?.reviews?.starHistogram?.[1]).toBe(6);
+    expect(result.data?.reviews?.topCritical[0].title).toBe('Split after a week');
+  });
+
+  it('should extract A+ module text and Q&A', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonContentHTML, 'B0TESTSKU');
+
+    expect(result.data?.content?.aplusModules[0].headline).toBe('Double-sleeve protection');
+    expect(result.data?.content?.comparisonChart?.rows).toHaveLength(2);
+    expect(result.data?.content?.questions).toHaveLength(2);
+  });
+
+  it('should extract videos and the 360 view', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonMediaHTML, 'B0TESTSKU');
+
+    expect(result.data?.media?.videoCount).toBe(3);
+    expect(result.data?.media?.has360View).toBe(true);
+  });
+
+  it('should extract the variation matrix only for listings with variations', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonVariationsHTML, 'B0CHILDBLK');
+    const standalone = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.variations?.parentAsin).toBe('B0PARENT01');
+    expect(result.data?.variations?.children).toHaveLength(3);
+    expect(standalone.data).not.toHaveProperty('variations');
+  });
+
+  it('should skip list prices and shipping fees when falling back to the first amount', async () => {
+    const markdown = sampleAmazonMarkdown.replace('$6.49', 'Was ~~$9.99~~ $5.99 shipping\n\n$6.49');
+
+    const result = await parseAmazonListing(markdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.price).toBe(6.49);
+    expect(result.data?.provenance?.price).toBe('stray_match');
+  });
+
+  it('should score heuristic extraction with low confidence', async () => {
+    const markdown = 'Some navigation text that is long enough to be mistaken for a product title here\n\nBuy now';
+
+    const result = await parseAmazonListing(markdown, '<html></html>', 'B0TESTSKU');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.provenance?.title).toBe('first_long_line');
+    expect(result.data?.provenance?.price).toBe('missing');
+    expect(result.data?.completeness).toBe(0.14);
+    expect(result.data?.confidence).toBeLessThan(0.1);
+  });
+});
+
+describe('parseAmazonListing marketplaces', () => {
+  it('should default to amazon.com prices in USD', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU');
+
+    expect(result.data?.marketplace).toBe('US');
+    expect(result.data?.currency).toBe('USD');
+  });
+
+  it('should parse German prices, ratings and review counts', async () => {
+    const result = await parseAmazonListing(sampleAmazonDEMarkdown, sampleAmazonDEHTML, 'B0TESTSKU', 'DE');
+
+    expect(result.data).toMatchObject({
+      marketplace: 'DE',
+      price: 1299,
+      currency: 'EUR',
+      rating: 4.6,
+      reviewCount: 1234,
+    });
+    expect(result.data?.provenance).toMatchObject({ price: 'buybox', rating: 'stars_text', reviewCount: 'ratings_count' });
+  });
+
+  it('should parse a euro amount after the number from the markdown', async () => {
+    const result = await parseAmazonListing(sampleAmazonDEMarkdown, '<html></html>', 'B0TESTSKU', 'DE');
+
+    expect(result.data?.price).toBe(8.99);
+    expect(result.data?.provenance?.price).toBe('stray_match');
+  });
+
+  it('should parse pound prices', async () => {
+    const markdown = sampleAmazonMarkdown.replace('$6.49', 'Price: £5.49');
+
+    const result = await parseAmazonListing(markdown, sampleAmazonHTML, 'B0TESTSKU', 'UK');
+
+    expect(result.data?.price).toBe(5.49);
+    expect(result.data?.currency).toBe('GBP');
+    expect(result.data?.provenance?.price).toBe('price_label');
+  });
+
+  it('should not read dollar amounts as pounds', async () => {
+    const result = await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0TESTSKU', 'UK');
+
+    expect(result.data?.price).toBe(0);
+    expect(result.data?.provenance?.price).toBe('missing');
+  });
+
+  it('should parse yen prices and Japanese ratings', async () => {
+    const result = await parseAmazonListing(sampleAmazonJPMarkdown, '<html></html>', 'B0TESTSKU', 'JP');
+
+    expect(result.data).toMatchObject({ price: 1980, currency: 'JPY', rating: 4.5, reviewCount: 2345 });
+  });
+});
+
+describe('detectListingFailure', () => {
+  it('should detect robot check pages', () => {
+    expect(detectListingFailure(sampleCaptchaMarkdown, sampleCaptchaHTML)).toBe('captcha');
+    expect(detectListingFailure('', '<html><head><title>Robot Check</title></head></html>')).toBe('captcha');
+  });
+
+  it('should detect dog pages', () => {
+    expect(detectListingFailure(sampleDogPageMarkdown, sampleDogPageHTML)).toBe('not_found');
+    expect(detectListingFailure('', '<title>Page Not Found</title>')).toBe('not_found');
+  });
+
+  it('should detect unavailable and region-locked listings', () => {
+    expect(detectListingFailure(sampleUnavailableMarkdown, '')).toBe('unavailable');
+    expect(detectListingFailure('We don’t know when or if this item will be back in stock.', '')).toBe('unavailable');
+    expect(detectListingFailure(sampleRegionLockedMarkdown, '')).toBe('region_locked');
+  });
+
+  it('should accept normal listings', () => {
+    expect(detectListingFailure(sampleAmazonMarkdown, sampleAmazonHTML)).toBeUndefined();
+  });
+});
+
+describe('parseAmazonListing page failures', () => {
+  it.each([
+    ['captcha', sampleCaptchaMarkdown, sampleCaptchaHTML],
+    ['not_found', sampleDogPageMarkdown, sampleDogPageHTML],
+    ['unavailable', sampleUnavailableMarkdown, ''],
+    ['region_locked', sampleRegionLockedMarkdown, ''],
+  ])('should fail %s pages with a reason instead of an empty product', async (reason, markdown, html) => {
+    const result = await parseAmazonListing(markdown, html, 'B0TESTSKU');
+
+    expect(result.success).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.failureReason).toBe(reason);
+    expect(result.error).toBeDefined();
+  });
+});
+
 describe('scrapeAmazonListing', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -207,9 +438,11 @@ describe('scrapeAmazonListing', () => {
       text: async () => 'Unauthorized',
     });
 
-    const result = await scrapeAmazonListing('B0TESTSKU', 'bad-key');
-
-    expect(result).toBeNull();
+    await expect(scrapeAmazonListing('B0TESTSKU', 'bad-key')).rejects.toMatchObject({
+      name: 'FirecrawlError',
+      category: 'request_failed',
+      status: 401,
+    });
   });
 
   it('should handle missing markdown/html in response', async () => {
@@ -221,17 +454,80 @@ describe('scrapeAmazonListing', () => {
       }),
     });
 
-    const result = await scrapeAmazonListing('B0TESTSKU', 'test-key');
-
-    expect(result).toBeNull();
+    await expect(scrapeAmazonListing('B0TESTSKU', 'test-key')).rejects.toMatchObject({ category: 'parse_failure' });
   });
 
   it('should handle network errors', async () => {
     global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
 
+    await expect(scrapeAmazonListing('B0TESTSKU', 'test-key')).rejects.toMatchObject({
+      category: 'transient',
+      message: 'Firecrawl request failed: Network error',
+    });
+  });
+
+  it('should classify rate limits and read Retry-After', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: new Headers({ 'Retry-After': '7' }),
+      text: async () => 'Rate limit exceeded',
+    });
+
+    const error = await scrapeAmazonListing('B0TESTSKU', 'test-key').catch(e => e);
+
+    expect(error).toBeInstanceOf(FirecrawlError);
+    expect(error.category).toBe('rate_limited');
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should classify timeouts as transient', async () => {
+    global.fetch = vi.fn().mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+
+    await expect(scrapeAmazonListing('B0TESTSKU', 'test-key')).rejects.toMatchObject({
+      category: 'transient',
+      message: expect.stringContaining('timed out'),
+    });
+  });
+
+  it('should classify malformed payloads as parse failures', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => { throw new SyntaxError('Unexpected token <'); },
+    });
+
+    await expect(scrapeAmazonListing('B0TESTSKU', 'test-key')).rejects.toMatchObject({ category: 'parse_failure' });
+  });
+
+  it('should classify Amazon 404 pages as not found', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { markdown: 'Sorry! We couldn\'t find that page', html: '<html></html>', metadata: { statusCode: 404 } },
+      }),
+    });
+
+    const error = await scrapeAmazonListing('B0TESTSKU', 'test-key').catch(e => e);
+
+    expect(error.category).toBe('not_found');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should return captcha pages for the parser to classify', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { markdown: sampleCaptchaMarkdown, html: sampleCaptchaHTML, metadata: { statusCode: 503 } },
+      }),
+    });
+
     const result = await scrapeAmazonListing('B0TESTSKU', 'test-key');
 
-    expect(result).toBeNull();
+    expect(result.markdown).toBe(sampleCaptchaMarkdown);
   });
 
   it('should construct correct Amazon URL', async () => {
@@ -248,6 +544,19 @@ describe('scrapeAmazonListing', () => {
 
     expect(body.url).toBe('https://www.amazon.com/dp/B0TESTSKU');
   });
+
+  it('should scrape the marketplace domain', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => sampleFirecrawlResponse,
+    });
+    global.fetch = mockFetch;
+
+    const result = await scrapeAmazonListing('B0TESTSKU', 'test-key', 'UK');
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).url).toBe('https://www.amazon.co.uk/dp/B0TESTSKU');
+    expect(result.marketplace).toBe('UK');
+  });
 });
 
 describe('scrapeAndParseAmazon', () => {
@@ -262,6 +571,7 @@ describe('scrapeAndParseAmazon', () => {
     expect(result.success).toBe(true);
     expect(result.data?.asin).toBe('B0TESTSKU');
     expect(result.data?.title).toBe('Ultimate Guard Katana Sleeves Standard Size Black (100)');
+    expect(result.creditsUsed).toBe(1);
   });
 
   it('should return error if scraping fails', async () => {
@@ -271,9 +581,206 @@ describe('scrapeAndParseAmazon', () => {
       text: async () => 'Server error',
     });
 
-    const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key');
+    const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { maxRetries: 0 });
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('Failed to scrape');
+    expect(result.errorCategory).toBe('transient');
+  });
+
+  it('should map page failures to error categories', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: { markdown: sampleRegionLockedMarkdown, html: '<html></html>' }, creditsUsed: 1 }),
+    });
+
+    const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key');
+
+    expect(result.failureReason).toBe('region_locked');
+    expect(result.errorCategory).toBe('region_locked');
+    expect(result.creditsUsed).toBe(1);
+  });
+
+  describe('scrape cache', () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should cache raw pages and parse fresh cached pages without scraping', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => sampleFirecrawlResponse,
+      });
+      global.fetch = mockFetch;
+      const cache = { dir: cacheDir, ttlMs: 60 * 60 * 1000 };
+
+      const scraped = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache });
+      const cached = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(scraped.fromCache).toBeUndefined();
+      expect(cached.fromCache).toBe(true);
+      expect(cached.creditsUsed).toBe(0);
+      expect(cached.data?.title).toBe(scraped.data?.title);
+
+      const [scrapeDate] = listScrapeDates(cacheDir);
+      expect(loadCachedScrapes(cacheDir, scrapeDate).get('US:B0TESTSKU')?.markdown).toBe(sampleAmazonMarkdown);
+    });
+
+    it('should not cache robot check pages', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, data: { markdown: sampleCaptchaMarkdown, html: sampleCaptchaHTML } }),
+      });
+      global.fetch = mockFetch;
+
+      const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache: { dir: cacheDir, ttlMs: 60 * 60 * 1000 } });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('captcha');
+      expect(result.errorCategory).toBe('blocked');
+      expect(listScrapeDates(cacheDir)).toEqual([]);
+    });
+
+    it('should not serve a page cached from another marketplace', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => sampleFirecrawlResponse,
+      });
+      global.fetch = mockFetch;
+      const cache = { dir: cacheDir, ttlMs: 60 * 60 * 1000 };
+
+      await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache });
+      const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache, marketplace: 'DE' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.fromCache).toBeUndefined();
+      expect(result.data?.marketplace).toBe('DE');
+
+      const [scrapeDate] = listScrapeDates(cacheDir);
+      const scrapes = loadCachedScrapes(cacheDir, scrapeDate);
+      expect(scrapes.size).toBe(2);
+      expect(scrapes.get('DE:B0TESTSKU')?.marketplace).toBe('DE');
+      expect(scrapes.has('US:B0TESTSKU')).toBe(true);
+    });
+
+    it('should scrape again when the TTL is 0', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => sampleFirecrawlResponse,
+      });
+      global.fetch = mockFetch;
+      const cache = { dir: cacheDir, ttlMs: 0 };
+
+      await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache });
+      const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key', { cache });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.fromCache).toBeUndefined();
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should retry transient errors with backoff and succeed', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 502, text: async () => 'Bad gateway' })
+        .mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'Unavailable' })
+        .mockResolvedValue({ ok: true, json: async () => sampleFirecrawlResponse });
+      global.fetch = mockFetch;
+
+      const promise = scrapeAndParseAmazon('B0TESTSKU', 'test-key', { maxRetries: 3, random: () => 1 });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await promise;
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(3);
+    });
+
+    it('should wait for Retry-After on rate limits', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '5' }),
+          text: async () => 'Too many requests',
+        })
+        .mockResolvedValue({ ok: true, json: async () => sampleFirecrawlResponse });
+      global.fetch = mockFetch;
+
+      const promise = scrapeAndParseAmazon('B0TESTSKU', 'test-key');
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      const result = await promise;
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxRetries with the last category', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 429, text: async () => 'Too many requests' });
+
+      const promise = scrapeAndParseAmazon('B0TESTSKU', 'test-key', { maxRetries: 2 });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.success).toBe(false);
+      expect(result.errorCategory).toBe('rate_limited');
+      expect(result.attempts).toBe(3);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 402, text: async () => 'Payment required' });
+
+      const result = await scrapeAndParseAmazon('B0TESTSKU', 'test-key');
+
+      expect(result.errorCategory).toBe('request_failed');
+      expect(result.attempts).toBe(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('classifyHttpStatus', () => {
+  it('should map statuses to categories', () => {
+    expect(classifyHttpStatus(429)).toBe('rate_limited');
+    expect(classifyHttpStatus(500)).toBe('transient');
+    expect(classifyHttpStatus(504)).toBe('transient');
+    expect(classifyHttpStatus(408)).toBe('transient');
+    expect(classifyHttpStatus(401)).toBe('request_failed');
+    expect(classifyHttpStatus(402)).toBe('request_failed');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delay seconds and HTTP dates', () => {
+    const now = Date.parse('2024-02-01T00:00:00Z');
+
+    expect(parseRetryAfter('30', now)).toBe(30000);
+    expect(parseRetryAfter('Thu, 01 Feb 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Wed, 31 Jan 2024 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
   });
 });
@@ -3,12 +3,17 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { scrapeListings } from '../../src/nodes/firecrawl.js';
+import { createCostLedger } from '../../src/lib/cost-ledger.js';
 import { sampleFirecrawlResponse } from '../fixtures/amazon-sample.js';
 
 // Mock the firecrawl-amazon module
 vi.mock('../../src/lib/firecrawl-amazon.js', () => ({
   scrapeAndParseAmazon: vi.fn(),
+  DEFAULT_MAX_RETRIES: 3,
 }));
 
 describe('scrapeListings', () => {
@@ -39,7 +44,7 @@ describe('scrapeListings', () => {
     });
 
     const state = {
-      asins: ['B0TEST1', 'B0TEST2'],
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       errors: [],
@@ -63,7 +68,7 @@ describe('scrapeListings', () => {
       .mockResolvedValueOnce({ success: false, error: 'Scraping failed' });
 
     const state = {
-      asins: ['B0TEST1', 'B0TEST2'],
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       errors: [],
@@ -83,7 +88,7 @@ describe('scrapeListings', () => {
     (scrapeAndParseAmazon as any).mockResolvedValue({ success: true, data: { asin: 'B0TEST' } });
 
     const state = {
-      asins: ['B0TEST1', 'B0TEST2', 'B0TEST3'],
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       errors: [],
@@ -103,7 +108,7 @@ describe('scrapeListings', () => {
     (scrapeAndParseAmazon as any).mockResolvedValue({ success: false, error: 'API error' });
 
     const state = {
-      asins: ['B0BADSKU'],
+      asins: ['US:B0BADSKU'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       errors: [],
@@ -113,7 +118,7 @@ describe('scrapeListings', () => {
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    expect(result.errors?.[0].asin).toBe('B0BADSKU');
+    expect(result.errors?.[0].asin).toBe('US:B0BADSKU');
     expect(result.errors?.[0].message).toContain('API error');
   });
 
@@ -122,7 +127,7 @@ describe('scrapeListings', () => {
     (scrapeAndParseAmazon as any).mockRejectedValue(new Error('Network error'));
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       errors: [],
@@ -135,4 +140,442 @@ describe('scrapeListings', () => {
     expect(result.errors?.length).toBeGreaterThan(0);
     expect(result.errors?.[0].message).toContain('Network error');
   });
+
+  it('should record Firecrawl credits in the cost ledger', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any)
+      .mockResolvedValueOnce({ success: false, error: 'Parse error', creditsUsed: 1 })
+      .mockResolvedValueOnce({ success: false, error: 'Parse error', creditsUsed: 5 });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      costs: createCostLedger({ firecrawlCredit: 0.001, rekognitionCall: 0, llmPromptPer1M: 0, llmCompletionPer1M: 0 }),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key');
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.costs?.firecrawlCredits).toBe(6);
+    expect(result.costs?.prices.firecrawlCredit).toBe(0.001);
+    expect(state.costs.firecrawlCredits).toBe(0);
+  });
+
+  it('should skip ASINs beyond the per-run cap', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({ success: false, error: 'Parse error', creditsUsed: 1 });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      costs: createCostLedger(undefined, { maxAsins: 2 }),
+      errors: [],
+    };
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const promise = scrapeListings(state, 'test-api-key');
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(2);
+    expect(result.errors?.[0]).toEqual({
+      step: 'firecrawl',
+      message: 'ASIN cap reached (3 ASINs > 2 allowed), skipped scraping US:B0TEST3',
+      category: 'budget',
+    });
+    // Capped ASINs are not counted as failed scrapes
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Scraped 0/2 listings'));
+    log.mockRestore();
+  });
+
+  it('should stop scraping when the Firecrawl credit cap is reached', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({ success: false, error: 'Parse error', creditsUsed: 5 });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      costs: createCostLedger(undefined, { maxFirecrawlCredits: 8 }),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key');
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(2);
+    const budgetError = result.errors?.find(e => e.category === 'budget');
+    expect(budgetError?.message).toContain('Firecrawl credit cap reached (10 used + 1 needed > 8 allowed)');
+    expect(budgetError?.message).toContain('skipped scraping US:B0TEST3');
+  });
+
+  it('should scrape concurrently and keep results in sheet order', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    let inFlight = 0;
+    let maxInFlight = 0;
+    // Earlier ASINs take longer, so they finish last
+    (scrapeAndParseAmazon as any).mockImplementation(async (asin: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10000 - Number(asin.slice(-1)) * 1000));
+      inFlight--;
+      return asin === 'B0TEST2'
+        ? { success: false, error: 'Parse error', creditsUsed: 1 }
+        : { success: true, data: { asin, title: `Product ${asin}` }, creditsUsed: 1 };
+    });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3', 'US:B0TEST4'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key', { concurrency: 3, requestsPerMinute: 600 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(maxInFlight).toBe(3);
+    expect(Array.from(result.scrapedListings!.keys())).toEqual(['US:B0TEST1', 'US:B0TEST3', 'US:B0TEST4']);
+    expect(result.errors).toEqual([{ step: 'firecrawl', asin: 'US:B0TEST2', message: 'Parse error' }]);
+    expect(result.costs?.firecrawlCredits).toBe(4);
+  });
+
+  it('should reserve credits for in-flight scrapes against the credit cap', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockImplementation(async (asin: string) => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return { success: true, data: { asin, title: `Product ${asin}` }, creditsUsed: 1 };
+    });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2', 'US:B0TEST3', 'US:B0TEST4'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      costs: createCostLedger(undefined, { maxFirecrawlCredits: 2 }),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key', { concurrency: 4, requestsPerMinute: 600 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(2);
+    expect(result.costs?.firecrawlCredits).toBe(2);
+    expect(result.errors?.[0].message).toContain('skipped scraping US:B0TEST3, US:B0TEST4');
+  });
+
+  it('should record the error category and pass retry settings', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({
+      success: false,
+      error: 'Failed to scrape Amazon listing: Firecrawl API error (429): Too many requests',
+      errorCategory: 'rate_limited',
+      attempts: 3,
+    });
+
+    const state = {
+      asins: ['US:B0TEST1'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const result = await scrapeListings(state, 'test-api-key', { maxRetries: 2 });
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0TEST1', 'test-api-key', { maxRetries: 2, marketplace: 'US' });
+    expect(result.errors).toEqual([{
+      step: 'firecrawl',
+      asin: 'US:B0TEST1',
+      message: 'Failed to scrape Amazon listing: Firecrawl API error (429): Too many requests',
+      category: 'rate_limited',
+    }]);
+  });
+
+  it('should re-scrape robot check pages up to the configured retries', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    const captcha = {
+      success: false,
+      error: 'Amazon served a robot check (captcha) instead of the listing',
+      failureReason: 'captcha',
+      errorCategory: 'blocked',
+      creditsUsed: 1,
+    };
+    (scrapeAndParseAmazon as any)
+      .mockResolvedValueOnce(captcha)
+      .mockResolvedValueOnce({ success: true, data: { asin: 'B0TEST1', title: 'Product 1' }, creditsUsed: 1 })
+      .mockResolvedValue(captcha);
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key', { blockedRetries: 1 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(4);
+    expect(result.scrapedListings?.has('US:B0TEST1')).toBe(true);
+    expect(result.costs?.firecrawlCredits).toBe(4);
+    expect(result.errors).toEqual([expect.objectContaining({ asin: 'US:B0TEST2', category: 'blocked' })]);
+  });
+
+  it('should flag dog pages without re-scraping', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({
+      success: false,
+      error: 'Amazon served a "page not found" page; the ASIN may be invalid or removed',
+      failureReason: 'not_found',
+      errorCategory: 'not_found',
+      creditsUsed: 1,
+    });
+
+    const state = {
+      asins: ['US:B0GONE'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const result = await scrapeListings(state, 'test-api-key', { blockedRetries: 3 });
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual([expect.objectContaining({ step: 'firecrawl', asin: 'US:B0GONE', category: 'not_found' })]);
+  });
+
+  it('should scrape each ASIN on its marketplace', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({ success: true, data: { title: 'Test Product' }, creditsUsed: 1 });
+
+    const state = {
+      asins: ['DE:B0TEST1', 'US:B0TEST2'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key');
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0TEST1', 'test-api-key', expect.objectContaining({ marketplace: 'DE' }));
+    expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0TEST2', 'test-api-key', expect.objectContaining({ marketplace: 'US' }));
+  });
+
+  it('should scrape the same ASIN once per marketplace', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockImplementation(async (asin: string, _apiKey: string, options: { marketplace: string }) => ({
+      success: true,
+      data: { asin, title: `Product ${options.marketplace}`, marketplace: options.marketplace },
+      creditsUsed: 1,
+    }));
+
+    const state = {
+      asins: ['UK:B0TEST1', 'DE:B0TEST1'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key');
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(2);
+    expect(result.scrapedListings?.get('UK:B0TEST1')?.title).toBe('Product UK');
+    expect(result.scrapedListings?.get('DE:B0TEST1')?.title).toBe('Product DE');
+  });
+
+  it('should keep low-confidence listings but flag them in errors', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockImplementation(async (asin: string) => ({
+      success: true,
+      data: {
+        asin,
+        title: `Product ${asin}`,
+        confidence: asin === 'B0SHAKY' ? 0.3 : 0.9,
+        provenance: {
+          title: 'first_long_line',
+          price: 'missing',
+          rating: 'missing',
+          reviewCount: 'missing',
+          bullets: 'markdown_list',
+          description: 'missing',
+          images: 'url_scan',
+        },
+      },
+      creditsUsed: 1,
+    }));
+
+    const state = {
+      asins: ['US:B0GOOD', 'US:B0SHAKY'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [],
+    };
+
+    const promise = scrapeListings(state, 'test-api-key', { minConfidence: 0.6 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.scrapedListings?.size).toBe(2);
+    expect(result.errors).toEqual([{
+      step: 'firecrawl',
+      asin: 'US:B0SHAKY',
+      message: expect.stringContaining('Low parse confidence (confidence 0.30: title guessed from the first long line, price not found'),
+      category: 'low_confidence',
+    }]);
+  });
+
+  describe('variation expansion', () => {
+    const variations = {
+      parentAsin: 'B0PARENT01',
+      dimensions: ['Color'],
+      children: [
+        { asin: 'B0PARENT', values: { Color: 'Black' }, price: 6.49, available: true },
+        { asin: 'B0CHILDBLU', values: { Color: 'Blue' }, price: 7.99, available: true },
+        { asin: 'B0CHILDRED', values: { Color: 'Red' }, price: null, available: false },
+        { asin: 'B0CHILDGRN', values: { Color: 'Green' }, price: 6.99, available: true },
+      ],
+    };
+
+    const mockListings = async () => {
+      const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+      (scrapeAndParseAmazon as any).mockImplementation(async (asin: string) => ({
+        success: true,
+        data: { asin, title: `Product ${asin}`, ...(asin === 'B0PARENT' && { variations }) },
+        creditsUsed: 1,
+      }));
+      return scrapeAndParseAmazon;
+    };
+
+    it('should not expand variations by default', async () => {
+      const scrapeAndParseAmazon = await mockListings();
+
+      const promise = scrapeListings({ asins: ['US:B0PARENT'], scrapedListings: new Map(), imageAnalysis: new Map(), errors: [] }, 'test-api-key');
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(scrapeAndParseAmazon).toHaveBeenCalledTimes(1);
+      expect(result.asins).toBeUndefined();
+    });
+
+    it('should scrape available children on the parent marketplace and add them to its groups', async () => {
+      const scrapeAndParseAmazon = await mockListings();
+
+      const state = {
+        asins: ['US:B0OWN', 'UK:B0PARENT'],
+        groups: [{ name: 'Sleeves', ownAsins: ['US:B0OWN'], competitorAsins: ['UK:B0PARENT'] }],
+        scrapedListings: new Map(),
+        imageAnalysis: new Map(),
+        errors: [],
+      };
+
+      const promise = scrapeListings(state, 'test-api-key', { expandVariations: 5 });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.asins).toEqual(['US:B0OWN', 'UK:B0PARENT', 'UK:B0CHILDBLU', 'UK:B0CHILDGRN']);
+      expect(result.scrapedListings?.size).toBe(4);
+      expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0CHILDBLU', 'test-api-key', expect.objectContaining({ marketplace: 'UK' }));
+      expect(result.groups).toEqual([{ name: 'Sleeves', ownAsins: ['US:B0OWN'], competitorAsins: ['UK:B0PARENT', 'UK:B0CHILDBLU', 'UK:B0CHILDGRN'] }]);
+      expect(state.groups[0].competitorAsins).toEqual(['UK:B0PARENT']);
+    });
+
+    it('should limit children per parent and count them towards the ASIN cap', async () => {
+      await mockListings();
+
+      const state = {
+        asins: ['US:B0PARENT'],
+        scrapedListings: new Map(),
+        imageAnalysis: new Map(),
+        costs: createCostLedger(undefined, { maxAsins: 2 }),
+        errors: [],
+      };
+
+      const promise = scrapeListings(state, 'test-api-key', { expandVariations: 5 });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.asins).toEqual(['US:B0PARENT', 'US:B0CHILDBLU']);
+      expect(result.errors).toEqual([{ step: 'firecrawl', message: expect.stringContaining('skipped variation children US:B0CHILDGRN'), category: 'budget' }]);
+    });
+  });
+
+  describe('extraction rules', () => {
+    let rulesDir: string;
+
+    beforeEach(async () => {
+      rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+      const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+      (scrapeAndParseAmazon as any).mockResolvedValue({ success: true, data: { asin: 'B0TEST', title: 'Test Product' }, creditsUsed: 1 });
+    });
+
+    afterEach(() => {
+      fs.rmSync(rulesDir, { recursive: true, force: true });
+    });
+
+    it('should parse with the rules file', async () => {
+      const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+      const rulesPath = path.join(rulesDir, 'rules.json');
+      fs.writeFileSync(rulesPath, JSON.stringify({ version: '2024-06-hotfix', rules: { titleHeadingExcludes: ['Sponsored'] } }));
+
+      const promise = scrapeListings({ asins: ['US:B0TEST'], scrapedListings: new Map(), imageAnalysis: new Map(), errors: [] }, 'test-api-key', { rulesPath });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0TEST', 'test-api-key', expect.objectContaining({
+        rules: { version: '2024-06-hotfix', rules: { titleHeadingExcludes: ['Sponsored'] } },
+      }));
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should report an invalid rules file and parse with the built-in rules', async () => {
+      const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+      const rulesPath = path.join(rulesDir, 'rules.json');
+      fs.writeFileSync(rulesPath, JSON.stringify({ rules: { rating: [{ pattern: '(', source: 'stars_text' }] } }));
+
+      const promise = scrapeListings({ asins: ['US:B0TEST'], scrapedListings: new Map(), imageAnalysis: new Map(), errors: [] }, 'test-api-key', { rulesPath });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(scrapeAndParseAmazon).toHaveBeenCalledWith('B0TEST', 'test-api-key', expect.not.objectContaining({ rules: expect.anything() }));
+      expect(result.scrapedListings?.size).toBe(1);
+      expect(result.errors).toEqual([{
+        step: 'firecrawl',
+        message: expect.stringMatching(/^Invalid extraction rules in .*rules\.json: version must be a non-empty string; rules\.rating\[0\]\.pattern/),
+      }]);
+    });
+  });
+
+  it('should scrape with the configured backend and its fallbacks', async () => {
+    const { scrapeAndParseAmazon } = await import('../../src/lib/firecrawl-amazon.js');
+    (scrapeAndParseAmazon as any).mockResolvedValue({
+      success: true,
+      data: { asin: 'B0TEST', title: 'Test Product', price: 10.99, rating: 4.5, reviewCount: 100, bullets: [], description: '', images: [], parsedAt: '2024-01-01T00:00:00.000Z' },
+      creditsUsed: 0,
+      scraper: 'http',
+    });
+
+    const promise = scrapeListings(
+      { asins: ['US:B0TEST'], scrapedListings: new Map(), imageAnalysis: new Map(), errors: [] },
+      '',
+      {},
+      { backend: 'firecrawl-self-hosted', fallbacks: ['http'], firecrawlBaseUrl: 'http://firecrawl.internal:3002' }
+    );
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    const [, , options] = (scrapeAndParseAmazon as any).mock.calls[0];
+    expect(options.scrapers.map((scraper: { name: string }) => scraper.name)).toEqual(['firecrawl-self-hosted', 'http']);
+    expect(result.scrapedListings?.size).toBe(1);
+  });
 });
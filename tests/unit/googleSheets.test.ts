@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { readAsinsFromSheet } from '../../src/nodes/googleSheets.js';
+import { readAsinsFromSheet, parseSheetRows } from '../../src/nodes/googleSheets.js';
 import { sampleWorkflowState } from '../fixtures/amazon-sample.js';
 import { mockGoogleSheetsData } from '../mocks/google.js';
 
@@ -64,7 +64,7 @@ describe('readAsinsFromSheet', () => {
     );
 
     expect(result.asins).toBeDefined();
-    expect(result.asins?.every(asin => /^B[0-9A-Z]{9}$/i.test(asin))).toBe(true);
+    expect(result.asins?.every(key => /^US:B[0-9A-Z]{9}$/i.test(key))).toBe(true);
     expect(result.asins?.includes('INVALID')).toBe(false);
   });
 
@@ -174,7 +174,88 @@ describe('readAsinsFromSheet', () => {
 
     expect(mockSheets.spreadsheets.values.get).toHaveBeenCalledWith({
       spreadsheetId: 'my-sheet-id',
-      range: 'A:A',
+      range: 'A:D',
     });
   });
 });
+
+describe('parseSheetRows', () => {
+  it('should build competitor groups from group and role columns', () => {
+    const { asins, groups } = parseSheetRows([
+      ['ASIN', 'Group', 'Role'],
+      ['B0OWN00001', 'Binders', 'own'],
+      ['B0COMP0001', 'Binders', 'competitor'],
+      ['b0comp0002', 'Binders', ''],
+      ['B0OWN00002', 'Sleeves', 'OWN'],
+      ['B0COMP0003', 'Sleeves'],
+    ]);
+
+    expect(asins).toEqual(['US:B0OWN00001', 'US:B0COMP0001', 'US:B0COMP0002', 'US:B0OWN00002', 'US:B0COMP0003']);
+    expect(groups).toEqual([
+      { name: 'Binders', ownAsins: ['US:B0OWN00001'], competitorAsins: ['US:B0COMP0001', 'US:B0COMP0002'] },
+      { name: 'Sleeves', ownAsins: ['US:B0OWN00002'], competitorAsins: ['US:B0COMP0003'] },
+    ]);
+  });
+
+  it('should keep ungrouped ASINs in the flat list only', () => {
+    const { asins, groups } = parseSheetRows([
+      ['ASIN'],
+      ['B0TESTSKU1'],
+      ['B0TESTSKU2', 'Binders', 'own'],
+    ]);
+
+    expect(asins).toEqual(['US:B0TESTSKU1', 'US:B0TESTSKU2']);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].ownAsins).toEqual(['US:B0TESTSKU2']);
+  });
+
+  it('should allow one ASIN to appear in several groups', () => {
+    const { asins, groups } = parseSheetRows([
+      ['ASIN', 'Group', 'Role'],
+      ['B0COMP0001', 'Binders', 'competitor'],
+      ['B0COMP0001', 'Portfolios', 'competitor'],
+    ]);
+
+    expect(asins).toEqual(['US:B0COMP0001']);
+    expect(groups.map(g => g.name)).toEqual(['Binders', 'Portfolios']);
+  });
+
+  it('should read each ASIN marketplace with a default for blank cells', () => {
+    const { asins, invalidRows } = parseSheetRows([
+      ['ASIN', 'Group', 'Role', 'Marketplace'],
+      ['B0TESTSKU1', '', '', 'UK'],
+      ['B0TESTSKU2', 'Binders', 'own', 'amazon.de'],
+      ['B0TESTSKU3'],
+    ], 'CA');
+
+    expect(asins).toEqual(['UK:B0TESTSKU1', 'DE:B0TESTSKU2', 'CA:B0TESTSKU3']);
+    expect(invalidRows).toEqual([]);
+  });
+
+  it('should skip rows with an unknown marketplace', () => {
+    const { asins, invalidRows } = parseSheetRows([
+      ['ASIN', 'Group', 'Role', 'Marketplace'],
+      ['B0TESTSKU1', '', '', 'Narnia'],
+      ['B0TESTSKU2', '', '', 'UK'],
+    ]);
+
+    expect(asins).toEqual(['UK:B0TESTSKU2']);
+    expect(invalidRows).toEqual(['B0TESTSKU1: unknown marketplace "Narnia"']);
+  });
+
+  it('should track the same ASIN once per marketplace', () => {
+    const { asins, groups, invalidRows } = parseSheetRows([
+      ['ASIN', 'Group', 'Role', 'Marketplace'],
+      ['B0TESTSKU2', 'Binders UK', 'own', 'UK'],
+      ['B0TESTSKU2', 'Binders DE', 'own', 'DE'],
+      ['B0TESTSKU2', 'Binders UK', 'own', 'UK'],
+    ]);
+
+    expect(asins).toEqual(['UK:B0TESTSKU2', 'DE:B0TESTSKU2']);
+    expect(groups).toEqual([
+      { name: 'Binders UK', ownAsins: ['UK:B0TESTSKU2'], competitorAsins: [] },
+      { name: 'Binders DE', ownAsins: ['DE:B0TESTSKU2'], competitorAsins: [] },
+    ]);
+    expect(invalidRows).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for competitor group comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareGroup } from '../../src/lib/group-comparison.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+const makeGroupListing = (asin: string, price: number, imageCount: number, bullets: string[]) => makeListing({
+  asin,
+  title: `Product ${asin}`,
+  price,
+  bullets,
+  images: Array.from({ length: imageCount }, (_, i) => ({
+    url: `https://m.media-amazon.com/images/I/${asin}${i}.jpg`,
+    type: 'secondary' as const,
+    position: i + 1,
+  })),
+});
+
+const listings = new Map([
+  ['US:B0OWN00001', makeGroupListing('B0OWN00001', 24.99, 5, ['Holds 216 toploader cards securely', 'Zipper closure keeps dust out'])],
+  ['US:B0COMP0001', makeGroupListing('B0COMP0001', 19.99, 7, ['Holds 360 toploader cards', 'Waterproof zipper closure', 'Acid-free pockets'])],
+  ['US:B0COMP0002', makeGroupListing('B0COMP0002', 29.99, 9, ['Waterproof shell protects toploader cards', 'Acid-free archival pages'])],
+]);
+
+const group = {
+  name: 'Toploader Binders',
+  ownAsins: ['US:B0OWN00001'],
+  competitorAsins: ['US:B0COMP0001', 'US:B0COMP0002'],
+};
+
+describe('compareGroup', () => {
+  it('should compute price positioning against competitors', () => {
+    const metrics = compareGroup(group, listings);
+
+    expect(metrics.group).toBe('Toploader Binders');
+    expect(metrics.pricePositioning).toEqual({
+      currency: 'USD',
+      ownPrice: 24.99,
+      competitorMin: 19.99,
+      competitorMax: 29.99,
+      competitorAverage: 24.99,
+      ownPriceRank: 2,
+      position: 'within',
+    });
+  });
+
+  it('should compute image count gap', () => {
+    const metrics = compareGroup(group, listings);
+
+    expect(metrics.imageCount).toEqual({ own: 5, competitorAverage: 8, gap: -3 });
+  });
+
+  it('should report bullet terms competitors share that own listing misses', () => {
+    const metrics = compareGroup(group, listings);
+
+    expect(metrics.bulletCoverage.missingTerms).toContain('waterproof');
+    expect(metrics.bulletCoverage.missingTerms).toContain('acid-free');
+    expect(metrics.bulletCoverage.missingTerms).not.toContain('toploader');
+    expect(metrics.bulletCoverage.coveragePercent).toBeGreaterThan(0);
+    expect(metrics.bulletCoverage.coveragePercent).toBeLessThan(100);
+  });
+
+  it('should fall back to unknown when own listing was not scraped', () => {
+    const metrics = compareGroup({ ...group, ownAsins: ['US:B0MISSING1'] }, listings);
+
+    expect(metrics.pricePositioning.position).toBe('unknown');
+    expect(metrics.pricePositioning.ownPrice).toBeNull();
+    expect(metrics.imageCount.gap).toBeNull();
+    expect(metrics.bulletCoverage.coveragePercent).toBeNull();
+    expect(metrics.bulletCoverage.missingTerms).toEqual([]);
+  });
+
+  it('should ignore missing prices', () => {
+    const withMissingPrice = new Map(listings);
+    withMissingPrice.set('US:B0COMP0001', makeGroupListing('B0COMP0001', 0, 7, []));
+
+    const metrics = compareGroup(group, withMissingPrice);
+
+    expect(metrics.pricePositioning.competitorMin).toBe(29.99);
+    expect(metrics.pricePositioning.position).toBe('below');
+    expect(metrics.pricePositioning.ownPriceRank).toBe(1);
+  });
+
+  it('should compare prices in the listings currency', () => {
+    const inPounds = new Map(Array.from(listings.entries()).map(([asin, listing]) => [asin, { ...listing, currency: 'GBP' }]));
+
+    const metrics = compareGroup(group, inPounds);
+
+    expect(metrics.pricePositioning.currency).toBe('GBP');
+    expect(metrics.pricePositioning.position).toBe('within');
+  });
+
+  it('should not compare prices across currencies', () => {
+    const mixed = new Map(listings);
+    mixed.set('US:B0COMP0001', { ...makeGroupListing('B0COMP0001', 17.99, 7, []), currency: 'EUR' });
+
+    const metrics = compareGroup(group, mixed);
+
+    expect(metrics.pricePositioning.currency).toBeNull();
+    expect(metrics.pricePositioning.ownPrice).toBeNull();
+    expect(metrics.pricePositioning.competitorMin).toBeNull();
+    expect(metrics.pricePositioning.position).toBe('unknown');
+  });
+});
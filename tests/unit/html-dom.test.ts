@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the HTML parser and selector engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  nextElementSibling,
+  parseHtml,
+  parseSelector,
+  matches,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  toMarkdown,
+} from '../../src/lib/html-dom.js';
+
+describe('parseHtml', () => {
+  it('should read a section up to its own closing tag', () => {
+    const document = parseHtml('<div id="outer"><div>inner</div><span>after</span></div><span>outside</span>');
+
+    const outer = querySelector(document, '#outer')!;
+    expect(textContent(outer)).toBe('inner\nafter');
+  });
+
+  it('should decode entities in text and attribute values', () => {
+    const document = parseHtml('<a title="Toys &amp; Games">Cards &rsaquo; Sleeves</a>');
+
+    const link = querySelector(document, 'a')!;
+    expect(link.attributes.title).toBe('Toys & Games');
+    expect(textContent(link)).toBe('Cards › Sleeves');
+  });
+
+  it('should not nest void and self-closing elements', () => {
+    const document = parseHtml('<div><img src="a.jpg"><br/><span>text</span></div>');
+
+    expect(querySelectorAll(document, 'div > span')).toHaveLength(1);
+    expect(querySelector(document, 'img')!.children).toEqual([]);
+  });
+
+  it('should close unclosed list items and table cells', () => {
+    const document = parseHtml('<ul><li>one<li>two</ul><table><tr><td>a<td>b<tr><td>c</table>');
+
+    expect(querySelectorAll(document, 'ul > li').map(li => textContent(li))).toEqual(['one', 'two']);
+    expect(querySelectorAll(document, 'tr')).toHaveLength(2);
+    expect(querySelectorAll(document, 'tr > td').map(td => textContent(td))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep markup inside scripts as text', () => {
+    const document = parseHtml('<script>var x = "<div id=\'fake\'></div>";</script><div id="real"></div>');
+
+    expect(querySelector(document, '#fake')).toBeNull();
+    expect(querySelector(document, '#real')).not.toBeNull();
+  });
+
+  it('should ignore stray closing tags and comments', () => {
+    const document = parseHtml('<div id="a"></span><!-- <div id="b"> --><p>text</p></div>');
+
+    expect(querySelector(document, '#b')).toBeNull();
+    expect(textContent(querySelector(document, '#a')!)).toBe('text');
+  });
+  it('should parse and walk thousands of unclosed nested tags', () => {
+    const document = parseHtml(`<div id="deep">${'<b><i>'.repeat(5000)}deep text</div><p>after</p>`);
+
+    const deep = querySelector(document, '#deep')!;
+    expect(querySelectorAll(deep, 'b i')).toHaveLength(5000);
+    expect(querySelector(document, 'i > b > i')).not.toBeNull();
+    expect(textContent(deep)).toBe('deep text');
+    expect(toMarkdown(document)).toBe('deep text\nafter');
+  });
+});
+
+describe('selectors', () => {
+  const document = parseHtml(`
+    <div id="main" class="a-section bucket" data-role="main-block">
+      <ul><li><span class="a-list-item first">One</span></li></ul>
+      <span class="a-list-item">Two</span>
+    </div>
+  `);
+
+  it('should match tag, id, class and attribute conditions', () => {
+    expect(querySelectorAll(document, 'span.a-list-item')).toHaveLength(2);
+    expect(querySelectorAll(document, '.a-list-item.first')).toHaveLength(1);
+    expect(querySelectorAll(document, 'div#main')).toHaveLength(1);
+    expect(querySelectorAll(document, '[data-role]')).toHaveLength(1);
+    expect(querySelectorAll(document, '[data-role="main-block"]')).toHaveLength(1);
+    expect(querySelectorAll(document, '[data-role*="block"]')).toHaveLength(1);
+    expect(querySelectorAll(document, '[data-role^="main"]')).toHaveLength(1);
+    expect(querySelectorAll(document, '[data-role$="block"]')).toHaveLength(1);
+    expect(querySelectorAll(document, '[class~="bucket"]')).toHaveLength(1);
+  });
+
+  it('should distinguish descendant and child combinators', () => {
+    expect(querySelectorAll(document, '#main span')).toHaveLength(2);
+    expect(querySelectorAll(document, '#main > span')).toHaveLength(1);
+    expect(querySelectorAll(document, '#main > ul > li > span').map(el => textContent(el))).toEqual(['One']);
+  });
+
+  it('should return matches of a selector list in document order', () => {
+    expect(querySelectorAll(document, 'span, ul').map(el => el.tag)).toEqual(['ul', 'span', 'span']);
+  });
+
+  it('should scope queries to the root element', () => {
+    const list = querySelector(document, 'ul')!;
+
+    expect(querySelectorAll(list, 'span')).toHaveLength(1);
+    expect(querySelectorAll(list, 'div span')).toHaveLength(0);
+    expect(matches(querySelector(list, 'span')!, 'div span')).toBe(true);
+  });
+
+  it('should reject unsupported selector syntax', () => {
+    expect(() => parseSelector('li:first-child')).toThrow(/Invalid selector/);
+    expect(() => parseSelector('div >')).toThrow(/Invalid selector/);
+    expect(() => parseSelector('div,')).toThrow(/Invalid selector/);
+  });
+});
+
+describe('text and siblings', () => {
+  it('should leave excluded elements out of the text', () => {
+    const section = querySelector(parseHtml('<div><h3>Heading</h3><p>Body <b>text</b></p></div>'), 'div')!;
+
+    expect(textContent(section, element => element.tag === 'h3')).toBe('Body text');
+  });
+
+  it('should find the next element sibling across text', () => {
+    const document = parseHtml('<li><span id="label">Brand :</span> <span id="value">Ultimate Guard</span></li>');
+
+    expect(nextElementSibling(querySelector(document, '#label')!)?.attributes.id).toBe('value');
+    expect(nextElementSibling(querySelector(document, '#value')!)).toBeNull();
+  });
+});
+
+describe('toMarkdown', () => {
+  it('should write headings, list items, table rows and images', () => {
+    const document = parseHtml(`
+      <head><title>Amazon.com: Katana Sleeves</title></head>
+      <h1 id="title"><span id="productTitle"> Katana Sleeves </span></h1>
+      <ul><li><span>Fits standard size cards</span><li><div>Acid-free</div></ul>
+      <table><tr><th>Brand</th><td>Ultimate Guard</td></tr></table>
+      <img src="https://m.media-amazon.com/images/I/71CZ9vJUGxL._AC_SL1500_.jpg" alt="Katana [black]">
+      <img src="data:image/gif;base64,R0lGOD">
+      <script>var title = "not this";</script>
+    `);
+
+    expect(toMarkdown(document)).toBe([
+      '# Katana Sleeves',
+      '* Fits standard size cards',
+      'Acid-free',
+      '| Brand | Ultimate Guard |',
+      '![Katana black](https://m.media-amazon.com/images/I/71CZ9vJUGxL._AC_SL1500_.jpg)',
+    ].join('\n'));
+  });
+});
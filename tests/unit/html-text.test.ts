@@ -0,0 +1,44 @@
+/**
+ * Unit tests for HTML and markdown text helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, escapeHtml, htmlToText, stripMarkdownLinks } from '../../src/lib/html-text.js';
+
+describe('decodeEntities', () => {
+  it('should decode named and numeric entities', () => {
+    expect(decodeEntities('Toys &amp; Games &rsaquo; Cards')).toBe('Toys & Games › Cards');
+    expect(decodeEntities('&#8364;5 &#x2013; &quot;x&quot;')).toBe('€5 – "x"');
+  });
+
+  it('should leave unknown entities alone', () => {
+    expect(decodeEntities('&unknown;')).toBe('&unknown;');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should put block elements on separate lines and drop inline tags', () => {
+    const html = '<ul><li>#1 in <a href="/x">Toys</a></li><li>#5 in <b>Sleeves</b></li></ul>';
+    expect(htmlToText(html)).toBe('#1 in Toys\n#5 in Sleeves');
+  });
+
+  it('should drop scripts, comments and direction marks', () => {
+    const html = '<div><script>var x = 1;</script><!-- note -->Brand \u200f:\u200e <span>Acme</span></div>';
+    expect(htmlToText(html)).toBe('Brand : Acme');
+  });
+});
+
+describe('stripMarkdownLinks', () => {
+  it('should keep link and image text', () => {
+    expect(stripMarkdownLinks('[Toys & Games](https://x) ![logo](https://y.png)')).toBe('Toys & Games logo');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape markup so it reads back as the same text', () => {
+    const text = `<a href="x" title='y'>Toys & Games</a>`;
+
+    expect(escapeHtml(text)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Toys &amp; Games&lt;/a&gt;');
+    expect(decodeEntities(escapeHtml(text))).toBe(text);
+  });
+});
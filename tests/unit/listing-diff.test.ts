@@ -0,0 +1,169 @@
+/**
+ * Unit tests for listing diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffListings, describeListingDiff, getImageBaseId } from '../../src/lib/listing-diff.js';
+import { ParsedAmazonProduct } from '../../src/lib/firecrawl-amazon.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+// The listing the tests diff against
+const katana: Partial<ParsedAmazonProduct> = {
+  title: 'Ultimate Guard Katana Sleeves Standard Size Black (100)',
+  price: 6.49,
+  rating: 4.7,
+  reviewCount: 2347,
+  bullets: [
+    'Premium quality card sleeves designed for standard size trading cards',
+    'Made from acid-free, archival-safe polypropylene material',
+  ],
+  description: 'Protect your valuable trading cards.',
+  images: [
+    { url: 'https://m.media-amazon.com/images/I/71CZ9vJUGxL._AC_SL1500_.jpg', type: 'main', position: 1 },
+    { url: 'https://m.media-amazon.com/images/I/71rR0WKZUSL._AC_SL1500_.jpg', type: 'secondary', position: 2 },
+  ],
+};
+
+const makeKatana = (overrides: Partial<ParsedAmazonProduct> = {}) => makeListing({ ...katana, ...overrides });
+
+describe('diffListings', () => {
+  it('should report no changes for identical listings', () => {
+    const diff = diffListings(makeKatana(), makeKatana(), '2024-01-01');
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.title).toBeUndefined();
+    expect(diff.price).toBeUndefined();
+    expect(diff.bulletsAdded).toEqual([]);
+    expect(diff.imagesAdded).toEqual([]);
+  });
+
+  it('should ignore whitespace and case differences', () => {
+    const current = makeKatana({
+      title: '  ultimate guard katana sleeves   standard size black (100) ',
+      bullets: ['PREMIUM quality card sleeves designed for standard size trading cards', 'Made from acid-free, archival-safe polypropylene material'],
+    });
+
+    expect(diffListings(makeKatana(), current, '2024-01-01').hasChanges).toBe(false);
+  });
+
+  it('should detect a rewritten title', () => {
+    const diff = diffListings(makeKatana(), makeKatana({ title: 'Katana Sleeves 100 Pack' }), '2024-01-01');
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.title).toEqual({
+      before: 'Ultimate Guard Katana Sleeves Standard Size Black (100)',
+      after: 'Katana Sleeves 100 Pack',
+    });
+  });
+
+  it('should compute price delta and percent change', () => {
+    const diff = diffListings(makeKatana({ price: 10 }), makeKatana({ price: 12.5 }), '2024-01-01');
+
+    expect(diff.price).toEqual({ before: 10, after: 12.5, delta: 2.5, percentChange: 25 });
+  });
+
+  it('should not treat a missing price as a change', () => {
+    const diff = diffListings(makeKatana({ price: 6.49 }), makeKatana({ price: 0 }), '2024-01-01');
+
+    expect(diff.price).toBeUndefined();
+  });
+
+  it('should not compare prices across currencies', () => {
+    const diff = diffListings(makeKatana({ price: 10 }), makeKatana({ price: 9, currency: 'EUR' }), '2024-01-01');
+
+    expect(diff.price).toBeUndefined();
+  });
+
+  it('should detect added and removed bullets', () => {
+    const current = makeKatana({
+      bullets: [
+        'Premium quality card sleeves designed for standard size trading cards',
+        'Now with matte finish for easier shuffling',
+      ],
+    });
+
+    const diff = diffListings(makeKatana(), current, '2024-01-01');
+
+    expect(diff.bulletsAdded).toEqual(['Now with matte finish for easier shuffling']);
+    expect(diff.bulletsRemoved).toEqual(['Made from acid-free, archival-safe polypropylene material']);
+  });
+
+  it('should detect new and removed images by base ID regardless of size variant', () => {
+    const current = makeKatana({
+      images: [
+        { url: 'https://m.media-amazon.com/images/I/71CZ9vJUGxL._AC_UL320_.jpg', type: 'main', position: 1 },
+        { url: 'https://m.media-amazon.com/images/I/81NEWIMAGEL._AC_SL1500_.jpg', type: 'secondary', position: 2 },
+      ],
+    });
+
+    const diff = diffListings(makeKatana(), current, '2024-01-01');
+
+    expect(diff.imagesAdded).toEqual(['81NEWIMAGEL']);
+    expect(diff.imagesRemoved).toEqual(['71rR0WKZUSL']);
+  });
+});
+
+describe('diffListings Best Sellers Rank', () => {
+  const withRanks = (ranks: Array<{ rank: number; category: string }>) => makeKatana({
+    details: {
+      bestSellersRanks: ranks,
+      categoryPath: [],
+      brand: null,
+      manufacturer: null,
+      dateFirstAvailable: null,
+      dimensions: null,
+      weight: null,
+      technicalDetails: {},
+    },
+  });
+
+  it('should report rank movement per category', () => {
+    const diff = diffListings(
+      withRanks([{ rank: 1500, category: 'Toys & Games' }, { rank: 12, category: 'Trading Card Sleeves' }]),
+      withRanks([{ rank: 1500, category: 'Toys & Games' }, { rank: 5, category: 'Trading Card Sleeves' }]),
+      '2024-01-01'
+    );
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.bestSellersRanks).toEqual([{ category: 'Trading Card Sleeves', before: 12, after: 5, improvement: 7 }]);
+    expect(describeListingDiff(diff)).toContain('Best Sellers Rank in Trading Card Sleeves #12 → #5 (up 7)');
+  });
+
+  it('should ignore categories missing from either run', () => {
+    const diff = diffListings(
+      makeKatana(),
+      withRanks([{ rank: 5, category: 'Trading Card Sleeves' }]),
+      '2024-01-01'
+    );
+
+    expect(diff.bestSellersRanks).toEqual([]);
+    expect(diff.hasChanges).toBe(false);
+  });
+});
+
+describe('describeListingDiff', () => {
+  it('should render readable change lines', () => {
+    const diff = diffListings(
+      makeKatana({ price: 10 }),
+      makeKatana({ price: 8, bullets: ['Premium quality card sleeves designed for standard size trading cards'] }),
+      '2024-01-01'
+    );
+
+    const lines = describeListingDiff(diff);
+
+    expect(lines).toContain('Price 10.00 → 8.00 (-2.00, -20%)');
+    expect(lines).toContain('Bullet removed: Made from acid-free, archival-safe polypropylene material');
+  });
+
+  it('should name the currency of price changes', () => {
+    const diff = diffListings(makeKatana({ price: 10, currency: 'GBP' }), makeKatana({ price: 8, currency: 'GBP' }), '2024-01-01');
+
+    expect(describeListingDiff(diff)).toContain('Price 10.00 → 8.00 GBP (-2.00, -20%)');
+  });
+});
+
+describe('getImageBaseId', () => {
+  it('should extract base ID from Amazon image URLs', () => {
+    expect(getImageBaseId('https://m.media-amazon.com/images/I/41YxhSU+q9L._AC_SL1500_.jpg')).toBe('41YxhSU+q9L');
+  });
+});
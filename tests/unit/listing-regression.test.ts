@@ -0,0 +1,212 @@
+/**
+ * Regression suite: every listing fixture through the DOM extractor and the parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAmazonListing } from '../../src/lib/firecrawl-amazon.js';
+import { MarketplaceCode } from '../../src/lib/marketplaces.js';
+import { DEFAULT_SELECTOR_RULES, extractDomFields } from '../../src/lib/listing-selectors.js';
+import { parseHtml } from '../../src/lib/html-dom.js';
+import { ListingProvenance } from '../../src/lib/parse-quality.js';
+import {
+  sampleAmazonHTML,
+  sampleAmazonMarkdown,
+  sampleAmazonDEHTML,
+  sampleAmazonDEMarkdown,
+  sampleAmazonJPMarkdown,
+  sampleAmazonDealHTML,
+  sampleAmazonDetailsHTML,
+  sampleAmazonDetailsMarkdown,
+  sampleAmazonVariationsHTML,
+  sampleAmazonReviewsHTML,
+  sampleAmazonContentHTML,
+  sampleAmazonMediaHTML,
+  sampleAmazonNestedMarkupHTML,
+} from '../fixtures/amazon-sample.js';
+
+const KATANA_TITLE = 'Ultimate Guard Katana Sleeves Standard Size Black (100)';
+
+interface RegressionCase {
+  name: string;
+  markdown: string;
+  html: string;
+  marketplace: MarketplaceCode;
+  title: string;
+  bulletCount: number;
+  // Image ID of the main image (null when the page has no images)
+  mainImage: string | null;
+  provenance: Partial<ListingProvenance>;
+}
+
+const cases: RegressionCase[] = [
+  {
+    name: 'classic listing',
+    markdown: sampleAmazonMarkdown,
+    html: sampleAmazonHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 5,
+    mainImage: '71CZ9vJUGxL',
+    provenance: { title: 'product_title', bullets: 'feature_bullets', description: 'description_section', images: 'url_scan' },
+  },
+  {
+    name: 'amazon.de listing',
+    markdown: sampleAmazonDEMarkdown,
+    html: sampleAmazonDEHTML,
+    marketplace: 'DE',
+    title: 'Ultimate Guard Katana Hüllen Standardgröße Schwarz (100)',
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'product_title', bullets: 'missing', images: 'missing' },
+  },
+  {
+    name: 'amazon.co.jp markdown only',
+    markdown: sampleAmazonJPMarkdown,
+    html: '',
+    marketplace: 'JP',
+    title: 'Ultimate Guard カタナ スリーブ スタンダードサイズ ブラック (100枚入り)',
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'markdown_heading', bullets: 'missing' },
+  },
+  {
+    name: 'deal buybox',
+    markdown: '',
+    html: sampleAmazonDealHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'product_title', price: 'buybox' },
+  },
+  {
+    name: 'product details without productTitle',
+    markdown: sampleAmazonDetailsMarkdown,
+    html: sampleAmazonDetailsHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'markdown_heading' },
+  },
+  {
+    name: 'variation twister',
+    markdown: '',
+    html: sampleAmazonVariationsHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'product_title' },
+  },
+  {
+    name: 'review blocks',
+    markdown: '',
+    html: sampleAmazonReviewsHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: null,
+    provenance: { title: 'product_title' },
+  },
+  {
+    name: 'A+ content',
+    markdown: '',
+    html: sampleAmazonContentHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: '81APLUSBNR',
+    provenance: { title: 'product_title', images: 'url_scan' },
+  },
+  {
+    name: 'videos and 360 view',
+    markdown: '',
+    html: sampleAmazonMediaHTML,
+    marketplace: 'US',
+    title: KATANA_TITLE,
+    bulletCount: 0,
+    mainImage: '61SPIN360L',
+    provenance: { title: 'product_title', images: 'url_scan' },
+  },
+  {
+    name: 'nested markup',
+    markdown: '',
+    html: sampleAmazonNestedMarkupHTML,
+    marketplace: 'US',
+    title: 'Ultimate Guard Katana Sleeves & Inner Sleeves Standard Size Black (100)',
+    bulletCount: 3,
+    mainImage: '71MAINHIRES',
+    provenance: { title: 'product_title', bullets: 'feature_bullets', description: 'product_description', images: 'landing_image' },
+  },
+];
+
+describe('listing fixtures', () => {
+  it.each(cases)('should parse the $name fixture', async (fixture) => {
+    const result = await parseAmazonListing(fixture.markdown, fixture.html, 'B0TESTSKU', fixture.marketplace);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.title).toBe(fixture.title);
+    expect(result.data?.bullets).toHaveLength(fixture.bulletCount);
+    expect(result.data?.images.find(img => img.type === 'main')?.url.match(/\/I\/([^.]+)\./)?.[1] ?? null)
+      .toBe(fixture.mainImage);
+    expect(result.data?.provenance).toMatchObject(fixture.provenance);
+  });
+});
+
+describe('nested markup', () => {
+  it('should read every bullet, past the nested sections in feature-bullets', () => {
+    const fields = extractDomFields(parseHtml(sampleAmazonNestedMarkupHTML));
+
+    expect(fields.bullets).toEqual([
+      'Double-sleeve ready: fits standard size cards in an inner sleeve',
+      'Acid-free, PVC-free polypropylene for archival safety',
+      'Matte back with a non-glare finish for shuffling',
+    ]);
+  });
+
+  it('should read the full-size main image instead of the placeholder src', () => {
+    expect(extractDomFields(parseHtml(sampleAmazonNestedMarkupHTML)).mainImageId).toBe('71MAINHIRES');
+  });
+
+  it('should read the description one line per paragraph', () => {
+    expect(extractDomFields(parseHtml(sampleAmazonNestedMarkupHTML)).description).toBe(
+      'Katana Sleeves are made for players who shuffle hard.\nEach box holds 100 sleeves.'
+    );
+  });
+
+  it('should tag images in every nested A+ module, including lazy-loaded ones', async () => {
+    const result = await parseAmazonListing('', sampleAmazonNestedMarkupHTML, 'B0TESTSKU');
+
+    const aplus = result.data?.images.filter(img => img.type === 'aplus').map(img => img.url);
+    expect(aplus).toEqual([
+      expect.stringContaining('81APLUS001'),
+      expect.stringContaining('81APLUS002'),
+    ]);
+  });
+});
+
+describe('selector chains', () => {
+  it('should fall back to the next selector when the first finds nothing', () => {
+    const html = '<div id="title"><span>Katana Sleeves Standard Size Black</span></div>';
+
+    expect(extractDomFields(parseHtml(html)).title).toBe('Katana Sleeves Standard Size Black');
+  });
+
+  it('should skip selectors whose matches yield no value', () => {
+    const html = `
+      <div id="feature-bullets"><ul><li><span class="a-list-item">Short</span></li></ul></div>
+      <div id="productFactsDesktopExpander"><ul><li><span class="a-list-item">Fits standard size trading cards</span></li></ul></div>
+    `;
+
+    expect(extractDomFields(parseHtml(html)).bullets).toEqual(['Fits standard size trading cards']);
+  });
+
+  it('should accept custom rules', () => {
+    const html = '<h2 class="product-name">Katana Sleeves Standard Size Black</h2>';
+    const rules = { ...DEFAULT_SELECTOR_RULES, title: ['h2.product-name'] };
+
+    expect(extractDomFields(parseHtml(html), rules).title).toBe('Katana Sleeves Standard Size Black');
+    expect(extractDomFields(parseHtml(html)).title).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for LLM provider abstraction
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HumanMessage } from '@langchain/core/messages';
+import { createLLMProvider } from '../../src/lib/llm-provider.js';
+
+const { mockInvoke } = vi.hoisted(() => ({ mockInvoke: vi.fn() }));
+
+vi.mock('@langchain/openai', () => ({
+  ChatOpenAI: vi.fn(() => ({ invoke: mockInvoke })),
+  AzureChatOpenAI: vi.fn(() => ({ invoke: mockInvoke })),
+}));
+
+vi.mock('@langchain/anthropic', () => ({
+  ChatAnthropic: vi.fn(() => ({ invoke: mockInvoke })),
+}));
+
+const schema = {
+  name: 'test_schema',
+  schema: { type: 'object', properties: { summary: { type: 'string' } } },
+};
+
+const messages = [new HumanMessage('Analyze this')];
+
+describe('createLLMProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInvoke.mockResolvedValue({ content: '{"summary": "ok"}' });
+  });
+
+  it('should use native JSON schema output for OpenAI', async () => {
+    const { ChatOpenAI } = await import('@langchain/openai');
+
+    const llm = createLLMProvider({ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 1000, apiKey: 'sk-test' });
+    const response = await llm.invokeStructured(messages, schema);
+
+    expect(ChatOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+      modelName: 'gpt-4o-mini',
+      temperature: 0.2,
+      maxTokens: 1000,
+      openAIApiKey: 'sk-test',
+    }));
+    expect(mockInvoke).toHaveBeenCalledWith(messages, {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'test_schema', strict: true, schema: schema.schema },
+      },
+    });
+    expect(response.content).toBe('{"summary": "ok"}');
+  });
+
+  it('should configure Azure OpenAI deployments', async () => {
+    const { AzureChatOpenAI } = await import('@langchain/openai');
+
+    const llm = createLLMProvider({
+      provider: 'azure-openai',
+      model: 'gpt-4o',
+      temperature: 0.7,
+      apiKey: 'azure-key',
+      azureInstanceName: 'my-instance',
+      azureDeploymentName: 'listing-analysis',
+      azureApiVersion: '2024-08-01-preview',
+    });
+    await llm.invokeStructured(messages, schema);
+
+    expect(AzureChatOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+      azureOpenAIApiKey: 'azure-key',
+      azureOpenAIApiInstanceName: 'my-instance',
+      azureOpenAIApiDeploymentName: 'listing-analysis',
+    }));
+    expect(mockInvoke.mock.calls[0][1].response_format.type).toBe('json_schema');
+  });
+
+  it('should point OpenAI-compatible providers at the local base URL', async () => {
+    const { ChatOpenAI } = await import('@langchain/openai');
+
+    const llm = createLLMProvider({ provider: 'openai-compatible', model: 'llama3.1', temperature: 0.7 });
+    await llm.invokeStructured(messages, schema);
+
+    expect(ChatOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+      modelName: 'llama3.1',
+      configuration: { baseURL: 'http://localhost:11434/v1' },
+    }));
+    const [sentMessages, options] = mockInvoke.mock.calls[0];
+    expect(options).toEqual({ response_format: { type: 'json_object' } });
+    expect(sentMessages).toHaveLength(2);
+    expect(sentMessages[1].content).toContain('test_schema');
+  });
+
+  it('should put the schema in the prompt for Anthropic and join text blocks', async () => {
+    const { ChatAnthropic } = await import('@langchain/anthropic');
+    mockInvoke.mockResolvedValue({ content: [{ type: 'text', text: '{"summary":' }, { type: 'text', text: ' "ok"}' }] });
+
+    const llm = createLLMProvider({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest', temperature: 0.7, apiKey: 'sk-ant' });
+    const response = await llm.invokeStructured(messages, schema);
+
+    expect(ChatAnthropic).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'claude-3-5-sonnet-latest',
+      maxTokens: 4096,
+      anthropicApiKey: 'sk-ant',
+    }));
+    expect(mockInvoke.mock.calls[0][0][1].content).toContain('JSON schema');
+    expect(response.content).toBe('{"summary": "ok"}');
+  });
+
+  it('should report token usage from usage metadata', async () => {
+    mockInvoke.mockResolvedValue({
+      content: '{"summary": "ok"}',
+      usage_metadata: { input_tokens: 1200, output_tokens: 300, total_tokens: 1500 },
+    });
+
+    const llm = createLLMProvider({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest', temperature: 0.7 });
+    const response = await llm.invokeStructured(messages, schema);
+
+    expect(response.usage).toEqual({ promptTokens: 1200, completionTokens: 300 });
+  });
+
+  it('should fall back to legacy token usage metadata', async () => {
+    mockInvoke.mockResolvedValue({
+      content: '{"summary": "ok"}',
+      response_metadata: { tokenUsage: { promptTokens: 800, completionTokens: 200, totalTokens: 1000 } },
+    });
+
+    const llm = createLLMProvider({ provider: 'openai-compatible', model: 'llama3.1', temperature: 0.7 });
+    const response = await llm.invokeStructured(messages, schema);
+
+    expect(response.usage).toEqual({ promptTokens: 800, completionTokens: 200 });
+  });
+
+  it('should leave usage undefined when the provider reports none', async () => {
+    const llm = createLLMProvider({ provider: 'openai', model: 'gpt-4o', temperature: 0.7 });
+    const response = await llm.invokeStructured(messages, schema);
+
+    expect(response.usage).toBeUndefined();
+  });
+
+  it('should fall back to the default model for the provider', () => {
+    const llm = createLLMProvider({ provider: 'openai', model: '', temperature: 0.7 });
+
+    expect(llm.model).toBe('gpt-4o');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for Amazon marketplaces
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseMarketplace,
+  getMarketplace,
+  getListingUrl,
+  getPricePatterns,
+  parseAmount,
+  parseCount,
+  formatPrice,
+  getListingCurrency,
+  toListingKey,
+  parseListingKey,
+  getListingKey,
+} from '../../src/lib/marketplaces.js';
+
+describe('parseMarketplace', () => {
+  it('should accept codes, aliases and domains', () => {
+    expect(parseMarketplace('uk')).toBe('UK');
+    expect(parseMarketplace('GB')).toBe('UK');
+    expect(parseMarketplace('amazon.co.uk')).toBe('UK');
+    expect(parseMarketplace('https://www.amazon.de/')).toBe('DE');
+    expect(parseMarketplace('co.jp')).toBe('JP');
+    expect(parseMarketplace(' CA ')).toBe('CA');
+  });
+
+  it('should reject unsupported marketplaces', () => {
+    expect(parseMarketplace('amazon.com.br')).toBeUndefined();
+    expect(parseMarketplace('XX')).toBeUndefined();
+  });
+});
+
+describe('getListingUrl', () => {
+  it('should build the product URL on the marketplace domain', () => {
+    expect(getListingUrl('B0CJBQ7F5C')).toBe('https://www.amazon.com/dp/B0CJBQ7F5C');
+    expect(getListingUrl('B0CJBQ7F5C', 'DE')).toBe('https://www.amazon.de/dp/B0CJBQ7F5C');
+    expect(getListingUrl('B0CJBQ7F5C', 'JP')).toBe('https://www.amazon.co.jp/dp/B0CJBQ7F5C');
+  });
+});
+
+describe('price patterns', () => {
+  const match = (text: string, code: Parameters<typeof getMarketplace>[0]) => {
+    const marketplace = getMarketplace(code);
+    const amount = getPricePatterns(marketplace)
+      .map(pattern => text.match(new RegExp(pattern, 'i')))
+      .find(Boolean)?.[1];
+    return amount === undefined ? undefined : parseAmount(amount, marketplace);
+  };
+
+  it('should read amounts in each marketplace format', () => {
+    expect(match('$1,299.00', 'US')).toBe(1299);
+    expect(match('12.99 USD', 'US')).toBe(12.99);
+    expect(match('CDN$ 24.99', 'CA')).toBe(24.99);
+    expect(match('£5.49', 'UK')).toBe(5.49);
+    expect(match('1.299,00 €', 'DE')).toBe(1299);
+    expect(match('1 299,00&nbsp;€', 'FR')).toBe(1299);
+    expect(match('€12,50', 'IT')).toBe(12.5);
+    expect(match('￥1,980', 'JP')).toBe(1980);
+    expect(match('1,980円', 'JP')).toBe(1980);
+  });
+
+  it('should ignore other currencies', () => {
+    expect(match('$6.49', 'UK')).toBeUndefined();
+    expect(match('£5.49', 'DE')).toBeUndefined();
+  });
+});
+
+describe('parseCount', () => {
+  it('should strip any thousands separator', () => {
+    expect(parseCount('1,234')).toBe(1234);
+    expect(parseCount('1.234')).toBe(1234);
+    expect(parseCount('1 234')).toBe(1234);
+  });
+});
+
+describe('formatPrice', () => {
+  it('should format prices with the currency symbol', () => {
+    expect(formatPrice(12.5, 'GBP')).toBe('£12.50');
+    expect(formatPrice(8.99, 'EUR')).toBe('€8.99');
+    expect(formatPrice(1980, 'JPY')).toBe('¥1980');
+    expect(formatPrice(6.49)).toBe('$6.49');
+  });
+
+  it('should fall back to the currency code', () => {
+    expect(formatPrice(10, 'SEK')).toBe('10.00 SEK');
+  });
+});
+
+describe('getListingCurrency', () => {
+  it('should treat listings without a currency as USD', () => {
+    expect(getListingCurrency({})).toBe('USD');
+    expect(getListingCurrency({ currency: 'EUR' })).toBe('EUR');
+  });
+});
+
+describe('listing keys', () => {
+  it('should key the same ASIN apart on each marketplace', () => {
+    expect(toListingKey('B0CJBQ7F5C', 'UK')).toBe('UK:B0CJBQ7F5C');
+    expect(toListingKey('B0CJBQ7F5C', 'DE')).toBe('DE:B0CJBQ7F5C');
+    expect(toListingKey('B0CJBQ7F5C')).toBe('US:B0CJBQ7F5C');
+  });
+
+  it('should split a key back into ASIN and marketplace', () => {
+    expect(parseListingKey('DE:B0CJBQ7F5C')).toEqual({ asin: 'B0CJBQ7F5C', marketplace: 'DE' });
+    expect(() => parseListingKey('B0CJBQ7F5C')).toThrow('Invalid listing key "B0CJBQ7F5C"');
+    expect(() => parseListingKey('SE:B0CJBQ7F5C')).toThrow('Invalid listing key');
+  });
+
+  it('should key listings without a marketplace on amazon.com', () => {
+    expect(getListingKey({ asin: 'B0CJBQ7F5C' })).toBe('US:B0CJBQ7F5C');
+    expect(getListingKey({ asin: 'B0CJBQ7F5C', marketplace: 'FR' })).toBe('FR:B0CJBQ7F5C');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for media mix comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareMediaMix } from '../../src/lib/media-mix.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+const makeMediaListing = (asin: string, media?: { videoCount: number; durations: Array<number | null>; has360View: boolean }) => makeListing({
+  asin,
+  title: `Product ${asin}`,
+  images: [
+    { url: 'https://m.media-amazon.com/images/I/71MAIN.jpg', type: 'main', position: 1 },
+    { url: 'https://m.media-amazon.com/images/I/71APLUS.jpg', type: 'aplus', position: 2 },
+  ],
+  ...(media && {
+    media: {
+      videoCount: media.videoCount,
+      videos: media.durations.map(durationSeconds => ({ title: null, thumbnailUrl: null, durationSeconds, source: 'gallery' as const })),
+      has360View: media.has360View,
+    },
+  }),
+});
+
+describe('compareMediaMix', () => {
+  it('should summarize images, videos and 360 views per listing', () => {
+    const mix = compareMediaMix([
+      makeMediaListing('B0OWN', { videoCount: 0, durations: [], has360View: false }),
+      makeMediaListing('B0COMP1', { videoCount: 2, durations: [45, null], has360View: true }),
+      makeMediaListing('B0COMP2', { videoCount: 1, durations: [90], has360View: false }),
+    ]);
+
+    expect(mix.listings[1]).toEqual({
+      asin: 'B0COMP1',
+      marketplace: 'US',
+      imageCount: 2,
+      aplusImageCount: 1,
+      videoCount: 2,
+      videoSeconds: 45,
+      has360View: true,
+    });
+    expect(mix.averageVideoCount).toBe(1);
+    expect(mix.videoPercent).toBe(67);
+    expect(mix.spin360Percent).toBe(33);
+  });
+
+  it('should leave listings parsed before media extraction out of the video stats', () => {
+    const mix = compareMediaMix([
+      makeMediaListing('B0OLD'),
+      makeMediaListing('B0NEW', { videoCount: 1, durations: [], has360View: false }),
+    ]);
+
+    expect(mix.listings[0].videoCount).toBeNull();
+    expect(mix.listings[0].has360View).toBeNull();
+    expect(mix.averageImageCount).toBe(2);
+    expect(mix.videoPercent).toBe(100);
+  });
+
+  it('should return empty stats without listings', () => {
+    expect(compareMediaMix([])).toEqual({
+      listings: [],
+      averageImageCount: null,
+      averageVideoCount: null,
+      videoPercent: null,
+      spin360Percent: null,
+    });
+  });
+});
@@ -4,6 +4,8 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { sendEmail, saveToGoogleDrive } from '../../src/nodes/output.js';
+import { diffListings } from '../../src/lib/listing-diff.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
 
 // Mock nodemailer
 vi.mock('nodemailer', () => ({
@@ -46,9 +48,9 @@ describe('sendEmail', () => {
     (mockTransport.sendMail as any).mockResolvedValue({ messageId: 'test-123' });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test Product',
           price: 10,
@@ -61,10 +63,12 @@ describe('sendEmail', () => {
         }],
       ]),
       imageAnalysis: new Map([
-        ['B0TEST', { asin: 'B0TEST', images: [] }],
+        ['US:B0TEST', { asin: 'B0TEST', images: [] }],
       ]),
       gptAnalysis: {
         summary: 'Test summary',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: ['Insight 1', 'Insight 2'],
         recommendations: ['Rec 1', 'Rec 2'],
         imageQualityAnalysis: 'Good quality',
@@ -90,11 +94,13 @@ describe('sendEmail', () => {
     (mockTransport.sendMail as any).mockResolvedValue({ messageId: 'test-123' });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       gptAnalysis: {
         summary: 'Test summary',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: ['Insight 1'],
         recommendations: ['Rec 1'],
         imageQualityAnalysis: 'Good',
@@ -135,6 +141,8 @@ describe('sendEmail', () => {
       imageAnalysis: new Map(),
       gptAnalysis: {
         summary: 'Test',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: [],
         recommendations: [],
         imageQualityAnalysis: '',
@@ -160,6 +168,8 @@ describe('sendEmail', () => {
       imageAnalysis: new Map(),
       gptAnalysis: {
         summary: 'Test',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: [],
         recommendations: [],
         imageQualityAnalysis: '',
@@ -177,6 +187,90 @@ describe('sendEmail', () => {
     expect(callArgs.html).toContain('firecrawl');
     expect(callArgs.html).toContain('B0BAD');
   });
+
+  it('should escape scraped text in the email body', async () => {
+    const nodemailer = await import('nodemailer');
+    const sendMail = vi.fn().mockResolvedValue({ messageId: 'test-123' });
+    (nodemailer.default.createTransport as any).mockReturnValueOnce({ sendMail });
+
+    const previous = makeListing({ title: 'Katana Sleeves' });
+    const current = makeListing({ title: '<script>alert("pwned")</script> Katana Sleeves' });
+    const report = {
+      summary: 'Test',
+      amazonAIPerception: 'Labels detected',
+      targetAudience: 'Collectors',
+      competitiveInsights: [],
+      recommendations: ['Drop the <img src=x onerror=alert(1)> tag'],
+      imageQualityAnalysis: '',
+      generatedAt: '2024-01-01T00:00:00.000Z',
+    };
+    const state = {
+      asins: ['US:B0TEST'],
+      scrapedListings: new Map([['US:B0TEST', current]]),
+      listingChanges: new Map([['US:B0TEST', diffListings(previous, current, '2024-01-01')]]),
+      imageAnalysis: new Map(),
+      gptAnalysis: report,
+      listingAnalyses: new Map([['US:B0TEST', report]]),
+      errors: [],
+    };
+
+    await sendEmail(state, { user: 'test@gmail.com', password: 'test-password' });
+
+    const { html } = sendMail.mock.calls[0][0];
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(&quot;pwned&quot;)&lt;/script&gt; Katana Sleeves');
+  });
+
+  it('should say the AI analysis was skipped when the analysis step hit a budget cap', async () => {
+    const nodemailer = await import('nodemailer');
+    const sendMail = vi.fn().mockResolvedValue({ messageId: 'test-123' });
+    (nodemailer.default.createTransport as any).mockReturnValueOnce({ sendMail });
+
+    const result = await sendEmail({
+      asins: ['US:B0TEST'],
+      scrapedListings: new Map([['US:B0TEST', makeListing()]]),
+      imageAnalysis: new Map(),
+      errors: [{ step: 'chatgpt', message: 'LLM token cap reached, skipped AI analysis', category: 'budget' }],
+    }, { user: 'test@gmail.com', password: 'test-password' });
+
+    expect(result.emailSent).toBe(true);
+    const { subject, html } = sendMail.mock.calls[0][0];
+    expect(subject).toContain('(partial)');
+    expect(html).toContain('AI analysis was skipped because a run budget cap was reached');
+  });
+
+  it('should report the analysis failure instead of a budget cap when the analysis step failed', async () => {
+    const nodemailer = await import('nodemailer');
+    const sendMail = vi.fn().mockResolvedValue({ messageId: 'test-123' });
+    (nodemailer.default.createTransport as any).mockReturnValueOnce({ sendMail });
+
+    await sendEmail({
+      asins: ['US:B0TEST'],
+      scrapedListings: new Map([['US:B0TEST', makeListing()]]),
+      imageAnalysis: new Map(),
+      errors: [
+        { step: 'rekognition', message: 'Rekognition call cap reached, skipped image analysis for B0TEST', category: 'budget' },
+        { step: 'chatgpt', message: 'API rate limit exceeded' },
+      ],
+    }, { user: 'test@gmail.com', password: 'test-password' });
+
+    const { html } = sendMail.mock.calls[0][0];
+    expect(html).toContain('AI analysis failed (API rate limit exceeded)');
+    expect(html).not.toContain('AI analysis was skipped because a run budget cap was reached');
+  });
+
+  it('should not send a report when there is neither an analysis nor an analysis error', async () => {
+    const result = await sendEmail({
+      asins: ['US:B0TEST'],
+      scrapedListings: new Map(),
+      imageAnalysis: new Map(),
+      errors: [{ step: 'firecrawl', message: 'ASIN cap reached', category: 'budget' }],
+    }, { user: 'test@gmail.com', password: 'test-password' });
+
+    expect(result.emailSent).toBe(false);
+    expect(result.errors?.at(-1)?.message).toBe('No analysis report available to send');
+  });
 });
 
 describe('saveToGoogleDrive', () => {
@@ -196,11 +290,13 @@ describe('saveToGoogleDrive', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map(),
       imageAnalysis: new Map(),
       gptAnalysis: {
         summary: 'Test',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: [],
         recommendations: [],
         imageQualityAnalysis: '',
@@ -244,9 +340,9 @@ describe('saveToGoogleDrive', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test Product',
           price: 10,
@@ -259,10 +355,12 @@ describe('saveToGoogleDrive', () => {
         }],
       ]),
       imageAnalysis: new Map([
-        ['B0TEST', { asin: 'B0TEST', images: [] }],
+        ['US:B0TEST', { asin: 'B0TEST', images: [] }],
       ]),
       gptAnalysis: {
         summary: 'Test',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: [],
         recommendations: [],
         imageQualityAnalysis: '',
@@ -292,6 +390,8 @@ describe('saveToGoogleDrive', () => {
       imageAnalysis: new Map(),
       gptAnalysis: {
         summary: 'Test',
+        amazonAIPerception: 'Labels detected',
+        targetAudience: 'Collectors',
         competitiveInsights: [],
         recommendations: [],
         imageQualityAnalysis: '',
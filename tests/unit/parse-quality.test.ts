@@ -0,0 +1,91 @@
+/**
+ * Unit tests for parse provenance and confidence scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  scoreProvenance,
+  getWeakFields,
+  isLowConfidence,
+  describeParseQuality,
+  ListingProvenance,
+} from '../../src/lib/parse-quality.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+const bestProvenance: ListingProvenance = {
+  title: 'product_title',
+  price: 'buybox',
+  rating: 'stars_text',
+  reviewCount: 'ratings_count',
+  bullets: 'feature_bullets',
+  description: 'description_section',
+  images: 'landing_image',
+};
+
+const makeScoredListing = (provenance?: ListingProvenance) =>
+  makeListing(provenance && { provenance, ...scoreProvenance(provenance) });
+
+describe('scoreProvenance', () => {
+  it('should score a fully extracted listing near 1', () => {
+    expect(scoreProvenance(bestProvenance)).toEqual({ completeness: 1, confidence: 0.99 });
+  });
+
+  it('should score missing fields as 0', () => {
+    const provenance: ListingProvenance = {
+      title: 'missing',
+      price: 'missing',
+      rating: 'missing',
+      reviewCount: 'missing',
+      bullets: 'missing',
+      description: 'missing',
+      images: 'missing',
+    };
+
+    expect(scoreProvenance(provenance)).toEqual({ completeness: 0, confidence: 0 });
+  });
+
+  it('should weigh fallbacks below primary sources', () => {
+    const stray = scoreProvenance({ ...bestProvenance, price: 'stray_match' });
+    const guessedTitle = scoreProvenance({ ...bestProvenance, title: 'first_long_line' });
+
+    expect(stray.completeness).toBe(1);
+    expect(stray.confidence).toBe(0.87);
+    expect(guessedTitle.confidence).toBe(0.82);
+  });
+});
+
+describe('getWeakFields', () => {
+  it('should list missing and unreliable fields', () => {
+    expect(getWeakFields(bestProvenance)).toEqual([]);
+    expect(getWeakFields({ ...bestProvenance, price: 'stray_match', bullets: 'missing', title: 'markdown_heading' }))
+      .toEqual(['price', 'bullets']);
+  });
+});
+
+describe('isLowConfidence', () => {
+  it('should compare against the minimum confidence', () => {
+    const listing = makeScoredListing({ ...bestProvenance, title: 'first_long_line', price: 'missing', bullets: 'missing' });
+
+    expect(listing.confidence).toBe(0.42);
+    expect(isLowConfidence(listing, 0.6)).toBe(true);
+    expect(isLowConfidence(listing, 0.4)).toBe(false);
+  });
+
+  it('should not flag listings without a score', () => {
+    expect(isLowConfidence(makeScoredListing(), 0.6)).toBe(false);
+  });
+});
+
+describe('describeParseQuality', () => {
+  it('should name the weak fields and how they were found', () => {
+    const listing = makeScoredListing({ ...bestProvenance, title: 'first_long_line', price: 'missing', bullets: 'missing' });
+
+    expect(describeParseQuality(listing)).toBe(
+      'confidence 0.42: title guessed from the first long line, price not found, bullets not found'
+    );
+  });
+
+  it('should handle listings without provenance', () => {
+    expect(describeParseQuality(makeScoredListing())).toBe('parse quality unknown');
+  });
+});
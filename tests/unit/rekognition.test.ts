@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { analyzeImages } from '../../src/nodes/rekognition.js';
+import { createCostLedger } from '../../src/lib/cost-ledger.js';
 
 // Mock AWS Rekognition client
 vi.mock('@aws-sdk/client-rekognition', () => ({
@@ -46,9 +47,9 @@ describe('analyzeImages', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test Product',
           price: 10,
@@ -77,8 +78,8 @@ describe('analyzeImages', () => {
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    expect(result.imageAnalysis?.has('B0TEST')).toBe(true);
-    expect(result.imageAnalysis?.get('B0TEST')?.images.length).toBe(2);
+    expect(result.imageAnalysis?.has('US:B0TEST')).toBe(true);
+    expect(result.imageAnalysis?.get('US:B0TEST')?.images.length).toBe(2);
   });
 
   it('should limit to 5 images per listing', async () => {
@@ -92,9 +93,9 @@ describe('analyzeImages', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test Product',
           price: 10,
@@ -124,7 +125,7 @@ describe('analyzeImages', () => {
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    expect(result.imageAnalysis?.get('B0TEST')?.images.length).toBeLessThanOrEqual(5);
+    expect(result.imageAnalysis?.get('US:B0TEST')?.images.length).toBeLessThanOrEqual(5);
   });
 
   it('should extract labels from Rekognition response', async () => {
@@ -141,9 +142,9 @@ describe('analyzeImages', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test',
           price: 10,
@@ -167,7 +168,7 @@ describe('analyzeImages', () => {
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    const analysis = result.imageAnalysis?.get('B0TEST');
+    const analysis = result.imageAnalysis?.get('US:B0TEST');
     expect(analysis?.images[0].labels).toHaveLength(2);
     expect(analysis?.images[0].labels[0].name).toBe('Product');
   });
@@ -176,9 +177,9 @@ describe('analyzeImages', () => {
     (global.fetch as any).mockRejectedValue(new Error('Image not found'));
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test',
           price: 10,
@@ -217,9 +218,9 @@ describe('analyzeImages', () => {
     });
 
     const state = {
-      asins: ['B0TEST'],
+      asins: ['US:B0TEST'],
       scrapedListings: new Map([
-        ['B0TEST', {
+        ['US:B0TEST', {
           asin: 'B0TEST',
           title: 'Test',
           price: 10,
@@ -250,4 +251,38 @@ describe('analyzeImages', () => {
     await vi.runAllTimersAsync();
     await promise;
   });
+
+  it('should skip image analysis when the Rekognition call cap is reached', async () => {
+    const listing = (asin: string) => ({
+      asin,
+      title: 'Test',
+      price: 10,
+      rating: 4.5,
+      reviewCount: 100,
+      bullets: [],
+      description: '',
+      images: [{ url: `https://example.com/${asin}.jpg`, type: 'main' as const, position: 1 }],
+      parsedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    const state = {
+      asins: ['US:B0TEST1', 'US:B0TEST2'],
+      scrapedListings: new Map([['US:B0TEST1', listing('B0TEST1')], ['US:B0TEST2', listing('B0TEST2')]]),
+      imageAnalysis: new Map(),
+      // Fewer calls than one image needs
+      costs: createCostLedger(undefined, { maxRekognitionCalls: 3 }),
+      errors: [],
+    };
+
+    const promise = analyzeImages(state, { region: 'us-east-1' });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.imageAnalysis?.size).toBe(0);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors?.[0]).toMatchObject({ step: 'rekognition', category: 'budget' });
+    expect(result.errors?.[0].message).toContain('Rekognition call cap reached');
+    expect(result.errors?.[0].message).toContain('US:B0TEST1, US:B0TEST2');
+  });
 });
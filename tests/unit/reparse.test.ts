@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the offline re-parse of cached scrapes
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { compareExtractionRules, reparseCachedScrapes } from '../../src/reparse.js';
+import { parseAmazonListing, ParsedAmazonProduct } from '../../src/lib/firecrawl-amazon.js';
+import { saveCachedScrape } from '../../src/lib/scrape-cache.js';
+import { loadRunSnapshots, saveSnapshots } from '../../src/lib/snapshot-store.js';
+import { DEFAULT_EXTRACTION_RULES, ExtractionRules } from '../../src/lib/extraction-rules.js';
+import { ListingKey, MarketplaceCode } from '../../src/lib/marketplaces.js';
+import {
+  sampleAmazonDEHTML,
+  sampleAmazonDEMarkdown,
+  sampleAmazonHTML,
+  sampleAmazonMarkdown,
+  sampleCaptchaHTML,
+  sampleCaptchaMarkdown,
+} from '../fixtures/amazon-sample.js';
+
+const SCRAPE_DATE = '2024-02-01';
+
+const cachePage = (cacheDir: string, asin: string, markdown: string, html: string, marketplace?: MarketplaceCode) => saveCachedScrape(cacheDir, {
+  asin,
+  ...(marketplace && { marketplace }),
+  markdown,
+  html,
+  creditsUsed: 1,
+  scrapedAt: `${SCRAPE_DATE}T10:00:00.000Z`,
+});
+
+const parseSample = async (asin: string): Promise<ParsedAmazonProduct> =>
+  (await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, asin)).data!;
+
+describe('reparseCachedScrapes', () => {
+  let cacheDir: string;
+  let snapshotDir: string;
+  const imageAnalysis = { asin: 'B0CHANGED', images: [{ url: 'https://example.com/1.jpg', labels: [{ name: 'Card', confidence: 99 }] }] };
+
+  beforeEach(async () => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reparse-cache-'));
+    snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reparse-snapshots-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    cachePage(cacheDir, 'B0CHANGED', sampleAmazonMarkdown, sampleAmazonHTML);
+    cachePage(cacheDir, 'B0SAME', sampleAmazonMarkdown, sampleAmazonHTML);
+    cachePage(cacheDir, 'B0BLOCKED', sampleCaptchaMarkdown, sampleCaptchaHTML);
+
+    // Stored snapshots of the same date, one parsed with an older (wrong) price
+    const changed = await parseSample('B0CHANGED');
+    saveSnapshots(
+      snapshotDir,
+      SCRAPE_DATE,
+      new Map<ListingKey, ParsedAmazonProduct>([
+        ['US:B0CHANGED', { ...changed, price: 64.9 }],
+        ['US:B0SAME', await parseSample('B0SAME')],
+      ]),
+      new Map([['US:B0CHANGED', imageAnalysis]])
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+  });
+
+  it('should report changes and failures against the stored snapshots', async () => {
+    const summary = await reparseCachedScrapes({ cacheDir, snapshotDir });
+
+    expect(summary.scrapeDate).toBe(SCRAPE_DATE);
+    expect(Array.from(summary.listings.keys())).toEqual(['US:B0CHANGED', 'US:B0SAME']);
+    expect(summary.changes).toHaveLength(1);
+    expect(summary.changes[0]).toMatchObject({ asin: 'B0CHANGED', price: { before: 64.9, after: 6.49 } });
+    expect(summary.failures).toEqual([{ key: 'US:B0BLOCKED', message: expect.stringContaining('robot check') }]);
+    expect(summary.saved).toBe(0);
+
+    // Without --save the stored snapshots are left alone
+    expect(loadRunSnapshots(snapshotDir, SCRAPE_DATE).get('US:B0CHANGED')?.listing.price).toBe(64.9);
+  });
+
+  it('should rewrite the snapshots and keep their image analysis with save', async () => {
+    const summary = await reparseCachedScrapes({ cacheDir, snapshotDir, scrapeDate: SCRAPE_DATE, save: true });
+
+    expect(summary.saved).toBe(2);
+
+    const snapshots = loadRunSnapshots(snapshotDir, SCRAPE_DATE);
+    expect(snapshots.get('US:B0CHANGED')?.listing.price).toBe(6.49);
+    expect(snapshots.get('US:B0CHANGED')?.imageAnalysis).toEqual(imageAnalysis);
+    expect(snapshots.get('US:B0SAME')?.imageAnalysis).toBeUndefined();
+    expect(snapshots.has('US:B0BLOCKED')).toBe(false);
+  });
+
+  it('should report an empty cache', async () => {
+    const emptyDir = path.join(cacheDir, 'empty');
+
+    const summary = await reparseCachedScrapes({ cacheDir: emptyDir, snapshotDir });
+
+    expect(summary).toEqual({ scrapeDate: undefined, listings: new Map(), failures: [], changes: [], saved: 0 });
+  });
+});
+
+describe('compareExtractionRules', () => {
+  let cacheDir: string;
+
+  // Takes the first bullet for the title, and breaks on German pages
+  const candidate: ExtractionRules = {
+    version: 'next',
+    rules: { selectors: { title: ['#feature-bullets li span.a-list-item'] } },
+    marketplaces: { DE: { description: [{ pattern: '{{unknown}}', source: 'description_section' }] } },
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'compare-rules-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    cachePage(cacheDir, 'B0US', sampleAmazonMarkdown, sampleAmazonHTML);
+    cachePage(cacheDir, 'B0DE', sampleAmazonDEMarkdown, sampleAmazonDEHTML, 'DE');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should report changed listings, one-sided failures and average confidence', async () => {
+    const comparison = await compareExtractionRules({ cacheDir, baseline: DEFAULT_EXTRACTION_RULES, candidate });
+
+    const baselineUS = (await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0US')).data!;
+    const baselineDE = (await parseAmazonListing(sampleAmazonDEMarkdown, sampleAmazonDEHTML, 'B0DE', 'DE')).data!;
+    const candidateUS = (await parseAmazonListing(sampleAmazonMarkdown, sampleAmazonHTML, 'B0US', 'US', candidate)).data!;
+
+    expect(comparison).toMatchObject({ scrapeDate: SCRAPE_DATE, baselineVersion: 'builtin', candidateVersion: 'next', pages: 2 });
+    expect(comparison.changes).toHaveLength(1);
+    expect(comparison.changes[0]).toMatchObject({
+      asin: 'B0US',
+      title: {
+        before: 'Ultimate Guard Katana Sleeves Standard Size Black (100)',
+        after: 'Premium quality card sleeves designed for standard size trading cards',
+      },
+    });
+    expect(comparison.failures).toEqual([{ key: 'DE:B0DE', candidate: 'unknown placeholder {{unknown}}' }]);
+
+    expect(comparison.averageConfidence).toEqual({
+      baseline: Math.round(((baselineUS.confidence! + baselineDE.confidence!) / 2) * 100) / 100,
+      candidate: candidateUS.confidence,
+    });
+  });
+
+  it('should report no changes for the same rules', async () => {
+    const comparison = await compareExtractionRules({
+      cacheDir,
+      scrapeDate: SCRAPE_DATE,
+      baseline: DEFAULT_EXTRACTION_RULES,
+      candidate: { version: 'copy' },
+    });
+
+    expect(comparison.changes).toEqual([]);
+    expect(comparison.failures).toEqual([]);
+    expect(comparison.averageConfidence.candidate).toBe(comparison.averageConfidence.baseline);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for retry with exponential backoff
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getBackoffDelay, withRetry } from '../../src/lib/retry.js';
+
+class TestError extends Error {
+  constructor(public readonly retryable: boolean, public readonly retryAfterMs?: number) {
+    super(retryable ? 'retryable' : 'fatal');
+  }
+}
+
+const retryOptions = {
+  shouldRetry: (error: unknown) => error instanceof TestError && error.retryable,
+  getRetryAfterMs: (error: unknown) => (error as TestError).retryAfterMs,
+};
+
+describe('getBackoffDelay', () => {
+  it('should double the delay per retry', () => {
+    const full = { baseDelayMs: 1000, random: () => 1 };
+
+    expect(getBackoffDelay(1, full)).toBe(1000);
+    expect(getBackoffDelay(2, full)).toBe(2000);
+    expect(getBackoffDelay(3, full)).toBe(4000);
+  });
+
+  it('should jitter between half and the full delay', () => {
+    expect(getBackoffDelay(3, { baseDelayMs: 1000, random: () => 0 })).toBe(2000);
+    expect(getBackoffDelay(3, { baseDelayMs: 1000, random: () => 0.5 })).toBe(3000);
+  });
+
+  it('should cap the delay', () => {
+    expect(getBackoffDelay(10, { baseDelayMs: 1000, maxDelayMs: 5000, random: () => 1 })).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the first successful result', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new TestError(true))
+      .mockResolvedValue('ok');
+
+    const promise = withRetry(fn, { ...retryOptions, maxRetries: 3 });
+    await vi.runAllTimersAsync();
+
+    expect(await promise).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenLastCalledWith(2);
+  });
+
+  it('should rethrow non-retryable errors immediately', async () => {
+    const fn = vi.fn().mockRejectedValue(new TestError(false));
+
+    await expect(withRetry(fn, { ...retryOptions, maxRetries: 3 })).rejects.toThrow('fatal');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the last error when retries are exhausted', async () => {
+    const fn = vi.fn().mockRejectedValue(new TestError(true));
+    const onRetry = vi.fn();
+
+    const promise = withRetry(fn, { ...retryOptions, maxRetries: 2, onRetry }).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    expect(await promise).toBeInstanceOf(TestError);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait for the server-requested delay', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new TestError(true, 8000))
+      .mockResolvedValue('ok');
+
+    const promise = withRetry(fn, { ...retryOptions, maxRetries: 1, baseDelayMs: 100 });
+    await vi.advanceTimersByTimeAsync(7999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await promise).toBe('ok');
+  });
+
+  it('should give up when the server-requested delay exceeds the cap', async () => {
+    const fn = vi.fn().mockRejectedValue(new TestError(true, 120000));
+
+    await expect(withRetry(fn, { ...retryOptions, maxRetries: 3, maxDelayMs: 60000 })).rejects.toThrow('retryable');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
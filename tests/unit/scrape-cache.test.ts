@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the raw scrape cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  saveCachedScrape,
+  getCachedScrape,
+  listScrapeDates,
+  loadCacheIndex,
+  loadCachedScrapes,
+  hashPage,
+} from '../../src/lib/scrape-cache.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const makeScrape = (asin: string, scrapedAt: string, markdown = `# ${asin}`) => ({
+  asin,
+  markdown,
+  html: `<html>${markdown}</html>`,
+  screenshotUrl: 'https://example.com/screenshot.png',
+  creditsUsed: 1,
+  scrapedAt,
+});
+
+describe('scrape cache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should index scrapes by date and round-trip the raw page', () => {
+    const scrape = makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z');
+    const entry = saveCachedScrape(cacheDir, scrape);
+
+    expect(entry.scrapeDate).toBe('2024-02-01');
+    expect(entry.hash).toBe(hashPage(scrape));
+    expect(listScrapeDates(cacheDir)).toEqual(['2024-02-01']);
+    expect(loadCachedScrapes(cacheDir, '2024-02-01').get('US:B0TEST1')).toEqual(scrape);
+  });
+
+  it('should store identical content once', () => {
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z', 'same page'));
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-03-01T10:00:00.000Z', 'same page'));
+    saveCachedScrape(cacheDir, makeScrape('B0TEST2', '2024-03-01T10:00:00.000Z'));
+
+    const objects = fs.readdirSync(path.join(cacheDir, 'objects'), { recursive: true })
+      .filter(name => String(name).endsWith('.json'));
+
+    expect(objects).toHaveLength(2);
+    expect(listScrapeDates(cacheDir)).toEqual(['2024-02-01', '2024-03-01']);
+  });
+
+  it('should keep the last scrape of an ASIN on the same date', () => {
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z', 'first'));
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T12:00:00.000Z', 'second'));
+
+    expect(loadCacheIndex(cacheDir, '2024-02-01').size).toBe(1);
+    expect(loadCachedScrapes(cacheDir, '2024-02-01').get('US:B0TEST1')?.markdown).toBe('second');
+  });
+
+  it('should serve pages younger than the TTL', () => {
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T22:00:00.000Z'));
+    const now = new Date('2024-02-02T08:00:00.000Z');
+
+    expect(getCachedScrape(cacheDir, 'US:B0TEST1', 24 * HOUR, now)?.asin).toBe('B0TEST1');
+    expect(getCachedScrape(cacheDir, 'US:B0TEST1', 6 * HOUR, now)).toBeUndefined();
+    expect(getCachedScrape(cacheDir, 'US:B0TEST1', 0, now)).toBeUndefined();
+    expect(getCachedScrape(cacheDir, 'US:B0OTHER', 24 * HOUR, now)).toBeUndefined();
+  });
+
+  it('should serve the newest scrape across dates', () => {
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z', 'old'));
+    saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-03T10:00:00.000Z', 'new'));
+
+    const cached = getCachedScrape(cacheDir, 'US:B0TEST1', 7 * 24 * HOUR, new Date('2024-02-04T00:00:00.000Z'));
+
+    expect(cached?.markdown).toBe('new');
+  });
+
+  it('should keep the same ASIN scraped on two marketplaces apart', () => {
+    saveCachedScrape(cacheDir, { ...makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z', 'us page') });
+    saveCachedScrape(cacheDir, { ...makeScrape('B0TEST1', '2024-02-01T11:00:00.000Z', 'uk page'), marketplace: 'UK' });
+    const now = new Date('2024-02-01T12:00:00.000Z');
+
+    const scrapes = loadCachedScrapes(cacheDir, '2024-02-01');
+    expect(scrapes.size).toBe(2);
+    expect(scrapes.get('US:B0TEST1')?.markdown).toBe('us page');
+    expect(scrapes.get('UK:B0TEST1')?.markdown).toBe('uk page');
+    expect(getCachedScrape(cacheDir, 'US:B0TEST1', 24 * HOUR, now)?.markdown).toBe('us page');
+    expect(getCachedScrape(cacheDir, 'UK:B0TEST1', 24 * HOUR, now)?.markdown).toBe('uk page');
+    expect(getCachedScrape(cacheDir, 'DE:B0TEST1', 24 * HOUR, now)).toBeUndefined();
+  });
+
+  it('should skip entries whose content is missing', () => {
+    const entry = saveCachedScrape(cacheDir, makeScrape('B0TEST1', '2024-02-01T10:00:00.000Z'));
+    fs.rmSync(path.join(cacheDir, 'objects', entry.hash.slice(0, 2), `${entry.hash}.json`));
+
+    expect(loadCachedScrapes(cacheDir, '2024-02-01').size).toBe(0);
+    expect(getCachedScrape(cacheDir, 'US:B0TEST1', 24 * HOUR, new Date('2024-02-01T11:00:00.000Z'))).toBeUndefined();
+  });
+
+  it('should reject invalid scrape dates', () => {
+    expect(() => loadCacheIndex(cacheDir, '../etc')).toThrow('Invalid scrape date');
+  });
+});
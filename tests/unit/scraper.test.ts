@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the scraper backends and fallbacks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createScraper, createScrapers, Scraper } from '../../src/lib/scraper.js';
+import { FirecrawlError, parseAmazonListing, scrapeAndParseAmazon } from '../../src/lib/firecrawl-amazon.js';
+import { sampleFirecrawlResponse } from '../fixtures/amazon-sample.js';
+
+// Listing page as Amazon serves it, with the rating and price only in the page text
+const listingPage = `
+  <html><head><title>Amazon.com: Katana Sleeves</title></head><body>
+    <h1 id="title"><span id="productTitle">Ultimate Guard Katana Sleeves Standard Size Black (100)</span></h1>
+    <span class="a-icon-alt">4.7 out of 5 stars</span>
+    <span id="acrCustomerReviewText">2,347 ratings</span>
+    <span class="a-price"><span class="a-offscreen">$6.49</span></span>
+    <div id="feature-bullets"><ul>
+      <li><span class="a-list-item">Premium quality card sleeves designed for standard size trading cards</span></li>
+    </ul></div>
+  </body></html>
+`;
+
+function htmlResponse(html: string, status = 200) {
+  return { ok: status < 400, status, text: async () => html, headers: new Headers() };
+}
+
+describe('createScraper', () => {
+  it('should scrape through a self-hosted Firecrawl without credits or a screenshot', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => sampleFirecrawlResponse });
+    global.fetch = mockFetch;
+
+    const scraper = createScraper('firecrawl-self-hosted', { firecrawlBaseUrl: 'http://firecrawl.internal:3002/' });
+    const scraped = await scraper.scrape('B0TESTSKU', 'US');
+
+    expect(mockFetch).toHaveBeenCalledWith('http://firecrawl.internal:3002/v2/scrape', expect.anything());
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toMatchObject({ waitFor: 3000 });
+    expect(JSON.parse(init.body)).not.toHaveProperty('actions');
+    expect(scraped.creditsUsed).toBe(0);
+  });
+
+  it('should fetch the listing page over HTTP and convert it to markdown', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(htmlResponse(listingPage));
+    global.fetch = mockFetch;
+
+    const scraped = await createScraper('http', {}).scrape('B0TESTSKU', 'UK');
+
+    expect(mockFetch).toHaveBeenCalledWith('https://www.amazon.co.uk/dp/B0TESTSKU', expect.objectContaining({
+      headers: expect.objectContaining({ 'User-Agent': expect.stringContaining('Mozilla/5.0') }),
+    }));
+    expect(scraped).toMatchObject({ asin: 'B0TESTSKU', marketplace: 'UK', html: listingPage, creditsUsed: 0 });
+    expect(scraped.markdown).toContain('4.7 out of 5 stars');
+
+    const parsed = await parseAmazonListing(scraped.markdown, scraped.html, 'B0TESTSKU', 'US');
+    expect(parsed.data?.title).toBe('Ultimate Guard Katana Sleeves Standard Size Black (100)');
+    expect(parsed.data?.rating).toBe(4.7);
+    expect(parsed.data?.reviewCount).toBe(2347);
+  });
+
+  it('should classify HTTP failures like Firecrawl errors', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(htmlResponse('<html>dogs of amazon</html>', 404))
+      .mockResolvedValueOnce(htmlResponse('throttled', 503));
+    const scraper = createScraper('http', {});
+
+    await expect(scraper.scrape('B0MISSING', 'US')).rejects.toMatchObject({ category: 'not_found', status: 404 });
+    await expect(scraper.scrape('B0TESTSKU', 'US')).rejects.toMatchObject({ category: 'transient', retryable: true });
+  });
+
+  it('should render the page through a Browserless-compatible endpoint', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(htmlResponse(listingPage));
+    global.fetch = mockFetch;
+
+    const scraper = createScraper('browser', { browserEndpoint: 'https://chrome.example.com', browserToken: 't0k&n' });
+    const scraped = await scraper.scrape('B0TESTSKU', 'DE');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://chrome.example.com/content?token=t0k%26n');
+    expect(JSON.parse(init.body)).toMatchObject({ url: 'https://www.amazon.de/dp/B0TESTSKU' });
+    expect(scraped.markdown).toContain('# Ultimate Guard Katana Sleeves');
+  });
+
+  it('should report an endpoint that rejects the request', async () => {
+    global.fetch = vi.fn().mockResolvedValue(htmlResponse('Unauthorized', 401));
+
+    const scraper = createScraper('browser', { browserEndpoint: 'https://chrome.example.com' });
+
+    await expect(scraper.scrape('B0TESTSKU', 'US')).rejects.toThrow('Browser error (401): Unauthorized');
+  });
+});
+
+describe('createScrapers', () => {
+  it('should create the backend followed by its fallbacks, each once', () => {
+    const scrapers = createScrapers({ backend: 'firecrawl', fallbacks: ['http', 'firecrawl', 'http'], firecrawlApiKey: 'fc-key' });
+
+    expect(scrapers.map(scraper => scraper.name)).toEqual(['firecrawl', 'http']);
+  });
+});
+
+describe('scrapeAndParseAmazon with fallbacks', () => {
+  const failing = (name: Scraper['name'], error: Error): Scraper => ({ name, scrape: vi.fn().mockRejectedValue(error) });
+  const working: Scraper = {
+    name: 'http',
+    scrape: async (asin, marketplace) => ({
+      asin, marketplace, markdown: '', html: listingPage, creditsUsed: 0, scrapedAt: new Date().toISOString(),
+    }),
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fall back to the next backend when one is out of credits', async () => {
+    const firecrawl = failing('firecrawl', new FirecrawlError('request_failed', 'Firecrawl API error (402): Payment required', 402));
+
+    const result = await scrapeAndParseAmazon('B0TESTSKU', 'fc-key', { scrapers: [firecrawl, working], maxRetries: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.scraper).toBe('http');
+    expect(result.creditsUsed).toBe(0);
+    expect(result.attempts).toBe(2);
+  });
+
+  it('should not fall back for a listing that does not exist', async () => {
+    const firecrawl = failing('firecrawl', new FirecrawlError('not_found', 'Amazon returned 404 for B0MISSING', 404));
+    const http = { ...working, scrape: vi.fn(working.scrape) };
+
+    const result = await scrapeAndParseAmazon('B0MISSING', 'fc-key', { scrapers: [firecrawl, http], maxRetries: 0 });
+
+    expect(result).toMatchObject({ success: false, errorCategory: 'not_found', scraper: 'firecrawl' });
+    expect(http.scrape).not.toHaveBeenCalled();
+  });
+
+  it('should report the last backend error when every backend fails', async () => {
+    const result = await scrapeAndParseAmazon('B0TESTSKU', 'fc-key', {
+      scrapers: [
+        failing('firecrawl', new FirecrawlError('request_failed', 'Firecrawl API error (402): Payment required', 402)),
+        failing('browser', new FirecrawlError('request_failed', 'Browser error (401): Unauthorized', 401)),
+      ],
+      maxRetries: 0,
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Failed to scrape Amazon listing: Browser error (401): Unauthorized',
+      errorCategory: 'request_failed',
+      scraper: 'browser',
+      attempts: 2,
+    });
+  });
+});
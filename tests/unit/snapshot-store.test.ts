@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the listing snapshot store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  saveSnapshots,
+  listRunDates,
+  loadRunSnapshots,
+  getPreviousSnapshot,
+  getListingHistory,
+  toRunDate,
+} from '../../src/lib/snapshot-store.js';
+import { makeListing } from '../fixtures/amazon-sample.js';
+
+describe('snapshot store', () => {
+  let storeDir: string;
+
+  beforeEach(() => {
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it('should write one JSON line per listing keyed by run date', () => {
+    const listings = new Map([
+      ['US:B0TEST1', makeListing({ asin: 'B0TEST1' })],
+      ['US:B0TEST2', makeListing({ asin: 'B0TEST2' })],
+    ]);
+    const imageAnalysis = new Map([
+      ['US:B0TEST1', { asin: 'B0TEST1', images: [] }],
+    ]);
+
+    const saved = saveSnapshots(storeDir, '2024-01-01', listings, imageAnalysis);
+
+    expect(saved).toBe(2);
+    const lines = fs.readFileSync(path.join(storeDir, '2024-01-01.jsonl'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const snapshots = loadRunSnapshots(storeDir, '2024-01-01');
+    expect(snapshots.get('US:B0TEST1')?.imageAnalysis).toEqual({ asin: 'B0TEST1', images: [] });
+    expect(snapshots.get('US:B0TEST2')?.imageAnalysis).toBeUndefined();
+  });
+
+  it('should keep the last snapshot when an ASIN is saved twice on the same date', () => {
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 9.99 })]]));
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 12.99 })]]));
+
+    expect(loadRunSnapshots(storeDir, '2024-01-01').get('US:B0TEST1')?.listing.price).toBe(12.99);
+  });
+
+  it('should list run dates oldest first', () => {
+    saveSnapshots(storeDir, '2024-03-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1' })]]));
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1' })]]));
+    fs.writeFileSync(path.join(storeDir, 'notes.txt'), 'ignored');
+
+    expect(listRunDates(storeDir)).toEqual(['2024-01-01', '2024-03-01']);
+  });
+
+  it('should return no run dates for a missing store', () => {
+    expect(listRunDates(path.join(storeDir, 'missing'))).toEqual([]);
+  });
+
+  it('should find the previous snapshot before a run date', () => {
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 8.99 })]]));
+    saveSnapshots(storeDir, '2024-02-01', new Map([['US:B0TEST2', makeListing({ asin: 'B0TEST2' })]]));
+    saveSnapshots(storeDir, '2024-03-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 10.99 })]]));
+
+    const previous = getPreviousSnapshot(storeDir, 'US:B0TEST1', '2024-03-01');
+
+    expect(previous?.runDate).toBe('2024-01-01');
+    expect(previous?.listing.price).toBe(8.99);
+    expect(getPreviousSnapshot(storeDir, 'US:B0TEST1', '2024-01-01')).toBeUndefined();
+  });
+
+  it('should build listing history across runs', () => {
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1', price: 8.99, reviewCount: 50 })]]));
+    saveSnapshots(storeDir, '2024-02-01', new Map([['US:B0TEST1', makeListing({
+      asin: 'B0TEST1',
+      price: 10.99,
+      reviewCount: 75,
+      bullets: ['Only one'],
+      images: [{ url: 'https://example.com/image.jpg', type: 'main', position: 1 }],
+    })]]));
+
+    const history = getListingHistory(storeDir, 'US:B0TEST1');
+
+    expect(history).toHaveLength(2);
+    expect(history.map(h => h.price)).toEqual([8.99, 10.99]);
+    expect(history.map(h => h.reviewCount)).toEqual([50, 75]);
+    expect(history[1].bulletCount).toBe(1);
+    expect(history[1].imageCount).toBe(1);
+    expect(history[1].bestSellersRank).toBeNull();
+  });
+
+  it('should keep the same ASIN on two marketplaces apart', () => {
+    saveSnapshots(storeDir, '2024-01-01', new Map([
+      ['US:B0TEST1', makeListing({ asin: 'B0TEST1', marketplace: 'US', price: 9.99 })],
+      ['UK:B0TEST1', makeListing({ asin: 'B0TEST1', marketplace: 'UK', price: 7.99 })],
+    ]));
+    saveSnapshots(storeDir, '2024-02-01', new Map([
+      ['UK:B0TEST1', makeListing({ asin: 'B0TEST1', marketplace: 'UK', price: 8.49 })],
+    ]));
+
+    const snapshots = loadRunSnapshots(storeDir, '2024-01-01');
+    expect(snapshots.get('US:B0TEST1')?.listing.price).toBe(9.99);
+    expect(snapshots.get('UK:B0TEST1')?.listing.price).toBe(7.99);
+    expect(getPreviousSnapshot(storeDir, 'UK:B0TEST1', '2024-02-01')?.listing.price).toBe(7.99);
+    expect(getListingHistory(storeDir, 'US:B0TEST1').map(h => h.price)).toEqual([9.99]);
+    expect(getListingHistory(storeDir, 'UK:B0TEST1').map(h => h.price)).toEqual([7.99, 8.49]);
+  });
+
+  it('should skip corrupt lines', () => {
+    saveSnapshots(storeDir, '2024-01-01', new Map([['US:B0TEST1', makeListing({ asin: 'B0TEST1' })]]));
+    fs.appendFileSync(path.join(storeDir, '2024-01-01.jsonl'), '{"asin": "B0TES');
+
+    expect(loadRunSnapshots(storeDir, '2024-01-01').size).toBe(1);
+  });
+
+  it('should reject invalid run dates', () => {
+    expect(() => saveSnapshots(storeDir, '../escape', new Map())).toThrow('Invalid run date');
+  });
+
+  it('should format run dates as YYYY-MM-DD', () => {
+    expect(toRunDate(new Date('2024-02-01T15:30:00.000Z'))).toBe('2024-02-01');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for token budgeting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { countTokens, getContextWindow, getPromptBudget, chunkByTokenBudget } from '../../src/lib/token-budget.js';
+
+describe('countTokens', () => {
+  it('should count tokens in text', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('hello world')).toBe(2);
+  });
+
+  it('should grow with text length', () => {
+    const short = countTokens('Premium quality card sleeves');
+    const long = countTokens('Premium quality card sleeves '.repeat(20));
+
+    expect(long).toBeGreaterThan(short * 10);
+  });
+});
+
+describe('getContextWindow', () => {
+  it('should look up known models by prefix', () => {
+    expect(getContextWindow({ model: 'gpt-4o' })).toBe(128000);
+    expect(getContextWindow({ model: 'gpt-4o-mini' })).toBe(128000);
+    expect(getContextWindow({ model: 'gpt-4' })).toBe(8192);
+    expect(getContextWindow({ model: 'claude-3-5-sonnet-latest' })).toBe(200000);
+  });
+
+  it('should fall back to a conservative window for unknown models', () => {
+    expect(getContextWindow({ model: 'llama3.1' })).toBe(8192);
+  });
+
+  it('should prefer a configured context window', () => {
+    expect(getContextWindow({ model: 'llama3.1', contextWindow: 32768 })).toBe(32768);
+  });
+});
+
+describe('getPromptBudget', () => {
+  it('should reserve room for the answer and a safety margin', () => {
+    expect(getPromptBudget({ model: 'gpt-4', maxTokens: 2192 })).toBe(5400);
+    expect(getPromptBudget({ model: 'gpt-4' })).toBe(Math.floor((8192 - 4096) * 0.9));
+  });
+});
+
+describe('chunkByTokenBudget', () => {
+  it('should pack items greedily within the budget', () => {
+    const chunks = chunkByTokenBudget([3, 4, 2, 5, 1], size => size, 7);
+
+    expect(chunks).toEqual([[3, 4], [2, 5], [1]]);
+  });
+
+  it('should give oversized items their own chunk', () => {
+    const chunks = chunkByTokenBudget([2, 10, 2], size => size, 5);
+
+    expect(chunks).toEqual([[2], [10], [2]]);
+  });
+
+  it('should return no chunks for no items', () => {
+    expect(chunkByTokenBudget([], () => 1, 5)).toEqual([]);
+  });
+});
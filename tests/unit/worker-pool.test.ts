@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the worker pool and rate limiter
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRateLimiter, runWithConcurrency } from '../../src/lib/worker-pool.js';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow a burst and then space requests by the refill rate', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 2 });
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    const requests = Array.from({ length: 4 }, () =>
+      limiter.acquire().then(() => startedAt.push(Date.now() - start))
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(requests);
+
+    expect(startedAt).toEqual([0, 0, 1000, 2000]);
+  });
+
+  it('should refill tokens while idle', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 30 });
+
+    await limiter.acquire();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const start = Date.now();
+    await limiter.acquire();
+
+    expect(Date.now() - start).toBe(0);
+  });
+
+  it('should reject non-positive rates', () => {
+    expect(() => createRateLimiter({ requestsPerMinute: 0 })).toThrow('Invalid requestsPerMinute');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setImmediate(resolve));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should return results in item order regardless of completion order', async () => {
+    const results = await runWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should handle empty input', async () => {
+    const worker = vi.fn();
+
+    expect(await runWithConcurrency([], 3, worker)).toEqual([]);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});